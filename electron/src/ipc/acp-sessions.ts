@@ -2,15 +2,27 @@ import { BrowserWindow, ipcMain } from "electron";
 import { spawn, ChildProcess } from "child_process";
 import { Readable, Writable } from "stream";
 import crypto from "crypto";
+import os from "os";
 import path from "path";
 import { log } from "../lib/logger";
 import { safeSend } from "../lib/safe-send";
-import { getAgent } from "../lib/agent-registry";
+import { getAgent, recordAuthentication, updateCapabilities } from "../lib/agent-registry";
 import { getMcpAuthHeaders } from "../lib/mcp-oauth-flow";
 import { extractErrorMessage } from "../lib/error-utils";
+import { buildAcpPrompt, type AcpPromptCapabilities } from "../lib/acp-prompt";
+import { endRecording, recordProtocolMessage, tapMessageStream } from "../lib/protocol-recorder";
+import {
+  createAgentTerminal,
+  disposeAgentTerminals,
+  getAgentTerminalOutput,
+  killAgentTerminal,
+  releaseAgentTerminal,
+  waitForAgentTerminalExit,
+} from "./terminal";
 
 // ACP SDK is ESM-only, must be async-imported
-import type { ClientSideConnection } from "@agentclientprotocol/sdk";
+import type { ClientSideConnection, InitializeResponse, SessionModeState } from "@agentclientprotocol/sdk";
+import type { ACPAgentCapabilities, ACPAuthMethod, ACPHealthCheckResult, ACPHealthCheckStep, ACPPromptContext } from "@shared/types/acp";
 let _acp: typeof import("@agentclientprotocol/sdk") | null = null;
 async function getACP() {
   if (!_acp) _acp = await import("@agentclientprotocol/sdk");
@@ -58,13 +70,32 @@ async function acpWriteTextFile(params: ACPWriteTextFileParams): Promise<{ fileP
   return { filePath };
 }
 
+/** What the renderer sends back for a held write — edited content, or why it was rejected. */
+interface WriteReviewResponse {
+  outcome: { outcome: "selected"; optionId: string } | { outcome: "cancelled" };
+  content?: string;
+  message?: string;
+}
+
+const WRITE_REVIEW_ACCEPT = "write";
+const WRITE_REVIEW_REJECT = "reject";
+// JSON-RPC implementation-defined server error — agents surface the message to the model
+const WRITE_REJECTED_CODE = -32000;
+
 // Advertise only capabilities that are fully implemented here.
-// Intentionally omit `terminal` and any custom `_meta` flags (e.g. terminal_output)
-// so ACP agents use their protocol fallbacks instead of unsupported client RPC paths.
+// Terminals run on node-pty (see ipc/terminal.ts). Custom `_meta` flags (e.g. terminal_output)
+// stay off so ACP agents use their protocol fallbacks instead of unsupported client RPC paths.
 const ACP_CLIENT_CAPABILITIES = {
   fs: { readTextFile: true, writeTextFile: true },
+  terminal: true,
 } as const;
 
+/** Kill an ACP session's terminals and tell the renderer to drop their tabs. */
+function disposeSessionTerminals(getMainWindow: () => BrowserWindow | null, internalId: string): void {
+  disposeAgentTerminals(internalId);
+  safeSend(getMainWindow, "acp:terminals_disposed", { _sessionId: internalId });
+}
+
 interface ACPSessionEntry {
   process: ChildProcess;
   connection: ClientSideConnection;
@@ -74,6 +105,8 @@ interface ACPSessionEntry {
   pendingPermissions: Map<string, { resolve: (response: unknown) => void }>;
   cwd: string;
   supportsLoadSession: boolean;
+  /** Content the agent accepts in session/prompt beyond text and resource links */
+  promptCapabilities?: AcpPromptCapabilities;
   /** True while session/load is in-flight — suppresses history replay notifications from reaching the renderer */
   isReloading: boolean;
   /** ACP-side session IDs for ephemeral utility prompts (title gen, commit msg) */
@@ -82,6 +115,8 @@ interface ACPSessionEntry {
   utilityTextBuffers?: Map<string, string>;
   /** Last actionable stderr error line observed from the ACP agent process */
   lastStderrError?: string;
+  /** Throwaway connection from acp:health-check — every session is handled like a utility session */
+  healthCheck?: boolean;
 }
 
 export const acpSessions = new Map<string, ACPSessionEntry>();
@@ -89,6 +124,17 @@ export const acpSessions = new Map<string, ACPSessionEntry>();
 // Buffer latest config options per session — survives the renderer's DRAFT→active transition
 // where events arrive before useACP's listener is subscribed
 const configBuffer = new Map<string, unknown[]>();
+// Same for the agent's latest available_commands_update — agents usually send it right after session/new
+const commandsBuffer = new Map<string, unknown[]>();
+// Session modes from session/new or session/load, kept current by current_mode_update
+const modesBuffer = new Map<string, SessionModeState>();
+
+function clearSessionBuffers(internalId: string): void {
+  configBuffer.delete(internalId);
+  commandsBuffer.delete(internalId);
+  modesBuffer.delete(internalId);
+  endRecording(internalId);
+}
 
 // Track in-flight acp:start so the renderer can abort during npx download / protocol init.
 // Only one start can be in-flight at a time (guarded by materializingRef in the renderer).
@@ -179,6 +225,33 @@ async function buildAcpMcpServers(servers: McpServerInput[]): Promise<unknown[]>
   }))).filter(Boolean);
 }
 
+/**
+ * Buffer the session's modes and switch to the agent's last-used mode when the
+ * session didn't start in it. A failed switch keeps the agent's default.
+ */
+async function applyPreferredMode(
+  connection: ClientSideConnection,
+  acpSessionId: string,
+  internalId: string,
+  modes: SessionModeState | null | undefined,
+  preferredModeId: string | undefined,
+  logLabel: string,
+): Promise<SessionModeState | null> {
+  if (!modes?.availableModes?.length) return null;
+  const state = { currentModeId: modes.currentModeId, availableModes: modes.availableModes };
+  modesBuffer.set(internalId, state);
+  if (!preferredModeId || preferredModeId === state.currentModeId) return state;
+  if (!state.availableModes.some((m) => m.id === preferredModeId)) return state;
+  try {
+    await connection.setSessionMode({ sessionId: acpSessionId, modeId: preferredModeId });
+    state.currentModeId = preferredModeId;
+    log(logLabel, `Restored last mode ${preferredModeId}`);
+  } catch (err) {
+    log(logLabel, `Could not restore mode ${preferredModeId}: ${extractErrorMessage(err)}`);
+  }
+  return state;
+}
+
 /** Merge configOptions from session response, event buffer, and unstable models API. */
 function resolveConfigOptions(
   sessionResult: { configOptions?: unknown[]; models?: unknown },
@@ -218,16 +291,44 @@ interface AcpConnectionResult {
   pendingPermissions: Map<string, { resolve: (r: unknown) => void }>;
   internalId: string;
   supportsLoadSession: boolean;
+  promptCapabilities?: AcpPromptCapabilities;
+  /** Sign-in methods from `initialize` — offered when session/new answers `auth_required` */
+  authMethods: ACPAuthMethod[];
+}
+
+function toCapabilities(initResult: InitializeResponse): ACPAgentCapabilities {
+  const caps = initResult.agentCapabilities;
+  const info = initResult.agentInfo;
+  return {
+    protocolVersion: initResult.protocolVersion,
+    agentInfo: info ? { name: info.name, version: info.version, title: info.title ?? undefined } : undefined,
+    loadSession: caps?.loadSession === true,
+    prompt: {
+      image: caps?.promptCapabilities?.image === true,
+      audio: caps?.promptCapabilities?.audio === true,
+      embeddedContext: caps?.promptCapabilities?.embeddedContext === true,
+    },
+    mcp: { http: caps?.mcpCapabilities?.http === true, sse: caps?.mcpCapabilities?.sse === true },
+    session: {
+      list: caps?.sessionCapabilities?.list != null,
+      fork: caps?.sessionCapabilities?.fork != null,
+      resume: caps?.sessionCapabilities?.resume != null,
+    },
+    authMethods: (initResult.authMethods ?? []).map((m) => ({ id: m.id, name: m.name, description: m.description ?? undefined })),
+    reportedAt: Date.now(),
+  };
 }
 
 /**
  * Spawn an ACP agent process, create the ClientSideConnection, and initialize the protocol.
- * Shared by acp:start and acp:revive-session to avoid duplicating ~120 lines of boilerplate.
+ * Shared by acp:start, acp:revive-session and acp:health-check to avoid duplicating ~120 lines of boilerplate.
+ * `onStderrError` sees actionable stderr lines before a session entry exists (the handshake).
  */
 async function createAcpConnection(
-  agentDef: { binary: string; args?: string[]; env?: Record<string, string>; name: string },
+  agentDef: { id: string; binary: string; args?: string[]; env?: Record<string, string>; name: string },
   getMainWindow: () => BrowserWindow | null,
   logLabel: string,
+  onStderrError?: (message: string) => void,
 ): Promise<AcpConnectionResult> {
   const acp = await getACP();
   const internalId = crypto.randomUUID();
@@ -246,7 +347,8 @@ async function createAcpConnection(
       error: `Failed to start agent: ${err.message}`,
     });
     acpSessions.delete(internalId);
-    configBuffer.delete(internalId);
+    clearSessionBuffers(internalId);
+    disposeSessionTerminals(getMainWindow, internalId);
   });
 
   proc.stderr?.on("data", (chunk: Buffer) => {
@@ -256,6 +358,7 @@ async function createAcpConnection(
     const turnError = cleaned.match(/Unhandled error during turn:\s*(.+)$/)?.[1]?.trim();
     const parsed = turnError || (/\bERROR\b/i.test(cleaned) ? cleaned : undefined);
     if (!parsed) return;
+    onStderrError?.(parsed);
     const entry = acpSessions.get(internalId);
     if (entry) entry.lastStderrError = parsed;
   });
@@ -271,15 +374,61 @@ async function createAcpConnection(
     entry.pendingPermissions.clear();
     safeSend(getMainWindow, "acp:exit", { _sessionId: internalId, code });
     acpSessions.delete(internalId);
-    configBuffer.delete(internalId);
+    clearSessionBuffers(internalId);
+    disposeSessionTerminals(getMainWindow, internalId);
   });
 
   // Stream + connection setup
   const input = Writable.toWeb(proc.stdin!) as WritableStream;
   const output = Readable.toWeb(proc.stdout!) as ReadableStream<Uint8Array>;
-  const stream = acp.ndJsonStream(input, output);
+  const stream = tapMessageStream(acp.ndJsonStream(input, output), (direction, message) =>
+    recordProtocolMessage(internalId, "acp", direction, message));
   const pendingPermissions = new Map<string, { resolve: (r: unknown) => void }>();
 
+  /**
+   * Hold an `fs/write_text_file` until the user reviews it (agents with `reviewWrites`).
+   * Goes through the permission channel so the prompt follows the session like any
+   * other approval. Returns the content to write — possibly edited — or throws a
+   * RequestError so the agent learns the write was rejected and why.
+   */
+  async function reviewWrite(acpSessionId: string, params: ACPWriteTextFileParams): Promise<string> {
+    const filePath = resolveACPFilePath(params);
+    const fs = await import("fs/promises");
+    const oldContent = await fs.readFile(filePath, "utf-8").catch(() => null);
+    const requestId = crypto.randomUUID();
+
+    const response = await new Promise<WriteReviewResponse>((resolve) => {
+      pendingPermissions.set(requestId, { resolve: resolve as (r: unknown) => void });
+      log("ACP_WRITE_REVIEW", `session=${internalId.slice(0, 8)} requestId=${requestId} path=${filePath} new=${oldContent === null}`);
+      safeSend(getMainWindow, "acp:permission_request", {
+        _sessionId: internalId,
+        requestId,
+        sessionId: acpSessionId,
+        toolCall: {
+          toolCallId: `write-${requestId}`,
+          title: `Write ${path.basename(filePath)}`,
+          kind: "edit",
+          rawInput: { file_path: filePath },
+        },
+        options: [
+          { optionId: WRITE_REVIEW_ACCEPT, name: "Write", kind: "allow_once" },
+          { optionId: WRITE_REVIEW_REJECT, name: "Reject", kind: "reject_once" },
+        ],
+        writeReview: { filePath, oldContent, newContent: params.content },
+      });
+    });
+
+    const { outcome } = response;
+    if (outcome.outcome === "selected" && outcome.optionId === WRITE_REVIEW_ACCEPT) {
+      return response.content ?? params.content;
+    }
+    const reason = outcome.outcome === "cancelled"
+      ? "the session was cancelled before the user reviewed it"
+      : response.message?.trim() || "the user rejected it";
+    log("ACP_WRITE_REVIEW", `session=${internalId.slice(0, 8)} requestId=${requestId} rejected: ${reason}`);
+    throw new acp.RequestError(WRITE_REJECTED_CODE, `Write to ${filePath} was not applied: ${reason}`);
+  }
+
   const connection = new acp.ClientSideConnection((_agent) => ({
     async sessionUpdate(params: Record<string, unknown>) {
       const update = (params as { update: Record<string, unknown> }).update;
@@ -287,7 +436,7 @@ async function createAcpConnection(
       const entry = acpSessions.get(internalId);
 
       // Utility session events: accumulate text, skip renderer forwarding
-      if (entry?.utilitySessionIds?.has(acpSessionId)) {
+      if (entry?.healthCheck || entry?.utilitySessionIds?.has(acpSessionId)) {
         const eventKind = (update as { sessionUpdate: string }).sessionUpdate;
         if (eventKind === "agent_message_chunk") {
           const text = (update as { content?: { text?: string } }).content?.text ?? "";
@@ -315,6 +464,13 @@ async function createAcpConnection(
         const configOptions = (update as { configOptions: unknown[] }).configOptions;
         configBuffer.set(internalId, configOptions);
       }
+      if (eventKind === "available_commands_update") {
+        commandsBuffer.set(internalId, (update as { availableCommands: unknown[] }).availableCommands ?? []);
+      }
+      if (eventKind === "current_mode_update") {
+        const modes = modesBuffer.get(internalId);
+        if (modes) modes.currentModeId = (update as { currentModeId: string }).currentModeId;
+      }
 
       // During session/load, suppress history replay from reaching the renderer
       if (entry?.isReloading) return;
@@ -331,7 +487,7 @@ async function createAcpConnection(
       const entry = acpSessions.get(internalId);
 
       // Auto-deny permission requests for utility sessions
-      if (entry?.utilitySessionIds?.has(acpSessionId)) {
+      if (entry?.healthCheck || entry?.utilitySessionIds?.has(acpSessionId)) {
         log("ACP_UTILITY", `Auto-denying permission for utility session ${acpSessionId.slice(0, 12)}`);
         const options = (params as { options: Array<{ optionId: string; kind: string }> }).options;
         const rejectOption = options.find(o => o.kind === "reject_once") ?? options[options.length - 1];
@@ -369,23 +525,268 @@ async function createAcpConnection(
       log("ACP_FS", `readTextFile result len=${content.length}`);
       return { content };
     },
-    async writeTextFile(params: { path?: string; uri?: string; content: string }) {
-      const { filePath } = await acpWriteTextFile(params);
-      log("ACP_FS", `writeTextFile path=${filePath} len=${params.content.length}`);
+    async writeTextFile(params: { sessionId: string; path?: string; uri?: string; content: string }) {
+      const content = getAgent(agentDef.id)?.reviewWrites
+        ? await reviewWrite(params.sessionId, params)
+        : params.content;
+      const { filePath } = await acpWriteTextFile({ ...params, content });
+      log("ACP_FS", `writeTextFile path=${filePath} len=${content.length}${content !== params.content ? " (edited)" : ""}`);
+      return {};
+    },
+
+    async createTerminal(params) {
+      const { terminalId, cwd } = createAgentTerminal(getMainWindow, internalId, params);
+      const command = [params.command, ...(params.args ?? [])].join(" ");
+      log("ACP_TERMINAL", `create session=${internalId.slice(0, 8)} terminal=${terminalId.slice(0, 8)} cmd=${command}`);
+      safeSend(getMainWindow, "acp:terminal", { _sessionId: internalId, terminalId, command, cwd });
+      return { terminalId };
+    },
+    async terminalOutput(params) {
+      return getAgentTerminalOutput(internalId, params.terminalId);
+    },
+    async waitForTerminalExit(params) {
+      const status = await waitForAgentTerminalExit(internalId, params.terminalId);
+      log("ACP_TERMINAL", `exit terminal=${params.terminalId.slice(0, 8)} code=${status.exitCode} signal=${status.signal ?? ""}`);
+      return status;
+    },
+    async killTerminal(params) {
+      log("ACP_TERMINAL", `kill terminal=${params.terminalId.slice(0, 8)}`);
+      killAgentTerminal(internalId, params.terminalId);
+      return {};
+    },
+    async releaseTerminal(params) {
+      log("ACP_TERMINAL", `release terminal=${params.terminalId.slice(0, 8)}`);
+      releaseAgentTerminal(internalId, params.terminalId);
       return {};
     },
   }), stream);
 
   // Protocol initialization
   log(logLabel, `Initializing protocol...`);
-  const initResult = await connection.initialize({
-    protocolVersion: acp.PROTOCOL_VERSION,
-    clientCapabilities: ACP_CLIENT_CAPABILITIES,
+  let initResult: InitializeResponse;
+  // Fail fast when the agent can't start or dies before answering, instead of waiting on the handshake
+  const exited = new Promise<never>((_, reject) => {
+    proc.once("error", (err) => reject(new Error(`Failed to start agent: ${err.message}`)));
+    proc.once("exit", (code) => reject(new Error(`Agent exited during initialize (code ${code})`)));
   });
+  exited.catch(() => {});
+  try {
+    initResult = await Promise.race([
+      connection.initialize({
+        protocolVersion: acp.PROTOCOL_VERSION,
+        clientCapabilities: ACP_CLIENT_CAPABILITIES,
+      }),
+      exited,
+    ]);
+  } catch (err) {
+    // Callers only get `proc` back on success — don't leave the agent running
+    try { proc.kill(); } catch { /* already dead */ }
+    throw err;
+  }
+  const capabilities = toCapabilities(initResult);
+  updateCapabilities(agentDef.id, capabilities);
   const supportsLoadSession = initResult.agentCapabilities?.loadSession === true;
-  log(logLabel, `Initialized protocol v${initResult.protocolVersion} for ${agentDef.name} (loadSession=${supportsLoadSession})`);
+  const promptCapabilities = initResult.agentCapabilities?.promptCapabilities ?? undefined;
+  log(logLabel, `Initialized protocol v${initResult.protocolVersion} for ${agentDef.name} (loadSession=${supportsLoadSession} embeddedContext=${promptCapabilities?.embeddedContext === true})`);
+
+  return { proc, connection, pendingPermissions, internalId, supportsLoadSession, promptCapabilities, authMethods: capabilities.authMethods };
+}
+
+// ── Authentication ──
+
+/** ACP's `auth_required` error code — session/new and session/load fail with it until the client authenticates */
+const AUTH_REQUIRED_CODE = -32000;
+
+function isAuthRequired(err: unknown): boolean {
+  return typeof err === "object" && err !== null && (err as { code?: unknown }).code === AUTH_REQUIRED_CODE;
+}
+
+interface PendingAuth {
+  connection: ClientSideConnection;
+  agentId: string;
+  methods: ACPAuthMethod[];
+  resolve: () => void;
+  reject: (err: Error) => void;
+}
+
+// Sign-in requests waiting on the renderer's auth dialog, keyed by requestId
+const pendingAuth = new Map<string, PendingAuth>();
+
+/**
+ * Ask the renderer to pick an auth method. Resolves once `acp:authenticate`
+ * succeeds; rejects when the user cancels or the agent exits first.
+ */
+function promptForAuthentication(
+  connResult: AcpConnectionResult,
+  agentDef: { id: string; name: string },
+  getMainWindow: () => BrowserWindow | null,
+  message: string,
+  failedMethodId: string | undefined,
+): Promise<void> {
+  const requestId = crypto.randomUUID();
+  return new Promise<void>((resolve, reject) => {
+    const onExit = () => {
+      if (!pendingAuth.delete(requestId)) return;
+      safeSend(getMainWindow, "acp:auth_dismissed", { requestId });
+      reject(new Error("Agent exited before authentication completed"));
+    };
+    connResult.proc.once("exit", onExit);
+    pendingAuth.set(requestId, {
+      connection: connResult.connection,
+      agentId: agentDef.id,
+      methods: connResult.authMethods,
+      resolve: () => { connResult.proc.off("exit", onExit); resolve(); },
+      reject: (err) => { connResult.proc.off("exit", onExit); reject(err); },
+    });
+    log("ACP_AUTH", `Requesting sign-in for ${agentDef.name} requestId=${requestId}`);
+    safeSend(getMainWindow, "acp:auth_required", {
+      requestId,
+      agentId: agentDef.id,
+      agentName: agentDef.name,
+      authMethods: connResult.authMethods,
+      message,
+      failedMethodId,
+    });
+  });
+}
+
+/**
+ * Run session/new or session/load, authenticating when the agent answers
+ * `auth_required`: first with the method remembered from the last sign-in,
+ * then by asking the user. The session call is retried once authenticated.
+ */
+async function withAuthentication<T>(
+  connResult: AcpConnectionResult,
+  agentDef: { id: string; name: string },
+  getMainWindow: () => BrowserWindow | null,
+  logLabel: string,
+  openSession: () => Promise<T>,
+): Promise<T> {
+  let authError: unknown;
+  try {
+    return await openSession();
+  } catch (err) {
+    if (!isAuthRequired(err) || connResult.authMethods.length === 0) throw err;
+    authError = err;
+  }
+  log(logLabel, `${agentDef.name} requires authentication`);
+
+  const remembered = getAgent(agentDef.id)?.auth?.methodId;
+  let failedMethodId: string | undefined;
+  if (remembered && connResult.authMethods.some((m) => m.id === remembered)) {
+    const authenticated = await connResult.connection.authenticate({ methodId: remembered }).then(
+      () => true,
+      (err) => {
+        authError = err;
+        return false;
+      },
+    );
+    if (authenticated) {
+      recordAuthentication(agentDef.id, remembered);
+      log(logLabel, `Re-authenticated with remembered method ${remembered}`);
+      try {
+        return await openSession();
+      } catch (err) {
+        if (!isAuthRequired(err)) throw err;
+        authError = err;
+      }
+    }
+    log(logLabel, `Remembered method ${remembered} was not accepted: ${extractErrorMessage(authError)}`);
+    failedMethodId = remembered;
+  }
+
+  await promptForAuthentication(connResult, agentDef, getMainWindow, extractErrorMessage(authError), failedMethodId);
+  return openSession();
+}
+
+const HEALTH_CHECK_PROMPT = "This is a connectivity check. Reply with the single word OK and do not use any tools.";
+const HEALTH_CHECK_TIMEOUTS = { handshake: 120000, session: 30000, prompt: 60000 } as const;
+
+function withTimeout<T>(promise: Promise<T>, ms: number, what: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${what} timed out after ${ms / 1000}s`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Spawn the agent, run the handshake, open a throwaway session in a temp dir and
+ * send a trivial prompt — timing each step. Nothing reaches the renderer: the
+ * connection is flagged `healthCheck`, so updates are collected like a utility
+ * session's and permission requests are denied.
+ */
+async function runHealthCheck(
+  agentDef: { id: string; binary: string; args?: string[]; env?: Record<string, string>; name: string },
+  getMainWindow: () => BrowserWindow | null,
+): Promise<ACPHealthCheckResult> {
+  const steps: ACPHealthCheckStep[] = [];
+  let stderr: string | undefined;
+  let reply: string | undefined;
+  let connResult: AcpConnectionResult | null = null;
+  const fsp = await import("fs/promises");
+  const cwd = await fsp.mkdtemp(path.join(os.tmpdir(), "harnss-health-"));
+
+  const step = async <T>(name: ACPHealthCheckStep["name"], run: () => Promise<T>, describe?: (value: T) => string): Promise<T> => {
+    const started = Date.now();
+    try {
+      const value = await withTimeout(run(), HEALTH_CHECK_TIMEOUTS[name], name);
+      steps.push({ name, ok: true, durationMs: Date.now() - started, detail: describe?.(value) });
+      return value;
+    } catch (err) {
+      steps.push({ name, ok: false, durationMs: Date.now() - started, detail: extractErrorMessage(err) });
+      throw err;
+    }
+  };
+
+  try {
+    const connecting = createAcpConnection(agentDef, getMainWindow, "ACP_HEALTH", (line) => { stderr = line; });
+    // A handshake that outlives its timeout still resolves later — don't leave that process behind
+    let abandoned = false;
+    connecting.then((late) => { if (abandoned) late.proc.kill(); }, () => {});
+    connResult = await step("handshake", () => connecting).catch((err) => {
+      abandoned = true;
+      throw err;
+    });
+    const { proc, connection, pendingPermissions, internalId, supportsLoadSession, promptCapabilities } = connResult;
+    const entry: ACPSessionEntry = {
+      process: proc, connection, acpSessionId: "", internalId, eventCounter: 0, pendingPermissions, cwd,
+      supportsLoadSession, promptCapabilities, isReloading: false, healthCheck: true, utilityTextBuffers: new Map(),
+    };
+    acpSessions.set(internalId, entry);
+
+    const session = await step("session", () => connection.newSession({ cwd, mcpServers: [] }));
+    entry.acpSessionId = session.sessionId;
+
+    const result = await step(
+      "prompt",
+      () => connection.prompt({ sessionId: session.sessionId, prompt: [{ type: "text", text: HEALTH_CHECK_PROMPT }] }),
+      (r) => `stopReason: ${r.stopReason}`,
+    );
+    reply = entry.utilityTextBuffers?.get(session.sessionId)?.trim().slice(0, 200) || undefined;
+    log("ACP_HEALTH", `${agentDef.name}: ok stopReason=${result.stopReason}`);
+  } catch (err) {
+    log("ACP_HEALTH", `${agentDef.name}: failed — ${extractErrorMessage(err)}`);
+  } finally {
+    if (connResult) {
+      const entry = acpSessions.get(connResult.internalId);
+      stderr = entry?.lastStderrError ?? stderr;
+      // Deregister first so the exit handler doesn't notify the renderer
+      acpSessions.delete(connResult.internalId);
+      clearSessionBuffers(connResult.internalId);
+      disposeSessionTerminals(getMainWindow, connResult.internalId);
+      try { connResult.proc.kill(); } catch { /* already dead */ }
+    }
+    await fsp.rm(cwd, { recursive: true, force: true }).catch(() => {});
+  }
 
-  return { proc, connection, pendingPermissions, internalId, supportsLoadSession };
+  return {
+    ok: steps.length === 3 && steps.every((s) => s.ok),
+    steps,
+    capabilities: connResult ? getAgent(agentDef.id)?.capabilities : undefined,
+    reply,
+    stderr,
+  };
 }
 
 export function register(getMainWindow: () => BrowserWindow | null): void {
@@ -412,8 +813,8 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
 
     let connResult: AcpConnectionResult | null = null;
     try {
-      connResult = await createAcpConnection(agentDef as { binary: string; args?: string[]; env?: Record<string, string>; name: string }, getMainWindow, "ACP_SPAWN");
-      const { proc, connection, pendingPermissions, internalId, supportsLoadSession } = connResult;
+      connResult = await createAcpConnection(agentDef as { id: string; binary: string; args?: string[]; env?: Record<string, string>; name: string }, getMainWindow, "ACP_SPAWN");
+      const { proc, connection, pendingPermissions, internalId, supportsLoadSession, promptCapabilities } = connResult;
 
       // Track immediately so the renderer can abort during the long protocol init / npx download
       pendingStartProcess = { id: internalId, process: proc };
@@ -421,10 +822,11 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
       const acpMcpServers = await buildAcpMcpServers(options.mcpServers ?? []);
 
       log("ACP_SPAWN", `Creating new session with ${acpMcpServers.length} MCP server(s)...`);
-      const sessionResult = await connection.newSession({
-        cwd: options.cwd,
-        mcpServers: acpMcpServers,
-      });
+      const sessionResult = await withAuthentication(connResult, agentDef, getMainWindow, "ACP_SPAWN", () =>
+        connection.newSession({
+          cwd: options.cwd,
+          mcpServers: acpMcpServers,
+        }));
       log("ACP_SPAWN", `Created session ${sessionResult.sessionId} for ${agentDef.name}`);
 
       const entry: ACPSessionEntry = {
@@ -436,11 +838,16 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
         pendingPermissions,
         cwd: options.cwd,
         supportsLoadSession,
+        promptCapabilities,
         isReloading: false,
       };
       acpSessions.set(internalId, entry);
 
       const configOptions = resolveConfigOptions(sessionResult, internalId, "ACP_SPAWN");
+      const modes = await applyPreferredMode(
+        connection, sessionResult.sessionId, internalId, sessionResult.modes,
+        agentDef.cachedModes?.currentModeId, "ACP_SPAWN",
+      );
 
       // Derive MCP statuses — ACP doesn't report them, so infer from config
       const mcpStatuses = (options.mcpServers ?? []).map(s => ({
@@ -456,6 +863,7 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
         agentSessionId: sessionResult.sessionId,
         agentName: agentDef.name,
         configOptions,
+        modes,
         mcpStatuses,
       };
     } catch (err) {
@@ -498,44 +906,53 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
 
     let connResult: AcpConnectionResult | null = null;
     try {
-      connResult = await createAcpConnection(agentDef as { binary: string; args?: string[]; env?: Record<string, string>; name: string }, getMainWindow, "ACP_REVIVE");
-      const { proc, connection, pendingPermissions, internalId, supportsLoadSession } = connResult;
+      connResult = await createAcpConnection(agentDef as { id: string; binary: string; args?: string[]; env?: Record<string, string>; name: string }, getMainWindow, "ACP_REVIVE");
+      const { proc, connection, pendingPermissions, internalId, supportsLoadSession, promptCapabilities } = connResult;
 
       const acpMcpServers = await buildAcpMcpServers(options.mcpServers ?? []);
 
       let acpSessionId: string;
       let usedLoad = false;
       let configOptions: unknown[] = [];
+      let modes: SessionModeState | null;
 
       if (supportsLoadSession && options.agentSessionId) {
         // Restore full context — suppress history replay from reaching the renderer
-        const entry: ACPSessionEntry = { process: proc, connection, acpSessionId: options.agentSessionId, internalId, eventCounter: 0, pendingPermissions, cwd: options.cwd, supportsLoadSession, isReloading: true };
+        const entry: ACPSessionEntry = { process: proc, connection, acpSessionId: options.agentSessionId, internalId, eventCounter: 0, pendingPermissions, cwd: options.cwd, supportsLoadSession, promptCapabilities, isReloading: true };
         acpSessions.set(internalId, entry);
-        const loadResult = await connection.loadSession({ sessionId: options.agentSessionId, cwd: options.cwd, mcpServers: acpMcpServers });
+        const loadResult = await withAuthentication(connResult, agentDef, getMainWindow, "ACP_REVIVE", () =>
+          connection.loadSession({ sessionId: options.agentSessionId!, cwd: options.cwd, mcpServers: acpMcpServers }));
         entry.isReloading = false;
         acpSessionId = options.agentSessionId;
         usedLoad = true;
         configOptions = (loadResult.configOptions ?? configBuffer.get(internalId) ?? []) as unknown[];
         if (configOptions.length) configBuffer.set(internalId, configOptions);
+        // A loaded session keeps whatever mode it was left in
+        modes = await applyPreferredMode(connection, acpSessionId, internalId, loadResult.modes, undefined, "ACP_REVIVE");
         log("ACP_REVIVE", `loadSession OK, session=${acpSessionId.slice(0, 12)} configOptions=${configOptions.length}`);
       } else {
         // Fall back to fresh session — UI messages already restored from disk
-        const sessionResult = await connection.newSession({ cwd: options.cwd, mcpServers: acpMcpServers });
+        const sessionResult = await withAuthentication(connResult, agentDef, getMainWindow, "ACP_REVIVE", () =>
+          connection.newSession({ cwd: options.cwd, mcpServers: acpMcpServers }));
         acpSessionId = sessionResult.sessionId;
-        const entry: ACPSessionEntry = { process: proc, connection, acpSessionId, internalId, eventCounter: 0, pendingPermissions, cwd: options.cwd, supportsLoadSession, isReloading: false };
+        const entry: ACPSessionEntry = { process: proc, connection, acpSessionId, internalId, eventCounter: 0, pendingPermissions, cwd: options.cwd, supportsLoadSession, promptCapabilities, isReloading: false };
         acpSessions.set(internalId, entry);
         configOptions = resolveConfigOptions(sessionResult, internalId, "ACP_REVIVE");
+        modes = await applyPreferredMode(
+          connection, acpSessionId, internalId, sessionResult.modes,
+          agentDef.cachedModes?.currentModeId, "ACP_REVIVE",
+        );
         log("ACP_REVIVE", `newSession fallback, session=${acpSessionId.slice(0, 12)}`);
       }
 
       const mcpStatuses = (options.mcpServers ?? []).map(s => ({ name: s.name, status: "connected" as const }));
-      return { sessionId: internalId, agentSessionId: acpSessionId, usedLoad, configOptions, mcpStatuses };
+      return { sessionId: internalId, agentSessionId: acpSessionId, usedLoad, configOptions, modes, mcpStatuses };
     } catch (err) {
       // Kill process and clean up any partial session entry
       try { connResult?.proc?.kill(); } catch { /* already dead */ }
       if (connResult?.internalId) {
         acpSessions.delete(connResult.internalId);
-        configBuffer.delete(connResult.internalId);
+        clearSessionBuffers(connResult.internalId);
       }
       const msg = extractErrorMessage(err);
       log("ACP_REVIVE", `ERROR: ${msg}`);
@@ -543,7 +960,45 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
     }
   });
 
-  ipcMain.handle("acp:prompt", async (_event, { sessionId, text, images }: { sessionId: string; text: string; images?: Array<{ data: string; mediaType: string }> }) => {
+  ipcMain.handle("acp:health-check", async (_event, agentId: string) => {
+    const agentDef = getAgent(agentId);
+    if (!agentDef || agentDef.engine !== "acp" || !agentDef.binary) {
+      return { error: `Agent "${agentId}" not found or not an ACP agent` };
+    }
+    log("ACP_HEALTH", `Checking ${agentDef.name} (${agentDef.binary})`);
+    return { result: await runHealthCheck(agentDef as { id: string; binary: string; args?: string[]; env?: Record<string, string>; name: string }, getMainWindow) };
+  });
+
+  ipcMain.handle("acp:authenticate", async (_event, { requestId, methodId }: { requestId: string; methodId: string }) => {
+    const pending = pendingAuth.get(requestId);
+    if (!pending) return { error: "This sign-in request is no longer active" };
+    if (!pending.methods.some((m) => m.id === methodId)) return { error: `Unknown auth method "${methodId}"` };
+
+    log("ACP_AUTH", `authenticate requestId=${requestId} method=${methodId}`);
+    try {
+      await pending.connection.authenticate({ methodId });
+    } catch (err) {
+      // Leave the request open so the user can retry or pick another method
+      const msg = extractErrorMessage(err);
+      log("ACP_AUTH", `ERROR: authenticate failed: ${msg}`);
+      return { error: msg };
+    }
+    pendingAuth.delete(requestId);
+    recordAuthentication(pending.agentId, methodId);
+    pending.resolve();
+    return { ok: true };
+  });
+
+  ipcMain.handle("acp:cancel-auth", async (_event, requestId: string) => {
+    const pending = pendingAuth.get(requestId);
+    if (!pending) return { ok: true };
+    pendingAuth.delete(requestId);
+    log("ACP_AUTH", `Sign-in cancelled requestId=${requestId}`);
+    pending.reject(new Error("Sign-in cancelled — this agent requires authentication before it can start a session"));
+    return { ok: true };
+  });
+
+  ipcMain.handle("acp:prompt", async (_event, { sessionId, text, images, context }: { sessionId: string; text: string; images?: Array<{ data: string; mediaType: string }>; context?: ACPPromptContext }) => {
     const session = acpSessions.get(sessionId);
     if (!session) {
       log("ACP_SEND", `ERROR: session ${sessionId?.slice(0, 8)} not found`);
@@ -552,13 +1007,9 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
 
     log("ACP_SEND", `session=${sessionId.slice(0, 8)} text=${text.slice(0, 500)} images=${images?.length ?? 0}`);
 
-    const prompt: Array<{ type: string; text?: string; data?: string; mimeType?: string }> = [];
-    if (images) {
-      for (const img of images) {
-        prompt.push({ type: "image", data: img.data, mimeType: img.mediaType });
-      }
-    }
-    prompt.push({ type: "text", text });
+    const prompt = buildAcpPrompt(text, images, session.cwd, session.promptCapabilities, context);
+    const resourceCount = prompt.filter((b) => b.type === "resource" || b.type === "resource_link").length;
+    if (resourceCount > 0) log("ACP_SEND", `session=${sessionId.slice(0, 8)} mentions sent as ${resourceCount} resource block(s)`);
 
     try {
       session.lastStderrError = undefined;
@@ -619,7 +1070,8 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
     session.pendingPermissions.clear();
     session.process.kill();
     acpSessions.delete(sessionId);
-    configBuffer.delete(sessionId);
+    clearSessionBuffers(sessionId);
+    disposeSessionTerminals(getMainWindow, sessionId);
     return { ok: true };
   });
 
@@ -747,7 +1199,39 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
     return { configOptions: configBuffer.get(sessionId) ?? [] };
   });
 
-  ipcMain.handle("acp:permission_response", async (_event, { sessionId, requestId, optionId }: { sessionId: string; requestId: string; optionId: string }) => {
+  ipcMain.handle("acp:get-modes", async (_event, sessionId: string) => {
+    return { modes: modesBuffer.get(sessionId) ?? null };
+  });
+
+  ipcMain.handle("acp:set-mode", async (_event, { sessionId, modeId }: { sessionId: string; modeId: string }) => {
+    const session = acpSessions.get(sessionId);
+    if (!session) {
+      log("ACP_MODE", `ERROR: session ${sessionId?.slice(0, 8)} not found`);
+      return { error: "Session not found" };
+    }
+    log("ACP_MODE", `session=${sessionId.slice(0, 8)} setting mode=${modeId}`);
+    try {
+      await session.connection.setSessionMode({ sessionId: session.acpSessionId, modeId });
+      const modes = modesBuffer.get(sessionId);
+      if (modes) modes.currentModeId = modeId;
+      return { ok: true };
+    } catch (err) {
+      log("ACP_MODE", `ERROR: session=${sessionId.slice(0, 8)} ${extractErrorMessage(err)}`);
+      return { error: extractErrorMessage(err) };
+    }
+  });
+
+  ipcMain.handle("acp:get-available-commands", async (_event, sessionId: string) => {
+    return { commands: commandsBuffer.get(sessionId) ?? [] };
+  });
+
+  ipcMain.handle("acp:permission_response", async (_event, { sessionId, requestId, optionId, review }: {
+    sessionId: string;
+    requestId: string;
+    optionId: string;
+    /** Write reviews only: edited content to write instead, or the rejection reason */
+    review?: { content?: string; message?: string };
+  }) => {
     const session = acpSessions.get(sessionId);
     if (!session) {
       log("ACP_PERMISSION_RESPONSE", `ERROR: session ${sessionId?.slice(0, 8)} not found`);
@@ -761,7 +1245,7 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
     }
 
     log("ACP_PERMISSION_RESPONSE", `session=${sessionId.slice(0, 8)} requestId=${requestId} optionId=${optionId}`);
-    resolver.resolve({ outcome: { outcome: "selected", optionId } });
+    resolver.resolve({ outcome: { outcome: "selected", optionId }, ...review });
     session.pendingPermissions.delete(requestId);
     return { ok: true };
   });
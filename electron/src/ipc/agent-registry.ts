@@ -1,13 +1,21 @@
 import { ipcMain } from "electron";
 import {
   listAgents,
+  getAgent,
   saveAgent,
   deleteAgent,
   loadUserAgents,
   updateCachedConfig,
+  updateCachedModes,
   checkBinaries,
+  getRegistryPlatformKey,
 } from "../lib/agent-registry";
 import type { InstalledAgent } from "../lib/agent-registry";
+import { installRegistryBinaryAgent, rollbackAgent, removeAgentInstall } from "../lib/agent-installer";
+import { fetchRegistries } from "../lib/registry-sources";
+import type { RegistryAgent } from "@shared/types/registry";
+import { extractErrorMessage } from "../lib/error-utils";
+import { log } from "../lib/logger";
 
 export function register(): void {
   loadUserAgents();
@@ -18,13 +26,49 @@ export function register(): void {
     return { ok: true };
   });
   ipcMain.handle("agents:delete", (_e, id: string) => {
+    const managed = getAgent(id)?.installedVersion !== undefined;
     deleteAgent(id);
+    if (managed) {
+      try {
+        removeAgentInstall(id);
+      } catch (err) {
+        log("AGENT_INSTALL", `ERROR: failed to remove files for ${id}: ${extractErrorMessage(err)}`);
+      }
+    }
     return { ok: true };
   });
   ipcMain.handle("agents:update-cached-config", (_e, agentId: string, configOptions: unknown[]) => {
     updateCachedConfig(agentId, configOptions);
     return { ok: true };
   });
+  ipcMain.handle("agents:update-cached-modes", (_e, agentId: string, modes: { currentModeId: string; availableModes: unknown[] }) => {
+    updateCachedModes(agentId, modes);
+    return { ok: true };
+  });
+
+  ipcMain.handle("agents:platform-key", () => getRegistryPlatformKey());
+
+  // Load all enabled registry sources (falls back to the offline cache per source)
+  ipcMain.handle("agents:fetch-registries", async (_e, force?: boolean) => ({
+    sources: await fetchRegistries(force === true),
+  }));
+
+  // Download a binary-distribution agent into the managed agents dir (install and update)
+  ipcMain.handle("agents:install-binary", async (_e, agent: RegistryAgent) => {
+    try {
+      return { ok: true, agent: await installRegistryBinaryAgent(agent) };
+    } catch (err) {
+      log("AGENT_INSTALL", `ERROR: ${agent.id}@${agent.version}: ${extractErrorMessage(err)}`);
+      return { error: extractErrorMessage(err) };
+    }
+  });
+  ipcMain.handle("agents:rollback", (_e, id: string) => {
+    try {
+      return { ok: true, agent: rollbackAgent(id) };
+    } catch (err) {
+      return { error: extractErrorMessage(err) };
+    }
+  });
 
   // Batch-check if binary-only agents are installed on the system PATH
   ipcMain.handle(
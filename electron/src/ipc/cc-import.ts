@@ -26,7 +26,7 @@ interface UIMessage {
   subagentStatus?: string;
 }
 
-function getCCProjectDir(projectPath: string): string {
+export function getCCProjectDir(projectPath: string): string {
   const hash = projectPath.replace(/\//g, "-");
   return path.join(os.homedir(), ".claude", "projects", hash);
 }
@@ -9,6 +9,8 @@ import type { QueryHandle } from "../lib/sdk";
 import { getMcpAuthHeaders } from "../lib/mcp-oauth-flow";
 import { getClaudeModelsCache, setClaudeModelsCache } from "../lib/claude-model-cache";
 import { extractErrorMessage } from "../lib/error-utils";
+import { listClaudeCommands } from "../lib/slash-commands";
+import { endRecording, recordProtocolMessage } from "../lib/protocol-recorder";
 
 /** SDK options for file checkpointing — enables Write/Edit/NotebookEdit revert support */
 function fileCheckpointOptions(): Record<string, unknown> {
@@ -142,6 +144,7 @@ function startEventLoop(
     try {
       for await (const message of queryHandle) {
         session.eventCounter++;
+        recordProtocolMessage(sessionId, "claude", "in", message);
         const summary = summarizeEvent(message as Record<string, unknown>);
         log("EVENT", `${logPrefix} #${session.eventCounter} ${summary}`);
         const msgObj = message as Record<string, unknown>;
@@ -160,6 +163,7 @@ function startEventLoop(
         const exitCode = (queryError && !stopRequested) ? 1 : 0;
         log("EXIT", `${logPrefix} total_events=${session.eventCounter} stopRequested=${!!stopRequested} stopReason=${session.stopReason ?? "none"} error=${queryError ?? "none"}`);
         sessions.delete(sessionId);
+        endRecording(sessionId);
         safeSend(getMainWindow, "claude:exit", {
           code: exitCode, _sessionId: sessionId,
           ...((queryError && !stopRequested) ? { error: queryError } : {}),
@@ -332,6 +336,11 @@ async function restartSession(
     return new Promise<PermissionResult>((resolve) => {
       const requestId = crypto.randomUUID();
       newSession.pendingPermissions.set(requestId, { resolve });
+      recordProtocolMessage(sessionId, "claude", "in", {
+        id: requestId,
+        method: "canUseTool",
+        params: { toolName, input, toolUseId: context.toolUseID, suggestions: context.suggestions, decisionReason: context.decisionReason },
+      });
       safeSend(getMainWindow,"claude:permission_request", {
         _sessionId: sessionId,
         requestId,
@@ -382,6 +391,7 @@ async function restartSession(
   } catch (err) {
     // Restart failed — clean up and notify renderer
     sessions.delete(sessionId);
+    endRecording(sessionId);
     safeSend(getMainWindow,"claude:exit", {
       code: 1, _sessionId: sessionId, error: extractErrorMessage(err),
     });
@@ -420,6 +430,11 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
         return new Promise<PermissionResult>((resolve) => {
           const requestId = crypto.randomUUID();
           session.pendingPermissions.set(requestId, { resolve });
+          recordProtocolMessage(sessionId, "claude", "in", {
+            id: requestId,
+            method: "canUseTool",
+            params: { toolName, input, toolUseId: context.toolUseID, suggestions: context.suggestions, decisionReason: context.decisionReason },
+          });
           log("PERMISSION_REQUEST", {
             session: sessionId.slice(0, 8),
             tool: toolName,
@@ -491,6 +506,7 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
     } catch (err) {
       // getSDK() or query() threw — clean up and return error
       sessions.delete(sessionId);
+      endRecording(sessionId);
       const errMsg = extractErrorMessage(err);
       log("START_ERROR", `session=${sessionId.slice(0, 8)} ${errMsg}`);
       safeSend(getMainWindow,"claude:exit", {
@@ -507,12 +523,14 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
       return { error: "Claude session not found" };
     }
     log("SEND", `session=${sessionId.slice(0, 8)} content=${JSON.stringify(message).slice(0, 500)}`);
-    session.channel.push({
+    const userMessage = {
       type: "user",
       message: { role: "user", content: message.message.content },
       parent_tool_use_id: null,
       session_id: sessionId,
-    });
+    };
+    recordProtocolMessage(sessionId, "claude", "out", userMessage);
+    session.channel.push(userMessage);
     return { ok: true };
   });
 
@@ -548,16 +566,19 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
       }
     }
 
+    let result: PermissionResult;
     if (behavior === "allow") {
-      pending.resolve({ behavior: "allow", updatedInput: toolInput });
+      result = { behavior: "allow", updatedInput: toolInput };
     } else {
       // Pass user-provided rejection reason (from plan feedback) to the SDK so the model can adjust
       const denyMsg = toolInput?.denyMessage;
-      pending.resolve({
+      result = {
         behavior: "deny",
         message: typeof denyMsg === "string" && denyMsg.trim() ? denyMsg.trim() : "User denied permission",
-      });
+      };
     }
+    recordProtocolMessage(sessionId, "claude", "out", { id: requestId, result });
+    pending.resolve(result);
     return { ok: true };
   });
 
@@ -719,6 +740,27 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
     }
   });
 
+  ipcMain.handle("claude:supported-commands", async (_event, sessionId: string) => {
+    const session = sessions.get(sessionId);
+    if (!session?.queryHandle?.supportedCommands) return { commands: [] };
+    try {
+      const commands = await session.queryHandle.supportedCommands();
+      return { commands };
+    } catch (err) {
+      log("SUPPORTED_COMMANDS_ERR", `session=${sessionId.slice(0, 8)} ${extractErrorMessage(err)}`);
+      return { commands: [], error: extractErrorMessage(err) };
+    }
+  });
+
+  // Custom commands from .claude/commands — lets the palette work before a session has started
+  ipcMain.handle("claude:local-commands", async (_event, cwd?: string) => {
+    try {
+      return { commands: listClaudeCommands(cwd) };
+    } catch (err) {
+      return { commands: [], error: extractErrorMessage(err) };
+    }
+  });
+
   ipcMain.handle("claude:models-cache:get", async () => {
     const cached = getClaudeModelsCache();
     return { models: cached.models, updatedAt: cached.updatedAt };
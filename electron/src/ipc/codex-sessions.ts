@@ -6,15 +6,24 @@
  * notifications to the renderer, and bridge approval requests.
  */
 
-import { app, BrowserWindow, ipcMain } from "electron";
+import { app, BrowserWindow, dialog, ipcMain } from "electron";
 import { spawn } from "child_process";
 import crypto from "crypto";
 import { log } from "../lib/logger";
 import { safeSend } from "../lib/safe-send";
-import { CodexRpcClient } from "../lib/codex-rpc";
+import { CodexRpcClient, CodexRpcError } from "../lib/codex-rpc";
 import { getCodexBinaryPath, getCodexVersion } from "../lib/codex-binary";
 import { getAppSetting } from "../lib/app-settings";
 import { extractErrorMessage } from "../lib/error-utils";
+import {
+  captureWorktreeSnapshot,
+  copyWorktreeSnapshots,
+  dropWorktreeSnapshots,
+  restoreWorktreeSnapshot,
+} from "../lib/worktree-snapshot";
+import { listCodexPrompts } from "../lib/slash-commands";
+import { buildCodexMcpConfig, toPanelStatuses, type CodexMcpConfig, type McpServerInput } from "../lib/codex-mcp";
+import { endRecording, recordProtocolMessage } from "../lib/protocol-recorder";
 
 import type {
   CodexServerNotification,
@@ -23,10 +32,43 @@ import type {
   CodexAccountResponse,
   CodexThreadStartResponse,
   CodexThreadResumeResponse,
+  CodexThreadForkResponse,
+  CodexThreadRollbackResponse,
   CodexTurnStartResponse,
+  CodexTurnSteerParams,
+  CodexTurnSteerResponse,
+  CodexThreadListParams,
+  CodexThreadListResponse,
+  CodexThreadReadParams,
+  CodexThreadReadResponse,
+  CodexGetAccountRateLimitsResponse,
+  CodexRateLimitSnapshot,
+  CodexConfigReadParams,
+  CodexConfigReadResponse,
+  CodexConfigEdit,
+  CodexConfigValueWriteParams,
+  CodexConfigBatchWriteParams,
+  CodexConfigWriteResponse,
+  CodexConfigWarning,
+  CodexSandboxPolicy,
+  CodexSandboxSettings,
+  CodexCommandApprovalDecision,
+  CodexSkill,
+  CodexSkillsListParams,
+  CodexSkillsListResponse,
+  CodexSkillsConfigWriteParams,
+  CodexSkillsConfigWriteResponse,
+  CodexSkillsRemoteReadParams,
+  CodexSkillsRemoteReadResponse,
+  CodexSkillsRemoteWriteResponse,
   CodexInitializeResponse,
   CodexItemStartedNotification,
   CodexItemCompletedNotification,
+  CodexListMcpServerStatusResponse,
+  CodexReviewStartParams,
+  CodexReviewStartResponse,
+  CodexReviewTarget,
+  CodexReviewOutput,
 } from "@shared/types/codex";
 
 // ── Session state ──
@@ -40,13 +82,27 @@ interface CodexSession {
   eventCounter: number;
   cwd: string;
   model?: string;
+  /** Project MCP servers passed as config overrides at thread start */
+  mcp: Pick<CodexMcpConfig, "keys" | "skipped">;
+  /** Sandbox picked in the input bar — sent with every turn/start; unset follows Codex config */
+  sandbox?: CodexSandboxSettings;
+  /** A picked sandbox reached the thread — it keeps that policy until another is sent */
+  sandboxOverridden: boolean;
+  /** Policy Codex resolved from its config, sent explicitly once the thread has been overridden */
+  configSandboxPolicy?: CodexSandboxPolicy;
 }
 
 const codexSessions = new Map<string, CodexSession>();
+const THREAD_PAGE_SIZE = 50;
+/** `configWarning`s reported by app-servers at startup, keyed by file + summary */
+const configWarnings = new Map<string, CodexConfigWarning>();
+/** Account-level usage from the last read or `account/rateLimits/updated` — served to sessions that aren't live */
+let lastRateLimits: CodexRateLimitSnapshot | null = null;
 const SUPPORTED_SERVER_REQUESTS = new Set([
   "item/commandExecution/requestApproval",
   "item/fileChange/requestApproval",
   "item/tool/requestUserInput",
+  "skill/requestApproval",
 ]);
 
 function isSupportedServerRequestMethod(method: string): boolean {
@@ -148,6 +204,87 @@ function summarizeCodexNotification(notification: CodexServerNotification): stri
   }
 }
 
+/** Turn-level sandbox policy for the input bar's sandbox selection. */
+function toSandboxPolicy(sandbox: CodexSandboxSettings): CodexSandboxPolicy {
+  switch (sandbox.mode) {
+    case "read-only":
+      return { type: "readOnly", access: { type: "fullAccess" } };
+    case "danger-full-access":
+      return { type: "dangerFullAccess" };
+    case "workspace-write":
+      return {
+        type: "workspaceWrite",
+        writableRoots: sandbox.writableRoots,
+        readOnlyAccess: { type: "fullAccess" },
+        networkAccess: sandbox.networkAccess,
+        excludeTmpdirEnvVar: false,
+        excludeSlashTmp: false,
+      };
+  }
+}
+
+/**
+ * Sandbox policy for the next turn. Turn policies stick to the thread, so once a
+ * picked one was sent, following the config means sending the config's policy.
+ */
+function turnSandboxPolicy(session: CodexSession): CodexSandboxPolicy | undefined {
+  if (session.sandbox) {
+    session.sandboxOverridden = true;
+    return toSandboxPolicy(session.sandbox);
+  }
+  return session.sandboxOverridden ? session.configSandboxPolicy : undefined;
+}
+
+/**
+ * Snapshot the working tree so the message starting this turn can be reverted to
+ * later. Codex has no file checkpoints of its own; outside a git repo, or with
+ * snapshots turned off in settings, there's simply no snapshot.
+ */
+async function emitCheckpoint(
+  session: CodexSession,
+  sessionId: string,
+  getMainWindow: () => BrowserWindow | null,
+): Promise<void> {
+  if (!session.threadId || !getAppSetting("codexFileSnapshots")) return;
+  const checkpointId = await captureWorktreeSnapshot(session.cwd, session.threadId);
+  if (checkpointId) {
+    safeSend(getMainWindow, "codex:event", {
+      _sessionId: sessionId,
+      method: "codex:checkpoint",
+      params: { checkpointId },
+    });
+  }
+}
+
+/** The sandbox Codex's config asks for, when it names one. */
+async function readConfigSandboxPolicy(session: CodexSession): Promise<CodexSandboxPolicy | undefined> {
+  const params: CodexConfigReadParams = { includeLayers: false, cwd: session.cwd };
+  const { config } = await session.rpc.request<CodexConfigReadResponse>("config/read", params);
+  if (!config.sandbox_mode) return undefined;
+  return toSandboxPolicy({
+    mode: config.sandbox_mode,
+    networkAccess: config.sandbox_workspace_write?.network_access ?? false,
+    writableRoots: config.sandbox_workspace_write?.writable_roots ?? [],
+  });
+}
+
+/** Metadata for a skill visible from `cwd`, so the approval prompt can show what it is. */
+async function lookupSkill(rpc: CodexRpcClient, cwd: string, skillName: string): Promise<CodexSkill | undefined> {
+  try {
+    const params: CodexSkillsListParams = { cwds: [cwd] };
+    const result = await rpc.request<CodexSkillsListResponse>("skills/list", params);
+    return result.data.flatMap((entry) => entry.skills).find((skill) => skill.name === skillName);
+  } catch (err) {
+    log("codex", ` Skill lookup failed: skill=${skillName} error=${extractErrorMessage(err)}`);
+    return undefined;
+  }
+}
+
+function recordConfigWarning(warning: CodexConfigWarning): void {
+  configWarnings.set(`${warning.path ?? ""}:${warning.summary}`, warning);
+  log("codex", ` Config warning: ${warning.summary}${warning.path ? ` (${warning.path})` : ""}`);
+}
+
 /** Wire up all RPC event handlers for a Codex session (shared by start and resume). */
 function setupCodexHandlers(
   rpc: CodexRpcClient,
@@ -158,6 +295,7 @@ function setupCodexHandlers(
   rpc.onStderr = (text) => {
     log("codex", `[stderr:${internalId.slice(0, 8)}] ${text.slice(0, 500)}`);
   };
+  rpc.onMessage = (direction, msg) => recordProtocolMessage(internalId, "codex", direction, msg);
 
   rpc.onNotification = (msg) => {
     // Cast to the generated discriminated union for typed access
@@ -179,7 +317,11 @@ function setupCodexHandlers(
     }
 
     // Track active turn from turn events
-    if (notification.method === "turn/started") {
+    if (notification.method === "configWarning") {
+      recordConfigWarning(notification.params);
+    } else if (notification.method === "account/rateLimits/updated") {
+      lastRateLimits = notification.params.rateLimits;
+    } else if (notification.method === "turn/started") {
       session.activeTurnId = notification.params.turn.id;
     } else if (notification.method === "turn/completed") {
       session.activeTurnId = null;
@@ -190,6 +332,18 @@ function setupCodexHandlers(
       method: notification.method,
       params: notification.params,
     });
+
+    // Structured review findings only exist on the legacy event stream
+    if (msg.method === "codex/event/exited_review_mode") {
+      const reviewOutput = (msg.params.msg as { review_output?: CodexReviewOutput | null } | undefined)?.review_output;
+      if (reviewOutput) {
+        safeSend(getMainWindow, "codex:event", {
+          _sessionId: internalId,
+          method: "codex:review_output",
+          params: { reviewOutput },
+        });
+      }
+    }
   };
 
   rpc.onServerRequest = (msg) => {
@@ -197,7 +351,18 @@ function setupCodexHandlers(
       "codex",
       `[srvreq:${internalId.slice(0, 8)}] ${msg.method} id=${msg.id}`,
     );
-    if (isSupportedServerRequestMethod(msg.method)) {
+    if (msg.method === "skill/requestApproval") {
+      const skillName = String(msg.params.skillName ?? "");
+      void lookupSkill(rpc, session.cwd, skillName).then((skill) => {
+        safeSend(getMainWindow, "codex:approval_request", {
+          _sessionId: internalId,
+          rpcId: msg.id,
+          method: msg.method,
+          ...(msg.params as Record<string, unknown>),
+          skill,
+        });
+      });
+    } else if (isSupportedServerRequestMethod(msg.method)) {
       safeSend(getMainWindow, "codex:approval_request", {
         _sessionId: internalId,
         rpcId: msg.id,
@@ -214,6 +379,7 @@ function setupCodexHandlers(
   rpc.onExit = (code, signal) => {
     log("codex", ` Process exited: code=${code} signal=${signal} session=${internalId}`);
     codexSessions.delete(internalId);
+    endRecording(internalId);
     safeSend(getMainWindow, "codex:exit", {
       _sessionId: internalId,
       code,
@@ -222,6 +388,67 @@ function setupCodexHandlers(
   };
 }
 
+/**
+ * Run requests that aren't tied to a thread (model list, thread history) on any
+ * live app-server, or on a short-lived one when no Codex session is running.
+ * Errors the server returns are rethrown; only a dead transport falls through.
+ */
+async function withUtilityRpc<T>(fn: (rpc: CodexRpcClient) => Promise<T>): Promise<T> {
+  for (const session of codexSessions.values()) {
+    if (session.rpc.isAlive) {
+      try {
+        return await fn(session.rpc);
+      } catch (err) {
+        // Only a dead transport is worth another try — the server may already have
+        // applied a call it answered with an error or didn't answer in time
+        if (err instanceof CodexRpcError || session.rpc.isAlive) throw err;
+        continue;
+      }
+    }
+  }
+
+  const codexPath = await getCodexBinaryPath();
+  const proc = spawn(codexPath, ["app-server"], {
+    stdio: ["pipe", "pipe", "pipe"],
+    cwd: process.cwd(),
+    env: {
+      ...process.env,
+      RUST_LOG: process.env.RUST_LOG ?? "warn",
+    },
+  });
+  if (!proc.pid) {
+    throw new Error("Failed to spawn codex app-server process");
+  }
+
+  const rpc = new CodexRpcClient(proc);
+  rpc.onNotification = (msg) => {
+    if (msg.method === "configWarning") recordConfigWarning(msg.params as CodexConfigWarning);
+  };
+  try {
+    await rpc.request<CodexInitializeResponse>("initialize", {
+      clientInfo: getAppServerClientInfo(),
+      capabilities: { experimentalApi: true },
+    });
+    rpc.notify("initialized", {});
+    return await fn(rpc);
+  } finally {
+    rpc.destroy();
+  }
+}
+
+/** Add project MCP servers to thread start/resume/fork params and remember them for status. */
+async function applyMcpConfig(
+  session: CodexSession,
+  params: Record<string, unknown>,
+  servers: McpServerInput[] | undefined,
+): Promise<void> {
+  if (!servers?.length) return;
+  const { config, keys, skipped } = await buildCodexMcpConfig(servers);
+  session.mcp = { keys, skipped };
+  if (Object.keys(config).length > 0) params.config = config;
+  log("codex", ` MCP servers: ${[...keys.values()].join(", ") || "none"}${skipped.length ? ` (skipped ${skipped.length})` : ""}`);
+}
+
 // ── Registration ──
 
 export function register(getMainWindow: () => BrowserWindow | null): void {
@@ -239,8 +466,10 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
         cwd: string;
         model?: string;
         approvalPolicy?: string;
+        sandbox?: CodexSandboxSettings;
         personality?: string;
         collaborationMode?: { mode: string; settings: { model: string; reasoning_effort: string | null; developer_instructions: string | null } };
+        mcpServers?: McpServerInput[];
       },
     ) => {
       const internalId = crypto.randomUUID();
@@ -272,6 +501,9 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
           eventCounter: 0,
           cwd: options.cwd,
           model: undefined,
+          mcp: { keys: new Map(), skipped: [] },
+          sandbox: options.sandbox,
+          sandboxOverridden: !!options.sandbox,
         };
         codexSessions.set(internalId, session);
         setupCodexHandlers(rpc, session, internalId, getMainWindow);
@@ -330,11 +562,14 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
         };
         if (selectedModel) threadParams.model = selectedModel;
         if (options.approvalPolicy) threadParams.approvalPolicy = options.approvalPolicy;
+        if (options.sandbox) threadParams.sandbox = options.sandbox.mode;
         if (options.personality) threadParams.personality = options.personality;
+        await applyMcpConfig(session, threadParams, options.mcpServers);
         // collaborationMode is set per-turn via turn/start, not on thread/start
 
         const threadResult = await rpc.request<CodexThreadStartResponse>("thread/start", threadParams);
         session.threadId = threadResult.thread.id;
+        if (!options.sandbox) session.configSandboxPolicy = threadResult.sandbox;
         log("codex",` Thread started: ${session.threadId}`);
 
         return {
@@ -392,16 +627,19 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
           input.push(...data.images);
         }
 
+        const sandboxPolicy = turnSandboxPolicy(session);
         // TurnStartParams: only threadId and input are required; all other fields are optional.
         // Only include fields we actually have values for.
         const turnParams: Record<string, unknown> = {
           threadId: session.threadId,
           input,
           ...(session.model ? { model: session.model } : {}),
+          ...(sandboxPolicy ? { sandboxPolicy } : {}),
           ...(data.effort ? { effort: data.effort } : {}),
           ...(data.collaborationMode ? { collaborationMode: data.collaborationMode } : {}),
         };
 
+        await emitCheckpoint(session, data.sessionId, getMainWindow);
 
         const result = await session.rpc.request<CodexTurnStartResponse>("turn/start", turnParams);
         session.activeTurnId = result.turn.id;
@@ -420,6 +658,71 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
     },
   );
 
+  // ─── codex:steer (add input to the in-flight turn) ───
+  ipcMain.handle(
+    "codex:steer",
+    async (
+      _,
+      data: {
+        sessionId: string;
+        text: string;
+        images?: Array<{ type: "image"; url: string } | { type: "localImage"; path: string }>;
+      },
+    ) => {
+      const session = codexSessions.get(data.sessionId);
+      if (!session) return { error: "Session not found" };
+      if (!session.threadId) return { error: "No active thread" };
+      // Nothing to steer — the renderer falls back to a regular send
+      if (!session.activeTurnId) return { error: "No active turn" };
+
+      log(
+        "codex",
+        ` Steer requested: session=${shortId(data.sessionId, 12)} turn=${shortId(session.activeTurnId, 12)} text_len=${data.text.length} images=${data.images?.length ?? 0}`,
+      );
+      try {
+        const params: CodexTurnSteerParams = {
+          threadId: session.threadId,
+          input: [{ type: "text", text: data.text, text_elements: [] }, ...(data.images ?? [])],
+          expectedTurnId: session.activeTurnId,
+        };
+        const result = await session.rpc.request<CodexTurnSteerResponse>("turn/steer", params);
+        return { turnId: result.turnId };
+      } catch (err) {
+        log("codex", ` Steer failed: session=${shortId(data.sessionId, 12)} error=${extractErrorMessage(err)}`);
+        return { error: extractErrorMessage(err) };
+      }
+    },
+  );
+
+  // ─── codex:review (start an inline review turn) ───
+  ipcMain.handle(
+    "codex:review",
+    async (_, data: { sessionId: string; target: CodexReviewTarget }) => {
+      const session = codexSessions.get(data.sessionId);
+      if (!session) return { error: "Session not found" };
+      if (!session.threadId) return { error: "No active thread" };
+      if (session.activeTurnId) return { error: "Wait for the current turn to finish before starting a review" };
+
+      log("codex", ` Review requested: session=${shortId(data.sessionId, 12)} target=${data.target.type}`);
+      try {
+        // Same revert point a regular turn gets
+        await emitCheckpoint(session, data.sessionId, getMainWindow);
+
+        const params: CodexReviewStartParams = {
+          threadId: session.threadId,
+          target: data.target,
+          delivery: "inline",
+        };
+        const result = await session.rpc.request<CodexReviewStartResponse>("review/start", params);
+        session.activeTurnId = result.turn.id;
+        return { turnId: result.turn.id };
+      } catch (err) {
+        log("codex", ` Review failed: session=${shortId(data.sessionId, 12)} error=${extractErrorMessage(err)}`);
+        return { error: extractErrorMessage(err) };
+      }
+    },
+  );
+
   // ─── codex:stop ───
   ipcMain.handle("codex:stop", async (_, sessionId: string) => {
     const session = codexSessions.get(sessionId);
@@ -453,7 +756,7 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
       data: {
         sessionId: string;
         rpcId: string | number;
-        decision: string;
+        decision: string | CodexCommandApprovalDecision;
         acceptSettings?: { forSession?: boolean };
       },
     ) => {
@@ -501,6 +804,91 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
     },
   );
 
+  // ─── codex:rollback (drop turns from the end of the thread) ───
+  ipcMain.handle("codex:rollback", async (_, data: { sessionId: string; numTurns: number }) => {
+    const session = codexSessions.get(data.sessionId);
+    if (!session?.threadId) return { error: "No active thread" };
+    if (session.activeTurnId) return { error: "Cannot roll back while a turn is running" };
+
+    try {
+      await session.rpc.request<CodexThreadRollbackResponse>("thread/rollback", {
+        threadId: session.threadId,
+        numTurns: data.numTurns,
+      });
+      log("codex", ` Thread rolled back ${data.numTurns} turns: ${session.threadId}`);
+      return { ok: true };
+    } catch (err) {
+      return { error: extractErrorMessage(err) };
+    }
+  });
+
+  // ─── codex:revert-files (restore a working-tree snapshot taken at codex:send) ───
+  ipcMain.handle("codex:revert-files", async (_, data: { sessionId: string; checkpointId: string }) => {
+    const session = codexSessions.get(data.sessionId);
+    if (!session) return { error: "Session not found" };
+
+    try {
+      const result = await restoreWorktreeSnapshot(session.cwd, data.checkpointId);
+      log(
+        "codex",
+        ` Files reverted: session=${shortId(data.sessionId, 12)} checkpoint=${data.checkpointId.slice(0, 12)} restored=${result.restored.length} removed=${result.removed.length}`,
+      );
+      return { ok: true, ...result };
+    } catch (err) {
+      log("codex", ` Revert files failed: ${extractErrorMessage(err)}`);
+      return { error: extractErrorMessage(err) };
+    }
+  });
+
+  // ─── codex:drop-snapshots (session deleted — let git prune its revert points) ───
+  ipcMain.handle("codex:drop-snapshots", async (_, data: { cwd: string; threadId: string }) => {
+    try {
+      await dropWorktreeSnapshots(data.cwd, data.threadId);
+      return { ok: true };
+    } catch (err) {
+      log("codex", ` Drop snapshots failed: ${extractErrorMessage(err)}`);
+      return { error: extractErrorMessage(err) };
+    }
+  });
+
+  // ─── codex:mcp-status ───
+  ipcMain.handle("codex:mcp-status", async (_, sessionId: string) => {
+    const session = codexSessions.get(sessionId);
+    if (!session) return { servers: [], error: "Session not found" };
+
+    try {
+      const reported: CodexListMcpServerStatusResponse["data"] = [];
+      let cursor: string | null = null;
+      do {
+        const page: CodexListMcpServerStatusResponse = await session.rpc.request<CodexListMcpServerStatusResponse>(
+          "mcpServerStatus/list",
+          cursor ? { cursor } : {},
+        );
+        reported.push(...page.data);
+        cursor = page.nextCursor;
+      } while (cursor);
+      return { servers: toPanelStatuses(reported, session.mcp) };
+    } catch (err) {
+      log("codex", ` mcpServerStatus/list failed: ${extractErrorMessage(err)}`);
+      return { servers: toPanelStatuses([], session.mcp), error: extractErrorMessage(err) };
+    }
+  });
+
+  // ─── codex:rate-limits (account usage windows + credits) ───
+  ipcMain.handle("codex:rate-limits", async (_, sessionId?: string) => {
+    try {
+      const session = sessionId ? codexSessions.get(sessionId) : undefined;
+      // Not worth spawning an app-server just to browse an old session — use what we saw last
+      if (!session?.rpc.isAlive) return { rateLimits: lastRateLimits ?? undefined };
+      const result = await session.rpc.request<CodexGetAccountRateLimitsResponse>("account/rateLimits/read");
+      lastRateLimits = result.rateLimits;
+      return { rateLimits: result.rateLimits };
+    } catch (err) {
+      log("codex", ` Rate limit read failed: ${extractErrorMessage(err)}`);
+      return { error: extractErrorMessage(err) };
+    }
+  });
+
   // ─── codex:compact ───
   ipcMain.handle("codex:compact", async (_, sessionId: string) => {
     const session = codexSessions.get(sessionId);
@@ -516,50 +904,176 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
 
   // ─── codex:list-models ───
   ipcMain.handle("codex:list-models", async () => {
-    // Try to use any active session's RPC first
-    for (const session of codexSessions.values()) {
-      if (session.rpc.isAlive) {
-        try {
-          const result = await session.rpc.request<CodexModelListResponse>("model/list", { includeHidden: false });
-          return { models: result.data ?? [] };
-        } catch {
-          continue;
+    try {
+      const result = await withUtilityRpc((rpc) =>
+        rpc.request<CodexModelListResponse>("model/list", { includeHidden: false }));
+      return { models: result.data ?? [] };
+    } catch (err) {
+      return { models: [], error: extractErrorMessage(err) };
+    }
+  });
+
+  // ─── codex:list-prompts (custom prompts, expanded client-side as /prompts:<name>) ───
+  ipcMain.handle("codex:list-prompts", async () => {
+    try {
+      return { prompts: listCodexPrompts() };
+    } catch (err) {
+      return { prompts: [], error: extractErrorMessage(err) };
+    }
+  });
+
+  // ─── codex:config-read (effective config + the layers it came from) ───
+  ipcMain.handle("codex:config-read", async (_, cwd?: string) => {
+    try {
+      const params: CodexConfigReadParams = { includeLayers: true, cwd: cwd ?? null };
+      const result = await withUtilityRpc((rpc) => rpc.request<CodexConfigReadResponse>("config/read", params));
+      return { ...result, warnings: [...configWarnings.values()] };
+    } catch (err) {
+      log("codex", ` Config read failed: ${extractErrorMessage(err)}`);
+      return { error: extractErrorMessage(err) };
+    }
+  });
+
+  // ─── codex:config-write (user config.toml unless filePath names a project layer) ───
+  ipcMain.handle(
+    "codex:config-write",
+    async (_, data: { edits: CodexConfigEdit[]; filePath?: string | null; expectedVersion?: string | null }) => {
+      if (data.edits.length === 0) return { error: "Nothing to write" };
+      const target = data.filePath ?? "user config";
+      try {
+        const result = await withUtilityRpc((rpc) => {
+          if (data.edits.length === 1) {
+            const params: CodexConfigValueWriteParams = {
+              ...data.edits[0],
+              filePath: data.filePath ?? null,
+              expectedVersion: data.expectedVersion ?? null,
+            };
+            return rpc.request<CodexConfigWriteResponse>("config/value/write", params);
+          }
+          const params: CodexConfigBatchWriteParams = {
+            edits: data.edits,
+            filePath: data.filePath ?? null,
+            expectedVersion: data.expectedVersion ?? null,
+          };
+          return rpc.request<CodexConfigWriteResponse>("config/batchWrite", params);
+        });
+        log("codex", ` Config write: ${data.edits.map((e) => e.keyPath).join(", ")} -> ${result.filePath} (${result.status})`);
+        // A rewritten file supersedes whatever was wrong with it before
+        for (const [key, warning] of configWarnings) {
+          if (warning.path === result.filePath) configWarnings.delete(key);
         }
+        return { ok: true, ...result };
+      } catch (err) {
+        log("codex", ` Config write failed: target=${target} error=${extractErrorMessage(err)}`);
+        return { error: extractErrorMessage(err) };
       }
+    },
+  );
+
+  // ─── codex:list-skills (local skills visible from each cwd) ───
+  ipcMain.handle("codex:list-skills", async (_, data: { cwds: string[]; forceReload?: boolean }) => {
+    try {
+      const params: CodexSkillsListParams = { cwds: data.cwds, forceReload: data.forceReload ?? false };
+      const result = await withUtilityRpc((rpc) => rpc.request<CodexSkillsListResponse>("skills/list", params));
+      return { entries: result.data };
+    } catch (err) {
+      log("codex", ` Skills list failed: ${extractErrorMessage(err)}`);
+      return { entries: [], error: extractErrorMessage(err) };
     }
+  });
 
-    // No live session: spawn a short-lived app-server process and fetch model/list.
+  // ─── codex:set-skill-enabled ───
+  ipcMain.handle("codex:set-skill-enabled", async (_, data: CodexSkillsConfigWriteParams) => {
     try {
-      const codexPath = await getCodexBinaryPath();
-      const proc = spawn(codexPath, ["app-server"], {
-        stdio: ["pipe", "pipe", "pipe"],
-        cwd: process.cwd(),
-        env: {
-          ...process.env,
-          RUST_LOG: process.env.RUST_LOG ?? "warn",
-        },
-      });
-      if (!proc.pid) {
-        throw new Error("Failed to spawn codex app-server process");
-      }
+      const result = await withUtilityRpc((rpc) =>
+        rpc.request<CodexSkillsConfigWriteResponse>("skills/config/write", data));
+      log("codex", ` Skill ${data.enabled ? "enabled" : "disabled"}: ${data.path} (effective=${result.effectiveEnabled})`);
+      return { ok: true, effectiveEnabled: result.effectiveEnabled };
+    } catch (err) {
+      log("codex", ` Skill config write failed: path=${data.path} error=${extractErrorMessage(err)}`);
+      return { error: extractErrorMessage(err) };
+    }
+  });
+
+  // ─── codex:list-remote-skills (shared skills from the signed-in account) ───
+  ipcMain.handle("codex:list-remote-skills", async (_, scope?: CodexSkillsRemoteReadParams["hazelnutScope"]) => {
+    try {
+      const params: CodexSkillsRemoteReadParams = {
+        hazelnutScope: scope ?? "all-shared",
+        productSurface: "codex",
+        enabled: true,
+      };
+      const result = await withUtilityRpc((rpc) => rpc.request<CodexSkillsRemoteReadResponse>("skills/remote/list", params));
+      return { skills: result.data };
+    } catch (err) {
+      log("codex", ` Remote skills list failed: ${extractErrorMessage(err)}`);
+      return { skills: [], error: extractErrorMessage(err) };
+    }
+  });
+
+  // ─── codex:install-remote-skill (export a remote skill into the user skills folder) ───
+  ipcMain.handle("codex:install-remote-skill", async (_, id: string) => {
+    try {
+      const result = await withUtilityRpc((rpc) =>
+        rpc.request<CodexSkillsRemoteWriteResponse>("skills/remote/export", { hazelnutId: id }));
+      log("codex", ` Remote skill installed: ${id} -> ${result.path}`);
+      return { ok: true, path: result.path };
+    } catch (err) {
+      log("codex", ` Remote skill install failed: id=${id} error=${extractErrorMessage(err)}`);
+      return { error: extractErrorMessage(err) };
+    }
+  });
 
-      const rpc = new CodexRpcClient(proc);
+  // ─── codex:list-threads (history browser) ───
+  ipcMain.handle(
+    "codex:list-threads",
+    async (_, data: { cwd: string; archived?: boolean; cursor?: string | null }) => {
       try {
-        await rpc.request<CodexInitializeResponse>("initialize", {
-          clientInfo: getAppServerClientInfo(),
-          capabilities: { experimentalApi: true },
-        });
-        rpc.notify("initialized", {});
-        const result = await rpc.request<CodexModelListResponse>("model/list", { includeHidden: false });
-        return { models: result.data ?? [] };
-      } finally {
-        rpc.destroy();
+        const params: CodexThreadListParams = {
+          cwd: data.cwd,
+          archived: data.archived ?? false,
+          cursor: data.cursor ?? null,
+          limit: THREAD_PAGE_SIZE,
+          sortKey: "updated_at",
+          sourceKinds: ["cli", "vscode", "exec", "appServer"],
+        };
+        const result = await withUtilityRpc((rpc) => rpc.request<CodexThreadListResponse>("thread/list", params));
+        return { threads: result.data, nextCursor: result.nextCursor };
+      } catch (err) {
+        log("codex", ` Thread list failed: ${extractErrorMessage(err)}`);
+        return { threads: [], nextCursor: null, error: extractErrorMessage(err) };
       }
+    },
+  );
+
+  // ─── codex:read-thread (full history for preview/import) ───
+  ipcMain.handle("codex:read-thread", async (_, threadId: string) => {
+    try {
+      const params: CodexThreadReadParams = { threadId, includeTurns: true };
+      const result = await withUtilityRpc((rpc) => rpc.request<CodexThreadReadResponse>("thread/read", params));
+      return { thread: result.thread };
     } catch (err) {
-      return { models: [], error: extractErrorMessage(err) };
+      log("codex", ` Thread read failed: thread=${shortId(threadId, 12)} error=${extractErrorMessage(err)}`);
+      return { error: extractErrorMessage(err) };
     }
   });
 
+  // ─── codex:archive-thread ───
+  ipcMain.handle(
+    "codex:archive-thread",
+    async (_, data: { threadId: string; archived: boolean }) => {
+      const method = data.archived ? "thread/archive" : "thread/unarchive";
+      try {
+        await withUtilityRpc((rpc) => rpc.request(method, { threadId: data.threadId }));
+        log("codex", ` ${method}: thread=${shortId(data.threadId, 12)}`);
+        return { ok: true };
+      } catch (err) {
+        log("codex", ` ${method} failed: thread=${shortId(data.threadId, 12)} error=${extractErrorMessage(err)}`);
+        return { error: extractErrorMessage(err) };
+      }
+    },
+  );
+
   // ─── codex:auth-status ───
   ipcMain.handle("codex:auth-status", async () => {
     for (const session of codexSessions.values()) {
@@ -611,6 +1125,8 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
         threadId: string;
         model?: string;
         approvalPolicy?: string;
+        sandbox?: CodexSandboxSettings;
+        mcpServers?: McpServerInput[];
       },
     ) => {
       const internalId = crypto.randomUUID();
@@ -639,6 +1155,9 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
           eventCounter: 0,
           cwd: data.cwd,
           model: data.model,
+          mcp: { keys: new Map(), skipped: [] },
+          sandbox: data.sandbox,
+          sandboxOverridden: !!data.sandbox,
         };
         codexSessions.set(internalId, session);
         setupCodexHandlers(rpc, session, internalId, getMainWindow);
@@ -656,9 +1175,12 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
           persistExtendedHistory: false,
         };
         if (data.approvalPolicy) threadParams.approvalPolicy = data.approvalPolicy;
+        if (data.sandbox) threadParams.sandbox = data.sandbox.mode;
+        await applyMcpConfig(session, threadParams, data.mcpServers);
 
         const threadResult = await rpc.request<CodexThreadResumeResponse>("thread/resume", threadParams);
         session.threadId = threadResult.thread.id;
+        if (!data.sandbox) session.configSandboxPolicy = threadResult.sandbox;
         log("codex",` Thread resumed: ${session.threadId}`);
 
         return { sessionId: internalId, threadId: session.threadId };
@@ -674,6 +1196,103 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
     },
   );
 
+  // ─── codex:fork (new process + thread/fork, trimmed with thread/rollback) ───
+  ipcMain.handle(
+    "codex:fork",
+    async (
+      _,
+      data: {
+        cwd: string;
+        threadId: string;
+        /** Turns to drop from the end of the forked thread — the fork point and everything after it */
+        dropTurns: number;
+        model?: string;
+        approvalPolicy?: string;
+        sandbox?: CodexSandboxSettings;
+        mcpServers?: McpServerInput[];
+      },
+    ) => {
+      const internalId = crypto.randomUUID();
+
+      try {
+        const codexPath = await getCodexBinaryPath();
+        log("codex",` Forking thread ${data.threadId} (drop ${data.dropTurns} turns) in new process (session=${internalId})`);
+
+        const proc = spawn(codexPath, ["app-server"], {
+          stdio: ["pipe", "pipe", "pipe"],
+          cwd: data.cwd,
+          env: {
+            ...process.env,
+            RUST_LOG: process.env.RUST_LOG ?? "warn",
+          },
+        });
+
+        if (!proc.pid) throw new Error("Failed to spawn codex app-server");
+
+        const rpc = new CodexRpcClient(proc);
+        const session: CodexSession = {
+          rpc,
+          internalId,
+          threadId: null,
+          activeTurnId: null,
+          eventCounter: 0,
+          cwd: data.cwd,
+          model: data.model,
+          mcp: { keys: new Map(), skipped: [] },
+          sandbox: data.sandbox,
+          sandboxOverridden: !!data.sandbox,
+        };
+        codexSessions.set(internalId, session);
+        setupCodexHandlers(rpc, session, internalId, getMainWindow);
+
+        await rpc.request<CodexInitializeResponse>("initialize", {
+          clientInfo: getAppServerClientInfo(),
+          capabilities: { experimentalApi: true },
+        });
+        rpc.notify("initialized", {});
+
+        // Fork copies the whole thread — persistExtendedHistory is required by ThreadForkParams
+        const forkParams: Record<string, unknown> = {
+          threadId: data.threadId,
+          cwd: data.cwd,
+          persistExtendedHistory: false,
+        };
+        if (data.model) forkParams.model = data.model;
+        if (data.approvalPolicy) forkParams.approvalPolicy = data.approvalPolicy;
+        if (data.sandbox) forkParams.sandbox = data.sandbox.mode;
+        await applyMcpConfig(session, forkParams, data.mcpServers);
+
+        const forkResult = await rpc.request<CodexThreadForkResponse>("thread/fork", forkParams);
+        session.threadId = forkResult.thread.id;
+        if (!data.sandbox) session.configSandboxPolicy = forkResult.sandbox;
+        log("codex",` Thread forked: ${data.threadId} -> ${session.threadId}`);
+        // Messages copied into the fork still point at the parent's snapshots
+        await copyWorktreeSnapshots(data.cwd, data.threadId, session.threadId).catch((err) => {
+          log("codex", ` Snapshot ref copy failed: ${extractErrorMessage(err)}`);
+        });
+
+        // Then cut the copy back to the fork point. Rollback only touches history, never files.
+        if (data.dropTurns > 0) {
+          await rpc.request<CodexThreadRollbackResponse>("thread/rollback", {
+            threadId: session.threadId,
+            numTurns: data.dropTurns,
+          });
+          log("codex",` Thread rolled back ${data.dropTurns} turns: ${session.threadId}`);
+        }
+
+        return { sessionId: internalId, threadId: session.threadId };
+      } catch (err) {
+        log("codex",` Fork failed: ${extractErrorMessage(err)}`);
+        const session = codexSessions.get(internalId);
+        if (session) {
+          session.rpc.destroy();
+          codexSessions.delete(internalId);
+        }
+        return { error: extractErrorMessage(err) };
+      }
+    },
+  );
+
   // ─── codex:set-model ───
   ipcMain.handle(
     "codex:set-model",
@@ -686,6 +1305,39 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
     },
   );
 
+  // ─── codex:set-sandbox (applies from the next turn; clearing it sends the config's policy) ───
+  ipcMain.handle(
+    "codex:set-sandbox",
+    async (_, data: { sessionId: string; sandbox: CodexSandboxSettings | null }) => {
+      const session = codexSessions.get(data.sessionId);
+      if (!session) return { error: "Session not found" };
+      if (!data.sandbox && session.sandboxOverridden && !session.configSandboxPolicy) {
+        try {
+          session.configSandboxPolicy = await readConfigSandboxPolicy(session);
+        } catch (err) {
+          return { error: extractErrorMessage(err) };
+        }
+        if (!session.configSandboxPolicy) {
+          return { error: "This thread already runs with a picked sandbox and Codex's config doesn't set sandbox_mode to return to" };
+        }
+      }
+      session.sandbox = data.sandbox ?? undefined;
+      log("codex", ` Sandbox: session=${shortId(data.sessionId, 12)} mode=${data.sandbox?.mode ?? "config"}`);
+      return {};
+    },
+  );
+
+  // ─── codex:pick-writable-root ───
+  ipcMain.handle("codex:pick-writable-root", async () => {
+    const mainWindow = getMainWindow();
+    if (!mainWindow) return { error: "No window" };
+    const result = await dialog.showOpenDialog(mainWindow, {
+      properties: ["openDirectory", "multiSelections"],
+    });
+    if (result.canceled || result.filePaths.length === 0) return { cancelled: true };
+    return { paths: result.filePaths };
+  });
+
   // ─── codex:version ───
   ipcMain.handle("codex:version", async () => {
     try {
@@ -413,11 +413,15 @@ export function register(): void {
     }
   });
 
-  ipcMain.handle("git:diff-file", async (_event, { cwd, file, staged }: { cwd: string; file: string; staged?: boolean }) => {
+  ipcMain.handle("git:diff-file", async (_event, { cwd, file, staged, base }: { cwd: string; file: string; staged?: boolean; base?: string }) => {
     try {
-      const diffArgs = staged
-        ? ["diff", "--staged", "--", file]
-        : ["diff", "--", file];
+      // A revision starting with "-" would be parsed as an option
+      if (base?.startsWith("-")) return { error: `Invalid revision: ${base}` };
+      const diffArgs = base
+        ? ["diff", base, "--", file]
+        : staged
+          ? ["diff", "--staged", "--", file]
+          : ["diff", "--", file];
       const diff = await gitExec(diffArgs, cwd);
       return { diff };
     } catch (err) {
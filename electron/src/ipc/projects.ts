@@ -4,6 +4,8 @@ import fs from "fs";
 import crypto from "crypto";
 import { getDataDir } from "../lib/data-dir";
 import { log } from "../lib/logger";
+import { forgetProject } from "../lib/session-store";
+import { forgetProjectIndex } from "../lib/search-index";
 
 interface Project {
   id: string;
@@ -81,6 +83,8 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
       if (fs.existsSync(sessionsDir)) {
         fs.rmSync(sessionsDir, { recursive: true, force: true });
       }
+      forgetProject(projectId);
+      forgetProjectIndex(projectId);
       return { ok: true };
     } catch (err) {
       log("PROJECTS:DELETE_ERR", (err as Error).message);
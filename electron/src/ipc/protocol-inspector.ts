@@ -0,0 +1,47 @@
+import { BrowserWindow, ipcMain } from "electron";
+import type { ProtocolEntry } from "@shared/types/protocol-inspector";
+import {
+  clearRecording,
+  getRecording,
+  setProtocolEntryListener,
+  setRecording,
+  setRecordingEndedListener,
+} from "../lib/protocol-recorder";
+import { log } from "../lib/logger";
+import { safeSend } from "../lib/safe-send";
+
+// Streaming turns produce hundreds of messages per second — forward them in batches
+const FLUSH_INTERVAL_MS = 100;
+
+export function register(getMainWindow: () => BrowserWindow | null): void {
+  let batch: ProtocolEntry[] = [];
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  setProtocolEntryListener((entry) => {
+    batch.push(entry);
+    if (flushTimer) return;
+    flushTimer = setTimeout(() => {
+      flushTimer = null;
+      const entries = batch;
+      batch = [];
+      safeSend(getMainWindow, "inspector:entries", entries);
+    }, FLUSH_INTERVAL_MS);
+  });
+
+  setRecordingEndedListener((sessionId) => {
+    safeSend(getMainWindow, "inspector:ended", { sessionId });
+  });
+
+  ipcMain.handle("inspector:set-recording", (_event, { sessionId, enabled }: { sessionId: string; enabled: boolean }) => {
+    log("INSPECTOR", `session=${sessionId.slice(0, 8)} recording=${enabled}`);
+    setRecording(sessionId, enabled);
+    return { ok: true };
+  });
+
+  ipcMain.handle("inspector:get", (_event, sessionId: string) => getRecording(sessionId));
+
+  ipcMain.handle("inspector:clear", (_event, sessionId: string) => {
+    clearRecording(sessionId);
+    return { ok: true };
+  });
+}
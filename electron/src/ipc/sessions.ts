@@ -1,63 +1,83 @@
-import { ipcMain } from "electron";
-import path from "path";
+import { BrowserWindow, dialog, ipcMain } from "electron";
 import fs from "fs";
-import { getDataDir, getProjectSessionsDir, getSessionFilePath } from "../lib/data-dir";
+import os from "os";
+import path from "path";
+import {
+  saveSession,
+  loadSession,
+  listSessions,
+  deleteSession,
+  type StoredSession,
+} from "../lib/session-store";
+import {
+  updateSessionIndex,
+  removeSessionIndex,
+  searchSessions,
+  type SearchRequest,
+  type SearchResponse,
+} from "../lib/search-index";
+import { parseSessionBundle, materializeBundle } from "../lib/session-bundle";
 import { log } from "../lib/logger";
+import { getCCProjectDir } from "./cc-import";
+import type { SessionBundle } from "@shared/types/session-bundle";
+
+type ExportFormat = "markdown" | "html" | "bundle";
+
+const EXPORT_FILTERS: Record<ExportFormat, Electron.FileFilter> = {
+  markdown: { name: "Markdown", extensions: ["md"] },
+  html: { name: "HTML", extensions: ["html"] },
+  bundle: { name: "Harnss session bundle", extensions: ["json"] },
+};
 
-interface SessionMeta {
-  id: string;
-  projectId: string;
-  title: string;
-  createdAt: number;
-  /** Timestamp of the most recent user message — used for sidebar sort order */
-  lastMessageAt: number;
-  model?: string;
-  totalCost?: number;
-  engine?: "claude" | "acp" | "codex";
-  codexThreadId?: string;
+interface ExportRequest {
+  format: ExportFormat;
+  defaultName: string;
+  content: string;
 }
 
-interface SearchResult {
-  messageResults: Array<{
-    sessionId: string;
-    projectId: string;
-    sessionTitle: string;
-    messageId: string;
-    snippet: string;
-    timestamp: number;
-  }>;
-  sessionResults: Array<{
-    sessionId: string;
-    projectId: string;
-    title: string;
-    createdAt: number;
-  }>;
+/** Codex keeps thread rollouts under $CODEX_HOME/sessions/YYYY/MM/DD/rollout-…-{threadId}.jsonl */
+function codexRolloutExists(threadId: string): boolean {
+  const root = path.join(process.env.CODEX_HOME || path.join(os.homedir(), ".codex"), "sessions");
+  const walk = (dir: string, depth: number): boolean => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return false;
+    }
+    return entries.some((entry) =>
+      entry.isDirectory()
+        ? depth > 0 && walk(path.join(dir, entry.name), depth - 1)
+        : entry.name.endsWith(`${threadId}.jsonl`),
+    );
+  };
+  return walk(root, 3);
 }
 
-function getLastUserMessageTimestamp(messages?: Array<{ role?: string; timestamp?: number }>): number | undefined {
-  if (!Array.isArray(messages) || messages.length === 0) return undefined;
-  for (let i = messages.length - 1; i >= 0; i--) {
-    const msg = messages[i];
-    if (msg.role === "user" && typeof msg.timestamp === "number") return msg.timestamp;
+/**
+ * Whether the engine-side session behind a bundle still exists on this
+ * machine for the target project. ACP agents own their storage, so there is
+ * no way to tell — those imports always open read-only.
+ */
+function canResumeBundle(bundle: SessionBundle, cwd: string): boolean {
+  const { engine = "claude", id, agentSessionId, codexThreadId } = bundle.session;
+  if (engine === "claude") {
+    return fs.existsSync(path.join(getCCProjectDir(cwd), `${agentSessionId ?? id}.jsonl`));
   }
-  return undefined;
+  if (engine === "codex") return !!codexThreadId && codexRolloutExists(codexThreadId);
+  return false;
 }
 
-export function register(): void {
-  ipcMain.handle("sessions:save", (_event, data: { projectId: string; id: string; createdAt?: number; messages?: Array<{ role?: string; timestamp?: number }> }) => {
+export function register(getMainWindow: () => BrowserWindow | null): void {
+  ipcMain.handle("sessions:save", (_event, data: StoredSession) => {
     try {
-      const filePath = getSessionFilePath(data.projectId, data.id);
-      const providedLastMessageAt = (data as Record<string, unknown>).lastMessageAt;
-      const normalizedProvidedLastMessageAt =
-        typeof providedLastMessageAt === "number" ? providedLastMessageAt : undefined;
-      // Always prefer the latest user message timestamp when messages are present.
-      const lastMessageAt =
-        getLastUserMessageTimestamp(data.messages) ??
-        normalizedProvidedLastMessageAt ??
-        data.createdAt ??
-        0;
-      const enriched = { ...data, lastMessageAt };
-      fs.writeFileSync(filePath, JSON.stringify(enriched, null, 2), "utf-8");
+      const { session, changed } = saveSession(data);
+      try {
+        updateSessionIndex(session, changed);
+      } catch (err) {
+        // The journal is already durable — a stale index only affects search
+        log("SEARCH:INDEX_ERR", (err as Error).message);
+      }
       return { ok: true };
     } catch (err) {
       log("SESSIONS:SAVE_ERR", (err as Error).message);
@@ -67,9 +87,7 @@ export function register(): void {
 
   ipcMain.handle("sessions:load", (_event, projectId: string, sessionId: string) => {
     try {
-      const filePath = getSessionFilePath(projectId, sessionId);
-      if (!fs.existsSync(filePath)) return null;
-      return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+      return loadSession(projectId, sessionId);
     } catch (err) {
       log("SESSIONS:LOAD_ERR", (err as Error).message);
       return null;
@@ -78,38 +96,7 @@ export function register(): void {
 
   ipcMain.handle("sessions:list", (_event, projectId: string) => {
     try {
-      const dir = getProjectSessionsDir(projectId);
-      const files = fs.readdirSync(dir).filter((f) => f.endsWith(".json"));
-      const list: SessionMeta[] = [];
-      for (const file of files) {
-        try {
-          const raw = fs.readFileSync(path.join(dir, file), "utf-8");
-          const data = JSON.parse(raw);
-          // Derive lastMessageAt: latest user message timestamp → stored field → createdAt
-          const lastMessageAt: number =
-            getLastUserMessageTimestamp(data.messages) ??
-            (typeof data.lastMessageAt === "number" ? data.lastMessageAt : undefined) ??
-            data.createdAt ??
-            0;
-
-          list.push({
-            id: data.id,
-            projectId: data.projectId,
-            title: data.title || "Untitled",
-            createdAt: data.createdAt || 0,
-            lastMessageAt,
-            model: data.model,
-            totalCost: data.totalCost || 0,
-            engine: data.engine,
-            codexThreadId: data.codexThreadId,
-          });
-        } catch {
-          // Skip corrupted files
-        }
-      }
-      // Sort by most recent user activity, not creation time.
-      list.sort((a, b) => b.lastMessageAt - a.lastMessageAt);
-      return list;
+      return listSessions(projectId);
     } catch (err) {
       log("SESSIONS:LIST_ERR", (err as Error).message);
       return [];
@@ -118,10 +105,8 @@ export function register(): void {
 
   ipcMain.handle("sessions:delete", (_event, projectId: string, sessionId: string) => {
     try {
-      const filePath = getSessionFilePath(projectId, sessionId);
-      if (fs.existsSync(filePath)) {
-        fs.unlinkSync(filePath);
-      }
+      deleteSession(projectId, sessionId);
+      removeSessionIndex(projectId, sessionId);
       return { ok: true };
     } catch (err) {
       log("SESSIONS:DELETE_ERR", (err as Error).message);
@@ -129,72 +114,56 @@ export function register(): void {
     }
   });
 
-  ipcMain.handle("sessions:search", (_event, { projectIds, query }: { projectIds: string[]; query: string }): SearchResult => {
+  ipcMain.handle("sessions:search", async (_event, request: SearchRequest): Promise<SearchResponse> => {
     try {
-      const lowerQuery = query.toLowerCase();
-      const messageResults: SearchResult["messageResults"] = [];
-      const sessionResults: SearchResult["sessionResults"] = [];
-
-      for (const projectId of projectIds) {
-        const dir = path.join(getDataDir(), "sessions", projectId);
-        if (!fs.existsSync(dir)) continue;
-
-        const files = fs.readdirSync(dir).filter((f) => f.endsWith(".json"));
-        for (const file of files) {
-          const filePath = path.join(dir, file);
-          try {
-            const stat = fs.statSync(filePath);
-            if (stat.size > 5 * 1024 * 1024) continue;
-
-            const raw = fs.readFileSync(filePath, "utf-8");
-            const data = JSON.parse(raw);
-            const sessionTitle = data.title || "Untitled";
-            const sessionId = data.id;
-
-            if (sessionTitle.toLowerCase().includes(lowerQuery)) {
-              sessionResults.push({
-                sessionId,
-                projectId,
-                title: sessionTitle,
-                createdAt: data.createdAt || 0,
-              });
-            }
-
-            if (messageResults.length >= 10) continue;
-            const messages = data.messages || [];
-            for (const msg of messages) {
-              if (messageResults.length >= 10) break;
-              if (msg.role !== "user" && msg.role !== "assistant") continue;
-              if (!msg.content || typeof msg.content !== "string") continue;
-
-              const idx = msg.content.toLowerCase().indexOf(lowerQuery);
-              if (idx === -1) continue;
+      return await searchSessions(request);
+    } catch (err) {
+      log("SESSIONS:SEARCH_ERR", (err as Error).message);
+      return { messageResults: [], sessionResults: [], total: 0, error: (err as Error).message };
+    }
+  });
 
-              const start = Math.max(0, idx - 30);
-              const end = Math.min(msg.content.length, idx + query.length + 50);
-              let snippet = msg.content.slice(start, end);
-              if (start > 0) snippet = "..." + snippet;
-              if (end < msg.content.length) snippet = snippet + "...";
+  // The renderer builds the document; main only owns the save dialog and the write
+  ipcMain.handle("sessions:export", async (_event, { format, defaultName, content }: ExportRequest) => {
+    try {
+      const mainWindow = getMainWindow();
+      if (!mainWindow) return { error: "No window" };
+      const result = await dialog.showSaveDialog(mainWindow, {
+        defaultPath: defaultName,
+        filters: [EXPORT_FILTERS[format]],
+      });
+      if (result.canceled || !result.filePath) return { cancelled: true };
+      fs.writeFileSync(result.filePath, content, "utf-8");
+      return { ok: true, filePath: result.filePath };
+    } catch (err) {
+      log("SESSIONS:EXPORT_ERR", (err as Error).message);
+      return { error: (err as Error).message };
+    }
+  });
 
-              messageResults.push({
-                sessionId,
-                projectId,
-                sessionTitle,
-                messageId: msg.id,
-                snippet,
-                timestamp: msg.timestamp || data.createdAt || 0,
-              });
-            }
-          } catch {
-            // Skip corrupted files
-          }
-        }
+  ipcMain.handle("sessions:import-bundle", async (_event, projectId: string, cwd: string) => {
+    try {
+      const mainWindow = getMainWindow();
+      if (!mainWindow) return { error: "No window" };
+      const result = await dialog.showOpenDialog(mainWindow, {
+        properties: ["openFile"],
+        filters: [EXPORT_FILTERS.bundle],
+      });
+      if (result.canceled || result.filePaths.length === 0) return { cancelled: true };
+
+      const bundle = parseSessionBundle(fs.readFileSync(result.filePaths[0], "utf-8"));
+      const stored = materializeBundle(bundle, { projectId, resumable: canResumeBundle(bundle, cwd) });
+      const { session, changed } = saveSession(stored);
+      try {
+        updateSessionIndex(session, changed);
+      } catch (err) {
+        log("SEARCH:INDEX_ERR", (err as Error).message);
       }
-
-      return { messageResults, sessionResults };
+      log("SESSIONS:IMPORT_BUNDLE", { from: bundle.session.id, to: session.id, readOnly: !!session.readOnly });
+      return { ok: true, session };
     } catch (err) {
-      log("SESSIONS:SEARCH_ERR", (err as Error).message);
-      return { messageResults: [], sessionResults: [] };
+      log("SESSIONS:IMPORT_BUNDLE_ERR", (err as Error).message);
+      return { error: (err as Error).message };
     }
   });
 }
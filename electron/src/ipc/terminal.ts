@@ -1,5 +1,6 @@
 import { BrowserWindow, ipcMain } from "electron";
 import crypto from "crypto";
+import os from "os";
 import { log } from "../lib/logger";
 import { safeSend } from "../lib/safe-send";
 
@@ -9,7 +10,7 @@ interface TerminalEntry {
     resize: (cols: number, rows: number) => void;
     kill: () => void;
     onData: (cb: (data: string) => void) => void;
-    onExit: (cb: (e: { exitCode: number }) => void) => void;
+    onExit: (cb: (e: { exitCode: number; signal?: number }) => void) => void;
   };
   cols: number;
   rows: number;
@@ -18,6 +19,43 @@ interface TerminalEntry {
 
 export const terminals = new Map<string, TerminalEntry>();
 
+export interface AgentTerminalExitStatus {
+  exitCode: number | null;
+  signal: string | null;
+}
+
+/**
+ * A terminal an ACP agent created via `terminal/create`. Output is retained
+ * (up to `outputByteLimit`) for `terminal/output` and for read-only viewers,
+ * and kept after release so the tool card can still show it — for the most
+ * recently released MAX_RELEASED_AGENT_TERMINALS per session.
+ */
+interface AgentTerminalEntry {
+  pty: TerminalEntry["pty"];
+  /** Internal ACP session id that owns this terminal */
+  sessionId: string;
+  /** May run past `outputByteLimit` until the next trim — read it through `readOutput` */
+  output: string;
+  /** UTF-8 length of `output`, tracked per chunk so we don't re-encode the buffer */
+  outputBytes: number;
+  outputByteLimit: number;
+  truncated: boolean;
+  /** Number of data chunks emitted — lets viewers drop chunks already in a snapshot */
+  seq: number;
+  exitStatus: AgentTerminalExitStatus | null;
+  exitWaiters: Array<(status: AgentTerminalExitStatus) => void>;
+  released: boolean;
+}
+
+const agentTerminals = new Map<string, AgentTerminalEntry>();
+
+// Used when the agent sets no outputByteLimit, so a chatty command can't grow without bound
+const DEFAULT_AGENT_OUTPUT_LIMIT = 1024 * 1024;
+// Released terminals only serve viewers opened later; open viewers already hold their output
+const MAX_RELEASED_AGENT_TERMINALS = 10;
+// node-pty's kill() sends SIGHUP by default
+const KILLED_STATUS: AgentTerminalExitStatus = { exitCode: null, signal: "SIGHUP" };
+
 let ptyModule: { spawn: (...args: unknown[]) => TerminalEntry["pty"] } | null = null;
 
 function getPty() {
@@ -28,6 +66,165 @@ function getPty() {
   return ptyModule!;
 }
 
+function getSignalName(signal: number | undefined): string | null {
+  if (!signal) return null;
+  return Object.entries(os.constants.signals).find(([, n]) => n === signal)?.[0] ?? String(signal);
+}
+
+/** Drop bytes from the front of `output` until it fits `limit`, on a UTF-8 character boundary. */
+function truncateOutput(output: string, limit: number): string | null {
+  const buf = Buffer.from(output, "utf-8");
+  if (buf.length <= limit) return null;
+  let start = buf.length - limit;
+  while (start < buf.length && (buf[start] & 0xc0) === 0x80) start++;
+  return buf.subarray(start).toString("utf-8");
+}
+
+/** Trim to `outputByteLimit` — done lazily, so its cost is amortised over many chunks. */
+function trimOutput(term: AgentTerminalEntry): void {
+  if (term.outputBytes <= term.outputByteLimit) return;
+  const truncated = truncateOutput(term.output, term.outputByteLimit);
+  if (truncated === null) return;
+  term.output = truncated;
+  term.outputBytes = Buffer.byteLength(truncated, "utf-8");
+  term.truncated = true;
+}
+
+function appendOutput(term: AgentTerminalEntry, data: string): void {
+  term.output += data;
+  term.outputBytes += Buffer.byteLength(data, "utf-8");
+  // Let the buffer reach twice the limit before trimming back down
+  if (term.outputBytes > term.outputByteLimit * 2) trimOutput(term);
+}
+
+function readOutput(term: AgentTerminalEntry): string {
+  trimOutput(term);
+  return term.output;
+}
+
+function settleExit(term: AgentTerminalEntry, status: AgentTerminalExitStatus): void {
+  term.exitStatus = status;
+  for (const resolve of term.exitWaiters) resolve(status);
+  term.exitWaiters = [];
+}
+
+/** Kill the command if it's still running and settle pending `terminal/wait_for_exit` calls. */
+function killAndSettle(term: AgentTerminalEntry): void {
+  if (term.exitStatus) return;
+  term.pty.kill();
+  settleExit(term, KILLED_STATUS);
+}
+
+function getLiveAgentTerminal(sessionId: string, terminalId: string): AgentTerminalEntry {
+  const term = agentTerminals.get(terminalId);
+  if (!term || term.released || term.sessionId !== sessionId) {
+    throw new Error(`Terminal ${terminalId} not found`);
+  }
+  return term;
+}
+
+/** Spawn a command for an ACP agent (`terminal/create`). Returns the new terminal id. */
+export function createAgentTerminal(
+  getMainWindow: () => BrowserWindow | null,
+  sessionId: string,
+  params: {
+    command: string;
+    args?: string[];
+    cwd?: string | null;
+    env?: Array<{ name: string; value: string }>;
+    outputByteLimit?: number | null;
+  },
+): { terminalId: string; cwd: string } {
+  const terminalId = crypto.randomUUID();
+  const cwd = params.cwd || process.env.HOME || process.cwd();
+  const env: Record<string, string | undefined> = { ...process.env, TERM: "xterm-256color", COLORTERM: "truecolor" };
+  for (const { name, value } of params.env ?? []) env[name] = value;
+
+  const ptyProcess = getPty().spawn(params.command, params.args ?? [], {
+    name: "xterm-256color",
+    cols: 120,
+    rows: 30,
+    cwd,
+    env,
+  });
+
+  const term: AgentTerminalEntry = {
+    pty: ptyProcess,
+    sessionId,
+    output: "",
+    outputBytes: 0,
+    outputByteLimit: params.outputByteLimit ?? DEFAULT_AGENT_OUTPUT_LIMIT,
+    truncated: false,
+    seq: 0,
+    exitStatus: null,
+    exitWaiters: [],
+    released: false,
+  };
+  agentTerminals.set(terminalId, term);
+
+  ptyProcess.onData((data: string) => {
+    appendOutput(term, data);
+    term.seq++;
+    safeSend(getMainWindow, "terminal:data", { terminalId, data, seq: term.seq });
+  });
+
+  ptyProcess.onExit(({ exitCode, signal }) => {
+    const status = { exitCode: signal ? null : exitCode, signal: getSignalName(signal) };
+    settleExit(term, status);
+    log("TERMINAL", `Agent terminal ${terminalId.slice(0, 8)} exited code=${exitCode} signal=${status.signal ?? ""}`);
+    safeSend(getMainWindow, "terminal:exit", { terminalId, exitCode });
+  });
+
+  log("TERMINAL", `Created agent terminal ${terminalId.slice(0, 8)} session=${sessionId.slice(0, 8)} cmd=${params.command} cwd=${cwd}`);
+  return { terminalId, cwd };
+}
+
+export function getAgentTerminalOutput(sessionId: string, terminalId: string) {
+  const term = getLiveAgentTerminal(sessionId, terminalId);
+  const output = readOutput(term);
+  return { output, truncated: term.truncated, exitStatus: term.exitStatus };
+}
+
+export function waitForAgentTerminalExit(sessionId: string, terminalId: string): Promise<AgentTerminalExitStatus> {
+  const term = getLiveAgentTerminal(sessionId, terminalId);
+  if (term.exitStatus) return Promise.resolve(term.exitStatus);
+  return new Promise((resolve) => term.exitWaiters.push(resolve));
+}
+
+export function killAgentTerminal(sessionId: string, terminalId: string): void {
+  const term = getLiveAgentTerminal(sessionId, terminalId);
+  if (!term.exitStatus) term.pty.kill();
+}
+
+/** `terminal/release` — kills the command but keeps the output for the UI, up to a per-session cap. */
+export function releaseAgentTerminal(sessionId: string, terminalId: string): void {
+  const term = getLiveAgentTerminal(sessionId, terminalId);
+  killAndSettle(term);
+  term.released = true;
+  // Re-insert so map order is release order for released entries
+  agentTerminals.delete(terminalId);
+  agentTerminals.set(terminalId, term);
+
+  const released = [...agentTerminals].filter(([, t]) => t.released && t.sessionId === sessionId);
+  for (const [id] of released.slice(0, Math.max(0, released.length - MAX_RELEASED_AGENT_TERMINALS))) {
+    agentTerminals.delete(id);
+  }
+}
+
+/** Kill and forget every terminal of an ACP session (session stopped or agent exited). */
+export function disposeAgentTerminals(sessionId: string): void {
+  for (const [terminalId, term] of agentTerminals) {
+    if (term.sessionId !== sessionId) continue;
+    killAndSettle(term);
+    agentTerminals.delete(terminalId);
+  }
+}
+
+export function disposeAllAgentTerminals(): void {
+  for (const term of agentTerminals.values()) killAndSettle(term);
+  agentTerminals.clear();
+}
+
 export function register(getMainWindow: () => BrowserWindow | null): void {
   ipcMain.handle("terminal:create", (_event, { cwd, cols, rows, spaceId }: { cwd?: string; cols?: number; rows?: number; spaceId?: string } = {}) => {
     try {
@@ -97,6 +294,13 @@ export function register(getMainWindow: () => BrowserWindow | null): void {
     return { ok: true };
   });
 
+  // Read-only viewers of agent terminals replay the buffered output first
+  ipcMain.handle("terminal:agent-snapshot", (_event, terminalId: string) => {
+    const term = agentTerminals.get(terminalId);
+    if (!term) return { error: "Terminal not found" };
+    return { output: readOutput(term), seq: term.seq, exited: term.exitStatus !== null };
+  });
+
   ipcMain.handle("terminal:destroy-space", (_event, spaceId: string) => {
     for (const [terminalId, term] of terminals.entries()) {
       if (term.spaceId !== spaceId) continue;
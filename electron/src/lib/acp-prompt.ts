@@ -0,0 +1,69 @@
+/**
+ * Builds ACP `session/prompt` content blocks from the renderer's message.
+ *
+ * InputBar reads @-mentioned files and folders and sends them alongside the prompt
+ * text as an `ACPPromptContext`. Folders, and files too large to embed, become
+ * `resource_link`s the agent reads itself — every agent must accept those. Other
+ * files are embedded `resource` blocks when the agent advertises
+ * `promptCapabilities.embeddedContext`, and inline `<file>` text otherwise.
+ */
+
+import path from "path";
+import { pathToFileURL } from "url";
+import type { ACPPromptContext, ACPPromptMention } from "@shared/types/acp";
+
+export interface AcpPromptCapabilities {
+  image?: boolean;
+  audio?: boolean;
+  embeddedContext?: boolean;
+}
+
+export type AcpPromptBlock =
+  | { type: "text"; text: string }
+  | { type: "image"; data: string; mimeType: string }
+  | { type: "resource"; resource: { uri: string; text: string } }
+  | { type: "resource_link"; uri: string; name: string };
+
+// Larger files are linked rather than embedded — the agent fetches what it needs
+const MAX_EMBEDDED_CHARS = 64 * 1024;
+
+function inlineMention(mention: ACPPromptMention, body: string): string {
+  return `<${mention.kind} path="${mention.path}">\n${body}\n</${mention.kind}>`;
+}
+
+/**
+ * `text` is the full message with mentions already inlined; it is sent as-is when
+ * there is no `context` (e.g. a message without mentions).
+ */
+export function buildAcpPrompt(
+  text: string,
+  images: Array<{ data: string; mediaType: string }> | undefined,
+  cwd: string,
+  capabilities: AcpPromptCapabilities | undefined,
+  context?: ACPPromptContext,
+): AcpPromptBlock[] {
+  const prompt: AcpPromptBlock[] = [];
+  for (const img of images ?? []) {
+    prompt.push({ type: "image", data: img.data, mimeType: img.mediaType });
+  }
+
+  // Unreadable mentions (and small files for agents without embeddedContext) stay inline
+  const inline: string[] = [];
+  for (const mention of context?.mentions ?? []) {
+    const uri = pathToFileURL(path.resolve(cwd, mention.path)).href;
+    if (mention.error !== undefined) {
+      inline.push(inlineMention(mention, `[Error: ${mention.error}]`));
+    } else if (mention.kind === "folder" || (mention.content ?? "").length > MAX_EMBEDDED_CHARS) {
+      prompt.push({ type: "resource_link", uri, name: mention.path });
+    } else if (capabilities?.embeddedContext) {
+      prompt.push({ type: "resource", resource: { uri, text: mention.content ?? "" } });
+    } else {
+      inline.push(inlineMention(mention, mention.content ?? ""));
+    }
+  }
+
+  const userText = context ? context.text : text;
+  const body = inline.length > 0 ? `${inline.join("\n\n")}\n\n${userText}` : userText;
+  if (body || prompt.length === 0) prompt.push({ type: "text", text: body });
+  return prompt;
+}
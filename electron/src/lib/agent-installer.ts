@@ -0,0 +1,305 @@
+/**
+ * Managed installs for ACP registry agents distributed as platform binaries.
+ *
+ * Each version is extracted into {userData}/openacpui-data/agents/<agentId>/<version>/.
+ * A download is verified before it replaces anything: the HTTP status, the sha256
+ * when the registry publishes one, that nothing extracted links outside the
+ * install directory, and that the registry's `cmd` exists as a regular file.
+ * Archives are unpacked with the system `tar` (and `unzip` on Linux).
+ *
+ * The current and the previously installed version stay on disk so an update can
+ * be rolled back; uninstalling removes the agent's whole directory.
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import crypto from "crypto";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
+import type { RegistryAgent, RegistryBinaryTarget } from "@shared/types/registry";
+import { getDataDir } from "./data-dir";
+import { getAgent, getRegistryPlatformKey, saveAgent, type InstalledAgent } from "./agent-registry";
+import { log } from "./logger";
+
+const execFileAsync = promisify(execFile);
+
+// Abort a download that receives nothing for this long (connecting included)
+const DOWNLOAD_STALL_TIMEOUT_MS = 30000;
+
+const TAR_EXTENSIONS = [".tar.gz", ".tgz", ".tar.bz2", ".tbz2", ".tar.xz", ".txz", ".tar"];
+
+/** Agent ids and versions become directory names — reject anything that could escape the agents dir. */
+function assertSafeSegment(value: string, label: string): void {
+  if (!/^[A-Za-z0-9._@+-]+$/.test(value) || value === "." || value === "..") {
+    throw new Error(`Invalid agent ${label}: ${value}`);
+  }
+}
+
+function getAgentDir(agentId: string): string {
+  assertSafeSegment(agentId, "id");
+  return path.join(getDataDir(), "agents", agentId);
+}
+
+function getVersionDir(agentId: string, version: string): string {
+  assertSafeSegment(version, "version");
+  return path.join(getAgentDir(agentId), version);
+}
+
+function archiveKind(url: string): "zip" | "tar" | "raw" {
+  const pathname = new URL(url).pathname.toLowerCase();
+  if (pathname.endsWith(".zip")) return "zip";
+  if (TAR_EXTENSIONS.some((ext) => pathname.endsWith(ext))) return "tar";
+  return "raw";
+}
+
+/**
+ * Stream a download to `dest` and return the sha256 of what was written.
+ * There is no overall time limit (archives can be large) — only a stall timeout.
+ */
+async function download(url: string, dest: string): Promise<string> {
+  const controller = new AbortController();
+  let stallTimer = setTimeout(() => controller.abort(), DOWNLOAD_STALL_TIMEOUT_MS);
+  const resetStallTimer = () => {
+    clearTimeout(stallTimer);
+    stallTimer = setTimeout(() => controller.abort(), DOWNLOAD_STALL_TIMEOUT_MS);
+  };
+
+  const hash = crypto.createHash("sha256");
+  let bytes = 0;
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) throw new Error(`Download failed: HTTP ${response.status} for ${url}`);
+    if (!response.body) throw new Error(`Download failed: empty response from ${url}`);
+    resetStallTimer();
+
+    await pipeline(
+      Readable.fromWeb(response.body as NodeReadableStream<Uint8Array>),
+      new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          resetStallTimer();
+          hash.update(chunk);
+          bytes += chunk.length;
+          callback(null, chunk);
+        },
+      }),
+      fs.createWriteStream(dest),
+      { signal: controller.signal },
+    );
+  } catch (err) {
+    if (controller.signal.aborted) {
+      throw new Error(`Download stalled: no data from ${url} for ${DOWNLOAD_STALL_TIMEOUT_MS / 1000}s`);
+    }
+    throw err;
+  } finally {
+    clearTimeout(stallTimer);
+  }
+  if (bytes === 0) throw new Error(`Download failed: empty response from ${url}`);
+  return hash.digest("hex");
+}
+
+async function extract(archivePath: string, kind: "zip" | "tar" | "raw", destDir: string, cmd: string): Promise<void> {
+  if (kind === "raw") {
+    // Keep cmd's directory part, so locateCommand finds the binary where the target says it is
+    const dest = path.resolve(destDir, cmd);
+    if (!isInside(path.resolve(destDir), dest)) throw new Error(`Agent command escapes the install directory: ${cmd}`);
+    fs.mkdirSync(path.dirname(dest), { recursive: true });
+    fs.copyFileSync(archivePath, dest);
+    return;
+  }
+  // bsdtar (macOS, Windows) reads zips too; GNU tar on Linux does not
+  if (kind === "zip" && process.platform === "linux") {
+    await execFileAsync("unzip", ["-q", "-o", archivePath, "-d", destDir], { timeout: 120000 });
+    return;
+  }
+  await execFileAsync("tar", ["-xf", archivePath, "-C", destDir], { timeout: 120000 });
+}
+
+function isInside(root: string, target: string): boolean {
+  return target.startsWith(root + path.sep);
+}
+
+/**
+ * Reject extracted trees that reach outside `root`: symlinks must resolve inside
+ * it, and a file with more hard links than the tree itself holds is linked to
+ * something outside. Anything we later chmod or exec must stay in the install.
+ */
+function assertContained(root: string): void {
+  const realRoot = fs.realpathSync(root);
+  const files: Array<{ path: string; key: string; nlink: number }> = [];
+  const linksInTree = new Map<string, number>();
+
+  const walk = (dir: string) => {
+    for (const entry of fs.readdirSync(dir)) {
+      const entryPath = path.join(dir, entry);
+      const stat = fs.lstatSync(entryPath);
+      if (stat.isSymbolicLink()) {
+        let target: string;
+        try {
+          target = fs.realpathSync(entryPath);
+        } catch {
+          throw new Error(`Archive contains a dangling symlink: ${path.relative(root, entryPath)}`);
+        }
+        if (!isInside(realRoot, target)) {
+          throw new Error(`Archive contains a symlink outside the install directory: ${path.relative(root, entryPath)}`);
+        }
+      } else if (stat.isDirectory()) {
+        walk(entryPath);
+      } else if (stat.isFile()) {
+        const key = `${stat.dev}:${stat.ino}`;
+        files.push({ path: entryPath, key, nlink: stat.nlink });
+        linksInTree.set(key, (linksInTree.get(key) ?? 0) + 1);
+      }
+    }
+  };
+  walk(root);
+
+  for (const file of files) {
+    if (file.nlink > (linksInTree.get(file.key) ?? 0)) {
+      throw new Error(`Archive contains a hard link outside the install directory: ${path.relative(root, file.path)}`);
+    }
+  }
+}
+
+/**
+ * Path of the registry `cmd` relative to the extracted root. Archives that wrap
+ * everything in one top-level folder are accepted too. The command itself must
+ * be a regular file, not a symlink.
+ */
+function locateCommand(root: string, cmd: string): string {
+  const candidates = [cmd];
+  const entries = fs.readdirSync(root, { withFileTypes: true });
+  if (entries.length === 1 && entries[0].isDirectory()) candidates.push(path.join(entries[0].name, cmd));
+
+  for (const candidate of candidates) {
+    const resolved = path.resolve(root, candidate);
+    if (!isInside(root, resolved)) throw new Error(`Agent command escapes the install directory: ${cmd}`);
+    let stat: fs.Stats;
+    try {
+      stat = fs.lstatSync(resolved);
+    } catch {
+      continue;
+    }
+    if (stat.isSymbolicLink()) throw new Error(`Agent command "${cmd}" is a symlink`);
+    if (stat.isFile()) return path.relative(root, resolved);
+  }
+  throw new Error(`Archive does not contain the agent command "${cmd}"`);
+}
+
+/**
+ * Download, verify and extract one version of an agent. Returns the absolute
+ * path of its command. An existing install of the same version is replaced
+ * only after the new one has been verified.
+ */
+async function installVersion(agentId: string, version: string, target: RegistryBinaryTarget): Promise<string> {
+  const versionDir = getVersionDir(agentId, version);
+  const staging = `${versionDir}.partial-${Date.now()}`;
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "harnss-agent-"));
+
+  try {
+    const archivePath = path.join(tmpDir, "archive");
+    log("AGENT_INSTALL", `Downloading ${agentId}@${version} from ${target.archive}`);
+    const digest = await download(target.archive, archivePath);
+    if (target.sha256 && target.sha256.toLowerCase() !== digest) {
+      throw new Error(`Checksum mismatch for ${agentId}@${version}: expected ${target.sha256}, got ${digest}`);
+    }
+
+    fs.mkdirSync(staging, { recursive: true });
+    await extract(archivePath, archiveKind(target.archive), staging, target.cmd);
+    assertContained(staging);
+    const relativeCmd = locateCommand(staging, target.cmd);
+    if (process.platform !== "win32") fs.chmodSync(path.join(staging, relativeCmd), 0o755);
+
+    fs.rmSync(versionDir, { recursive: true, force: true });
+    fs.renameSync(staging, versionDir);
+    log("AGENT_INSTALL", `Installed ${agentId}@${version} to ${versionDir}`);
+    return path.join(versionDir, relativeCmd);
+  } finally {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    fs.rmSync(staging, { recursive: true, force: true });
+  }
+}
+
+/** Delete every version directory except the ones listed (and in-progress installs). */
+function pruneVersions(agentId: string, keep: Array<string | undefined>): void {
+  const agentDir = getAgentDir(agentId);
+  let entries: string[];
+  try {
+    entries = fs.readdirSync(agentDir);
+  } catch {
+    return;
+  }
+  for (const entry of entries) {
+    if (keep.includes(entry) || entry.includes(".partial-")) continue;
+    fs.rmSync(path.join(agentDir, entry), { recursive: true, force: true });
+  }
+}
+
+/**
+ * Install or update a binary-distribution registry agent for this platform.
+ * On update the replaced version is kept as `previousInstall`; user settings on
+ * the existing agent (review writes, cached modes and config) carry over.
+ */
+export async function installRegistryBinaryAgent(agent: RegistryAgent): Promise<InstalledAgent> {
+  const key = getRegistryPlatformKey();
+  const target = key ? agent.distribution.binary?.[key] : undefined;
+  if (!target) throw new Error(`${agent.name} has no binary for ${key ?? process.platform}`);
+
+  const existing = getAgent(agent.id);
+  const binary = await installVersion(agent.id, agent.version, target);
+  const previousInstall = existing?.installedVersion && existing.installedVersion !== agent.version && existing.binary
+    ? { version: existing.installedVersion, binary: existing.binary, args: existing.args }
+    : existing?.previousInstall;
+
+  const installed: InstalledAgent = {
+    ...existing,
+    id: agent.id,
+    name: agent.name,
+    engine: "acp",
+    binary,
+    args: target.args,
+    icon: agent.icon,
+    registryId: agent.id,
+    registryVersion: agent.version,
+    installedVersion: agent.version,
+    previousInstall,
+    description: agent.description,
+  };
+  saveAgent(installed);
+  pruneVersions(agent.id, [agent.version, previousInstall?.version]);
+  return installed;
+}
+
+/** Switch a managed agent back to the version it had before its last update. */
+export function rollbackAgent(id: string): InstalledAgent {
+  const agent = getAgent(id);
+  const previous = agent?.previousInstall;
+  if (!agent || !previous) throw new Error("No previous version to roll back to");
+  if (!fs.existsSync(previous.binary)) throw new Error(`v${previous.version} is no longer on disk`);
+
+  const rolledBack: InstalledAgent = {
+    ...agent,
+    binary: previous.binary,
+    args: previous.args,
+    registryVersion: previous.version,
+    installedVersion: previous.version,
+    // Keep the version we left so the rollback itself can be undone
+    previousInstall: agent.installedVersion && agent.binary
+      ? { version: agent.installedVersion, binary: agent.binary, args: agent.args }
+      : undefined,
+  };
+  saveAgent(rolledBack);
+  log("AGENT_INSTALL", `Rolled back ${id} to ${previous.version}`);
+  return rolledBack;
+}
+
+/** Remove all managed files for an agent (no-op for agents Harnss didn't install). */
+export function removeAgentInstall(id: string): void {
+  const agentDir = getAgentDir(id);
+  if (!fs.existsSync(agentDir)) return;
+  fs.rmSync(agentDir, { recursive: true, force: true });
+  log("AGENT_INSTALL", `Removed managed install of ${id}`);
+}
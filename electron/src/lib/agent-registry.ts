@@ -3,6 +3,7 @@ import path from "path";
 import { execFile } from "child_process";
 import { promisify } from "util";
 import { app } from "electron";
+import type { ACPAgentCapabilities } from "@shared/types/acp";
 
 const execFileAsync = promisify(execFile);
 
@@ -21,10 +22,22 @@ export interface InstalledAgent {
   registryId?: string;
   /** Version from the registry at install time */
   registryVersion?: string;
+  /** Version of the binary Harnss downloaded into its managed agents dir — unset for npx and PATH agents */
+  installedVersion?: string;
+  /** The managed install replaced by the last update, kept on disk for rollback */
+  previousInstall?: { version: string; binary: string; args?: string[] };
   /** Description from the registry, shown in agent cards */
   description?: string;
   /** Cached config options from the last ACP session — shown before session starts */
   cachedConfigOptions?: unknown[];
+  /** Session modes from the last ACP session — `currentModeId` is the mode new sessions start in */
+  cachedModes?: { currentModeId: string; availableModes: unknown[] };
+  /** Hold `fs/write_text_file` requests for user review instead of writing straight to disk */
+  reviewWrites?: boolean;
+  /** What the agent reported in its last `initialize` handshake */
+  capabilities?: ACPAgentCapabilities;
+  /** Last successful ACP `authenticate` — reused automatically when the agent asks for auth again */
+  auth?: { methodId: string; authenticatedAt: number };
 }
 
 const BUILTIN_CLAUDE: InstalledAgent = {
@@ -94,6 +107,30 @@ export function updateCachedConfig(id: string, configOptions: unknown[]): void {
   persistUserAgents();
 }
 
+/** Remember the agent's session modes and last-used mode (fire-and-forget from renderer) */
+export function updateCachedModes(id: string, modes: { currentModeId: string; availableModes: unknown[] }): void {
+  const agent = agents.get(id);
+  if (!agent || agent.builtIn) return;
+  agent.cachedModes = modes;
+  persistUserAgents();
+}
+
+/** Record what the agent reported in its `initialize` handshake */
+export function updateCapabilities(id: string, capabilities: ACPAgentCapabilities): void {
+  const agent = agents.get(id);
+  if (!agent || agent.builtIn) return;
+  agent.capabilities = capabilities;
+  persistUserAgents();
+}
+
+/** Remember the auth method the user signed in with */
+export function recordAuthentication(id: string, methodId: string): void {
+  const agent = agents.get(id);
+  if (!agent || agent.builtIn) return;
+  agent.auth = { methodId, authenticatedAt: Date.now() };
+  persistUserAgents();
+}
+
 function persistUserAgents(): void {
   const userAgents = listAgents().filter((a) => !a.builtIn);
   const dir = path.dirname(getConfigPath());
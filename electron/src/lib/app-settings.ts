@@ -11,6 +11,7 @@
 import path from "path";
 import fs from "fs";
 import { getDataDir } from "./data-dir";
+import type { AgentRegistrySource } from "@shared/types/registry";
 
 // ── Schema ──
 
@@ -43,8 +44,23 @@ export interface AppSettings {
   notifications: NotificationSettings;
   /** Custom client name sent to Codex servers during handshake (default: "Harnss") */
   codexClientName: string;
+  /**
+   * Snapshot the git working tree before each Codex turn so its file changes can be
+   * reverted. Snapshots include untracked, non-ignored files and are stored in the
+   * repo's own object database under refs/harnss/snapshots (default: true)
+   */
+  codexFileSnapshots: boolean;
+  /** Where the agent store loads registries from, in priority order (default: the public ACP registry) */
+  agentRegistries: AgentRegistrySource[];
 }
 
+export const PUBLIC_REGISTRY_SOURCE: AgentRegistrySource = {
+  id: "acp-public",
+  label: "ACP Registry",
+  location: "https://cdn.agentclientprotocol.com/registry/v1/latest/registry.json",
+  enabled: true,
+};
+
 const NOTIFICATION_DEFAULTS: NotificationSettings = {
   exitPlanMode: { osNotification: "unfocused", sound: "always" },
   permissions: { osNotification: "unfocused", sound: "unfocused" },
@@ -59,6 +75,8 @@ const DEFAULTS: AppSettings = {
   voiceDictation: "native",
   notifications: NOTIFICATION_DEFAULTS,
   codexClientName: "Harnss",
+  codexFileSnapshots: true,
+  agentRegistries: [PUBLIC_REGISTRY_SOURCE],
 };
 
 // ── Internal state ──
@@ -0,0 +1,127 @@
+/**
+ * Project MCP servers for Codex sessions.
+ *
+ * Claude and ACP take MCP servers as start options; Codex reads them from its
+ * config instead, so project servers are passed as per-thread `config`
+ * overrides — one dotted `mcp_servers.<key>` entry each, which leaves servers
+ * from the user's own ~/.codex/config.toml in place.
+ */
+
+import { log } from "./logger";
+import { getMcpAuthHeaders } from "./mcp-oauth-flow";
+import type { McpServerStatus as CodexMcpServerStatus } from "@shared/types/codex-protocol/v2/McpServerStatus";
+
+export type McpServerInput = {
+  name: string;
+  transport: string;
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  url?: string;
+  headers?: Record<string, string>;
+};
+
+/** Status shape shared with the renderer's MCP panel (see McpServerStatus in src/types/ui.ts). */
+export interface CodexMcpPanelStatus {
+  name: string;
+  status: "connected" | "failed" | "needs-auth" | "pending";
+  error?: string;
+  scope?: string;
+  tools?: Array<{ name: string; description?: string }>;
+}
+
+export interface CodexMcpConfig {
+  /** Thread `config` overrides — empty when the project has no usable servers. */
+  config: Record<string, unknown>;
+  /** Codex server key → project server name, for mapping statuses back. */
+  keys: Map<string, string>;
+  /** Project servers Codex can't run, with the reason. */
+  skipped: Array<{ name: string; error: string }>;
+}
+
+/** Codex only accepts [a-zA-Z0-9_-] in mcp_servers table keys. */
+function toServerKey(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_-]/g, "_");
+}
+
+/** Translate project MCP servers into Codex config overrides (with fresh OAuth headers). */
+export async function buildCodexMcpConfig(servers: McpServerInput[]): Promise<CodexMcpConfig> {
+  const config: Record<string, unknown> = {};
+  const keys = new Map<string, string>();
+  const skipped: CodexMcpConfig["skipped"] = [];
+
+  for (const s of servers) {
+    const key = toServerKey(s.name);
+    if (keys.has(key)) {
+      skipped.push({ name: s.name, error: `Name collides with "${keys.get(key)}" after Codex key normalization` });
+      continue;
+    }
+
+    if (s.transport === "stdio") {
+      if (!s.command) { log("CODEX_MCP_WARN", `Server "${s.name}" (stdio) missing command — skipping`); continue; }
+      config[`mcp_servers.${key}`] = {
+        command: s.command,
+        args: s.args ?? [],
+        ...(s.env && Object.keys(s.env).length > 0 ? { env: s.env } : {}),
+      };
+    } else if (s.transport === "http") {
+      if (!s.url) { log("CODEX_MCP_WARN", `Server "${s.name}" (http) missing URL — skipping`); continue; }
+      const authHeaders = await getMcpAuthHeaders(s.name, s.url);
+      const headers = { ...s.headers, ...authHeaders };
+      config[`mcp_servers.${key}`] = {
+        url: s.url,
+        ...(Object.keys(headers).length > 0 ? { http_headers: headers } : {}),
+      };
+    } else {
+      // Codex speaks stdio and streamable HTTP only
+      skipped.push({ name: s.name, error: `Codex doesn't support the ${s.transport.toUpperCase()} transport` });
+      continue;
+    }
+    keys.set(key, s.name);
+  }
+
+  if (skipped.length > 0) {
+    log("CODEX_MCP_WARN", `Skipped servers: ${skipped.map((s) => `${s.name} (${s.error})`).join(", ")}`);
+  }
+  return { config, keys, skipped };
+}
+
+/**
+ * Map `mcpServerStatus/list` results onto the MCP panel's status model. Codex
+ * lists what each server exposes rather than a connection state, so a project
+ * server that reports nothing (or isn't listed) is treated as failed.
+ */
+export function toPanelStatuses(
+  reported: CodexMcpServerStatus[],
+  mcp: Pick<CodexMcpConfig, "keys" | "skipped">,
+): CodexMcpPanelStatus[] {
+  const byKey = new Map(reported.map((s) => [s.name, s]));
+  const statuses: CodexMcpPanelStatus[] = [];
+
+  for (const [key, name] of mcp.keys) {
+    const server = byKey.get(key);
+    byKey.delete(key);
+    statuses.push(toPanelStatus(name, server));
+  }
+  for (const { name, error } of mcp.skipped) {
+    statuses.push({ name, status: "failed", error });
+  }
+  // Servers from the user's Codex config — shown too, so the panel matches what the agent can call
+  for (const server of byKey.values()) {
+    statuses.push({ ...toPanelStatus(server.name, server), scope: "codex" });
+  }
+  return statuses;
+}
+
+function toPanelStatus(name: string, server: CodexMcpServerStatus | undefined): CodexMcpPanelStatus {
+  if (!server) return { name, status: "failed", error: "Codex did not load this server" };
+  if (server.authStatus === "notLoggedIn") return { name, status: "needs-auth" };
+
+  const tools = Object.values(server.tools)
+    .filter((t) => t !== undefined)
+    .map((t) => ({ name: t.name, ...(t.description ? { description: t.description } : {}) }));
+  if (tools.length === 0 && server.resources.length === 0 && server.resourceTemplates.length === 0) {
+    return { name, status: "failed", error: "Server reported no tools or resources" };
+  }
+  return { name, status: "connected", tools };
+}
@@ -28,6 +28,14 @@ export interface RpcError {
   data?: unknown;
 }
 
+/** The server answered a request with a JSON-RPC error — the transport itself is fine. */
+export class CodexRpcError extends Error {
+  constructor(readonly code: number, message: string, readonly data?: unknown) {
+    super(`Codex RPC error [${code}]: ${message}`);
+    this.name = "CodexRpcError";
+  }
+}
+
 export type ServerRequestHandler = (msg: {
   id: RequestId;
   method: string;
@@ -53,6 +61,8 @@ export class CodexRpcClient {
   onStderr: ((data: string) => void) | null = null;
   /** Called when the process exits */
   onExit: ((code: number | null, signal: string | null) => void) | null = null;
+  /** Sees every message on the wire, in both directions (protocol inspector) */
+  onMessage: ((direction: "in" | "out", msg: Record<string, unknown>) => void) | null = null;
 
   constructor(private proc: ChildProcess) {
     proc.stdout?.on("data", (chunk: Buffer) => this.handleData(chunk));
@@ -138,6 +148,7 @@ export class CodexRpcClient {
 
   private writeLine(msg: Record<string, unknown>): void {
     if (this.destroyed || !this.proc.stdin || this.proc.stdin.destroyed) return;
+    this.onMessage?.("out", msg);
     const line = JSON.stringify(msg) + "\n";
     this.proc.stdin.write(line);
   }
@@ -151,6 +162,7 @@ export class CodexRpcClient {
       if (!line.trim()) continue;
       try {
         const msg = JSON.parse(line) as Record<string, unknown>;
+        this.onMessage?.("in", msg);
         this.dispatchMessage(msg);
       } catch (err) {
         log("codex-rpc", `Failed to parse line: ${(err as Error).message}`);
@@ -173,7 +185,7 @@ export class CodexRpcClient {
         clearTimeout(pending.timer);
         if (hasError) {
           const err = msg.error as RpcError;
-          pending.reject(new Error(`Codex RPC error [${err.code}]: ${err.message}`));
+          pending.reject(new CodexRpcError(err.code, err.message, err.data));
         } else {
           pending.resolve(msg.result);
         }
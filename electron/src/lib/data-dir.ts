@@ -13,7 +13,3 @@ export function getProjectSessionsDir(projectId: string): string {
   fs.mkdirSync(dir, { recursive: true });
   return dir;
 }
-
-export function getSessionFilePath(projectId: string, sessionId: string): string {
-  return path.join(getProjectSessionsDir(projectId), `${sessionId}.json`);
-}
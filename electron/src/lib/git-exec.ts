@@ -8,9 +8,10 @@ export const ALWAYS_SKIP = new Set([
   ".gradle", ".idea", ".vs", ".vscode", "target", "out", "bin", "obj",
 ]);
 
-export function gitExec(args: string[], cwd: string): Promise<string> {
+export function gitExec(args: string[], cwd: string, env?: Record<string, string>): Promise<string> {
   return new Promise((resolve, reject) => {
-    execFile("git", args, { cwd, maxBuffer: 5 * 1024 * 1024 }, (err, stdout, stderr) => {
+    const options = { cwd, maxBuffer: 5 * 1024 * 1024, ...(env ? { env: { ...process.env, ...env } } : {}) };
+    execFile("git", args, options, (err, stdout, stderr) => {
       if (err) return reject(new Error(stderr?.trim() || err.message));
       resolve(stdout);
     });
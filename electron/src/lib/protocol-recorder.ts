@@ -0,0 +1,225 @@
+/**
+ * Opt-in, per-session recording of agent protocol traffic for the protocol inspector.
+ *
+ * Engines call `recordProtocolMessage` for every message they send or receive —
+ * the Claude SDK stream, Codex app-server JSON-RPC and the ACP connection. It is
+ * a no-op unless recording was turned on for that session.
+ *
+ * Each session keeps at most MAX_ENTRIES entries / MAX_BYTES of JSON; the oldest
+ * entries are evicted first. Payloads above MAX_PAYLOAD_CHARS keep only a preview.
+ * When a session ends its recording stops; only the last MAX_ENDED_RECORDINGS ended
+ * recordings are kept so they can still be inspected.
+ */
+
+import type { EngineId } from "@shared/types/engine";
+import type {
+  ProtocolDirection,
+  ProtocolEntry,
+  ProtocolMessageKind,
+  ProtocolRecordingState,
+} from "@shared/types/protocol-inspector";
+
+const MAX_ENTRIES = 5000;
+const MAX_BYTES = 16 * 1024 * 1024; // 16 MB of JSON per session
+const MAX_PAYLOAD_CHARS = 256 * 1024;
+const PREVIEW_CHARS = 4096;
+// Requests that never got a response — bounded so they can't accumulate forever
+const MAX_PENDING_REQUESTS = 500;
+const MAX_ENDED_RECORDINGS = 3;
+
+interface Recording {
+  active: boolean;
+  entries: ProtocolEntry[];
+  bytes: number;
+  dropped: number;
+  /** Open requests keyed by `${direction}:${id}`, for response timing */
+  pending: Map<string, { at: number; method: string }>;
+}
+
+const recordings = new Map<string, Recording>();
+/** Sessions whose engine is gone, oldest first */
+const endedSessions: string[] = [];
+let nextSeq = 1;
+let entryListener: ((entry: ProtocolEntry) => void) | null = null;
+let endedListener: ((sessionId: string) => void) | null = null;
+
+/** Receives every new entry — the IPC layer forwards them to the renderer. */
+export function setProtocolEntryListener(listener: ((entry: ProtocolEntry) => void) | null): void {
+  entryListener = listener;
+}
+
+/** Told when an active recording stops because its session ended. */
+export function setRecordingEndedListener(listener: ((sessionId: string) => void) | null): void {
+  endedListener = listener;
+}
+
+export function setRecording(sessionId: string, enabled: boolean): void {
+  const existing = recordings.get(sessionId);
+  if (existing) {
+    existing.active = enabled;
+    // Recording again — no longer a candidate for eviction
+    const ended = endedSessions.indexOf(sessionId);
+    if (enabled && ended >= 0) endedSessions.splice(ended, 1);
+  } else if (enabled) {
+    recordings.set(sessionId, { active: true, entries: [], bytes: 0, dropped: 0, pending: new Map() });
+  }
+}
+
+export function getRecording(sessionId: string): ProtocolRecordingState {
+  const rec = recordings.get(sessionId);
+  return { recording: rec?.active ?? false, entries: rec?.entries ?? [], dropped: rec?.dropped ?? 0 };
+}
+
+/**
+ * The session's engine stopped or exited: stop recording and keep the entries
+ * for inspection, dropping the oldest ended recordings beyond the limit.
+ */
+export function endRecording(sessionId: string): void {
+  const rec = recordings.get(sessionId);
+  if (!rec) return;
+  if (rec.active) endedListener?.(sessionId);
+  rec.active = false;
+  rec.pending.clear();
+  if (endedSessions.includes(sessionId)) return;
+  endedSessions.push(sessionId);
+  while (endedSessions.length > MAX_ENDED_RECORDINGS) {
+    recordings.delete(endedSessions.shift()!);
+  }
+}
+
+/** Drop a session's entries; an active recording keeps going from empty. */
+export function clearRecording(sessionId: string): void {
+  const rec = recordings.get(sessionId);
+  if (!rec) return;
+  if (!rec.active) {
+    recordings.delete(sessionId);
+    const ended = endedSessions.indexOf(sessionId);
+    if (ended >= 0) endedSessions.splice(ended, 1);
+    return;
+  }
+  rec.entries = [];
+  rec.bytes = 0;
+  rec.dropped = 0;
+  rec.pending.clear();
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function classify(message: unknown): { kind: ProtocolMessageKind; method?: string; id?: string | number; isError?: boolean } {
+  if (!isRecord(message)) return { kind: "event" };
+  const id = typeof message.id === "string" || typeof message.id === "number" ? message.id : undefined;
+  const method = typeof message.method === "string" ? message.method : undefined;
+  if (method && id !== undefined) return { kind: "request", method, id };
+  if (method) return { kind: "notification", method };
+  if (id !== undefined && ("result" in message || "error" in message)) {
+    return { kind: "response", id, isError: "error" in message };
+  }
+  // Claude SDK messages: { type, subtype? }
+  if (typeof message.type === "string") {
+    return { kind: "event", method: typeof message.subtype === "string" ? `${message.type}/${message.subtype}` : message.type };
+  }
+  return { kind: "event" };
+}
+
+function serialize(message: unknown): string {
+  try {
+    return JSON.stringify(message) ?? "null";
+  } catch {
+    return JSON.stringify(String(message));
+  }
+}
+
+export function recordProtocolMessage(
+  sessionId: string,
+  engine: EngineId,
+  direction: ProtocolDirection,
+  message: unknown,
+): void {
+  const rec = recordings.get(sessionId);
+  if (!rec?.active) return;
+
+  const at = Date.now();
+  const { kind, id, isError, ...rest } = classify(message);
+  let method = rest.method;
+  let durationMs: number | undefined;
+
+  if (kind === "request" && method) {
+    rec.pending.set(`${direction}:${id}`, { at, method });
+    if (rec.pending.size > MAX_PENDING_REQUESTS) {
+      rec.pending.delete(rec.pending.keys().next().value!);
+    }
+  } else if (kind === "response") {
+    // A response travels the opposite way of its request
+    const key = `${direction === "in" ? "out" : "in"}:${id}`;
+    const request = rec.pending.get(key);
+    if (request) {
+      rec.pending.delete(key);
+      method = request.method;
+      durationMs = at - request.at;
+    }
+  }
+
+  const full = serialize(message);
+  const truncated = full.length > MAX_PAYLOAD_CHARS;
+  const entry: ProtocolEntry = {
+    seq: nextSeq++,
+    sessionId,
+    engine,
+    direction,
+    kind,
+    at,
+    method,
+    id,
+    isError,
+    durationMs,
+    json: truncated ? full.slice(0, PREVIEW_CHARS) : full,
+    size: full.length,
+    ...(truncated ? { truncated: true } : {}),
+  };
+
+  rec.entries.push(entry);
+  rec.bytes += entry.json.length;
+  while (rec.entries.length > MAX_ENTRIES || rec.bytes > MAX_BYTES) {
+    const evicted = rec.entries.shift()!;
+    rec.bytes -= evicted.json.length;
+    rec.dropped++;
+  }
+
+  entryListener?.(entry);
+}
+
+/**
+ * Wrap a message stream pair (such as the ACP SDK's `ndJsonStream`) so every
+ * message read or written passes through `onMessage` first.
+ */
+export function tapMessageStream<T>(
+  stream: { readable: ReadableStream<T>; writable: WritableStream<T> },
+  onMessage: (direction: ProtocolDirection, message: T) => void,
+): { readable: ReadableStream<T>; writable: WritableStream<T> } {
+  const readable = stream.readable.pipeThrough(new TransformStream<T, T>({
+    transform(message, controller) {
+      onMessage("in", message);
+      controller.enqueue(message);
+    },
+  }));
+  const writable = new WritableStream<T>({
+    async write(message) {
+      onMessage("out", message);
+      const writer = stream.writable.getWriter();
+      try {
+        await writer.write(message);
+      } finally {
+        writer.releaseLock();
+      }
+    },
+    async close() {
+      await stream.writable.close();
+    },
+    async abort(reason) {
+      await stream.writable.abort(reason);
+    },
+  });
+  return { readable, writable };
+}
@@ -0,0 +1,185 @@
+/**
+ * Agent store registry sources — the public ACP registry plus any company-hosted
+ * ones configured in Settings. Each source is an http(s) URL, a file:// URL or an
+ * absolute path to a registry JSON file.
+ *
+ * Every successful load is validated and written to
+ * {userData}/openacpui-data/registry-cache/<sourceId>.json so the store still
+ * lists agents when a source is offline (results are marked `stale`).
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import type { AgentRegistrySource, RegistryAgent, RegistrySourceResult } from "@shared/types/registry";
+import { getAppSetting } from "./app-settings";
+import { getDataDir } from "./data-dir";
+import { extractErrorMessage } from "./error-utils";
+import { log } from "./logger";
+
+const MEMORY_TTL_MS = 15 * 60 * 1000; // 15 minutes
+const FETCH_TIMEOUT_MS = 15000;
+
+interface CacheFile {
+  location: string;
+  fetchedAt: number;
+  agents: RegistryAgent[];
+  validationErrors: string[];
+}
+
+// Keyed by source id — reused while the location is unchanged and the entry is fresh
+const memoryCache = new Map<string, CacheFile>();
+
+function getCachePath(sourceId: string): string {
+  const safeId = sourceId.replace(/[^A-Za-z0-9._-]/g, "_");
+  return path.join(getDataDir(), "registry-cache", `${safeId}.json`);
+}
+
+function readCache(source: AgentRegistrySource): CacheFile | null {
+  try {
+    const cache = JSON.parse(fs.readFileSync(getCachePath(source.id), "utf-8")) as CacheFile;
+    return cache.location === source.location ? cache : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeCache(sourceId: string, cache: CacheFile): void {
+  try {
+    const file = getCachePath(sourceId);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(cache));
+  } catch (err) {
+    log("REGISTRY", `Failed to cache ${sourceId}: ${extractErrorMessage(err)}`);
+  }
+}
+
+/** Resolve a non-http location to a file path — `~/` is expanded, relative paths are rejected. */
+function resolveLocalPath(location: string): string {
+  if (location.startsWith("file://")) return fileURLToPath(location);
+  const expanded = location.startsWith("~/") ? path.join(os.homedir(), location.slice(2)) : location;
+  if (!path.isAbsolute(expanded)) throw new Error(`Registry path must be absolute: ${location}`);
+  return expanded;
+}
+
+async function readSource(location: string): Promise<string> {
+  if (/^https?:\/\//i.test(location)) {
+    const response = await fetch(location, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return response.text();
+  }
+  return fs.promises.readFile(resolveLocalPath(location), "utf-8");
+}
+
+// ── Schema validation ──
+
+function isString(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Problems with one registry entry — empty when it matches `RegistryAgent`. */
+function validateAgent(raw: unknown): string[] {
+  if (!isRecord(raw)) return ["not an object"];
+  const problems: string[] = [];
+  for (const key of ["id", "name", "version"] as const) {
+    if (!isString(raw[key])) problems.push(`"${key}" must be a non-empty string`);
+  }
+  if (typeof raw.description !== "string") problems.push(`"description" must be a string`);
+  if (typeof raw.license !== "string") problems.push(`"license" must be a string`);
+  if (!Array.isArray(raw.authors) || !raw.authors.every((a) => typeof a === "string")) {
+    problems.push(`"authors" must be an array of strings`);
+  }
+  if (raw.icon !== undefined && typeof raw.icon !== "string") problems.push(`"icon" must be a string`);
+  if (raw.repository !== undefined && typeof raw.repository !== "string") problems.push(`"repository" must be a string`);
+
+  const dist = raw.distribution;
+  if (!isRecord(dist)) {
+    problems.push(`"distribution" must be an object`);
+    return problems;
+  }
+  if (dist.npx !== undefined && !(isRecord(dist.npx) && isString(dist.npx.package))) {
+    problems.push(`"distribution.npx.package" must be a non-empty string`);
+  }
+  if (dist.binary !== undefined) {
+    if (!isRecord(dist.binary)) {
+      problems.push(`"distribution.binary" must be an object keyed by platform`);
+    } else {
+      for (const [platform, target] of Object.entries(dist.binary)) {
+        if (!isRecord(target) || !isString(target.archive) || !isString(target.cmd)) {
+          problems.push(`"distribution.binary.${platform}" needs "archive" and "cmd" strings`);
+        }
+      }
+    }
+  }
+  if (dist.npx === undefined && dist.binary === undefined) {
+    problems.push(`"distribution" needs an "npx" or "binary" entry`);
+  }
+  return problems;
+}
+
+/**
+ * Validate registry JSON against `RegistryData`. A bad top-level shape throws;
+ * bad entries are dropped and described in `validationErrors`.
+ */
+export function validateRegistryData(raw: unknown): { agents: RegistryAgent[]; validationErrors: string[] } {
+  if (!isRecord(raw)) throw new Error("Registry must be a JSON object");
+  if (!Array.isArray(raw.agents)) throw new Error(`Registry is missing an "agents" array`);
+
+  const agents: RegistryAgent[] = [];
+  const validationErrors: string[] = [];
+  raw.agents.forEach((entry, index) => {
+    const problems = validateAgent(entry);
+    if (problems.length === 0) {
+      agents.push(entry as RegistryAgent);
+      return;
+    }
+    const id = isRecord(entry) && isString(entry.id) ? entry.id : `#${index}`;
+    validationErrors.push(`${id}: ${problems.join("; ")}`);
+  });
+  return { agents, validationErrors };
+}
+
+// ── Loading ──
+
+async function loadSource(source: AgentRegistrySource, force: boolean): Promise<RegistrySourceResult> {
+  const base = { sourceId: source.id, label: source.label };
+  const memo = memoryCache.get(source.id);
+  if (!force && memo && memo.location === source.location && Date.now() - memo.fetchedAt < MEMORY_TTL_MS) {
+    return { ...base, agents: memo.agents, validationErrors: memo.validationErrors, fetchedAt: memo.fetchedAt };
+  }
+
+  try {
+    const text = await readSource(source.location);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (err) {
+      throw new Error(`Invalid JSON: ${extractErrorMessage(err)}`);
+    }
+    const { agents, validationErrors } = validateRegistryData(parsed);
+    const cache: CacheFile = { location: source.location, fetchedAt: Date.now(), agents, validationErrors };
+    memoryCache.set(source.id, cache);
+    writeCache(source.id, cache);
+    if (validationErrors.length > 0) {
+      log("REGISTRY", `${source.id}: skipped ${validationErrors.length} invalid entries`);
+    }
+    return { ...base, agents, validationErrors, fetchedAt: cache.fetchedAt };
+  } catch (err) {
+    const error = extractErrorMessage(err);
+    log("REGISTRY", `ERROR: ${source.id} (${source.location}): ${error}`);
+    const cache = readCache(source);
+    if (!cache) return { ...base, agents: [], validationErrors: [], error };
+    return { ...base, agents: cache.agents, validationErrors: cache.validationErrors, error, stale: true, fetchedAt: cache.fetchedAt };
+  }
+}
+
+/** Load every enabled source, in the configured order. */
+export async function fetchRegistries(force: boolean): Promise<RegistrySourceResult[]> {
+  const sources = getAppSetting("agentRegistries").filter((s) => s.enabled);
+  return Promise.all(sources.map((source) => loadSource(source, force)));
+}
@@ -0,0 +1,796 @@
+/**
+ * Persistent full-text index over session messages.
+ *
+ * One shard per session at {dataDir}/sessions/{projectId}/search/{sessionId}.json,
+ * holding an inverted map term → message index → token positions. Every message
+ * is one document: user/assistant text, thinking blocks, tool inputs/outputs and
+ * the file paths they touch. Shards are updated incrementally from sessions:save,
+ * flushed on a debounce, and built lazily the first time a search reaches a
+ * session that has none.
+ *
+ * Query syntax:
+ *   plain words      — every word must match (the last one as a prefix), BM25-ranked
+ *   "quoted phrase"  — words must appear consecutively
+ *   /pattern/flags   — regular expression, scanned over the journals in a worker with a deadline
+ */
+
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { Worker } from "worker_threads";
+import { getProjectSessionsDir } from "./data-dir";
+import { listSessions, loadSession, type SessionMeta, type StoredMessage, type StoredSession } from "./session-store";
+import { log } from "./logger";
+
+// ── Schema ──
+
+/** Bump when tokenization or extraction changes — stale shards are rebuilt. */
+const INDEX_VERSION = 1;
+
+interface IndexedDoc {
+  id: string;
+  role: string;
+  toolName?: string;
+  timestamp: number;
+  /** Token count — BM25 length normalization */
+  length: number;
+  /** Hash of the extracted text, so unchanged messages are never re-tokenized */
+  hash: string;
+}
+
+interface SessionShard {
+  version: number;
+  /** Indexed by message position; null for messages with nothing searchable */
+  docs: Array<IndexedDoc | null>;
+  /** term → message index → token positions */
+  postings: Record<string, Record<string, number[]>>;
+}
+
+interface LoadedShard {
+  projectId: string;
+  sessionId: string;
+  shard: SessionShard;
+  /** message index → terms it contributed (derived, used to remove stale postings) */
+  forward: Map<number, string[]>;
+  dirty: boolean;
+}
+
+export interface SearchFilters {
+  engine?: "claude" | "acp" | "codex";
+  /** Case-insensitive substring of the session model */
+  model?: string;
+  /** Exact tool name, case-insensitive (matches tool_call messages only) */
+  toolName?: string;
+  /** Inclusive message timestamp bounds (ms) */
+  from?: number;
+  to?: number;
+}
+
+export interface SearchRequest {
+  projectIds: string[];
+  query: string;
+  filters?: SearchFilters;
+  offset?: number;
+  limit?: number;
+}
+
+export interface MessageSearchHit {
+  sessionId: string;
+  projectId: string;
+  sessionTitle: string;
+  messageId: string;
+  role: string;
+  toolName?: string;
+  snippet: string;
+  /** [start, end) ranges in `snippet` to highlight */
+  highlights: Array<[number, number]>;
+  timestamp: number;
+  score: number;
+}
+
+export interface SessionSearchHit {
+  sessionId: string;
+  projectId: string;
+  title: string;
+  createdAt: number;
+}
+
+export interface SearchResponse {
+  messageResults: MessageSearchHit[];
+  sessionResults: SessionSearchHit[];
+  /** Total message hits across all pages */
+  total: number;
+  error?: string;
+}
+
+type ParsedQuery =
+  | { kind: "regex"; regex: RegExp }
+  | { kind: "terms"; terms: string[]; prefix: string | null; phrases: string[][] };
+
+const MAX_DOC_CHARS = 20_000;
+const MAX_TOKEN_LENGTH = 64;
+const MAX_CACHED_SHARDS = 200;
+const MAX_REGEX_HITS = 1000;
+/** Wall-clock budget for a regex scan — the worker running it is killed past this */
+const REGEX_TIME_BUDGET_MS = 3000;
+const MAX_HIGHLIGHTS = 20;
+const FLUSH_DELAY_MS = 5000;
+const DEFAULT_PAGE_SIZE = 20;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// ── Internal state ──
+
+const shards = new Map<string, LoadedShard>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+function shardKey(projectId: string, sessionId: string): string {
+  return `${projectId}/${sessionId}`;
+}
+
+function getShardDir(projectId: string): string {
+  const dir = path.join(getProjectSessionsDir(projectId), "search");
+  fs.mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+function getShardPath(projectId: string, sessionId: string): string {
+  return path.join(getShardDir(projectId), `${sessionId}.json`);
+}
+
+// ── Text extraction ──
+
+const TOKEN_RE = /[\p{L}\p{N}_]+/gu;
+
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const match of text.toLowerCase().matchAll(TOKEN_RE)) {
+    if (match[0].length <= MAX_TOKEN_LENGTH) tokens.push(match[0]);
+  }
+  return tokens;
+}
+
+/** Collect string leaves of an arbitrary value (tool inputs/results) without their keys. */
+function collectStrings(value: unknown, out: string[], depth = 0): void {
+  if (depth > 6 || value == null) return;
+  if (typeof value === "string") {
+    if (value) out.push(value);
+  } else if (typeof value === "number" || typeof value === "boolean") {
+    out.push(String(value));
+  } else if (Array.isArray(value)) {
+    for (const item of value) collectStrings(item, out, depth + 1);
+  } else if (typeof value === "object") {
+    for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+      // Image payloads are base64 noise
+      if (key === "data" || key === "images") continue;
+      collectStrings(item, out, depth + 1);
+    }
+  }
+}
+
+/** The searchable text of a message: what the user sees plus tool payloads and paths. */
+export function extractMessageText(msg: StoredMessage): string {
+  const parts: string[] = [];
+  switch (msg.role) {
+    case "user":
+      parts.push(typeof msg.displayContent === "string" ? msg.displayContent : String(msg.content ?? ""));
+      break;
+    case "assistant":
+      parts.push(String(msg.content ?? ""));
+      if (typeof msg.thinking === "string") parts.push(msg.thinking);
+      break;
+    case "tool_call":
+      if (typeof msg.toolName === "string") parts.push(msg.toolName);
+      collectStrings(msg.toolInput, parts);
+      collectStrings(msg.toolResult, parts);
+      if (Array.isArray(msg.subagentSteps)) {
+        for (const step of msg.subagentSteps as Array<Record<string, unknown>>) {
+          collectStrings(step.toolName, parts);
+          collectStrings(step.toolInput, parts);
+        }
+      }
+      break;
+    case "system":
+    case "summary":
+      parts.push(String(msg.content ?? ""));
+      break;
+    default:
+      return "";
+  }
+  const text = parts.filter(Boolean).join("\n");
+  return text.length > MAX_DOC_CHARS ? text.slice(0, MAX_DOC_CHARS) : text;
+}
+
+// ── Shard maintenance ──
+
+// Terms like "constructor" or "__proto__" must not resolve to Object.prototype members
+function termMap(entries?: SessionShard["postings"]): SessionShard["postings"] {
+  return Object.assign(Object.create(null) as SessionShard["postings"], entries);
+}
+
+function emptyShard(): SessionShard {
+  return { version: INDEX_VERSION, docs: [], postings: termMap() };
+}
+
+function buildForward(shard: SessionShard): Map<number, string[]> {
+  const forward = new Map<number, string[]>();
+  for (const [term, docs] of Object.entries(shard.postings)) {
+    for (const docIdx of Object.keys(docs)) {
+      const idx = Number(docIdx);
+      const terms = forward.get(idx);
+      if (terms) terms.push(term);
+      else forward.set(idx, [term]);
+    }
+  }
+  return forward;
+}
+
+function removeDoc(loaded: LoadedShard, idx: number): void {
+  const key = String(idx);
+  for (const term of loaded.forward.get(idx) ?? []) {
+    const docs = loaded.shard.postings[term];
+    if (!docs) continue;
+    delete docs[key];
+    if (Object.keys(docs).length === 0) delete loaded.shard.postings[term];
+  }
+  loaded.forward.delete(idx);
+  loaded.shard.docs[idx] = null;
+}
+
+/** (Re)index one message. Returns false when the stored document was already current. */
+function indexDoc(loaded: LoadedShard, idx: number, msg: StoredMessage): boolean {
+  const text = extractMessageText(msg);
+  const textHash = crypto.createHash("sha1").update(text).digest("base64");
+  const existing = loaded.shard.docs[idx];
+  if (existing && existing.hash === textHash && existing.id === msg.id) return false;
+
+  removeDoc(loaded, idx);
+  if (!text || typeof msg.id !== "string") return true;
+
+  const tokens = tokenize(text);
+  const positions = new Map<string, number[]>();
+  tokens.forEach((token, pos) => {
+    const list = positions.get(token);
+    if (list) list.push(pos);
+    else positions.set(token, [pos]);
+  });
+  const key = String(idx);
+  for (const [term, list] of positions) {
+    (loaded.shard.postings[term] ??= {})[key] = list;
+  }
+  loaded.forward.set(idx, [...positions.keys()]);
+  loaded.shard.docs[idx] = {
+    id: msg.id,
+    role: String(msg.role ?? ""),
+    ...(typeof msg.toolName === "string" ? { toolName: msg.toolName } : {}),
+    timestamp: typeof msg.timestamp === "number" ? msg.timestamp : 0,
+    length: tokens.length,
+    hash: textHash,
+  };
+  return true;
+}
+
+function syncShard(loaded: LoadedShard, messages: StoredMessage[], changed: number[] | null): void {
+  let modified = false;
+  for (let i = loaded.shard.docs.length - 1; i >= messages.length; i--) {
+    removeDoc(loaded, i);
+    modified = true;
+  }
+  loaded.shard.docs.length = Math.min(loaded.shard.docs.length, messages.length);
+
+  const indexes = changed ?? messages.map((_, i) => i);
+  for (const i of indexes) {
+    if (i >= messages.length) continue;
+    if (indexDoc(loaded, i, messages[i])) modified = true;
+  }
+  // Sparse arrays serialize holes as null — keep that explicit
+  for (let i = 0; i < messages.length; i++) loaded.shard.docs[i] ??= null;
+  if (modified) {
+    loaded.dirty = true;
+    scheduleFlush();
+  }
+}
+
+function cacheShard(loaded: LoadedShard): void {
+  const key = shardKey(loaded.projectId, loaded.sessionId);
+  shards.delete(key);
+  shards.set(key, loaded);
+  if (shards.size <= MAX_CACHED_SHARDS) return;
+  for (const [k, candidate] of shards) {
+    if (shards.size <= MAX_CACHED_SHARDS) break;
+    if (candidate.dirty) continue;
+    shards.delete(k);
+  }
+}
+
+function readShard(projectId: string, sessionId: string): LoadedShard | null {
+  const cached = shards.get(shardKey(projectId, sessionId));
+  if (cached) return cached;
+  try {
+    const shard = JSON.parse(fs.readFileSync(getShardPath(projectId, sessionId), "utf-8")) as SessionShard;
+    if (shard?.version !== INDEX_VERSION || !Array.isArray(shard.docs) || !shard.postings) return null;
+    shard.postings = termMap(shard.postings);
+    const loaded: LoadedShard = { projectId, sessionId, shard, forward: buildForward(shard), dirty: false };
+    cacheShard(loaded);
+    return loaded;
+  } catch {
+    return null;
+  }
+}
+
+/** Load a session's shard, building it from the journal when missing or outdated. */
+function ensureShard(projectId: string, sessionId: string): LoadedShard | null {
+  const existing = readShard(projectId, sessionId);
+  if (existing) return existing;
+  const session = loadSession(projectId, sessionId);
+  if (!session) return null;
+  const loaded: LoadedShard = { projectId, sessionId, shard: emptyShard(), forward: new Map(), dirty: false };
+  syncShard(loaded, session.messages ?? [], null);
+  cacheShard(loaded);
+  return loaded;
+}
+
+function scheduleFlush(): void {
+  if (flushTimer) return;
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    flushSearchIndex();
+  }, FLUSH_DELAY_MS);
+  flushTimer.unref?.();
+}
+
+// ── Public maintenance API ──
+
+/**
+ * Bring a session's shard up to date after a save.
+ * `changed` lists the rewritten message indexes, or null to diff every message.
+ */
+export function updateSessionIndex(session: StoredSession, changed: number[] | null): void {
+  const { projectId, id } = session;
+  const loaded = readShard(projectId, id) ?? {
+    projectId,
+    sessionId: id,
+    shard: emptyShard(),
+    forward: new Map<number, string[]>(),
+    dirty: false,
+  };
+  // A fresh shard has never seen any message — index all of them
+  const effectiveChanged = loaded.shard.docs.length === 0 ? null : changed;
+  syncShard(loaded, session.messages ?? [], effectiveChanged);
+  cacheShard(loaded);
+}
+
+export function removeSessionIndex(projectId: string, sessionId: string): void {
+  shards.delete(shardKey(projectId, sessionId));
+  try {
+    fs.rmSync(getShardPath(projectId, sessionId), { force: true });
+  } catch (err) {
+    log("SEARCH:REMOVE_ERR", (err as Error).message);
+  }
+}
+
+/** Drop in-memory shards for a project whose directory was removed. */
+export function forgetProjectIndex(projectId: string): void {
+  for (const [key, loaded] of shards) {
+    if (loaded.projectId === projectId) shards.delete(key);
+  }
+}
+
+/** Write every dirty shard to disk. Called on a debounce and at shutdown. */
+export function flushSearchIndex(): void {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  for (const loaded of shards.values()) {
+    if (!loaded.dirty) continue;
+    try {
+      const filePath = getShardPath(loaded.projectId, loaded.sessionId);
+      const tempPath = filePath + ".tmp";
+      fs.writeFileSync(tempPath, JSON.stringify(loaded.shard), "utf-8");
+      fs.renameSync(tempPath, filePath);
+      loaded.dirty = false;
+    } catch (err) {
+      log("SEARCH:FLUSH_ERR", `${loaded.sessionId}: ${(err as Error).message}`);
+    }
+  }
+}
+
+// ── Querying ──
+
+const UNSAFE_REGEX_MESSAGE = "Pattern has nested quantifiers or backreferences, which can take too long to search";
+
+/**
+ * Early hint for patterns prone to catastrophic backtracking: a repeated group
+ * that itself contains a quantifier (`(a+)+`, `(\w*x)*`) or any backreference.
+ * Not a guarantee — the scan itself runs in a worker with a deadline.
+ */
+function assertSafeRegex(source: string): void {
+  // One entry per open group: whether anything inside it is quantified
+  const groups: boolean[] = [false];
+  const markQuantified = () => { groups[groups.length - 1] = true; };
+  const isRepeat = (i: number) => source[i] === "*" || source[i] === "+" || source[i] === "{";
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === "\\") {
+      const next = source[i + 1] ?? "";
+      if (/[1-9k]/.test(next)) throw new Error(UNSAFE_REGEX_MESSAGE);
+      i++;
+    } else if (ch === "[") {
+      // Skip the character class; quantifiers inside it are literals
+      for (i++; i < source.length && source[i] !== "]"; i++) {
+        if (source[i] === "\\") i++;
+      }
+    } else if (ch === "(") {
+      groups.push(false);
+    } else if (ch === ")") {
+      const inner = groups.length > 1 ? groups.pop()! : false;
+      if (inner && isRepeat(i + 1)) throw new Error(UNSAFE_REGEX_MESSAGE);
+      if (inner) markQuantified();
+    } else if (isRepeat(i) || (ch === "?" && source[i - 1] !== "(")) {
+      markQuantified();
+    }
+  }
+}
+
+export function parseQuery(query: string): ParsedQuery {
+  const trimmed = query.trim();
+  const regexMatch = /^\/(.+)\/([dgimsuy]*)$/.exec(trimmed);
+  if (regexMatch) {
+    // Global/sticky flags make .test() stateful — strip them
+    const flags = regexMatch[2].replace(/[gy]/g, "");
+    assertSafeRegex(regexMatch[1]);
+    // Throws a SyntaxError with a readable message for invalid patterns
+    return { kind: "regex", regex: new RegExp(regexMatch[1], flags) };
+  }
+
+  const phrases: string[][] = [];
+  const rest = trimmed.replace(/"([^"]*)"?/g, (_m, phrase: string) => {
+    const tokens = tokenize(phrase);
+    if (tokens.length > 0) phrases.push(tokens);
+    return " ";
+  });
+  const terms = tokenize(rest);
+  // Type-ahead: the last bare word matches as a prefix unless the user has moved on
+  const endsWithBareWord = /[\p{L}\p{N}_]$/u.test(query) && !trimmed.endsWith('"');
+  const prefix = endsWithBareWord && terms.length > 0 ? terms.pop()! : null;
+  for (const phrase of phrases) terms.push(...phrase);
+  return { kind: "terms", terms: [...new Set(terms)], prefix, phrases };
+}
+
+function docPassesFilters(doc: IndexedDoc, filters: SearchFilters): boolean {
+  if (filters.toolName && doc.toolName?.toLowerCase() !== filters.toolName.toLowerCase()) return false;
+  if (filters.from !== undefined && doc.timestamp < filters.from) return false;
+  if (filters.to !== undefined && doc.timestamp > filters.to) return false;
+  return true;
+}
+
+function sessionPassesFilters(meta: SessionMeta, filters: SearchFilters): boolean {
+  if (filters.engine && (meta.engine ?? "claude") !== filters.engine) return false;
+  if (filters.model && !(meta.model ?? "").toLowerCase().includes(filters.model.toLowerCase())) return false;
+  // Sessions that started after the range cannot contain matching messages
+  if (filters.to !== undefined && meta.createdAt > filters.to) return false;
+  return true;
+}
+
+function hasPhrase(postings: SessionShard["postings"], docKey: string, phrase: string[]): boolean {
+  const first = postings[phrase[0]]?.[docKey];
+  if (!first) return false;
+  return first.some((start) =>
+    phrase.every((token, k) => k === 0 || postings[token]?.[docKey]?.includes(start + k)),
+  );
+}
+
+interface Candidate {
+  meta: SessionMeta;
+  docIdx: number;
+  doc: IndexedDoc;
+  /** Per query clause term frequency (terms first, then the prefix) */
+  tf: number[];
+  score: number;
+  /** Regex only: highlight ranges over the whitespace-flattened text, found by the worker */
+  ranges?: Array<[number, number]>;
+}
+
+function collectTermCandidates(
+  sessions: SessionMeta[],
+  query: Extract<ParsedQuery, { kind: "terms" }>,
+  filters: SearchFilters,
+): Candidate[] {
+  const clauseCount = query.terms.length + (query.prefix ? 1 : 0);
+  const df = new Array<number>(clauseCount).fill(0);
+  let totalDocs = 0;
+  let totalLength = 0;
+  const candidates: Candidate[] = [];
+
+  for (const meta of sessions) {
+    const loaded = ensureShard(meta.projectId, meta.id);
+    if (!loaded) continue;
+    const { postings, docs } = loaded.shard;
+
+    for (const doc of docs) {
+      if (!doc) continue;
+      totalDocs++;
+      totalLength += doc.length;
+    }
+
+    // Per-clause doc → tf maps for this shard
+    const clauseDocs: Array<Map<string, number>> = query.terms.map((term) => {
+      const map = new Map<string, number>();
+      for (const [docKey, positions] of Object.entries(postings[term] ?? {})) map.set(docKey, positions.length);
+      return map;
+    });
+    if (query.prefix) {
+      const map = new Map<string, number>();
+      for (const [term, docsForTerm] of Object.entries(postings)) {
+        if (!term.startsWith(query.prefix)) continue;
+        for (const [docKey, positions] of Object.entries(docsForTerm)) {
+          map.set(docKey, (map.get(docKey) ?? 0) + positions.length);
+        }
+      }
+      clauseDocs.push(map);
+    }
+    clauseDocs.forEach((map, i) => { df[i] += map.size; });
+    if (clauseDocs.length === 0) continue;
+
+    // Intersect starting from the rarest clause
+    const ordered = [...clauseDocs].sort((a, b) => a.size - b.size);
+    for (const docKey of ordered[0].keys()) {
+      if (!ordered.every((map) => map.has(docKey))) continue;
+      if (!query.phrases.every((phrase) => hasPhrase(postings, docKey, phrase))) continue;
+      const docIdx = Number(docKey);
+      const doc = docs[docIdx];
+      if (!doc || !docPassesFilters(doc, filters)) continue;
+      candidates.push({ meta, docIdx, doc, tf: clauseDocs.map((map) => map.get(docKey) ?? 0), score: 0 });
+    }
+  }
+
+  // BM25 over the searched scope
+  const avgLength = totalDocs > 0 ? totalLength / totalDocs : 1;
+  const idf = df.map((n) => Math.log(1 + (totalDocs - n + 0.5) / (n + 0.5)));
+  for (const c of candidates) {
+    let score = 0;
+    c.tf.forEach((tf, i) => {
+      score += idf[i] * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * (c.doc.length / avgLength)));
+    });
+    // Conversation text outranks tool payloads with the same terms
+    c.score = c.doc.role === "tool_call" ? score * 0.8 : score;
+  }
+  candidates.sort((a, b) => b.score - a.score || b.doc.timestamp - a.doc.timestamp);
+  return candidates;
+}
+
+// Runs in a worker thread: user patterns can backtrack for minutes, and a
+// regex in progress can only be interrupted by terminating its thread.
+const REGEX_WORKER_SOURCE = String.raw`
+const { parentPort, workerData } = require("worker_threads");
+const test = new RegExp(workerData.source, workerData.flags);
+const global = new RegExp(workerData.source, workerData.flags + "g");
+parentPort.on("message", (texts) => {
+  const hits = [];
+  texts.forEach((text, index) => {
+    if (!test.test(text)) return;
+    const ranges = [];
+    for (const match of text.replace(/\s+/g, " ").matchAll(global)) {
+      if (match[0].length === 0) continue;
+      ranges.push([match.index, match.index + match[0].length]);
+      if (ranges.length >= workerData.maxRanges) break;
+    }
+    hits.push({ index, ranges });
+  });
+  parentPort.postMessage(hits);
+});
+`;
+
+interface RegexHit {
+  index: number;
+  ranges: Array<[number, number]>;
+}
+
+interface RegexScan {
+  /** Matching texts from one batch, or null once the deadline has passed */
+  match(texts: string[]): Promise<RegexHit[] | null>;
+  readonly timedOut: boolean;
+  dispose(): void;
+}
+
+function startRegexScan(regex: RegExp): RegexScan {
+  const worker = new Worker(REGEX_WORKER_SOURCE, {
+    eval: true,
+    workerData: { source: regex.source, flags: regex.flags, maxRanges: MAX_HIGHLIGHTS },
+  });
+  let timedOut = false;
+  let pending: { resolve: (hits: RegexHit[] | null) => void; reject: (err: Error) => void } | null = null;
+
+  const settle = (fn: (p: NonNullable<typeof pending>) => void) => {
+    const current = pending;
+    pending = null;
+    if (current) fn(current);
+  };
+  worker.on("message", (hits: RegexHit[]) => settle((p) => p.resolve(hits)));
+  worker.on("error", (err: Error) => settle((p) => p.reject(err)));
+  worker.on("exit", () => settle((p) => p.resolve(null)));
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    void worker.terminate();
+  }, REGEX_TIME_BUDGET_MS);
+
+  return {
+    match(texts) {
+      if (timedOut) return Promise.resolve(null);
+      return new Promise((resolve, reject) => {
+        pending = { resolve, reject };
+        worker.postMessage(texts);
+      });
+    },
+    get timedOut() {
+      return timedOut;
+    },
+    dispose() {
+      clearTimeout(timer);
+      void worker.terminate();
+    },
+  };
+}
+
+async function collectRegexCandidates(
+  sessions: SessionMeta[],
+  scan: RegexScan,
+  filters: SearchFilters,
+): Promise<Candidate[]> {
+  const candidates: Candidate[] = [];
+  // One batch per session keeps only one journal's text in flight at a time
+  for (const meta of sessions) {
+    const session = loadSession(meta.projectId, meta.id);
+    const batch: Array<{ docIdx: number; doc: IndexedDoc }> = [];
+    const texts: string[] = [];
+    for (const [docIdx, msg] of (session?.messages ?? []).entries()) {
+      if (typeof msg.id !== "string") continue;
+      const doc: IndexedDoc = {
+        id: msg.id,
+        role: String(msg.role ?? ""),
+        ...(typeof msg.toolName === "string" ? { toolName: msg.toolName } : {}),
+        timestamp: typeof msg.timestamp === "number" ? msg.timestamp : 0,
+        length: 0,
+        hash: "",
+      };
+      if (!docPassesFilters(doc, filters)) continue;
+      batch.push({ docIdx, doc });
+      texts.push(extractMessageText(msg));
+    }
+    if (texts.length === 0) continue;
+
+    const hits = await scan.match(texts);
+    if (!hits) break;
+    for (const hit of hits) {
+      const { docIdx, doc } = batch[hit.index];
+      candidates.push({ meta, docIdx, doc, tf: [], score: 1, ranges: hit.ranges });
+      if (candidates.length >= MAX_REGEX_HITS) break;
+    }
+    if (candidates.length >= MAX_REGEX_HITS) break;
+  }
+  candidates.sort((a, b) => b.doc.timestamp - a.doc.timestamp);
+  return candidates;
+}
+
+/** Locate highlight ranges for a term query inside arbitrary text. */
+function findMatches(text: string, query: Extract<ParsedQuery, { kind: "terms" }>): Array<[number, number]> {
+  const lower = text.toLowerCase();
+  const needles = [...query.terms, ...(query.prefix ? [query.prefix] : [])];
+  const ranges: Array<[number, number]> = [];
+  for (const needle of needles) {
+    let from = 0;
+    while (ranges.length < 50) {
+      const idx = lower.indexOf(needle, from);
+      if (idx === -1) break;
+      ranges.push([idx, idx + needle.length]);
+      from = idx + needle.length;
+    }
+  }
+  return ranges.sort((a, b) => a[0] - b[0]);
+}
+
+function buildSnippet(
+  text: string,
+  query: ParsedQuery,
+  regexRanges?: Array<[number, number]>,
+): { snippet: string; highlights: Array<[number, number]> } {
+  const flat = text.replace(/\s+/g, " ");
+  const matches = query.kind === "regex" ? regexRanges ?? [] : findMatches(flat, query);
+  const anchor = matches[0]?.[0] ?? 0;
+  const start = Math.max(0, anchor - 40);
+  const end = Math.min(flat.length, anchor + 100);
+  const prefix = start > 0 ? "..." : "";
+  const snippet = prefix + flat.slice(start, end) + (end < flat.length ? "..." : "");
+  const highlights = matches
+    .filter(([s, e]) => s >= start && e <= end)
+    .map(([s, e]): [number, number] => [s - start + prefix.length, e - start + prefix.length]);
+  return { snippet, highlights };
+}
+
+function titleMatches(title: string, query: Extract<ParsedQuery, { kind: "terms" }>): boolean {
+  const lower = title.toLowerCase();
+  const needles = [...query.terms, ...(query.prefix ? [query.prefix] : [])];
+  return needles.length > 0 && needles.every((n) => lower.includes(n)) &&
+    query.phrases.every((phrase) => lower.includes(phrase.join(" ")));
+}
+
+export async function searchSessions(request: SearchRequest): Promise<SearchResponse> {
+  const filters = request.filters ?? {};
+  const offset = Math.max(0, request.offset ?? 0);
+  const limit = Math.max(1, request.limit ?? DEFAULT_PAGE_SIZE);
+
+  let query: ParsedQuery;
+  try {
+    query = parseQuery(request.query);
+  } catch (err) {
+    return { messageResults: [], sessionResults: [], total: 0, error: (err as Error).message };
+  }
+  if (query.kind === "terms" && query.terms.length === 0 && !query.prefix) {
+    return { messageResults: [], sessionResults: [], total: 0 };
+  }
+
+  const sessions = request.projectIds
+    .flatMap((projectId) => listSessions(projectId))
+    .filter((meta) => sessionPassesFilters(meta, filters));
+
+  // Title matches only make sense without message-level filters, and only on the first page
+  const searchTitles = offset === 0 && !filters.toolName;
+  let titleHits: SessionMeta[] = [];
+  let candidates: Candidate[];
+  let timedOut = false;
+  if (query.kind === "regex") {
+    const scan = startRegexScan(query.regex);
+    try {
+      if (searchTitles) {
+        const hits = await scan.match(sessions.map((meta) => meta.title));
+        titleHits = (hits ?? []).map((hit) => sessions[hit.index]);
+      }
+      candidates = await collectRegexCandidates(sessions, scan, filters);
+      timedOut = scan.timedOut;
+    } finally {
+      scan.dispose();
+    }
+    if (timedOut) log("SEARCH:REGEX_BUDGET", `stopped after ${REGEX_TIME_BUDGET_MS}ms with ${candidates.length} hits`);
+  } else {
+    if (searchTitles) titleHits = sessions.filter((meta) => titleMatches(meta.title, query));
+    candidates = collectTermCandidates(sessions, query, filters);
+  }
+  const sessionResults: SessionSearchHit[] = titleHits
+    .slice(0, 20)
+    .map((meta) => ({ sessionId: meta.id, projectId: meta.projectId, title: meta.title, createdAt: meta.createdAt }));
+
+  // Snippets are built from the journal, only for the requested page
+  const page = candidates.slice(offset, offset + limit);
+  const loadedSessions = new Map<string, StoredSession | null>();
+  const messageResults: MessageSearchHit[] = [];
+  for (const c of page) {
+    const key = shardKey(c.meta.projectId, c.meta.id);
+    if (!loadedSessions.has(key)) loadedSessions.set(key, loadSession(c.meta.projectId, c.meta.id));
+    const messages = loadedSessions.get(key)?.messages ?? [];
+    const msg = messages[c.docIdx]?.id === c.doc.id ? messages[c.docIdx] : messages.find((m) => m.id === c.doc.id);
+    if (!msg) continue;
+    const { snippet, highlights } = buildSnippet(extractMessageText(msg), query, c.ranges);
+    messageResults.push({
+      sessionId: c.meta.id,
+      projectId: c.meta.projectId,
+      sessionTitle: c.meta.title,
+      messageId: c.doc.id,
+      role: c.doc.role,
+      ...(c.doc.toolName ? { toolName: c.doc.toolName } : {}),
+      snippet,
+      highlights,
+      timestamp: c.doc.timestamp || c.meta.createdAt,
+      score: c.score,
+    });
+  }
+
+  return {
+    messageResults,
+    sessionResults,
+    total: candidates.length,
+    ...(timedOut ? { error: `Pattern took longer than ${REGEX_TIME_BUDGET_MS / 1000}s to search — results may be incomplete` } : {}),
+  };
+}
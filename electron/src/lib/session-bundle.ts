@@ -0,0 +1,148 @@
+/**
+ * Session bundle import — validates an exported `.harnss.json` bundle and
+ * turns it into a fresh StoredSession for the session store.
+ *
+ * Bundles come from other machines, so nothing in them is trusted: the shape
+ * is checked field by field and every id is regenerated so an import can never
+ * collide with (or overwrite) an existing session.
+ */
+
+import crypto from "crypto";
+import type { SessionBundle } from "@shared/types/session-bundle";
+import type { StoredMessage, StoredSession } from "./session-store";
+
+export const SESSION_BUNDLE_FORMAT = "harnss-session";
+export const SESSION_BUNDLE_VERSION = 1;
+
+const MESSAGE_ROLES = new Set(["user", "assistant", "tool_call", "tool_result", "system", "summary"]);
+const ENGINES = new Set(["claude", "acp", "codex"]);
+const IMAGE_TYPES = new Set(["image/png", "image/jpeg", "image/gif", "image/webp"]);
+
+// ── Validation ──
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function expect(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(`Invalid session bundle: ${message}`);
+}
+
+function optionalString(obj: Record<string, unknown>, key: string, where: string): void {
+  expect(obj[key] === undefined || typeof obj[key] === "string", `${where}.${key} must be a string`);
+}
+
+function validateMessage(raw: unknown, index: number): void {
+  const where = `messages[${index}]`;
+  expect(isRecord(raw), `${where} must be an object`);
+  expect(typeof raw.id === "string" && raw.id, `${where}.id is missing`);
+  expect(typeof raw.role === "string" && MESSAGE_ROLES.has(raw.role), `${where}.role is not a known role`);
+  expect(typeof raw.content === "string", `${where}.content must be a string`);
+  expect(typeof raw.timestamp === "number", `${where}.timestamp must be a number`);
+  if (raw.images !== undefined) {
+    expect(Array.isArray(raw.images), `${where}.images must be an array`);
+    raw.images.forEach((img, i) => {
+      expect(isRecord(img), `${where}.images[${i}] must be an object`);
+      expect(typeof img.data === "string", `${where}.images[${i}].data must be base64 text`);
+      expect(typeof img.mediaType === "string" && IMAGE_TYPES.has(img.mediaType), `${where}.images[${i}].mediaType is not supported`);
+    });
+  }
+}
+
+/** Parse and validate bundle JSON. Throws with a user-facing message on any problem. */
+export function parseSessionBundle(text: string): SessionBundle {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Invalid session bundle: file is not valid JSON");
+  }
+
+  expect(isRecord(raw), "top level must be an object");
+  expect(raw.format === SESSION_BUNDLE_FORMAT, "not a Harnss session bundle");
+  expect(typeof raw.version === "number", "version is missing");
+  if (raw.version > SESSION_BUNDLE_VERSION) {
+    throw new Error(`Session bundle version ${raw.version} was created by a newer version of Harnss`);
+  }
+
+  const session = raw.session;
+  expect(isRecord(session), "session metadata is missing");
+  expect(typeof session.id === "string", "session.id must be a string");
+  expect(typeof session.title === "string", "session.title must be a string");
+  expect(typeof session.createdAt === "number", "session.createdAt must be a number");
+  expect(session.totalCost === undefined || typeof session.totalCost === "number", "session.totalCost must be a number");
+  expect(session.engine === undefined || ENGINES.has(session.engine as string), "session.engine is not a known engine");
+  for (const key of ["model", "agentId", "agentSessionId", "codexThreadId"]) {
+    optionalString(session, key, "session");
+  }
+
+  expect(Array.isArray(raw.messages), "messages must be an array");
+  raw.messages.forEach(validateMessage);
+
+  return raw as unknown as SessionBundle;
+}
+
+// ── Materialization ──
+
+export interface MaterializeOptions {
+  projectId: string;
+  /** The engine-side session still exists locally and can be resumed (forked). */
+  resumable: boolean;
+}
+
+/**
+ * Build a new StoredSession from a validated bundle. Session, message and image
+ * ids are all regenerated; message references (subagentId) follow the remap.
+ */
+export function materializeBundle(bundle: SessionBundle, { projectId, resumable }: MaterializeOptions): StoredSession {
+  const idMap = new Map<string, string>();
+  for (const msg of bundle.messages) {
+    if (!idMap.has(msg.id)) idMap.set(msg.id, `${msg.role}-${crypto.randomUUID()}`);
+  }
+
+  const messages: StoredMessage[] = bundle.messages.map((msg) => {
+    const {
+      // Transient or machine-local fields never survive an import
+      isStreaming: _isStreaming,
+      isQueued: _isQueued,
+      checkpointId: _checkpointId,
+      ...rest
+    } = msg;
+    return {
+      ...rest,
+      id: idMap.get(msg.id)!,
+      ...(msg.subagentId && idMap.has(msg.subagentId) ? { subagentId: idMap.get(msg.subagentId) } : {}),
+      ...(msg.images?.length
+        ? { images: msg.images.map((img) => ({ ...img, id: crypto.randomUUID() })) }
+        : {}),
+    };
+  });
+
+  const meta = bundle.session;
+  const engine = meta.engine ?? "claude";
+  const last = bundle.messages[bundle.messages.length - 1];
+
+  return {
+    id: crypto.randomUUID(),
+    projectId,
+    title: meta.title,
+    createdAt: meta.createdAt,
+    lastMessageAt: last?.timestamp ?? meta.createdAt,
+    model: meta.model,
+    totalCost: meta.totalCost ?? 0,
+    engine,
+    ...(meta.agentId ? { agentId: meta.agentId } : {}),
+    // Claude session ids double as SDK ids — remember the original so revival can fork it
+    ...(resumable && engine === "claude" ? { agentSessionId: meta.agentSessionId ?? meta.id } : {}),
+    ...(resumable && engine === "codex" && meta.codexThreadId ? { codexThreadId: meta.codexThreadId } : {}),
+    ...(resumable ? {} : { readOnly: true }),
+    importedFrom: {
+      sessionId: meta.id,
+      exportedAt: bundle.exportedAt,
+      appVersion: bundle.source?.appVersion,
+      projectName: bundle.source?.projectName,
+      importedAt: Date.now(),
+    },
+    messages,
+  };
+}
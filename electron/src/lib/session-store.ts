@@ -0,0 +1,415 @@
+/**
+ * Append-friendly session store.
+ *
+ * Layout under {dataDir}/sessions/{projectId}/:
+ *   index.json         — metadata for every session (all the sidebar needs)
+ *   {sessionId}.jsonl  — journal of header / message / truncate records;
+ *                        replaying it rebuilds the full PersistedSession
+ *
+ * A save only appends the records whose content changed since the previous
+ * save, so long sessions no longer rewrite megabytes on every debounce tick.
+ * Journals are rewritten (compacted) once superseded records outweigh live ones.
+ *
+ * Legacy {sessionId}.json files (one pretty-printed JSON document per session)
+ * are migrated into journals whenever a project's index is first loaded, and
+ * kept alongside as {sessionId}.json.bak.
+ */
+
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { getProjectSessionsDir } from "./data-dir";
+import { log } from "./logger";
+
+// ── Schema ──
+
+export interface StoredMessage {
+  id?: string;
+  role?: string;
+  content?: unknown;
+  timestamp?: number;
+  [key: string]: unknown;
+}
+
+/** Every persisted session field except the message list. */
+export interface SessionHeader {
+  id: string;
+  projectId: string;
+  title?: string;
+  createdAt?: number;
+  lastMessageAt?: number;
+  [key: string]: unknown;
+}
+
+export interface StoredSession extends SessionHeader {
+  messages?: StoredMessage[];
+}
+
+export interface SessionMeta {
+  id: string;
+  projectId: string;
+  title: string;
+  createdAt: number;
+  /** Timestamp of the most recent user message — used for sidebar sort order */
+  lastMessageAt: number;
+  model?: string;
+  totalCost?: number;
+  engine?: "claude" | "acp" | "codex";
+  codexThreadId?: string;
+  forkedFrom?: { sessionId: string; messageId: string; title: string; forkedAt: number };
+}
+
+type JournalRecord =
+  | { t: "header"; data: SessionHeader }
+  | { t: "msg"; i: number; m: StoredMessage }
+  | { t: "trunc"; n: number };
+
+interface SessionIndex {
+  version: 1;
+  sessions: Record<string, SessionMeta>;
+}
+
+/** Hashes of what the journal currently resolves to, so saves can diff cheaply. */
+interface JournalState {
+  headerHash: string;
+  messageHashes: string[];
+  /** Number of records in the journal file (live + superseded) */
+  records: number;
+}
+
+const INDEX_FILE = "index.json";
+const JOURNAL_EXT = ".jsonl";
+const LEGACY_EXT = ".json";
+const LEGACY_BACKUP_EXT = ".json.bak";
+/** Upper bound on journal states kept in memory — older entries are re-seeded by a compacting write */
+const MAX_CACHED_JOURNALS = 32;
+
+// ── Internal state ──
+
+const indexCache = new Map<string, SessionIndex>();
+const journalStates = new Map<string, JournalState>();
+
+function journalKey(projectId: string, sessionId: string): string {
+  return `${projectId}/${sessionId}`;
+}
+
+function getIndexPath(projectId: string): string {
+  return path.join(getProjectSessionsDir(projectId), INDEX_FILE);
+}
+
+function getJournalPath(projectId: string, sessionId: string): string {
+  return path.join(getProjectSessionsDir(projectId), `${sessionId}${JOURNAL_EXT}`);
+}
+
+function hash(json: string): string {
+  return crypto.createHash("sha1").update(json).digest("base64");
+}
+
+function writeFileAtomic(filePath: string, content: string): void {
+  const tempPath = filePath + ".tmp";
+  fs.writeFileSync(tempPath, content, "utf-8");
+  fs.renameSync(tempPath, filePath);
+}
+
+function getLastUserMessageTimestamp(messages?: StoredMessage[]): number | undefined {
+  if (!Array.isArray(messages) || messages.length === 0) return undefined;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const msg = messages[i];
+    if (msg.role === "user" && typeof msg.timestamp === "number") return msg.timestamp;
+  }
+  return undefined;
+}
+
+/** Fork lineage for the index — the (possibly long) context seed stays in the journal only. */
+function toForkMeta(raw: unknown): SessionMeta["forkedFrom"] {
+  if (!raw || typeof raw !== "object") return undefined;
+  const { sessionId, messageId, title, forkedAt } = raw as Record<string, unknown>;
+  if (typeof sessionId !== "string" || typeof messageId !== "string") return undefined;
+  return {
+    sessionId,
+    messageId,
+    title: typeof title === "string" ? title : "",
+    forkedAt: typeof forkedAt === "number" ? forkedAt : 0,
+  };
+}
+
+function toMeta(session: StoredSession): SessionMeta {
+  // Derive lastMessageAt: latest user message timestamp → stored field → createdAt
+  const lastMessageAt =
+    getLastUserMessageTimestamp(session.messages) ??
+    (typeof session.lastMessageAt === "number" ? session.lastMessageAt : undefined) ??
+    session.createdAt ??
+    0;
+  return {
+    id: session.id,
+    projectId: session.projectId,
+    title: session.title || "Untitled",
+    createdAt: session.createdAt || 0,
+    lastMessageAt,
+    model: session.model as string | undefined,
+    totalCost: (session.totalCost as number | undefined) || 0,
+    engine: session.engine as SessionMeta["engine"],
+    codexThreadId: session.codexThreadId as string | undefined,
+    forkedFrom: toForkMeta(session.forkedFrom),
+  };
+}
+
+function splitSession(session: StoredSession): { header: SessionHeader; messages: StoredMessage[] } {
+  const { messages, ...header } = session;
+  return { header, messages: Array.isArray(messages) ? messages : [] };
+}
+
+// ── Journal I/O ──
+
+/**
+ * Rebuild a session by replaying its journal. A torn trailing line (crash
+ * mid-append) is skipped, leaving the session at its last complete save.
+ */
+function replayJournal(filePath: string): StoredSession | null {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, "utf-8");
+  } catch {
+    return null;
+  }
+
+  let header: SessionHeader | null = null;
+  const messages: StoredMessage[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line) continue;
+    let record: JournalRecord;
+    try {
+      record = JSON.parse(line) as JournalRecord;
+    } catch {
+      continue;
+    }
+    switch (record.t) {
+      case "header":
+        header = record.data;
+        break;
+      case "msg":
+        messages[record.i] = record.m;
+        break;
+      case "trunc":
+        messages.length = Math.min(messages.length, record.n);
+        break;
+    }
+  }
+  if (!header) return null;
+  return { ...header, messages };
+}
+
+function rememberJournal(key: string, state: JournalState): void {
+  journalStates.delete(key);
+  journalStates.set(key, state);
+  if (journalStates.size > MAX_CACHED_JOURNALS) {
+    const oldest = journalStates.keys().next().value;
+    if (oldest !== undefined) journalStates.delete(oldest);
+  }
+}
+
+/** Rewrite a journal so it holds exactly one record per live entry. */
+function writeCompactJournal(projectId: string, session: StoredSession): void {
+  const { header, messages } = splitSession(session);
+  const headerJson = JSON.stringify(header);
+  const lines: string[] = [`{"t":"header","data":${headerJson}}`];
+  const messageHashes: string[] = [];
+  messages.forEach((m, i) => {
+    const json = JSON.stringify(m);
+    messageHashes.push(hash(json));
+    lines.push(`{"t":"msg","i":${i},"m":${json}}`);
+  });
+  writeFileAtomic(getJournalPath(projectId, session.id), lines.join("\n") + "\n");
+  rememberJournal(journalKey(projectId, session.id), {
+    headerHash: hash(headerJson),
+    messageHashes,
+    records: lines.length,
+  });
+}
+
+/**
+ * Append only the header/messages that differ from the journal's current state.
+ * Returns the indexes of the messages that were (re)written.
+ */
+function appendJournalDelta(projectId: string, session: StoredSession, state: JournalState): number[] {
+  const { header, messages } = splitSession(session);
+  const lines: string[] = [];
+
+  const headerJson = JSON.stringify(header);
+  const headerHash = hash(headerJson);
+  if (headerHash !== state.headerHash) {
+    lines.push(`{"t":"header","data":${headerJson}}`);
+    state.headerHash = headerHash;
+  }
+
+  if (messages.length < state.messageHashes.length) {
+    lines.push(`{"t":"trunc","n":${messages.length}}`);
+    state.messageHashes.length = messages.length;
+  }
+
+  const changed: number[] = [];
+  messages.forEach((m, i) => {
+    const json = JSON.stringify(m);
+    const h = hash(json);
+    if (state.messageHashes[i] === h) return;
+    lines.push(`{"t":"msg","i":${i},"m":${json}}`);
+    state.messageHashes[i] = h;
+    changed.push(i);
+  });
+
+  if (lines.length === 0) return changed;
+  fs.appendFileSync(getJournalPath(projectId, session.id), lines.join("\n") + "\n", "utf-8");
+  state.records += lines.length;
+  return changed;
+}
+
+// ── Index ──
+
+function persistIndex(projectId: string, index: SessionIndex): void {
+  writeFileAtomic(getIndexPath(projectId), JSON.stringify(index));
+}
+
+/**
+ * Convert legacy whole-file JSON sessions into journals. The originals are
+ * renamed to .json.bak rather than deleted, so a bad conversion never costs
+ * history. Returns how many sessions were added to the index.
+ */
+function migrateLegacySessions(projectId: string, index: SessionIndex): number {
+  const dir = getProjectSessionsDir(projectId);
+  let migrated = 0;
+  for (const file of fs.readdirSync(dir)) {
+    if (!file.endsWith(LEGACY_EXT) || file === INDEX_FILE) continue;
+    const legacyPath = path.join(dir, file);
+    try {
+      const session = JSON.parse(fs.readFileSync(legacyPath, "utf-8")) as StoredSession;
+      if (!session?.id) continue;
+      // A journal written after the legacy file always wins
+      if (!index.sessions[session.id]) {
+        const normalized = { ...session, projectId, lastMessageAt: toMeta(session).lastMessageAt };
+        writeCompactJournal(projectId, normalized);
+        index.sessions[session.id] = toMeta(normalized);
+        migrated++;
+      }
+      fs.renameSync(legacyPath, legacyPath.slice(0, -LEGACY_EXT.length) + LEGACY_BACKUP_EXT);
+    } catch (err) {
+      log("SESSIONS:MIGRATE_ERR", `${file}: ${(err as Error).message}`);
+    }
+  }
+  if (migrated > 0) log("SESSIONS:MIGRATE", `Migrated ${migrated} legacy session(s) in project ${projectId}`);
+  return migrated;
+}
+
+/** Build the index from whatever is on disk: existing journals plus legacy JSON sessions. */
+function rebuildIndex(projectId: string): SessionIndex {
+  const dir = getProjectSessionsDir(projectId);
+  const index: SessionIndex = { version: 1, sessions: {} };
+
+  for (const file of fs.readdirSync(dir)) {
+    if (!file.endsWith(JOURNAL_EXT)) continue;
+    const session = replayJournal(path.join(dir, file));
+    if (session?.id) index.sessions[session.id] = toMeta(session);
+  }
+  migrateLegacySessions(projectId, index);
+
+  persistIndex(projectId, index);
+  return index;
+}
+
+function getIndex(projectId: string): SessionIndex {
+  const cached = indexCache.get(projectId);
+  if (cached) return cached;
+
+  let index: SessionIndex | null = null;
+  try {
+    const parsed = JSON.parse(fs.readFileSync(getIndexPath(projectId), "utf-8")) as SessionIndex;
+    if (parsed?.version === 1 && parsed.sessions) index = parsed;
+  } catch {
+    // Missing or corrupted — rebuilt from journals below
+  }
+  if (index) {
+    // Legacy files can show up after the index exists (restored from a backup, synced in)
+    if (migrateLegacySessions(projectId, index) > 0) persistIndex(projectId, index);
+  } else {
+    index = rebuildIndex(projectId);
+  }
+  indexCache.set(projectId, index);
+  return index;
+}
+
+// ── Public API ──
+
+export interface SaveResult {
+  /** Refreshed sidebar metadata */
+  meta: SessionMeta;
+  /** The session as written (with derived lastMessageAt) */
+  session: StoredSession;
+  /** Indexes of messages whose content changed, or null when the journal was rewritten from scratch */
+  changed: number[] | null;
+}
+
+/** Persist a session, appending only what changed. */
+export function saveSession(data: StoredSession): SaveResult {
+  const { projectId, id } = data;
+  const index = getIndex(projectId);
+  // Always prefer the latest user message timestamp when messages are present.
+  const lastMessageAt =
+    getLastUserMessageTimestamp(data.messages) ??
+    (typeof data.lastMessageAt === "number" ? data.lastMessageAt : undefined) ??
+    data.createdAt ??
+    0;
+  const session: StoredSession = { ...data, lastMessageAt };
+
+  const key = journalKey(projectId, id);
+  const state = journalStates.get(key);
+  const journalExists = fs.existsSync(getJournalPath(projectId, id));
+  let changed: number[] | null = null;
+  if (!state || !journalExists) {
+    // First save in this process (or the file vanished): start from a clean journal
+    writeCompactJournal(projectId, session);
+  } else {
+    changed = appendJournalDelta(projectId, session, state);
+    rememberJournal(key, state);
+    if (state.records > state.messageHashes.length * 2 + 64) {
+      writeCompactJournal(projectId, session);
+    }
+  }
+
+  const meta = toMeta(session);
+  index.sessions[id] = meta;
+  persistIndex(projectId, index);
+  return { meta, session, changed };
+}
+
+export function loadSession(projectId: string, sessionId: string): StoredSession | null {
+  getIndex(projectId); // ensures legacy files for this project are migrated
+  return replayJournal(getJournalPath(projectId, sessionId));
+}
+
+export function listSessions(projectId: string): SessionMeta[] {
+  const list = Object.values(getIndex(projectId).sessions);
+  // Sort by most recent user activity, not creation time.
+  list.sort((a, b) => b.lastMessageAt - a.lastMessageAt);
+  return list;
+}
+
+export function deleteSession(projectId: string, sessionId: string): void {
+  const index = getIndex(projectId);
+  const filePath = getJournalPath(projectId, sessionId);
+  if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+  // Backup left by a legacy migration — deleting the session removes it too
+  const backupPath = path.join(getProjectSessionsDir(projectId), `${sessionId}${LEGACY_BACKUP_EXT}`);
+  if (fs.existsSync(backupPath)) fs.unlinkSync(backupPath);
+  journalStates.delete(journalKey(projectId, sessionId));
+  if (index.sessions[sessionId]) {
+    delete index.sessions[sessionId];
+    persistIndex(projectId, index);
+  }
+}
+
+/** Drop in-memory state for a project whose directory was removed. */
+export function forgetProject(projectId: string): void {
+  indexCache.delete(projectId);
+  for (const key of journalStates.keys()) {
+    if (key.startsWith(`${projectId}/`)) journalStates.delete(key);
+  }
+}
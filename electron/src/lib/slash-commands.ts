@@ -0,0 +1,104 @@
+/**
+ * File-backed slash commands: Claude's `.claude/commands/*.md` and Codex's
+ * custom prompts in `$CODEX_HOME/prompts/*.md`. Both use the same layout — an
+ * optional YAML-ish frontmatter (`description`, `argument-hint`) and a markdown body.
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+export interface FileSlashCommand {
+  name: string;
+  description?: string;
+  argumentHint?: string;
+  /** Markdown body after the frontmatter — Codex prompts are expanded from it client-side */
+  content: string;
+  scope: "project" | "user";
+  path: string;
+}
+
+const FRONTMATTER_RE = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.length >= 2 && /^(['"]).*\1$/.test(trimmed)) return trimmed.slice(1, -1);
+  return trimmed;
+}
+
+/** Only flat `key: value` pairs are needed here, so this is not a full YAML parser. */
+function parseFrontmatter(raw: string): { meta: Record<string, string>; body: string } {
+  const match = raw.match(FRONTMATTER_RE);
+  if (!match) return { meta: {}, body: raw };
+  const meta: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const sep = line.indexOf(":");
+    if (sep <= 0) continue;
+    meta[line.slice(0, sep).trim().toLowerCase()] = unquote(line.slice(sep + 1));
+  }
+  return { meta, body: raw.slice(match[0].length) };
+}
+
+/** First non-empty body line — Claude shows it when a command has no `description`. */
+function firstLine(body: string): string | undefined {
+  const line = body.split("\n").map((l) => l.trim()).find((l) => l.length > 0);
+  return line ? line.replace(/^#+\s*/, "").slice(0, 120) : undefined;
+}
+
+function scanDir(
+  dir: string,
+  scope: FileSlashCommand["scope"],
+  recursive: boolean,
+  out: FileSlashCommand[],
+): void {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return;
+  }
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (recursive && !entry.name.startsWith(".")) scanDir(fullPath, scope, recursive, out);
+      continue;
+    }
+    if (!entry.isFile() || !entry.name.endsWith(".md")) continue;
+    try {
+      const { meta, body } = parseFrontmatter(fs.readFileSync(fullPath, "utf-8"));
+      out.push({
+        name: entry.name.slice(0, -3),
+        description: meta.description || firstLine(body),
+        argumentHint: meta["argument-hint"] || undefined,
+        content: body,
+        scope,
+        path: fullPath,
+      });
+    } catch {
+      // Unreadable command file — skip it
+    }
+  }
+}
+
+/**
+ * Claude custom commands. Subdirectories only organize files — the command name
+ * is the file name — and project commands shadow user commands of the same name.
+ */
+export function listClaudeCommands(cwd?: string): FileSlashCommand[] {
+  const found: FileSlashCommand[] = [];
+  if (cwd) scanDir(path.join(cwd, ".claude", "commands"), "project", true, found);
+  scanDir(path.join(os.homedir(), ".claude", "commands"), "user", true, found);
+  const byName = new Map<string, FileSlashCommand>();
+  for (const command of found) {
+    if (!byName.has(command.name)) byName.set(command.name, command);
+  }
+  return [...byName.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Codex custom prompts — top-level `.md` files only, invoked as `/prompts:<name>`. */
+export function listCodexPrompts(): FileSlashCommand[] {
+  const found: FileSlashCommand[] = [];
+  const codexHome = process.env.CODEX_HOME || path.join(os.homedir(), ".codex");
+  scanDir(path.join(codexHome, "prompts"), "user", false, found);
+  return found.sort((a, b) => a.name.localeCompare(b.name));
+}
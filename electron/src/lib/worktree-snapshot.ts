@@ -0,0 +1,202 @@
+/**
+ * Working-tree snapshots for engines without their own file checkpoints (Codex).
+ *
+ * A snapshot is a git tree object written through a throwaway index, so taking
+ * one never touches the user's index, HEAD, branches or stash. Restoring diffs
+ * the snapshot against the current tree and rewrites only the paths that
+ * differ. Ignored files are in neither tree and are never touched.
+ *
+ * Each snapshot is also committed under a private per-thread ref
+ * (refs/harnss/snapshots/<key>/<time>-<tree>) so `git gc` can't prune trees that
+ * messages still point at. Only the newest MAX_SNAPSHOTS_PER_KEY are kept; older
+ * messages lose their revert point once gc runs. The refs are deleted with the
+ * session.
+ *
+ * Snapshots copy every untracked, non-ignored file into the user's object store,
+ * so capturing them is opt-out (AppSettings.codexFileSnapshots).
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import crypto from "crypto";
+import { gitExec } from "./git-exec";
+import { log } from "./logger";
+import { extractErrorMessage } from "./error-utils";
+
+const TREE_ID = /^[0-9a-f]{40}([0-9a-f]{24})?$/;
+/** Keep checkout-index argument lists well under OS command-line limits. */
+const CHECKOUT_BATCH = 200;
+const SNAPSHOT_REF_PREFIX = "refs/harnss/snapshots/";
+const MAX_SNAPSHOTS_PER_KEY = 20;
+// commit-tree needs an identity; don't depend on the user's git config having one
+const SNAPSHOT_IDENTITY = {
+  GIT_AUTHOR_NAME: "Harnss",
+  GIT_AUTHOR_EMAIL: "snapshots@harnss.invalid",
+  GIT_COMMITTER_NAME: "Harnss",
+  GIT_COMMITTER_EMAIL: "snapshots@harnss.invalid",
+};
+
+export interface SnapshotRestoreResult {
+  /** Paths rewritten with their snapshot content (relative to the repo root). */
+  restored: string[];
+  /** Paths created after the snapshot and deleted by the restore. */
+  removed: string[];
+}
+
+async function getRepoRoot(cwd: string): Promise<string> {
+  return (await gitExec(["rev-parse", "--show-toplevel"], cwd)).trim();
+}
+
+/**
+ * Run git commands against a temporary index file. Seeding it from the real
+ * index keeps `git add -A` fast — unchanged files are matched by stat data.
+ */
+async function withTempIndex<T>(
+  root: string,
+  seedFromRealIndex: boolean,
+  fn: (env: Record<string, string>) => Promise<T>,
+): Promise<T> {
+  const indexPath = path.join(os.tmpdir(), `harnss-index-${crypto.randomUUID()}`);
+  try {
+    if (seedFromRealIndex) {
+      const realIndex = path.resolve(root, (await gitExec(["rev-parse", "--git-path", "index"], root)).trim());
+      if (fs.existsSync(realIndex)) fs.copyFileSync(realIndex, indexPath);
+    }
+    return await fn({ GIT_INDEX_FILE: indexPath });
+  } finally {
+    fs.rmSync(indexPath, { force: true });
+  }
+}
+
+async function writeWorkingTree(root: string): Promise<string> {
+  return withTempIndex(root, true, async (env) => {
+    await gitExec(["add", "-A", "--", "."], root, env);
+    return (await gitExec(["write-tree"], root, env)).trim();
+  });
+}
+
+function snapshotRefPrefix(key: string): string {
+  if (!/^[A-Za-z0-9_-]+$/.test(key)) throw new Error(`Invalid snapshot key: ${key}`);
+  return `${SNAPSHOT_REF_PREFIX}${key}/`;
+}
+
+interface SnapshotRef {
+  /** Name below the key's prefix: `<time>-<tree>`, so names sort oldest first */
+  name: string;
+  commit: string;
+  tree: string;
+}
+
+async function listSnapshotRefs(root: string, key: string): Promise<SnapshotRef[]> {
+  const prefix = snapshotRefPrefix(key);
+  const raw = await gitExec(
+    ["for-each-ref", "--sort=refname", "--format=%(refname) %(objectname) %(tree)", prefix],
+    root,
+  );
+  return raw.split("\n").filter(Boolean).map((line) => {
+    const [ref, commit, tree] = line.split(" ");
+    return { name: ref.slice(prefix.length), commit, tree };
+  });
+}
+
+/** Commit `tree` under a new ref for `key` so it stays reachable, dropping the oldest past the cap. */
+async function keepSnapshot(root: string, key: string, tree: string): Promise<void> {
+  const prefix = snapshotRefPrefix(key);
+  const existing = await listSnapshotRefs(root, key);
+  // Nothing changed since the last turn — that snapshot already keeps this tree
+  if (existing.at(-1)?.tree === tree) return;
+
+  const commit = (await gitExec(["commit-tree", tree, "-m", "Harnss snapshot"], root, SNAPSHOT_IDENTITY)).trim();
+  const name = `${String(Date.now()).padStart(13, "0")}-${tree.slice(0, 12)}`;
+  await gitExec(["update-ref", prefix + name, commit, ""], root);
+
+  const stale = existing.slice(0, Math.max(0, existing.length + 1 - MAX_SNAPSHOTS_PER_KEY));
+  for (const ref of stale) await gitExec(["update-ref", "-d", prefix + ref.name, ref.commit], root);
+}
+
+/**
+ * Capture the working tree of the repo containing `cwd` and keep it under `key`'s
+ * snapshot ref. Returns null outside a git repo.
+ */
+export async function captureWorktreeSnapshot(cwd: string, key: string): Promise<string | null> {
+  let root: string;
+  let tree: string;
+  try {
+    root = await getRepoRoot(cwd);
+    tree = await writeWorkingTree(root);
+  } catch {
+    return null;
+  }
+  try {
+    await keepSnapshot(root, key, tree);
+  } catch (err) {
+    // Still usable until the next gc prunes it
+    log("SNAPSHOT", `Failed to keep snapshot ${tree.slice(0, 12)} under ${key}: ${extractErrorMessage(err)}`);
+  }
+  return tree;
+}
+
+/** Copy everything `fromKey` keeps to `toKey` — a forked thread inherits its parent's snapshots. */
+export async function copyWorktreeSnapshots(cwd: string, fromKey: string, toKey: string): Promise<void> {
+  const root = await getRepoRoot(cwd);
+  const prefix = snapshotRefPrefix(toKey);
+  for (const ref of await listSnapshotRefs(root, fromKey)) {
+    await gitExec(["update-ref", prefix + ref.name, ref.commit], root);
+  }
+}
+
+/** Delete `key`'s snapshot refs; their trees become prunable unless another ref keeps them. */
+export async function dropWorktreeSnapshots(cwd: string, key: string): Promise<void> {
+  const root = await getRepoRoot(cwd);
+  const prefix = snapshotRefPrefix(key);
+  for (const ref of await listSnapshotRefs(root, key)) {
+    await gitExec(["update-ref", "-d", prefix + ref.name, ref.commit], root);
+  }
+}
+
+/** Remove now-empty directories left behind by deleted files, stopping at the repo root. */
+function pruneEmptyDirs(root: string, filePath: string): void {
+  let dir = path.dirname(filePath);
+  while (dir.startsWith(root + path.sep)) {
+    try {
+      fs.rmdirSync(dir);
+    } catch {
+      return; // not empty (or already gone)
+    }
+    dir = path.dirname(dir);
+  }
+}
+
+/** Restore the repo containing `cwd` to a snapshot taken by captureWorktreeSnapshot. */
+export async function restoreWorktreeSnapshot(cwd: string, snapshot: string): Promise<SnapshotRestoreResult> {
+  if (!TREE_ID.test(snapshot)) throw new Error("Invalid snapshot id");
+  const root = await getRepoRoot(cwd);
+  const current = await writeWorkingTree(root);
+
+  // -z output alternates status and path: "M\0a.ts\0A\0b.ts\0"
+  const raw = await gitExec(["diff-tree", "-r", "--no-renames", "--name-status", "-z", snapshot, current], root);
+  const fields = raw.split("\0").filter(Boolean);
+  const restored: string[] = [];
+  const removed: string[] = [];
+  for (let i = 0; i + 1 < fields.length; i += 2) {
+    if (fields[i] === "A") removed.push(fields[i + 1]);
+    else restored.push(fields[i + 1]);
+  }
+
+  if (restored.length > 0) {
+    await withTempIndex(root, false, async (env) => {
+      await gitExec(["read-tree", snapshot], root, env);
+      for (let i = 0; i < restored.length; i += CHECKOUT_BATCH) {
+        await gitExec(["checkout-index", "-f", "--", ...restored.slice(i, i + CHECKOUT_BATCH)], root, env);
+      }
+    });
+  }
+  for (const rel of removed) {
+    const abs = path.join(root, rel);
+    fs.rmSync(abs, { force: true });
+    pruneEmptyDirs(root, abs);
+  }
+
+  return { restored, removed };
+}
@@ -24,7 +24,8 @@ import { glassEnabled, liquidGlass } from "./lib/glass";
 import { initAutoUpdater, getIsInstallingUpdate } from "./lib/updater";
 import { sessions } from "./ipc/claude-sessions";
 import { acpSessions } from "./ipc/acp-sessions";
-import { terminals } from "./ipc/terminal";
+import { terminals, disposeAllAgentTerminals } from "./ipc/terminal";
+import { flushSearchIndex } from "./lib/search-index";
 
 // IPC module registrations
 import * as spacesIpc from "./ipc/spaces";
@@ -41,6 +42,7 @@ import * as acpSessionsIpc from "./ipc/acp-sessions";
 import * as codexSessionsIpc from "./ipc/codex-sessions";
 import * as mcpIpc from "./ipc/mcp";
 import * as settingsIpc from "./ipc/settings";
+import * as protocolInspectorIpc from "./ipc/protocol-inspector";
 
 // --- Performance: Chromium/V8 flags (must be set before app.whenReady()) ---
 app.commandLine.appendSwitch("enable-gpu-rasterization"); // force GPU raster for all content
@@ -159,7 +161,7 @@ ipcMain.on("app:set-min-width", (_event, minWidth: number) => {
 // --- Register all IPC modules ---
 spacesIpc.register();
 projectsIpc.register(getMainWindow);
-sessionsIpc.register();
+sessionsIpc.register(getMainWindow);
 ccImportIpc.register();
 filesIpc.register();
 claudeSessionsIpc.register(getMainWindow);
@@ -171,6 +173,7 @@ acpSessionsIpc.register(getMainWindow);
 codexSessionsIpc.register(getMainWindow);
 mcpIpc.register();
 settingsIpc.register();
+protocolInspectorIpc.register(getMainWindow);
 
 // --- DevTools in separate window via remote debugging ---
 let devToolsWindow: BrowserWindow | null = null;
@@ -324,6 +327,10 @@ app.on("window-all-closed", () => {
     term.pty.kill();
   }
   terminals.clear();
+  disposeAllAgentTerminals();
+
+  // Persist search index shards still waiting on their debounce
+  flushSearchIndex();
 
   // When quitAndInstall() is running, Squirrel.Mac needs to control the quit lifecycle.
   // Calling app.quit() here would kill the process before the update is applied on macOS.
@@ -53,6 +53,8 @@ contextBridge.exposeInMainWorld("claude", {
   setThinking: (sessionId: string, thinkingEnabled: boolean) =>
     ipcRenderer.invoke("claude:set-thinking", { sessionId, thinkingEnabled }),
   supportedModels: (sessionId: string) => ipcRenderer.invoke("claude:supported-models", sessionId),
+  supportedCommands: (sessionId: string) => ipcRenderer.invoke("claude:supported-commands", sessionId),
+  localCommands: (cwd?: string) => ipcRenderer.invoke("claude:local-commands", cwd),
   modelsCacheGet: () => ipcRenderer.invoke("claude:models-cache:get"),
   modelsCacheRevalidate: (options?: { cwd?: string }) => ipcRenderer.invoke("claude:models-cache:revalidate", options),
   mcpStatus: (sessionId: string) => ipcRenderer.invoke("claude:mcp-status", sessionId),
@@ -80,7 +82,11 @@ contextBridge.exposeInMainWorld("claude", {
     load: (projectId: string, sessionId: string) => ipcRenderer.invoke("sessions:load", projectId, sessionId),
     list: (projectId: string) => ipcRenderer.invoke("sessions:list", projectId),
     delete: (projectId: string, sessionId: string) => ipcRenderer.invoke("sessions:delete", projectId, sessionId),
-    search: (projectIds: string[], query: string) => ipcRenderer.invoke("sessions:search", { projectIds, query }),
+    search: (projectIds: string[], query: string, options?: { filters?: unknown; offset?: number; limit?: number }) =>
+      ipcRenderer.invoke("sessions:search", { projectIds, query, ...options }),
+    export: (format: string, defaultName: string, content: string) =>
+      ipcRenderer.invoke("sessions:export", { format, defaultName, content }),
+    importBundle: (projectId: string, cwd: string) => ipcRenderer.invoke("sessions:import-bundle", projectId, cwd),
   },
   spaces: {
     list: () => ipcRenderer.invoke("spaces:list"),
@@ -112,7 +118,7 @@ contextBridge.exposeInMainWorld("claude", {
     push: (cwd: string) => ipcRenderer.invoke("git:push", cwd),
     pull: (cwd: string) => ipcRenderer.invoke("git:pull", cwd),
     fetch: (cwd: string) => ipcRenderer.invoke("git:fetch", cwd),
-    diffFile: (cwd: string, file: string, staged: boolean) => ipcRenderer.invoke("git:diff-file", { cwd, file, staged }),
+    diffFile: (cwd: string, file: string, staged: boolean, base?: string) => ipcRenderer.invoke("git:diff-file", { cwd, file, staged, base }),
     log: (cwd: string, count?: number) => ipcRenderer.invoke("git:log", { cwd, count }),
     generateCommitMessage: (cwd: string, engine?: string, sessionId?: string) =>
       ipcRenderer.invoke("git:generate-commit-message", { cwd, engine, sessionId }),
@@ -123,6 +129,7 @@ contextBridge.exposeInMainWorld("claude", {
     resize: (terminalId: string, cols: number, rows: number) => ipcRenderer.invoke("terminal:resize", { terminalId, cols, rows }),
     destroy: (terminalId: string) => ipcRenderer.invoke("terminal:destroy", terminalId),
     destroySpace: (spaceId: string) => ipcRenderer.invoke("terminal:destroy-space", spaceId),
+    agentSnapshot: (terminalId: string) => ipcRenderer.invoke("terminal:agent-snapshot", terminalId),
     onData: (callback: (data: unknown) => void) => {
       const listener = (_event: IpcRendererEvent, data: unknown) => callback(data);
       ipcRenderer.on("terminal:data", listener);
@@ -137,8 +144,8 @@ contextBridge.exposeInMainWorld("claude", {
   acp: {
     log: (label: string, data: unknown) => ipcRenderer.send("acp:log", label, data),
     start: (options: { agentId: string; cwd: string; mcpServers?: unknown[] }) => ipcRenderer.invoke("acp:start", options),
-    prompt: (sessionId: string, text: string, images?: unknown[]) =>
-      ipcRenderer.invoke("acp:prompt", { sessionId, text, images }),
+    prompt: (sessionId: string, text: string, images?: unknown[], context?: unknown) =>
+      ipcRenderer.invoke("acp:prompt", { sessionId, text, images, context }),
     stop: (sessionId: string) => ipcRenderer.invoke("acp:stop", sessionId),
     reloadSession: (sessionId: string, mcpServers?: unknown[]) =>
       ipcRenderer.invoke("acp:reload-session", { sessionId, mcpServers }),
@@ -146,12 +153,32 @@ contextBridge.exposeInMainWorld("claude", {
       ipcRenderer.invoke("acp:revive-session", options),
     cancel: (sessionId: string) => ipcRenderer.invoke("acp:cancel", sessionId),
     abortPendingStart: () => ipcRenderer.invoke("acp:abort-pending-start"),
-    respondPermission: (sessionId: string, requestId: string, optionId: string) =>
-      ipcRenderer.invoke("acp:permission_response", { sessionId, requestId, optionId }),
+    respondPermission: (sessionId: string, requestId: string, optionId: string, review?: { content?: string; message?: string }) =>
+      ipcRenderer.invoke("acp:permission_response", { sessionId, requestId, optionId, review }),
     setConfig: (sessionId: string, configId: string, value: string) =>
       ipcRenderer.invoke("acp:set-config", { sessionId, configId, value }),
     getConfigOptions: (sessionId: string) =>
       ipcRenderer.invoke("acp:get-config-options", sessionId),
+    getAvailableCommands: (sessionId: string) =>
+      ipcRenderer.invoke("acp:get-available-commands", sessionId),
+    getModes: (sessionId: string) =>
+      ipcRenderer.invoke("acp:get-modes", sessionId),
+    setMode: (sessionId: string, modeId: string) =>
+      ipcRenderer.invoke("acp:set-mode", { sessionId, modeId }),
+    healthCheck: (agentId: string) => ipcRenderer.invoke("acp:health-check", agentId),
+    authenticate: (requestId: string, methodId: string) =>
+      ipcRenderer.invoke("acp:authenticate", { requestId, methodId }),
+    cancelAuth: (requestId: string) => ipcRenderer.invoke("acp:cancel-auth", requestId),
+    onAuthRequired: (callback: (data: unknown) => void) => {
+      const listener = (_event: IpcRendererEvent, data: unknown) => callback(data);
+      ipcRenderer.on("acp:auth_required", listener);
+      return () => ipcRenderer.removeListener("acp:auth_required", listener);
+    },
+    onAuthDismissed: (callback: (data: { requestId: string }) => void) => {
+      const listener = (_event: IpcRendererEvent, data: { requestId: string }) => callback(data);
+      ipcRenderer.on("acp:auth_dismissed", listener);
+      return () => ipcRenderer.removeListener("acp:auth_dismissed", listener);
+    },
     onEvent: (callback: (data: unknown) => void) => {
       const listener = (_event: IpcRendererEvent, data: unknown) => callback(data);
       ipcRenderer.on("acp:event", listener);
@@ -172,16 +199,28 @@ contextBridge.exposeInMainWorld("claude", {
       ipcRenderer.on("acp:exit", listener);
       return () => ipcRenderer.removeListener("acp:exit", listener);
     },
+    onTerminal: (callback: (data: unknown) => void) => {
+      const listener = (_event: IpcRendererEvent, data: unknown) => callback(data);
+      ipcRenderer.on("acp:terminal", listener);
+      return () => ipcRenderer.removeListener("acp:terminal", listener);
+    },
+    onTerminalsDisposed: (callback: (data: unknown) => void) => {
+      const listener = (_event: IpcRendererEvent, data: unknown) => callback(data);
+      ipcRenderer.on("acp:terminals_disposed", listener);
+      return () => ipcRenderer.removeListener("acp:terminals_disposed", listener);
+    },
   },
   codex: {
     log: (label: string, data: unknown) => ipcRenderer.send("codex:log", label, data),
-    start: (options: { cwd: string; model?: string; approvalPolicy?: string; personality?: string; collaborationMode?: { mode: string; settings: { model: string; reasoning_effort: string | null; developer_instructions: string | null } } }) =>
+    start: (options: { cwd: string; model?: string; approvalPolicy?: string; sandbox?: unknown; personality?: string; collaborationMode?: { mode: string; settings: { model: string; reasoning_effort: string | null; developer_instructions: string | null } }; mcpServers?: unknown[] }) =>
       ipcRenderer.invoke("codex:start", options),
     send: (sessionId: string, text: string, images?: Array<{ type: "image"; url: string } | { type: "localImage"; path: string }>, effort?: string, collaborationMode?: { mode: string; settings: { model: string; reasoning_effort: string | null; developer_instructions: string | null } }) =>
       ipcRenderer.invoke("codex:send", { sessionId, text, images, effort, collaborationMode }),
+    steer: (sessionId: string, text: string, images?: Array<{ type: "image"; url: string } | { type: "localImage"; path: string }>) =>
+      ipcRenderer.invoke("codex:steer", { sessionId, text, images }),
     stop: (sessionId: string) => ipcRenderer.invoke("codex:stop", sessionId),
     interrupt: (sessionId: string) => ipcRenderer.invoke("codex:interrupt", sessionId),
-    respondApproval: (sessionId: string, rpcId: string | number, decision: string, acceptSettings?: unknown) =>
+    respondApproval: (sessionId: string, rpcId: string | number, decision: unknown, acceptSettings?: unknown) =>
       ipcRenderer.invoke("codex:approval_response", { sessionId, rpcId, decision, acceptSettings }),
     respondUserInput: (sessionId: string, rpcId: string | number, answers: Record<string, { answers: string[] }>) =>
       ipcRenderer.invoke("codex:user_input_response", { sessionId, rpcId, answers }),
@@ -189,13 +228,43 @@ contextBridge.exposeInMainWorld("claude", {
       ipcRenderer.invoke("codex:server_request_error", { sessionId, rpcId, code, message }),
     compact: (sessionId: string) => ipcRenderer.invoke("codex:compact", sessionId),
     listModels: () => ipcRenderer.invoke("codex:list-models"),
+    listPrompts: () => ipcRenderer.invoke("codex:list-prompts"),
+    listThreads: (cwd: string, options?: { archived?: boolean; cursor?: string | null }) =>
+      ipcRenderer.invoke("codex:list-threads", { cwd, ...options }),
+    readThread: (threadId: string) => ipcRenderer.invoke("codex:read-thread", threadId),
+    archiveThread: (threadId: string, archived: boolean) =>
+      ipcRenderer.invoke("codex:archive-thread", { threadId, archived }),
+    configRead: (cwd?: string) => ipcRenderer.invoke("codex:config-read", cwd),
+    configWrite: (edits: unknown[], options?: { filePath?: string | null; expectedVersion?: string | null }) =>
+      ipcRenderer.invoke("codex:config-write", { edits, ...options }),
+    listSkills: (cwds: string[], forceReload?: boolean) =>
+      ipcRenderer.invoke("codex:list-skills", { cwds, forceReload }),
+    setSkillEnabled: (path: string, enabled: boolean) =>
+      ipcRenderer.invoke("codex:set-skill-enabled", { path, enabled }),
+    listRemoteSkills: (scope?: string) => ipcRenderer.invoke("codex:list-remote-skills", scope),
+    installRemoteSkill: (id: string) => ipcRenderer.invoke("codex:install-remote-skill", id),
     authStatus: () => ipcRenderer.invoke("codex:auth-status"),
     login: (sessionId: string, type: "apiKey" | "chatgpt", apiKey?: string) =>
       ipcRenderer.invoke("codex:login", { sessionId, type, apiKey }),
-    resume: (options: { cwd: string; threadId: string; model?: string; approvalPolicy?: string }) =>
+    resume: (options: { cwd: string; threadId: string; model?: string; approvalPolicy?: string; sandbox?: unknown; mcpServers?: unknown[] }) =>
       ipcRenderer.invoke("codex:resume", options),
+    fork: (options: { cwd: string; threadId: string; dropTurns: number; model?: string; approvalPolicy?: string; sandbox?: unknown; mcpServers?: unknown[] }) =>
+      ipcRenderer.invoke("codex:fork", options),
+    review: (sessionId: string, target: unknown) =>
+      ipcRenderer.invoke("codex:review", { sessionId, target }),
+    rollback: (sessionId: string, numTurns: number) =>
+      ipcRenderer.invoke("codex:rollback", { sessionId, numTurns }),
+    revertFiles: (sessionId: string, checkpointId: string) =>
+      ipcRenderer.invoke("codex:revert-files", { sessionId, checkpointId }),
+    dropSnapshots: (cwd: string, threadId: string) =>
+      ipcRenderer.invoke("codex:drop-snapshots", { cwd, threadId }),
+    mcpStatus: (sessionId: string) => ipcRenderer.invoke("codex:mcp-status", sessionId),
+    rateLimits: (sessionId?: string) => ipcRenderer.invoke("codex:rate-limits", sessionId),
     setModel: (sessionId: string, model: string) =>
       ipcRenderer.invoke("codex:set-model", { sessionId, model }),
+    setSandbox: (sessionId: string, sandbox: unknown) =>
+      ipcRenderer.invoke("codex:set-sandbox", { sessionId, sandbox }),
+    pickWritableRoot: () => ipcRenderer.invoke("codex:pick-writable-root"),
     version: () => ipcRenderer.invoke("codex:version"),
     onEvent: (callback: (data: unknown) => void) => {
       const listener = (_event: IpcRendererEvent, data: unknown) => callback(data);
@@ -227,8 +296,30 @@ contextBridge.exposeInMainWorld("claude", {
     delete: (id: string) => ipcRenderer.invoke("agents:delete", id),
     updateCachedConfig: (agentId: string, configOptions: unknown[]) =>
       ipcRenderer.invoke("agents:update-cached-config", agentId, configOptions),
+    updateCachedModes: (agentId: string, modes: unknown) =>
+      ipcRenderer.invoke("agents:update-cached-modes", agentId, modes),
     checkBinaries: (agents: Array<{ id: string; binary: Record<string, { cmd: string; args?: string[] }> }>) =>
       ipcRenderer.invoke("agents:check-binaries", agents),
+    platformKey: () => ipcRenderer.invoke("agents:platform-key"),
+    fetchRegistries: (force?: boolean) => ipcRenderer.invoke("agents:fetch-registries", force),
+    installBinary: (agent: unknown) => ipcRenderer.invoke("agents:install-binary", agent),
+    rollback: (id: string) => ipcRenderer.invoke("agents:rollback", id),
+  },
+  inspector: {
+    setRecording: (sessionId: string, enabled: boolean) =>
+      ipcRenderer.invoke("inspector:set-recording", { sessionId, enabled }),
+    get: (sessionId: string) => ipcRenderer.invoke("inspector:get", sessionId),
+    clear: (sessionId: string) => ipcRenderer.invoke("inspector:clear", sessionId),
+    onEntries: (callback: (entries: unknown[]) => void) => {
+      const listener = (_event: IpcRendererEvent, entries: unknown[]) => callback(entries);
+      ipcRenderer.on("inspector:entries", listener);
+      return () => ipcRenderer.removeListener("inspector:entries", listener);
+    },
+    onEnded: (callback: (data: { sessionId: string }) => void) => {
+      const listener = (_event: IpcRendererEvent, data: { sessionId: string }) => callback(data);
+      ipcRenderer.on("inspector:ended", listener);
+      return () => ipcRenderer.removeListener("inspector:ended", listener);
+    },
   },
   settings: {
     get: () => ipcRenderer.invoke("settings:get"),
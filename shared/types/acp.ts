@@ -35,7 +35,26 @@ export interface ACPUsageUpdate { sessionUpdate: "usage_update"; size?: number;
 export interface ACPSessionInfoUpdate { sessionUpdate: "session_info_update"; title?: string }
 export interface ACPCurrentModeUpdate { sessionUpdate: "current_mode_update"; currentModeId: string }
 export interface ACPConfigOptionUpdate { sessionUpdate: "config_option_update"; configOptions: ACPConfigOption[] }
-export interface ACPAvailableCommandsUpdate { sessionUpdate: "available_commands_update"; availableCommands: unknown[] }
+export interface ACPAvailableCommandsUpdate { sessionUpdate: "available_commands_update"; availableCommands: ACPAvailableCommand[] }
+
+/** A slash command the agent accepts — sent back as `/name args` prompt text */
+export interface ACPAvailableCommand {
+  name: string;
+  description: string;
+  input?: { hint: string } | null;
+}
+
+// ACP session modes (session/new + session/load `modes`, switched with session/set_mode)
+export interface ACPSessionMode {
+  id: string;
+  name: string;
+  description?: string | null;
+}
+
+export interface ACPSessionModeState {
+  currentModeId: string;
+  availableModes: ACPSessionMode[];
+}
 
 // ACP Session Config Option types (model, mode, thought_level, etc.)
 export interface ACPConfigOption {
@@ -75,6 +94,8 @@ export interface ACPPermissionEvent {
     name: string;
     kind: "allow_once" | "allow_always" | "reject_once" | "reject_always";
   }>;
+  /** Set when the request holds an `fs/write_text_file` for review — `oldContent` is null for new files */
+  writeReview?: { filePath: string; oldContent: string | null; newContent: string };
 }
 
 export interface ACPTurnCompleteEvent {
@@ -82,3 +103,85 @@ export interface ACPTurnCompleteEvent {
   stopReason: string;
   usage?: { inputTokens?: number; outputTokens?: number } | null;
 }
+
+/** An ACP agent created a terminal (`terminal/create`) — shown as a read-only tab. */
+export interface ACPTerminalEvent {
+  _sessionId: string;
+  terminalId: string;
+  /** Command line, for the tab label */
+  command: string;
+  cwd: string;
+}
+
+/** An @-mentioned file or folder, as InputBar read it when the message was sent. */
+export interface ACPPromptMention {
+  kind: "file" | "folder";
+  /** Path relative to the project root, as typed */
+  path: string;
+  /** File contents (files only) */
+  content?: string;
+  /** Why the mention couldn't be read */
+  error?: string;
+}
+
+/**
+ * The @-mentions of a message, kept apart from the prompt text so ACP agents can
+ * receive them as content blocks. `text` is the message without the inlined mentions.
+ */
+export interface ACPPromptContext {
+  mentions: ACPPromptMention[];
+  text: string;
+}
+
+export interface ACPAuthMethod {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+/** What an agent reported in its `initialize` response — persisted on the agent for diagnostics. */
+export interface ACPAgentCapabilities {
+  protocolVersion: number;
+  agentInfo?: { name: string; version: string; title?: string };
+  loadSession: boolean;
+  prompt: { image: boolean; audio: boolean; embeddedContext: boolean };
+  mcp: { http: boolean; sse: boolean };
+  session: { list: boolean; fork: boolean; resume: boolean };
+  authMethods: ACPAuthMethod[];
+  /** When the agent last reported these (ms since epoch) */
+  reportedAt: number;
+}
+
+export interface ACPHealthCheckStep {
+  name: "handshake" | "session" | "prompt";
+  ok: boolean;
+  durationMs: number;
+  /** Error message, or what the step produced (e.g. the prompt's stop reason) */
+  detail?: string;
+}
+
+/** Outcome of spawning an agent, opening a throwaway session and sending it a trivial prompt. */
+export interface ACPHealthCheckResult {
+  ok: boolean;
+  steps: ACPHealthCheckStep[];
+  capabilities?: ACPAgentCapabilities;
+  /** Start of the agent's reply to the test prompt */
+  reply?: string;
+  /** Last actionable stderr line the agent printed */
+  stderr?: string;
+}
+
+/**
+ * The agent answered session/new (or session/load) with `auth_required`. The start
+ * waits until the user signs in through one of `authMethods` or cancels.
+ */
+export interface ACPAuthRequestEvent {
+  requestId: string;
+  agentId: string;
+  agentName: string;
+  authMethods: ACPAuthMethod[];
+  /** The agent's error message */
+  message: string;
+  /** Method remembered from an earlier sign-in that the agent no longer accepts */
+  failedMethodId?: string;
+}
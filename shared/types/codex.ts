@@ -7,6 +7,9 @@
 
 import type { ServerNotification as CodexServerNotification } from "./codex-protocol/ServerNotification";
 import type { ToolRequestUserInputQuestion as CodexToolRequestUserInputQuestion } from "./codex-protocol/v2/ToolRequestUserInputQuestion";
+import type { ReviewOutputEvent } from "./codex-protocol/ReviewOutputEvent";
+import type { SkillMetadata } from "./codex-protocol/v2/SkillMetadata";
+import type { SandboxMode } from "./codex-protocol/v2/SandboxMode";
 
 // ── Generated protocol types ──
 
@@ -24,10 +27,28 @@ export type { ThreadStartParams as CodexThreadStartParams } from "./codex-protoc
 export type { ThreadStartResponse as CodexThreadStartResponse } from "./codex-protocol/v2/ThreadStartResponse";
 export type { ThreadResumeParams as CodexThreadResumeParams } from "./codex-protocol/v2/ThreadResumeParams";
 export type { ThreadResumeResponse as CodexThreadResumeResponse } from "./codex-protocol/v2/ThreadResumeResponse";
+export type { ThreadForkParams as CodexThreadForkParams } from "./codex-protocol/v2/ThreadForkParams";
+export type { ThreadForkResponse as CodexThreadForkResponse } from "./codex-protocol/v2/ThreadForkResponse";
+export type { ThreadRollbackParams as CodexThreadRollbackParams } from "./codex-protocol/v2/ThreadRollbackParams";
+export type { ThreadRollbackResponse as CodexThreadRollbackResponse } from "./codex-protocol/v2/ThreadRollbackResponse";
+export type { ListMcpServerStatusResponse as CodexListMcpServerStatusResponse } from "./codex-protocol/v2/ListMcpServerStatusResponse";
+export type { ReviewStartParams as CodexReviewStartParams } from "./codex-protocol/v2/ReviewStartParams";
+export type { ReviewStartResponse as CodexReviewStartResponse } from "./codex-protocol/v2/ReviewStartResponse";
+export type { ReviewTarget as CodexReviewTarget } from "./codex-protocol/v2/ReviewTarget";
+export type { ReviewOutputEvent as CodexReviewOutput } from "./codex-protocol/ReviewOutputEvent";
+export type { ReviewFinding as CodexReviewFinding } from "./codex-protocol/ReviewFinding";
 export type { ThreadListParams as CodexThreadListParams } from "./codex-protocol/v2/ThreadListParams";
 export type { ThreadListResponse as CodexThreadListResponse } from "./codex-protocol/v2/ThreadListResponse";
+export type { GetAccountRateLimitsResponse as CodexGetAccountRateLimitsResponse } from "./codex-protocol/v2/GetAccountRateLimitsResponse";
+export type { RateLimitSnapshot as CodexRateLimitSnapshot } from "./codex-protocol/v2/RateLimitSnapshot";
+export type { RateLimitWindow as CodexRateLimitWindow } from "./codex-protocol/v2/RateLimitWindow";
+export type { CreditsSnapshot as CodexCreditsSnapshot } from "./codex-protocol/v2/CreditsSnapshot";
+export type { ThreadReadParams as CodexThreadReadParams } from "./codex-protocol/v2/ThreadReadParams";
+export type { ThreadReadResponse as CodexThreadReadResponse } from "./codex-protocol/v2/ThreadReadResponse";
 export type { TurnStartParams as CodexTurnStartParams } from "./codex-protocol/v2/TurnStartParams";
 export type { TurnStartResponse as CodexTurnStartResponse } from "./codex-protocol/v2/TurnStartResponse";
+export type { TurnSteerParams as CodexTurnSteerParams } from "./codex-protocol/v2/TurnSteerParams";
+export type { TurnSteerResponse as CodexTurnSteerResponse } from "./codex-protocol/v2/TurnSteerResponse";
 export type { TurnInterruptParams as CodexTurnInterruptParams } from "./codex-protocol/v2/TurnInterruptParams";
 export type { TurnStatus as CodexTurnStatus } from "./codex-protocol/v2/TurnStatus";
 export type { Turn as CodexTurn } from "./codex-protocol/v2/Turn";
@@ -39,6 +60,32 @@ export type { ModelListResponse as CodexModelListResponse } from "./codex-protoc
 export type { AskForApproval as CodexApprovalPolicy } from "./codex-protocol/v2/AskForApproval";
 export type { SandboxPolicy as CodexSandboxPolicy } from "./codex-protocol/v2/SandboxPolicy";
 export type { CodexErrorInfo } from "./codex-protocol/v2/CodexErrorInfo";
+export type { Config as CodexConfig } from "./codex-protocol/v2/Config";
+export type { ConfigReadParams as CodexConfigReadParams } from "./codex-protocol/v2/ConfigReadParams";
+export type { ConfigReadResponse as CodexConfigReadResponse } from "./codex-protocol/v2/ConfigReadResponse";
+export type { ConfigLayer as CodexConfigLayer } from "./codex-protocol/v2/ConfigLayer";
+export type { ConfigLayerSource as CodexConfigLayerSource } from "./codex-protocol/v2/ConfigLayerSource";
+export type { ConfigLayerMetadata as CodexConfigLayerMetadata } from "./codex-protocol/v2/ConfigLayerMetadata";
+export type { ConfigEdit as CodexConfigEdit } from "./codex-protocol/v2/ConfigEdit";
+export type { ConfigValueWriteParams as CodexConfigValueWriteParams } from "./codex-protocol/v2/ConfigValueWriteParams";
+export type { ConfigBatchWriteParams as CodexConfigBatchWriteParams } from "./codex-protocol/v2/ConfigBatchWriteParams";
+export type { ConfigWriteResponse as CodexConfigWriteResponse } from "./codex-protocol/v2/ConfigWriteResponse";
+export type { ConfigWarningNotification as CodexConfigWarning } from "./codex-protocol/v2/ConfigWarningNotification";
+export type { SkillsListParams as CodexSkillsListParams } from "./codex-protocol/v2/SkillsListParams";
+export type { SkillsListResponse as CodexSkillsListResponse } from "./codex-protocol/v2/SkillsListResponse";
+export type { SkillsListEntry as CodexSkillsListEntry } from "./codex-protocol/v2/SkillsListEntry";
+export type { SkillMetadata as CodexSkill } from "./codex-protocol/v2/SkillMetadata";
+export type { SkillScope as CodexSkillScope } from "./codex-protocol/v2/SkillScope";
+export type { SkillToolDependency as CodexSkillToolDependency } from "./codex-protocol/v2/SkillToolDependency";
+export type { SkillsConfigWriteParams as CodexSkillsConfigWriteParams } from "./codex-protocol/v2/SkillsConfigWriteParams";
+export type { SkillsConfigWriteResponse as CodexSkillsConfigWriteResponse } from "./codex-protocol/v2/SkillsConfigWriteResponse";
+export type { SkillsRemoteReadParams as CodexSkillsRemoteReadParams } from "./codex-protocol/v2/SkillsRemoteReadParams";
+export type { SkillsRemoteReadResponse as CodexSkillsRemoteReadResponse } from "./codex-protocol/v2/SkillsRemoteReadResponse";
+export type { SkillsRemoteWriteParams as CodexSkillsRemoteWriteParams } from "./codex-protocol/v2/SkillsRemoteWriteParams";
+export type { SkillsRemoteWriteResponse as CodexSkillsRemoteWriteResponse } from "./codex-protocol/v2/SkillsRemoteWriteResponse";
+export type { RemoteSkillSummary as CodexRemoteSkill } from "./codex-protocol/v2/RemoteSkillSummary";
+export type { SandboxMode as CodexSandboxMode } from "./codex-protocol/v2/SandboxMode";
+export type { ReasoningEffort as CodexReasoningEffort } from "./codex-protocol/ReasoningEffort";
 
 // Notification params
 export type { ItemStartedNotification as CodexItemStartedNotification } from "./codex-protocol/v2/ItemStartedNotification";
@@ -78,14 +125,48 @@ export type { ToolRequestUserInputQuestion as CodexToolRequestUserInputQuestion
 
 // ── Harnss-specific wrappers ──
 
+/**
+ * Sandbox chosen in the input bar, persisted per project and sent as the
+ * turn-level `SandboxPolicy`. Network and extra roots only apply to workspace-write.
+ */
+export interface CodexSandboxSettings {
+  mode: SandboxMode;
+  networkAccess: boolean;
+  writableRoots: string[];
+}
+
 /** Local renderer-only notification emitted before thread start when auth is missing. */
 export interface CodexAuthRequiredNotification {
   method: "codex:auth_required";
   params: { requiresOpenaiAuth: boolean };
 }
 
+/**
+ * Local renderer-only notification emitted just before a turn starts, carrying a
+ * working-tree snapshot id that "Revert to here" can restore (git repos only).
+ */
+export interface CodexCheckpointNotification {
+  method: "codex:checkpoint";
+  params: { checkpointId: string };
+}
+
+/**
+ * Local renderer-only notification carrying the structured result of a review
+ * turn. The v2 `exitedReviewMode` item only has the rendered text, so this is
+ * lifted from the legacy `codex/event/exited_review_mode` event.
+ */
+export interface CodexReviewOutputNotification {
+  method: "codex:review_output";
+  params: { reviewOutput: ReviewOutputEvent };
+}
+
 /** Codex notification forwarded from main process, tagged with our internal session ID. */
-export type CodexSessionEvent = { _sessionId: string } & (CodexServerNotification | CodexAuthRequiredNotification);
+export type CodexSessionEvent = { _sessionId: string } & (
+  | CodexServerNotification
+  | CodexAuthRequiredNotification
+  | CodexCheckpointNotification
+  | CodexReviewOutputNotification
+);
 
 /** Codex server-initiated approval request forwarded to the renderer. */
 export interface CodexApprovalRequest {
@@ -97,6 +178,11 @@ export interface CodexApprovalRequest {
   turnId: string;
   itemId: string;
   reason?: string | null;
+  /** Command approvals only */
+  command?: string | null;
+  cwd?: string | null;
+  /** Command prefix Codex proposes to allow from now on instead of prompting */
+  proposedExecpolicyAmendment?: string[] | null;
 }
 
 /** Codex server-initiated request to collect structured user input. */
@@ -111,8 +197,22 @@ export interface CodexRequestUserInputRequest {
   questions: Array<CodexToolRequestUserInputQuestion>;
 }
 
+/**
+ * Codex server request to approve running a skill. `skill` is looked up from
+ * `skills/list` for the session cwd before forwarding, when Codex knows it.
+ */
+export interface CodexSkillApprovalRequest {
+  _sessionId: string;
+  /** The JSON-RPC request id — we must respond with this id */
+  rpcId: string | number;
+  method: "skill/requestApproval";
+  itemId: string;
+  skillName: string;
+  skill?: SkillMetadata;
+}
+
 /** All Codex server requests forwarded to the renderer. */
-export type CodexServerRequest = CodexApprovalRequest | CodexRequestUserInputRequest;
+export type CodexServerRequest = CodexApprovalRequest | CodexRequestUserInputRequest | CodexSkillApprovalRequest;
 
 /** Codex process exit event. */
 export interface CodexExitEvent {
@@ -0,0 +1,41 @@
+import type { EngineId } from "./engine";
+
+/** "out" is Harnss → agent, "in" is agent → Harnss */
+export type ProtocolDirection = "in" | "out";
+
+/**
+ * JSON-RPC message kinds, plus "event" for the Claude SDK stream, which yields
+ * typed messages (`system/init`, `assistant`, `result`...) instead of JSON-RPC.
+ */
+export type ProtocolMessageKind = "request" | "response" | "notification" | "event";
+
+/** One recorded message on a session's wire. */
+export interface ProtocolEntry {
+  /** Increases across all sessions — stable key and ordering */
+  seq: number;
+  sessionId: string;
+  engine: EngineId;
+  direction: ProtocolDirection;
+  kind: ProtocolMessageKind;
+  /** ms since epoch */
+  at: number;
+  /** Request/notification method, event type, or — on a response — the method it answers */
+  method?: string;
+  id?: string | number;
+  /** Response carried a JSON-RPC `error` */
+  isError?: boolean;
+  /** Response only: time since the matching request */
+  durationMs?: number;
+  /** Serialized message. Oversized payloads keep only a preview (see `truncated`). */
+  json: string;
+  /** Size of the full serialized message in characters */
+  size: number;
+  truncated?: boolean;
+}
+
+export interface ProtocolRecordingState {
+  recording: boolean;
+  entries: ProtocolEntry[];
+  /** Entries evicted to stay within the per-session memory bound */
+  dropped: number;
+}
@@ -10,6 +10,8 @@ export interface RegistryBinaryTarget {
   archive: string;
   cmd: string;
   args?: string[];
+  /** Hex digest of the archive — verified after download when present */
+  sha256?: string;
 }
 
 export interface RegistryDistribution {
@@ -34,3 +36,34 @@ export interface RegistryData {
   version: string;
   agents: RegistryAgent[];
 }
+
+/** A place to load registry JSON from — the public ACP registry or a company-hosted one */
+export interface AgentRegistrySource {
+  id: string;
+  label: string;
+  /** http(s) URL, file:// URL, or absolute path to a registry JSON file */
+  location: string;
+  enabled: boolean;
+}
+
+/** One source's contribution to the agent store */
+export interface RegistrySourceResult {
+  sourceId: string;
+  label: string;
+  /** Entries that passed validation */
+  agents: RegistryAgent[];
+  /** Why the source couldn't be loaded (network, file or top-level schema error) */
+  error?: string;
+  /** Per-entry schema problems — those entries are left out of `agents` */
+  validationErrors: string[];
+  /** `agents` came from the offline cache because the source couldn't be loaded */
+  stale?: boolean;
+  /** When `agents` were last fetched successfully (ms since epoch) */
+  fetchedAt?: number;
+}
+
+/** A registry agent tagged with the source it was listed in */
+export interface SourcedRegistryAgent extends RegistryAgent {
+  sourceId: string;
+  sourceLabel: string;
+}
@@ -0,0 +1,40 @@
+import type { UIMessage } from "../../src/types/ui";
+import type { EngineId } from "./engine";
+
+/**
+ * Portable session bundle — the JSON file written by "Export → Bundle" and
+ * read back by bundle import. Bump `version` on any breaking shape change;
+ * importers reject versions they don't know.
+ */
+export interface SessionBundle {
+  format: "harnss-session";
+  version: 1;
+  exportedAt: number;
+  source: SessionBundleSource;
+  session: SessionBundleMeta;
+  /** Messages exactly as persisted — image attachments stay inline as base64. */
+  messages: UIMessage[];
+}
+
+/** Where the bundle came from — informational only, never trusted on import. */
+export interface SessionBundleSource {
+  appVersion: string;
+  projectName?: string;
+  projectPath?: string;
+}
+
+export interface SessionBundleMeta {
+  id: string;
+  title: string;
+  createdAt: number;
+  lastMessageAt?: number;
+  model?: string;
+  totalCost: number;
+  engine?: EngineId;
+  /** Engine-side ids — only resumable on the machine that created them. */
+  agentSessionId?: string;
+  agentId?: string;
+  codexThreadId?: string;
+  /** Number of image attachments across all messages. */
+  imageCount: number;
+}
@@ -0,0 +1,94 @@
+/**
+ * ACP agent authentication dialog.
+ *
+ * Shown when an ACP agent answers session/new with `auth_required`. Lists the
+ * auth methods the agent advertised in `initialize`; the agent performs the
+ * actual sign-in (often in the browser) when `authenticate` is called, and the
+ * session start continues automatically once it succeeds.
+ */
+
+import { memo, useState, useCallback } from "react";
+import { KeyRound, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { ACPAuthRequestEvent } from "@/types";
+
+interface AcpAuthDialogProps {
+  request: ACPAuthRequestEvent;
+  onAuthenticate: (requestId: string, methodId: string) => Promise<{ ok?: boolean; error?: string }>;
+  onCancel: (requestId: string) => void;
+}
+
+export const AcpAuthDialog = memo(function AcpAuthDialog({
+  request,
+  onAuthenticate,
+  onCancel,
+}: AcpAuthDialogProps) {
+  const [pendingMethodId, setPendingMethodId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(() => {
+    if (!request.failedMethodId) return null;
+    const failed = request.authMethods.find((m) => m.id === request.failedMethodId);
+    return `Your saved sign-in (${failed?.name ?? request.failedMethodId}) was not accepted. Choose a method to sign in again.`;
+  });
+
+  const handleSelect = useCallback(async (methodId: string) => {
+    setPendingMethodId(methodId);
+    setError(null);
+    const result = await onAuthenticate(request.requestId, methodId);
+    // On success the dialog unmounts — only failures need handling here
+    if (!result.ok) {
+      setError(result.error ?? "Authentication failed");
+      setPendingMethodId(null);
+    }
+  }, [request.requestId, onAuthenticate]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="w-full max-w-md rounded-xl border bg-background p-6 shadow-xl">
+        <h2 className="mb-1 text-lg font-semibold">Sign in to {request.agentName}</h2>
+        <p className="mb-4 text-sm text-muted-foreground">
+          {request.agentName} requires authentication before it can start a session.
+        </p>
+
+        {error && (
+          <div className="mb-4 rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        <div className="flex flex-col gap-3">
+          {request.authMethods.map((method) => (
+            <Button
+              key={method.id}
+              variant="outline"
+              className="h-auto min-h-12 justify-start gap-3 py-2"
+              disabled={pendingMethodId !== null}
+              onClick={() => handleSelect(method.id)}
+            >
+              {pendingMethodId === method.id ? (
+                <Loader2 className="h-4 w-4 shrink-0 animate-spin" />
+              ) : (
+                <KeyRound className="h-4 w-4 shrink-0" />
+              )}
+              <div className="min-w-0 text-start">
+                <div className="text-sm font-medium">{method.name}</div>
+                {method.description && (
+                  <div className="whitespace-normal text-xs text-muted-foreground">{method.description}</div>
+                )}
+              </div>
+            </Button>
+          ))}
+
+          {pendingMethodId && (
+            <p className="text-center text-xs text-muted-foreground">
+              Waiting for {request.agentName}... complete any sign-in steps it opens in your browser.
+            </p>
+          )}
+
+          <Button variant="ghost" size="sm" onClick={() => onCancel(request.requestId)} className="mt-2">
+            Cancel
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+});
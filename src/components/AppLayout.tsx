@@ -10,6 +10,7 @@ import { ChatHeader } from "./ChatHeader";
 import { ChatView } from "./ChatView";
 import { InputBar } from "./InputBar";
 import { PermissionPrompt } from "./PermissionPrompt";
+import { ImportedSessionBanner } from "./ImportedSessionBanner";
 import { TodoPanel } from "./TodoPanel";
 import { BackgroundAgentsPanel } from "./BackgroundAgentsPanel";
 import { ToolPicker } from "./ToolPicker";
@@ -21,15 +22,17 @@ import { GitPanel } from "./GitPanel";
 import { FilesPanel } from "./FilesPanel";
 import { McpPanel } from "./McpPanel";
 import { ChangesPanel } from "./ChangesPanel";
+import { ProtocolInspectorPanel } from "./ProtocolInspectorPanel";
 import { SettingsView } from "./SettingsView";
+import { AcpAuthDialog } from "./AcpAuthDialog";
 import { isMac } from "@/lib/utils";
 
 export function AppLayout() {
   const o = useAppOrchestrator();
   const {
     sidebar, projectManager, spaceManager, manager, settings, resolvedTheme,
-    agents, selectedAgent, saveAgent, deleteAgent, handleAgentChange,
-    lockedEngine, lockedAgentId,
+    agents, selectedAgent, saveAgent, deleteAgent, installBinaryAgent, rollbackAgent, runHealthCheck, handleAgentChange,
+    lockedEngine, lockedAgentId, acpModes, handleACPModeChange,
     activeProjectId, activeProjectPath, showThinking,
     hasProjects, hasRightPanel, hasToolsColumn,
     activeTodos, bgAgents, hasTodos, hasAgents, availableContextual,
@@ -38,11 +41,12 @@ export function AppLayout() {
     spaceCreatorOpen, setSpaceCreatorOpen, editingSpace,
     scrollToMessageId, setScrollToMessageId,
     changesPanelFocusTurn, setChangesPanelFocusTurn,
-    spaceTerminals, activeSpaceTerminals,
+    spaceTerminals, activeSpaceTerminals, agentTerminals, activeAgentTerminals, acpAuth,
     handleToggleTool, handleToolReorder, handleNewChat, handleSend,
-    handleModelChange, handlePermissionModeChange, handlePlanModeChange,
+    handleModelChange, handlePermissionModeChange, handlePlanModeChange, handleCodexSandboxChange, handleBuiltinCommand,
     handleThinkingChange, handleStop, handleSelectSession,
-    handleCreateProject, handleImportCCSession, handleNavigateToMessage,
+    handleCreateProject, handleImportCCSession, handleImportCodexThread, handleNavigateToMessage, handleExportSession,
+    handleImportBundle, handleContinueImportedSession,
     handleViewTurnChanges, handleCreateSpace, handleEditSpace,
     handleDeleteSpace, handleSaveSpace, handleMoveProjectToSpace,
   } = o;
@@ -117,6 +121,14 @@ export function AppLayout() {
         editingSpace={editingSpace}
         onSave={handleSaveSpace}
       />
+      {acpAuth.request && (
+        <AcpAuthDialog
+          key={acpAuth.request.requestId}
+          request={acpAuth.request}
+          onAuthenticate={acpAuth.authenticate}
+          onCancel={acpAuth.cancel}
+        />
+      )}
       <AppSidebar
         isOpen={sidebar.isOpen}
         islandLayout={settings.islandLayout}
@@ -127,10 +139,13 @@ export function AppLayout() {
         onSelectSession={handleSelectSession}
         onDeleteSession={manager.deleteSession}
         onRenameSession={manager.renameSession}
+        onExportSession={handleExportSession}
         onCreateProject={handleCreateProject}
         onDeleteProject={projectManager.deleteProject}
         onRenameProject={projectManager.renameProject}
         onImportCCSession={handleImportCCSession}
+        onImportCodexThread={handleImportCodexThread}
+        onImportBundle={handleImportBundle}
         onToggleSidebar={sidebar.toggle}
         onNavigateToMessage={handleNavigateToMessage}
         onMoveProjectToSpace={handleMoveProjectToSpace}
@@ -151,6 +166,9 @@ export function AppLayout() {
             agents={agents}
             onSaveAgent={saveAgent}
             onDeleteAgent={deleteAgent}
+            onInstallBinaryAgent={installBinaryAgent}
+            onRollbackAgent={rollbackAgent}
+            onHealthCheckAgent={runHealthCheck}
             theme={settings.theme}
             onThemeChange={settings.setTheme}
             islandLayout={settings.islandLayout}
@@ -158,6 +176,7 @@ export function AppLayout() {
             transparency={settings.transparency}
             onTransparencyChange={settings.setTransparency}
             glassSupported={glassSupported}
+            projectPath={activeProjectPath}
             sidebarOpen={sidebar.isOpen}
           />
         )}
@@ -195,7 +214,9 @@ export function AppLayout() {
                   planMode={settings.planMode}
                   permissionMode={manager.sessionInfo?.permissionMode}
                   acpPermissionBehavior={manager.activeSession?.engine === "acp" ? settings.acpPermissionBehavior : undefined}
+                  codexRateLimits={manager.codexRateLimits}
                   onToggleSidebar={sidebar.toggle}
+                  onExport={manager.isDraft ? undefined : (format) => handleExportSession(manager.activeSessionId!, format)}
                 />
               </div>
               <ChatView
@@ -208,6 +229,7 @@ export function AppLayout() {
                 sessionId={manager.activeSessionId}
                 onRevert={manager.isConnected && manager.revertFiles ? manager.revertFiles : undefined}
                 onFullRevert={manager.isConnected && manager.fullRevert ? manager.fullRevert : undefined}
+                onFork={manager.isDraft || manager.isProcessing || manager.activeSession?.readOnly ? undefined : manager.forkSession}
                 onViewTurnChanges={handleViewTurnChanges}
                 onTopScrollProgress={handleTopScrollProgress}
               />
@@ -224,12 +246,19 @@ export function AppLayout() {
                     request={manager.pendingPermission}
                     onRespond={manager.respondPermission}
                   />
+                ) : manager.activeSession?.readOnly ? (
+                  <ImportedSessionBanner
+                    session={manager.activeSession}
+                    onContinue={handleContinueImportedSession}
+                  />
                 ) : (
                   <InputBar
                     onSend={handleSend}
                     onStop={handleStop}
                     isProcessing={manager.isProcessing}
                     queuedCount={manager.queuedCount}
+                    onSteer={manager.canSteer ? manager.steer : undefined}
+                    codexRateLimits={manager.codexRateLimits}
                     model={settings.model}
                     thinking={settings.thinking}
                     planMode={settings.planMode}
@@ -247,11 +276,17 @@ export function AppLayout() {
                     onAgentChange={handleAgentChange}
                     acpConfigOptions={manager.acpConfigOptions}
                     onACPConfigChange={manager.setACPConfig}
+                    acpModes={acpModes}
+                    onACPModeChange={handleACPModeChange}
                     acpPermissionBehavior={settings.acpPermissionBehavior}
                     onAcpPermissionBehaviorChange={settings.setAcpPermissionBehavior}
                     supportedModels={manager.supportedModels}
+                    slashCommands={manager.slashCommands}
+                    onBuiltinCommand={handleBuiltinCommand}
                     codexEffort={manager.codexEffort}
                     onCodexEffortChange={manager.setCodexEffort}
+                    codexSandbox={settings.codexSandbox}
+                    onCodexSandboxChange={handleCodexSandboxChange}
                     codexModelData={manager.codexRawModels}
                     lockedEngine={lockedEngine}
                     lockedAgentId={lockedAgentId}
@@ -395,6 +430,8 @@ export function AppLayout() {
                       onSetActiveTab={(tabId) => spaceTerminals.setActiveTab(spaceManager.activeSpaceId, tabId)}
                       onCreateTerminal={() => spaceTerminals.createTerminal(spaceManager.activeSpaceId, activeProjectPath)}
                       onCloseTerminal={(tabId) => spaceTerminals.closeTerminal(spaceManager.activeSpaceId, tabId)}
+                      agentTabs={activeAgentTerminals}
+                      onCloseAgentTerminal={agentTerminals.closeTab}
                       resolvedTheme={resolvedTheme}
                     />
                   ),
@@ -407,6 +444,7 @@ export function AppLayout() {
                       onSelectWorktreePath={settings.setGitCwd}
                       activeEngine={manager.activeSession?.engine}
                       activeSessionId={manager.activeSessionId}
+                      onReview={manager.isProcessing ? undefined : manager.startReview}
                     />
                   ),
                   browser: <BrowserPanel />,
@@ -435,8 +473,13 @@ export function AppLayout() {
                       isProcessing={manager.isProcessing}
                       focusTurnIndex={changesPanelFocusTurn}
                       onFocusTurnHandled={() => setChangesPanelFocusTurn(undefined)}
+                      cwd={activeProjectPath}
+                      onReview={manager.isProcessing ? undefined : manager.startReview}
                     />
                   ),
+                  inspector: (
+                    <ProtocolInspectorPanel sessionId={manager.isDraft ? null : manager.activeSessionId} />
+                  ),
                 };
 
                 // All panel tool IDs in display order
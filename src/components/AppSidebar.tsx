@@ -3,6 +3,7 @@ import { PanelLeft, Plus } from "lucide-react";
 import { isMac } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import type { SessionExportFormat } from "@/lib/session-export";
 import type { ChatSession, Project, Space } from "@/types";
 import { SidebarSearch } from "./SidebarSearch";
 import { SpaceBar } from "./SpaceBar";
@@ -19,10 +20,13 @@ interface AppSidebarProps {
   onSelectSession: (id: string) => void;
   onDeleteSession: (id: string) => void;
   onRenameSession: (id: string, title: string) => void;
+  onExportSession: (id: string, format: SessionExportFormat) => void;
   onCreateProject: () => void;
   onDeleteProject: (id: string) => void;
   onRenameProject: (id: string, name: string) => void;
   onImportCCSession: (projectId: string, ccSessionId: string) => void;
+  onImportCodexThread: (projectId: string, threadId: string) => void;
+  onImportBundle: (projectId: string) => void;
   onToggleSidebar: () => void;
   onNavigateToMessage: (sessionId: string, messageId: string) => void;
   onMoveProjectToSpace: (projectId: string, spaceId: string) => void;
@@ -46,10 +50,13 @@ export const AppSidebar = memo(function AppSidebar({
   onSelectSession,
   onDeleteSession,
   onRenameSession,
+  onExportSession,
   onCreateProject,
   onDeleteProject,
   onRenameProject,
   onImportCCSession,
+  onImportCodexThread,
+  onImportBundle,
   onToggleSidebar,
   onNavigateToMessage,
   onMoveProjectToSpace,
@@ -94,8 +101,6 @@ export const AppSidebar = memo(function AppSidebar({
     [projects, activeSpaceId],
   );
 
-  const projectIds = useMemo(() => filteredProjects.map((p) => p.id), [filteredProjects]);
-
   // Other spaces for "Move to space" menu
   const otherSpaces = useMemo(() => spaces.filter((s) => s.id !== activeSpaceId), [spaces, activeSpaceId]);
 
@@ -183,7 +188,7 @@ export const AppSidebar = memo(function AppSidebar({
       </div>
 
       <SidebarSearch
-        projectIds={projectIds}
+        projects={filteredProjects}
         onNavigateToMessage={onNavigateToMessage}
         onSelectSession={onSelectSession}
       />
@@ -210,11 +215,16 @@ export const AppSidebar = memo(function AppSidebar({
                   onSelectSession={onSelectSession}
                   onDeleteSession={onDeleteSession}
                   onRenameSession={onRenameSession}
+                  onExportSession={onExportSession}
                   onDeleteProject={() => onDeleteProject(project.id)}
                   onRenameProject={(name) => onRenameProject(project.id, name)}
                   onImportCCSession={(ccSessionId) =>
                     onImportCCSession(project.id, ccSessionId)
                   }
+                  onImportCodexThread={(threadId) =>
+                    onImportCodexThread(project.id, threadId)
+                  }
+                  onImportBundle={() => onImportBundle(project.id)}
                   otherSpaces={otherSpaces}
                   onMoveToSpace={(spaceId) =>
                     onMoveProjectToSpace(project.id, spaceId)
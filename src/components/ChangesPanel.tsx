@@ -6,6 +6,7 @@ import { oneLight } from "react-syntax-highlighter/dist/esm/styles/prism";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { DiffViewer } from "./DiffViewer";
 import { OpenInEditorButton } from "./OpenInEditorButton";
+import { ReviewMenu } from "./git/ReviewMenu";
 import { getLanguageFromPath } from "@/lib/languages";
 import { useResolvedThemeClass } from "@/hooks/useResolvedThemeClass";
 import {
@@ -15,6 +16,7 @@ import {
 } from "@/lib/turn-changes";
 import type { FileChange, TurnSummary } from "@/lib/turn-changes";
 import type { UIMessage } from "@/types";
+import type { CodexReviewTarget } from "@/types/codex";
 
 // ── Constants ──
 
@@ -131,6 +133,10 @@ interface ChangesPanelProps {
   /** When set, auto-select this turn index (from inline summary click). */
   focusTurnIndex?: number;
   onFocusTurnHandled?: () => void;
+  /** Session working directory — needed for the Codex review menu */
+  cwd?: string;
+  /** Start a Codex review — omitted when the active session can't run one */
+  onReview?: (target: CodexReviewTarget) => void;
 }
 
 export const ChangesPanel = memo(function ChangesPanel({
@@ -138,6 +144,8 @@ export const ChangesPanel = memo(function ChangesPanel({
   isProcessing,
   focusTurnIndex,
   onFocusTurnHandled,
+  cwd,
+  onReview,
 }: ChangesPanelProps) {
   const [viewMode, setViewMode] = useState<ViewMode>("per-turn");
   const [selectedKey, setSelectedKey] = useState<string | null>(null);
@@ -206,6 +214,11 @@ export const ChangesPanel = memo(function ChangesPanel({
         <div className="flex items-center gap-2 px-3 py-2.5 border-b border-border/40 shrink-0">
           <FileDiff className="h-4 w-4 text-muted-foreground/70" />
           <span className="text-sm font-medium text-foreground/90">Changes</span>
+          {cwd && onReview && (
+            <div className="ms-auto flex items-center">
+              <ReviewMenu cwd={cwd} onReview={onReview} />
+            </div>
+          )}
         </div>
         <div className="flex flex-1 items-center justify-center">
           <div className="text-center px-4">
@@ -226,7 +239,8 @@ export const ChangesPanel = memo(function ChangesPanel({
       <div className="flex items-center gap-2 px-3 py-2 border-b border-border/40 shrink-0">
         <FileDiff className="h-4 w-4 text-muted-foreground/70" />
         <span className="text-sm font-medium text-foreground/90">Changes</span>
-        <div className="ms-auto flex items-center">
+        <div className="ms-auto flex items-center gap-1">
+          {cwd && onReview && <ReviewMenu cwd={cwd} onReview={onReview} />}
           <ViewToggle mode={viewMode} onChange={setViewMode} />
         </div>
       </div>
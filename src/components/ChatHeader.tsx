@@ -1,9 +1,18 @@
 import { memo } from "react";
-import { Info, Loader2, PanelLeft } from "lucide-react";
+import { Download, Info, Loader2, PanelLeft } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { isMac } from "@/lib/utils";
+import type { SessionExportFormat } from "@/lib/session-export";
 import type { AcpPermissionBehavior } from "@/types";
+import type { CodexRateLimitSnapshot } from "@/types/codex";
+import { CodexUsageMeter } from "./CodexUsageMeter";
 
 const PERMISSION_MODE_LABELS: Record<string, string> = {
   plan: "Plan",
@@ -29,7 +38,10 @@ interface ChatHeaderProps {
   planMode?: boolean;
   permissionMode?: string;
   acpPermissionBehavior?: AcpPermissionBehavior;
+  /** Codex account usage — shown as a meter when the active session is Codex */
+  codexRateLimits?: CodexRateLimitSnapshot | null;
   onToggleSidebar: () => void;
+  onExport?: (format: SessionExportFormat) => void;
 }
 
 export const ChatHeader = memo(function ChatHeader({
@@ -43,7 +55,9 @@ export const ChatHeader = memo(function ChatHeader({
   planMode,
   permissionMode,
   acpPermissionBehavior,
+  codexRateLimits,
   onToggleSidebar,
+  onExport,
 }: ChatHeaderProps) {
   const modeLabel = permissionMode ? PERMISSION_MODE_LABELS[permissionMode] : null;
   const acpBehaviorLabel = acpPermissionBehavior
@@ -115,26 +129,51 @@ export const ChatHeader = memo(function ChatHeader({
         </span>
       ) : null}
 
-      {/* Session info — subtle icon, hover reveals model / permissions / cost / session ID */}
-      {hasDetails && (
-        <div className="ms-auto">
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <span className="no-drag flex cursor-default items-center justify-center rounded-full p-0.5 text-muted-foreground/30 transition-colors hover:text-muted-foreground">
-                <Info className="h-3.5 w-3.5" />
-              </span>
-            </TooltipTrigger>
-            <TooltipContent side="bottom" align="end">
-              <div className="space-y-1 text-xs">
-                {detailRows.map((row) => (
-                  <div key={row.label} className="flex justify-between gap-6">
-                    <span className="opacity-70">{row.label}</span>
-                    <span className="font-mono text-end">{row.value}</span>
-                  </div>
-                ))}
-              </div>
-            </TooltipContent>
-          </Tooltip>
+      {(hasDetails || onExport || codexRateLimits) && (
+        <div className="ms-auto flex items-center gap-1">
+          {codexRateLimits && <CodexUsageMeter rateLimits={codexRateLimits} />}
+          {onExport && (
+            <DropdownMenu>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <DropdownMenuTrigger asChild>
+                    <button
+                      type="button"
+                      className="no-drag flex items-center justify-center rounded-full p-0.5 text-muted-foreground/30 transition-colors hover:text-muted-foreground"
+                    >
+                      <Download className="h-3.5 w-3.5" />
+                    </button>
+                  </DropdownMenuTrigger>
+                </TooltipTrigger>
+                <TooltipContent side="bottom">Export session</TooltipContent>
+              </Tooltip>
+              <DropdownMenuContent align="end" className="w-40">
+                <DropdownMenuItem onClick={() => onExport("markdown")}>Markdown</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onExport("html")}>HTML</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onExport("bundle")}>Session bundle (JSON)</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+          {/* Session info — subtle icon, hover reveals model / permissions / cost / session ID */}
+          {hasDetails && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <span className="no-drag flex cursor-default items-center justify-center rounded-full p-0.5 text-muted-foreground/30 transition-colors hover:text-muted-foreground">
+                  <Info className="h-3.5 w-3.5" />
+                </span>
+              </TooltipTrigger>
+              <TooltipContent side="bottom" align="end">
+                <div className="space-y-1 text-xs">
+                  {detailRows.map((row) => (
+                    <div key={row.label} className="flex justify-between gap-6">
+                      <span className="opacity-70">{row.label}</span>
+                      <span className="font-mono text-end">{row.value}</span>
+                    </div>
+                  ))}
+                </div>
+              </TooltipContent>
+            </Tooltip>
+          )}
         </div>
       )}
     </div>
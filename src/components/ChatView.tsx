@@ -23,6 +23,8 @@ interface ChatViewProps {
   onRevert?: (checkpointId: string) => void;
   /** Called when user clicks "Revert files + chat" on a user message */
   onFullRevert?: (checkpointId: string) => void;
+  /** Called when user clicks "Fork from here" on a user message */
+  onFork?: (messageId: string) => void;
   /** Called when user clicks "View changes" on an inline turn summary */
   onViewTurnChanges?: (turnIndex: number) => void;
   /** Reports whether the chat is scrolled away from the top (scrollTop > 4px) */
@@ -31,7 +33,7 @@ interface ChatViewProps {
   onTopScrollProgress?: (progress: number) => void;
 }
 
-export const ChatView = memo(function ChatView({ messages, isProcessing, showThinking, extraBottomPadding, scrollToMessageId, onScrolledToMessage, sessionId, onRevert, onFullRevert, onViewTurnChanges, onScrolledFromTop, onTopScrollProgress }: ChatViewProps) {
+export const ChatView = memo(function ChatView({ messages, isProcessing, showThinking, extraBottomPadding, scrollToMessageId, onScrolledToMessage, sessionId, onRevert, onFullRevert, onFork, onViewTurnChanges, onScrolledFromTop, onTopScrollProgress }: ChatViewProps) {
   const bottomRef = useRef<HTMLDivElement>(null);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const scrollTimerRef = useRef(0);
@@ -289,6 +291,7 @@ export const ChatView = memo(function ChatView({ messages, isProcessing, showThi
                   isContinuation={continuationIds.has(msg.id)}
                   onRevert={onRevert}
                   onFullRevert={onFullRevert}
+                  onFork={onFork}
                 />
               </div>
               {turnSummary && (
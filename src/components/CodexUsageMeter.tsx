@@ -0,0 +1,67 @@
+import { memo } from "react";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { formatResetTime, getUsageWindows, USAGE_WARNING_PERCENT } from "@/lib/codex-usage";
+import type { CodexRateLimitSnapshot } from "@/types/codex";
+
+function getUsageBarColor(percent: number): string {
+  if (percent >= USAGE_WARNING_PERCENT) return "bg-red-400";
+  if (percent >= 70) return "bg-amber-400";
+  return "bg-foreground/40";
+}
+
+/** Compact Codex usage bars for the chat header — hover shows reset times and credits. */
+export const CodexUsageMeter = memo(function CodexUsageMeter({
+  rateLimits,
+}: {
+  rateLimits: CodexRateLimitSnapshot;
+}) {
+  const windows = getUsageWindows(rateLimits);
+  const credits = rateLimits.credits;
+  if (windows.length === 0 && !credits) return null;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span className="no-drag flex cursor-default items-center gap-2 rounded-full px-1 py-0.5 text-[10px] text-muted-foreground/60 transition-colors hover:text-muted-foreground">
+          {windows.map(({ label, window }) => (
+            <span key={label} className="flex items-center gap-1">
+              <span>{label}</span>
+              <span className="h-1 w-8 overflow-hidden rounded-full bg-foreground/10">
+                <span
+                  className={`block h-full rounded-full ${getUsageBarColor(window.usedPercent)}`}
+                  style={{ width: `${Math.min(100, window.usedPercent)}%` }}
+                />
+              </span>
+            </span>
+          ))}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent side="bottom" align="end">
+        <div className="space-y-1 text-xs">
+          <div className="font-medium">
+            Codex usage{rateLimits.planType ? ` · ${rateLimits.planType}` : ""}
+          </div>
+          {windows.map(({ label, window }) => {
+            const reset = formatResetTime(window.resetsAt);
+            return (
+              <div key={label} className="flex justify-between gap-6">
+                <span className="opacity-70">{label}</span>
+                <span className="font-mono text-end">
+                  {Math.round(window.usedPercent)}% used{reset ? ` · resets ${reset}` : ""}
+                </span>
+              </div>
+            );
+          })}
+          {credits && (
+            <div className="flex justify-between gap-6">
+              <span className="opacity-70">Credits</span>
+              <span className="font-mono text-end">
+                {credits.unlimited ? "Unlimited" : credits.hasCredits ? (credits.balance ?? "Available") : "None left"}
+              </span>
+            </div>
+          )}
+        </div>
+      </TooltipContent>
+    </Tooltip>
+  );
+});
@@ -1,4 +1,4 @@
-import { useMemo, useState, useEffect, useCallback, memo, type CSSProperties } from "react";
+import { useMemo, useState, useEffect, useCallback, useRef, memo, type CSSProperties } from "react";
 import { diffLines, diffWords } from "diff";
 import { Copy, Check, ChevronDown } from "lucide-react";
 import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
@@ -17,6 +17,8 @@ interface DiffViewerProps {
   unifiedDiff?: string;
   /** Fill parent height instead of capping at max-h (used in ChangesPanel) */
   fillHeight?: boolean;
+  /** New-file line range to highlight, keep expanded and scroll to (review findings) */
+  focusRange?: { start: number; end: number };
 }
 
 interface DiffLine {
@@ -75,7 +77,7 @@ const HighlightedCode = memo(function HighlightedCode({
 
 // ── Main component ──
 
-export function DiffViewer({ oldString, newString, filePath, unifiedDiff, fillHeight }: DiffViewerProps) {
+export function DiffViewer({ oldString, newString, filePath, unifiedDiff, fillHeight, focusRange }: DiffViewerProps) {
   const [fullFileContent, setFullFileContent] = useState<string | null>(null);
   const [expandedSections, setExpandedSections] = useState<Set<number>>(new Set());
   const [copied, setCopied] = useState(false);
@@ -121,12 +123,26 @@ export function DiffViewer({ oldString, newString, filePath, unifiedDiff, fillHe
     return computeDiffLines(oldString, newString);
   }, [oldString, newString, fullFileContent, parsedUnifiedDiff]);
 
+  const isFocused = useCallback(
+    (line: DiffLine) =>
+      !!focusRange && line.newLineNum !== undefined
+      && line.newLineNum >= focusRange.start && line.newLineNum <= focusRange.end,
+    [focusRange],
+  );
+
   // Collapse context runs (respecting expanded sections)
   const displayLines = useMemo(
-    () => collapseContext(allLines, CONTEXT_LINES, expandedSections),
-    [allLines, expandedSections],
+    () => collapseContext(allLines, CONTEXT_LINES, expandedSections, isFocused),
+    [allLines, expandedSections, isFocused],
   );
 
+  // Bring the focused range into view once the lines are rendered
+  const bodyRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    if (!focusRange) return;
+    bodyRef.current?.querySelector("[data-focused]")?.scrollIntoView({ block: "center" });
+  }, [focusRange, displayLines]);
+
   const expandSection = useCallback((sectionIdx: number) => {
     setExpandedSections((prev) => new Set(prev).add(sectionIdx));
   }, []);
@@ -169,7 +185,7 @@ export function DiffViewer({ oldString, newString, filePath, unifiedDiff, fillHe
       </div>
 
       {/* Diff body */}
-      <div className={fillHeight ? "overflow-auto flex-1 min-h-0" : "overflow-auto max-h-[28rem]"}>
+      <div ref={bodyRef} className={fillHeight ? "overflow-auto flex-1 min-h-0" : "overflow-auto max-h-[28rem]"}>
         {displayLines.map((line, i) =>
           line.type === "collapsed" ? (
             <CollapsedRow
@@ -178,7 +194,7 @@ export function DiffViewer({ oldString, newString, filePath, unifiedDiff, fillHe
               onExpand={() => expandSection(i)}
             />
           ) : (
-            <DiffLineRow key={i} line={line} language={language} syntaxStyle={syntaxStyle} />
+            <DiffLineRow key={i} line={line} language={language} syntaxStyle={syntaxStyle} focused={isFocused(line)} />
           ),
         )}
       </div>
@@ -192,10 +208,12 @@ function DiffLineRow({
   line,
   language,
   syntaxStyle,
+  focused,
 }: {
   line: DiffLine;
   language: string;
   syntaxStyle: PrismThemeStyle;
+  focused?: boolean;
 }) {
   if (line.isGap) {
     return (
@@ -242,7 +260,10 @@ function DiffLineRow({
         : "text-foreground/85 dark:text-foreground/60";
 
   return (
-    <div className={`flex ${accentClass} ${bgClass}`}>
+    <div
+      className={`flex ${accentClass} ${bgClass} ${focused ? "ring-1 ring-inset ring-amber-500/60" : ""}`}
+      data-focused={focused || undefined}
+    >
       {/* Old line number */}
       <span
         className={`w-10 shrink-0 text-right pe-3 py-px select-none ${oldNumClass}`}
@@ -580,6 +601,7 @@ function collapseContext(
   lines: DiffLine[],
   keep: number,
   expanded: Set<number>,
+  isFocused: (line: DiffLine) => boolean = () => false,
 ): DisplayLine[] {
   const result: DisplayLine[] = [];
   let contextRun: DiffLine[] = [];
@@ -598,7 +620,8 @@ function collapseContext(
   };
 
   for (const line of lines) {
-    if (line.type === "context" && !line.isGap) {
+    // Focused lines are never collapsed away
+    if (line.type === "context" && !line.isGap && !isFocused(line)) {
       if (contextRun.length === 0) contextStartIdx = result.length;
       contextRun.push(line);
     } else {
@@ -0,0 +1,47 @@
+import { FileInput } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { ChatSession } from "@/types";
+
+const ENGINE_LABELS: Record<string, string> = {
+  claude: "Claude",
+  codex: "Codex",
+  acp: "agent",
+};
+
+/** Replaces the input bar for imported sessions whose engine session can't be resumed. */
+export function ImportedSessionBanner({
+  session,
+  onContinue,
+}: {
+  session: ChatSession;
+  onContinue: () => void;
+}) {
+  const info = session.importedFrom;
+  const engineLabel = ENGINE_LABELS[session.engine ?? "claude"];
+  const origin = [
+    info?.projectName && `from ${info.projectName}`,
+    info && `exported ${new Date(info.exportedAt).toLocaleDateString()}`,
+  ].filter(Boolean).join(", ");
+
+  return (
+    <div className="mx-auto w-full max-w-3xl px-4 pb-4">
+      <div className="pointer-events-auto rounded-2xl border border-border/60 bg-background/55 shadow-lg backdrop-blur-lg">
+        <div className="flex items-center gap-3 px-4 py-3.5">
+          <FileInput className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <div className="min-w-0 flex-1">
+            <p className="text-[13px] text-foreground">
+              Imported session{origin ? ` (${origin})` : ""} — read only
+            </p>
+            <p className="text-xs text-muted-foreground">
+              The original {engineLabel} session isn't available on this machine.
+              Continuing starts a fresh session seeded with a summary of this one.
+            </p>
+          </div>
+          <Button size="sm" className="shrink-0" onClick={onContinue}>
+            Continue in new session
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
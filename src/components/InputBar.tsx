@@ -3,15 +3,22 @@ import {
   useRef,
   useEffect,
   useCallback,
+  useMemo,
   memo,
   type KeyboardEvent,
 } from "react";
 import {
+  AlertTriangle,
   ArrowUp,
   Brain,
   ChevronDown,
+  Clock,
+  CornerDownRight,
   File,
   Folder,
+  FolderPlus,
+  Globe,
+  Layers,
   Loader2,
   Map,
   Mic,
@@ -24,8 +31,10 @@ import {
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
@@ -34,10 +43,13 @@ import {
   TooltipContent,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import type { ImageAttachment, ContextUsage, InstalledAgent, ACPConfigOption, ModelInfo, AcpPermissionBehavior, EngineId } from "@/types";
+import type { ImageAttachment, ACPPromptContext, ContextUsage, InstalledAgent, ACPConfigOption, ACPSessionModeState, ModelInfo, AcpPermissionBehavior, EngineId, SlashCommand } from "@/types";
+import type { CodexRateLimitSnapshot, CodexSandboxSettings } from "@/types/codex";
 import { flattenConfigOptions } from "@/lib/acp-utils";
 import { useSpeechRecognition } from "@/hooks/useSpeechRecognition";
 import { resolveModelValue } from "@/lib/model-utils";
+import { getUsageWarning } from "@/lib/codex-usage";
+import { expandCodexPrompt, parseSlashInput } from "@/lib/slash-commands";
 import { isMac } from "@/lib/utils";
 
 const ACP_PERMISSION_BEHAVIORS = [
@@ -198,6 +210,49 @@ function PermissionDropdown({
   );
 }
 
+/** ACP session mode dropdown (session/set_mode) — styled like the permission dropdown */
+function ACPModeDropdown({
+  modes,
+  onModeChange,
+  isProcessing,
+}: {
+  modes: ACPSessionModeState;
+  onModeChange: (modeId: string) => void;
+  isProcessing: boolean;
+}) {
+  const current = modes.availableModes.find((m) => m.id === modes.currentModeId);
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className="flex shrink-0 items-center gap-1 rounded-lg px-2 py-1 text-xs text-muted-foreground transition-colors hover:bg-muted/40 hover:text-foreground disabled:pointer-events-none disabled:opacity-50"
+          disabled={isProcessing}
+        >
+          <Layers className="h-3 w-3" />
+          {current?.name ?? modes.currentModeId}
+          <ChevronDown className="h-3 w-3" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        {modes.availableModes.map((m) => (
+          <DropdownMenuItem
+            key={m.id}
+            onClick={() => onModeChange(m.id)}
+            className={m.id === modes.currentModeId ? "bg-accent" : ""}
+          >
+            <div>
+              <div>{m.name}</div>
+              {m.description && (
+                <div className="text-[10px] text-muted-foreground">{m.description}</div>
+              )}
+            </div>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
 /** Plan mode toggle button — used by Claude and Codex engines */
 function PlanModeToggle({
   planMode,
@@ -230,6 +285,114 @@ function PlanModeToggle({
   );
 }
 
+const CODEX_SANDBOX_MODES = [
+  { id: "read-only" as const, label: "Read Only", description: "No writes, commands run read-only" },
+  { id: "workspace-write" as const, label: "Workspace Write", description: "Writes inside the project and extra roots" },
+  { id: "danger-full-access" as const, label: "Full Access", description: "No sandbox — unrestricted disk and network" },
+] as const;
+
+/** Codex sandbox picker — mode, network access and extra writable roots */
+function CodexSandboxDropdown({
+  sandbox,
+  onSandboxChange,
+}: {
+  /** null = whatever the Codex config sets */
+  sandbox: CodexSandboxSettings | null;
+  onSandboxChange: (sandbox: CodexSandboxSettings | null) => void;
+}) {
+  const selected = CODEX_SANDBOX_MODES.find((m) => m.id === sandbox?.mode);
+
+  const handleAddRoots = useCallback(async () => {
+    if (!sandbox) return;
+    const result = await window.claude.codex.pickWritableRoot();
+    if (!result.paths?.length) return;
+    const writableRoots = [...new Set([...sandbox.writableRoots, ...result.paths])];
+    onSandboxChange({ ...sandbox, writableRoots });
+  }, [sandbox, onSandboxChange]);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className="flex shrink-0 items-center gap-1 rounded-lg px-2 py-1 text-xs text-muted-foreground transition-colors hover:bg-muted/40 hover:text-foreground"
+        >
+          <Folder className="h-3 w-3" />
+          {selected?.label ?? "Sandbox"}
+          {sandbox?.mode === "workspace-write" && sandbox.networkAccess && <Globe className="h-3 w-3" />}
+          <ChevronDown className="h-3 w-3" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-64">
+        <DropdownMenuItem
+          onClick={() => onSandboxChange(null)}
+          className={!sandbox ? "bg-accent" : ""}
+        >
+          <div className="flex min-w-0 flex-col">
+            <span>Config Default</span>
+            <span className="mt-0.5 text-[10px] text-muted-foreground">Use sandbox_mode from config.toml</span>
+          </div>
+        </DropdownMenuItem>
+        {CODEX_SANDBOX_MODES.map((m) => (
+          <DropdownMenuItem
+            key={m.id}
+            onClick={() => onSandboxChange({
+              mode: m.id,
+              networkAccess: sandbox?.networkAccess ?? false,
+              writableRoots: sandbox?.writableRoots ?? [],
+            })}
+            className={m.id === sandbox?.mode ? "bg-accent" : ""}
+          >
+            <div className="flex min-w-0 flex-col">
+              <span>{m.label}</span>
+              <span className="mt-0.5 text-[10px] text-muted-foreground">{m.description}</span>
+            </div>
+          </DropdownMenuItem>
+        ))}
+        {sandbox?.mode === "workspace-write" && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuCheckboxItem
+              checked={sandbox.networkAccess}
+              onCheckedChange={(checked) => onSandboxChange({ ...sandbox, networkAccess: checked === true })}
+              onSelect={(e) => e.preventDefault()}
+            >
+              <Globe className="h-3 w-3" />
+              Network access
+            </DropdownMenuCheckboxItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="text-[10px] font-medium uppercase tracking-wide text-muted-foreground">
+              Extra writable roots
+            </DropdownMenuLabel>
+            {sandbox.writableRoots.map((root) => (
+              <DropdownMenuItem
+                key={root}
+                onSelect={(e) => e.preventDefault()}
+                className="group gap-2"
+                title={root}
+              >
+                <span className="min-w-0 flex-1 truncate font-mono text-[11px]">{root}</span>
+                <button
+                  className="shrink-0 rounded p-0.5 text-muted-foreground opacity-0 hover:text-foreground group-hover:opacity-100"
+                  onClick={() => onSandboxChange({
+                    ...sandbox,
+                    writableRoots: sandbox.writableRoots.filter((r) => r !== root),
+                  })}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuItem onClick={handleAddRoots}>
+              <FolderPlus className="h-3 w-3" />
+              Add folder...
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
 /** Renders the correct combination of controls per engine */
 function EngineControls({
   isCodexAgent,
@@ -254,11 +417,16 @@ function EngineControls({
   codexEffortOptions,
   codexActiveEffort,
   onCodexEffortChange,
+  // Codex sandbox
+  codexSandbox,
+  onCodexSandboxChange,
   // ACP
   acpPermissionBehavior,
   onAcpPermissionBehaviorChange,
   acpConfigOptions,
   onACPConfigChange,
+  acpModes,
+  onACPModeChange,
 }: {
   isCodexAgent: boolean;
   isACPAgent: boolean;
@@ -277,10 +445,14 @@ function EngineControls({
   codexEffortOptions: Array<{ reasoningEffort: string; description: string }>;
   codexActiveEffort?: string;
   onCodexEffortChange?: (effort: string) => void;
+  codexSandbox?: CodexSandboxSettings | null;
+  onCodexSandboxChange?: (sandbox: CodexSandboxSettings | null) => void;
   acpPermissionBehavior?: AcpPermissionBehavior;
   onAcpPermissionBehaviorChange?: (behavior: AcpPermissionBehavior) => void;
   acpConfigOptions?: ACPConfigOption[];
   onACPConfigChange?: (configId: string, value: string) => void;
+  acpModes?: ACPSessionModeState | null;
+  onACPModeChange?: (modeId: string) => void;
 }) {
   if (isCodexAgent) {
     return (
@@ -326,13 +498,21 @@ function EngineControls({
         )}
         <PlanModeToggle planMode={planMode} onPlanModeChange={onPlanModeChange} />
         <PermissionDropdown permissionMode={permissionMode} onPermissionModeChange={onPermissionModeChange} showDetails />
+        {onCodexSandboxChange && (
+          <CodexSandboxDropdown sandbox={codexSandbox ?? null} onSandboxChange={onCodexSandboxChange} />
+        )}
       </>
     );
   }
 
   if (isACPAgent) {
+    // Agents that publish modes as a "mode" config option already get a dropdown for it below
+    const modesAsConfig = acpConfigOptions?.some((opt) => opt.category === "mode") ?? false;
     return (
       <>
+        {acpModes && acpModes.availableModes.length > 1 && onACPModeChange && !modesAsConfig && (
+          <ACPModeDropdown modes={acpModes} onModeChange={onACPModeChange} isProcessing={isProcessing} />
+        )}
         {/* ACP permission behavior dropdown */}
         {onAcpPermissionBehaviorChange && (
           <DropdownMenu>
@@ -457,7 +637,8 @@ const FILE_ICON_SVG = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 2
 const FOLDER_ICON_SVG = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="h-3 w-3 shrink-0 text-blue-400"><path d="M20 20a2 2 0 0 0 2-2V8a2 2 0 0 0-2-2h-7.9a2 2 0 0 1-1.69-.9L9.6 3.9A2 2 0 0 0 7.93 3H4a2 2 0 0 0-2 2v13a2 2 0 0 0 2 2Z"/></svg>`;
 
 interface InputBarProps {
-  onSend: (text: string, images?: ImageAttachment[], displayText?: string) => void;
+  /** `context` lists the @-mentions inlined into `text`, for engines that take them as structured content */
+  onSend: (text: string, images?: ImageAttachment[], displayText?: string, context?: ACPPromptContext) => void;
   onStop: () => void;
   isProcessing: boolean;
   model: string;
@@ -477,12 +658,22 @@ interface InputBarProps {
   onAgentChange?: (agent: InstalledAgent | null) => void;
   acpConfigOptions?: ACPConfigOption[];
   onACPConfigChange?: (configId: string, value: string) => void;
+  /** ACP session modes — the live session's, or the agent's cached ones in a draft */
+  acpModes?: ACPSessionModeState | null;
+  onACPModeChange?: (modeId: string) => void;
   acpPermissionBehavior?: AcpPermissionBehavior;
   onAcpPermissionBehaviorChange?: (behavior: AcpPermissionBehavior) => void;
   supportedModels?: ModelInfo[];
+  /** Commands for the `/` palette — from the active agent, or its command files before a session starts */
+  slashCommands?: SlashCommand[];
+  /** Runs a `codex-builtin` command instead of sending it as text */
+  onBuiltinCommand?: (name: string, args: string) => void;
   /** Codex reasoning effort — per-model configurable effort level */
   codexEffort?: string;
   onCodexEffortChange?: (effort: string) => void;
+  /** Codex sandbox for this project/session — null defers to config.toml */
+  codexSandbox?: CodexSandboxSettings | null;
+  onCodexSandboxChange?: (sandbox: CodexSandboxSettings | null) => void;
   /** Codex models carry their supported effort levels — passed through for the effort dropdown */
   codexModelData?: Array<{ id: string; supportedReasoningEfforts: Array<{ reasoningEffort: string; description: string }>; defaultReasoningEffort: string; isDefault?: boolean }>;
   /** Non-null when session is active (not draft) — engine is locked and cross-engine agents show "Opens new chat" */
@@ -491,6 +682,10 @@ interface InputBarProps {
   lockedAgentId?: string | null;
   /** Number of messages currently queued for sending */
   queuedCount?: number;
+  /** Inject a message into the running turn — when set, a Queue/Steer toggle appears while processing */
+  onSteer?: (text: string, images?: ImageAttachment[], displayText?: string, context?: ACPPromptContext) => void;
+  /** Codex account usage — the first send is held back with a warning when a limit is nearly used up */
+  codexRateLimits?: CodexRateLimitSnapshot | null;
 }
 
 // Simple fuzzy match: all query chars must appear in order
@@ -601,20 +796,40 @@ export const InputBar = memo(function InputBar({
   onAgentChange,
   acpConfigOptions,
   onACPConfigChange,
+  acpModes,
+  onACPModeChange,
   acpPermissionBehavior,
   onAcpPermissionBehaviorChange,
   supportedModels,
+  slashCommands,
+  onBuiltinCommand,
   codexEffort,
   onCodexEffortChange,
+  codexSandbox,
+  onCodexSandboxChange,
   codexModelData,
   lockedEngine,
   lockedAgentId,
   queuedCount = 0,
+  onSteer,
+  codexRateLimits,
 }: InputBarProps) {
   const [hasContent, setHasContent] = useState(false);
+  // What sending does while the agent is busy: wait for the turn to end, or steer it
+  const [busySendMode, setBusySendMode] = useState<"queue" | "steer">("queue");
+  const isSteering = isProcessing && !!onSteer && busySendMode === "steer";
+  const usageWarning = useMemo(() => getUsageWarning(codexRateLimits), [codexRateLimits]);
+  // Warning the user has already seen — a second send goes through; a new window period warns again
+  const [seenUsageWarningKey, setSeenUsageWarningKey] = useState<string | null>(null);
+  const [showUsageWarning, setShowUsageWarning] = useState(false);
   const [showMentions, setShowMentions] = useState(false);
   const [mentionQuery, setMentionQuery] = useState("");
   const [mentionIndex, setMentionIndex] = useState(0);
+  const [showCommands, setShowCommands] = useState(false);
+  const [commandQuery, setCommandQuery] = useState("");
+  const [commandIndex, setCommandIndex] = useState(0);
+  // Command typed at the start of the input — its argument hint shows above the text
+  const [activeCommand, setActiveCommand] = useState<SlashCommand | null>(null);
   const [fileCache, setFileCache] = useState<{ files: string[]; dirs: string[] } | null>(null);
   const [isSending, setIsSending] = useState(false);
   const [attachments, setAttachments] = useState<ImageAttachment[]>([]);
@@ -628,6 +843,7 @@ export const InputBar = memo(function InputBar({
   const editableRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const mentionListRef = useRef<HTMLDivElement>(null);
+  const commandListRef = useRef<HTMLDivElement>(null);
   const mentionStartNode = useRef<Node | null>(null);
   const mentionStartOffset = useRef<number>(0);
   const fileCachePathRef = useRef<string | undefined>(undefined);
@@ -718,6 +934,40 @@ export const InputBar = memo(function InputBar({
     active?.scrollIntoView({ block: "nearest" });
   }, [mentionIndex]);
 
+  // Built-ins act on the thread, so they're only offered between turns
+  const availableCommands = useMemo(
+    () => (slashCommands ?? []).filter((c) => c.source !== "codex-builtin" || (!isProcessing && onBuiltinCommand)),
+    [slashCommands, isProcessing, onBuiltinCommand],
+  );
+
+  const commandResults = useMemo(() => {
+    if (!showCommands) return [];
+    if (!commandQuery) return availableCommands;
+    return availableCommands
+      .map((command) => ({ command, ...fuzzyMatch(commandQuery, command.name) }))
+      .filter((r) => r.match)
+      .sort((a, b) => b.score - a.score)
+      .map((r) => r.command);
+  }, [showCommands, commandQuery, availableCommands]);
+
+  useEffect(() => {
+    if (commandIndex >= commandResults.length) {
+      setCommandIndex(Math.max(0, commandResults.length - 1));
+    }
+  }, [commandResults.length, commandIndex]);
+
+  useEffect(() => {
+    if (!commandListRef.current) return;
+    const active = commandListRef.current.querySelector("[data-active='true']");
+    active?.scrollIntoView({ block: "nearest" });
+  }, [commandIndex]);
+
+  const closeCommands = useCallback(() => {
+    setShowCommands(false);
+    setCommandQuery("");
+    setCommandIndex(0);
+  }, []);
+
   const closeMentions = useCallback(() => {
     setShowMentions(false);
     setMentionQuery("");
@@ -793,6 +1043,27 @@ export const InputBar = memo(function InputBar({
     [closeMentions],
   );
 
+  const selectCommand = useCallback(
+    (command: SlashCommand) => {
+      const el = editableRef.current;
+      if (!el) return;
+      el.textContent = `/${command.name} `;
+      el.focus();
+      const sel = window.getSelection();
+      if (sel) {
+        const range = document.createRange();
+        range.selectNodeContents(el);
+        range.collapse(false);
+        sel.removeAllRanges();
+        sel.addRange(range);
+      }
+      setHasContent(true);
+      setActiveCommand(command);
+      closeCommands();
+    },
+    [closeCommands],
+  );
+
   const handleSend = useCallback(async () => {
     const el = editableRef.current;
     if (!el) return;
@@ -801,43 +1072,99 @@ export const InputBar = memo(function InputBar({
     const trimmed = fullText.trim();
     if ((!trimmed && attachments.length === 0) || isSending) return;
 
+    if (usageWarning && seenUsageWarningKey !== usageWarning.key) {
+      setSeenUsageWarningKey(usageWarning.key);
+      setShowUsageWarning(true);
+      return;
+    }
+    setShowUsageWarning(false);
+
+    const dispatch = isSteering ? onSteer! : onSend;
+
     const currentImages = attachments.length > 0 ? [...attachments] : undefined;
 
+    // Claude and ACP take `/name args` as-is; Codex prompts are expanded and built-ins run as actions
+    const slash = parseSlashInput(trimmed);
+    const command = slash ? availableCommands.find((c) => c.name === slash.name) : undefined;
+    if (slash && command?.source === "codex-builtin") {
+      onBuiltinCommand?.(slash.name, slash.args);
+      el.innerHTML = "";
+      setHasContent(false);
+      setActiveCommand(null);
+      closeCommands();
+      return;
+    }
+    const outgoing = slash && command?.source === "codex-prompt" && command.template !== undefined
+      ? expandCodexPrompt(command.template, slash.args)
+      : trimmed;
+
     if (mentionPaths.length > 0 && projectPath) {
       setIsSending(true);
       try {
         const fileResults = await window.claude.files.readMultiple(projectPath, mentionPaths);
 
         const contextParts: string[] = [];
+        const mentions: ACPPromptContext["mentions"] = [];
         for (const result of fileResults) {
           if (result.error) {
             contextParts.push(`<file path="${result.path}">\n[Error: ${result.error}]\n</file>`);
+            mentions.push({ kind: "file", path: result.path, error: result.error });
           } else if (result.isDir && result.tree) {
             contextParts.push(`<folder path="${result.path}">\n${result.tree}\n</folder>`);
+            mentions.push({ kind: "folder", path: result.path });
           } else if (!result.isDir && result.content !== undefined) {
             contextParts.push(`<file path="${result.path}">\n${result.content}\n</file>`);
+            mentions.push({ kind: "file", path: result.path, content: result.content });
           }
         }
 
         const contextBlock = contextParts.join("\n\n");
-        const fullMessage = contextBlock ? `${contextBlock}\n\n${trimmed}` : trimmed;
+        const fullMessage = contextBlock ? `${contextBlock}\n\n${outgoing}` : outgoing;
         // Pass trimmed (@path text) as displayText so MessageBubble doesn't need regex stripping
-        onSend(fullMessage, currentImages, trimmed);
+        dispatch(fullMessage, currentImages, trimmed, mentions.length > 0 ? { mentions, text: outgoing } : undefined);
       } finally {
         setIsSending(false);
       }
     } else {
-      onSend(trimmed, currentImages);
+      dispatch(outgoing, currentImages, outgoing !== trimmed ? trimmed : undefined);
     }
 
     // Clear input
     el.innerHTML = "";
     setHasContent(false);
     setAttachments([]);
+    setActiveCommand(null);
     closeMentions();
-  }, [attachments, isSending, projectPath, onSend, closeMentions]);
+    closeCommands();
+  }, [
+    attachments, isSending, projectPath, onSend, onSteer, isSteering, usageWarning, seenUsageWarningKey,
+    availableCommands, onBuiltinCommand, closeMentions, closeCommands,
+  ]);
 
   const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (showCommands && commandResults.length > 0) {
+      if (e.key === "ArrowDown") {
+        e.preventDefault();
+        setCommandIndex((prev) => (prev + 1) % commandResults.length);
+        return;
+      }
+      if (e.key === "ArrowUp") {
+        e.preventDefault();
+        setCommandIndex((prev) => (prev - 1 + commandResults.length) % commandResults.length);
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        selectCommand(commandResults[commandIndex]);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        closeCommands();
+        return;
+      }
+    }
+
     if (showMentions && results.length > 0) {
       if (e.key === "ArrowDown") {
         e.preventDefault();
@@ -886,6 +1213,19 @@ export const InputBar = memo(function InputBar({
       el.querySelector("[data-mention-path]") !== null;
     setHasContent(hasText);
 
+    // Detect / trigger — commands only count at the very start of the message
+    const text = el.textContent ?? "";
+    const slashMatch = availableCommands.length > 0 ? text.match(/^\/(\S*)$/) : null;
+    if (slashMatch) {
+      setCommandQuery(slashMatch[1]);
+      setShowCommands(true);
+      setCommandIndex(0);
+    } else if (showCommands) {
+      closeCommands();
+    }
+    const typedCommand = text.match(/^\/(\S+)\s/);
+    setActiveCommand(typedCommand ? availableCommands.find((c) => c.name === typedCommand[1]) ?? null : null);
+
     // Detect @ trigger
     const sel = window.getSelection();
     if (!sel || !sel.rangeCount) {
@@ -913,7 +1253,7 @@ export const InputBar = memo(function InputBar({
     } else {
       if (showMentions) closeMentions();
     }
-  }, [showMentions, closeMentions, projectPath]);
+  }, [showMentions, closeMentions, projectPath, availableCommands, showCommands, closeCommands]);
 
   const handlePaste = useCallback(
     (e: React.ClipboardEvent<HTMLDivElement>) => {
@@ -999,6 +1339,39 @@ export const InputBar = memo(function InputBar({
         onDragLeave={handleDragLeave}
         onDrop={handleDrop}
       >
+        {/* Slash command palette */}
+        {showCommands && commandResults.length > 0 && (
+          <div
+            ref={commandListRef}
+            className="mx-2 mb-1 mt-2 max-h-64 overflow-y-auto rounded-lg border border-border/60 bg-popover shadow-lg"
+          >
+            {commandResults.map((command, i) => (
+              <button
+                key={`${command.source}:${command.name}`}
+                data-active={i === commandIndex}
+                className={`flex w-full items-baseline gap-2 px-3 py-1.5 text-start text-sm transition-colors ${
+                  i === commandIndex
+                    ? "bg-accent text-accent-foreground"
+                    : "text-popover-foreground hover:bg-muted/40"
+                }`}
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  selectCommand(command);
+                }}
+                onMouseEnter={() => setCommandIndex(i)}
+              >
+                <span className="shrink-0 font-mono text-xs">/{command.name}</span>
+                {command.argumentHint && (
+                  <span className="shrink-0 font-mono text-[11px] text-muted-foreground/70">{command.argumentHint}</span>
+                )}
+                {command.description && (
+                  <span className="min-w-0 truncate text-xs text-muted-foreground">{command.description}</span>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Mention popup */}
         {showMentions && results.length > 0 && (
           <div
@@ -1031,6 +1404,29 @@ export const InputBar = memo(function InputBar({
           </div>
         )}
 
+        {/* Usage warning — shown once per window period, the next send goes through */}
+        {showUsageWarning && usageWarning && (
+          <div className="mx-3 mt-2.5 flex items-center gap-2 rounded-lg border border-amber-500/30 bg-amber-500/10 px-3 py-1.5 text-xs text-amber-700 dark:text-amber-300">
+            <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+            <span className="min-w-0 flex-1">{usageWarning.message} Send again to continue.</span>
+            <button
+              type="button"
+              onClick={() => setShowUsageWarning(false)}
+              className="shrink-0 opacity-60 transition-opacity hover:opacity-100"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        )}
+
+        {/* Argument hint for the command being typed */}
+        {activeCommand?.argumentHint && hasContent && (
+          <div className="mx-4 mt-2.5 flex items-baseline gap-2 text-xs text-muted-foreground">
+            <span className="font-mono text-foreground/70">/{activeCommand.name}</span>
+            <span className="font-mono">{activeCommand.argumentHint}</span>
+          </div>
+        )}
+
         {/* Input area — contentEditable with inline chip support */}
         <div
           className="relative px-4 pt-3.5 pb-2"
@@ -1042,8 +1438,10 @@ export const InputBar = memo(function InputBar({
               {isCompacting
                 ? "Compacting context..."
                 : isProcessing
-                  ? `${selectedAgent?.name ?? "Claude"} is responding... (messages will be queued)`
-                  : "Ask anything, @ to tag files"}
+                  ? `${selectedAgent?.name ?? "Claude"} is responding... (messages will ${isSteering ? "steer the current turn" : "be queued"})`
+                  : availableCommands.length > 0
+                    ? "Ask anything, @ to tag files, / for commands"
+                    : "Ask anything, @ to tag files"}
             </div>
           )}
           <div
@@ -1224,10 +1622,14 @@ export const InputBar = memo(function InputBar({
               codexEffortOptions={codexEffortOptions}
               codexActiveEffort={codexActiveEffort}
               onCodexEffortChange={onCodexEffortChange}
+              codexSandbox={codexSandbox}
+              onCodexSandboxChange={onCodexSandboxChange}
               acpPermissionBehavior={acpPermissionBehavior}
               onAcpPermissionBehaviorChange={onAcpPermissionBehaviorChange}
               acpConfigOptions={acpConfigOptions}
               onACPConfigChange={onACPConfigChange}
+              acpModes={acpModes}
+              onACPModeChange={onACPModeChange}
             />
           </div>
 
@@ -1298,6 +1700,31 @@ export const InputBar = memo(function InputBar({
                 </Tooltip>
               );
             })()}
+            {isProcessing && onSteer && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <button
+                    type="button"
+                    onClick={() => setBusySendMode((mode) => (mode === "queue" ? "steer" : "queue"))}
+                    className={`flex h-6 items-center gap-1 rounded-full px-2 text-[11px] transition-colors ${
+                      isSteering
+                        ? "bg-amber-500/15 text-amber-600 dark:text-amber-400"
+                        : "text-muted-foreground hover:bg-muted/40"
+                    }`}
+                  >
+                    {isSteering ? <CornerDownRight className="h-3 w-3" /> : <Clock className="h-3 w-3" />}
+                    {isSteering ? "Steer" : "Queue"}
+                  </button>
+                </TooltipTrigger>
+                <TooltipContent side="top">
+                  <p className="text-xs">
+                    {isSteering
+                      ? "Messages join the running turn — click to queue instead"
+                      : "Messages wait for the turn to finish — click to steer instead"}
+                  </p>
+                </TooltipContent>
+              </Tooltip>
+            )}
             {isProcessing && (
               <Button
                 size="icon"
@@ -1313,9 +1740,9 @@ export const InputBar = memo(function InputBar({
                 size="icon"
                 onClick={handleSend}
                 disabled={(!hasContent && attachments.length === 0) || isSending}
-                className="h-8 w-8 rounded-full"
+                className={`h-8 w-8 rounded-full ${isSteering ? "bg-amber-500 text-white hover:bg-amber-500/90" : ""}`}
               >
-                <ArrowUp className="h-4 w-4" />
+                {isSteering ? <CornerDownRight className="h-4 w-4" /> : <ArrowUp className="h-4 w-4" />}
               </Button>
               {queuedCount > 0 && (
                 <span className="absolute -end-1 -top-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-primary px-1 text-[10px] font-medium text-primary-foreground">
@@ -0,0 +1,88 @@
+import { memo, useState } from "react";
+import { ChevronRight } from "lucide-react";
+
+interface JsonTreeProps {
+  value: unknown;
+  /** Objects and arrays nested deeper than this start collapsed */
+  defaultExpandDepth?: number;
+}
+
+// Long strings (file contents, base64 images) are clipped until clicked
+const STRING_PREVIEW_CHARS = 200;
+
+function Primitive({ value }: { value: unknown }) {
+  const [expanded, setExpanded] = useState(false);
+  if (value === null) return <span className="text-muted-foreground">null</span>;
+  if (typeof value === "number") return <span className="text-blue-500">{value}</span>;
+  if (typeof value === "boolean") return <span className="text-amber-500">{String(value)}</span>;
+
+  const text = String(value);
+  const clipped = !expanded && text.length > STRING_PREVIEW_CHARS;
+  return (
+    <span
+      className={`whitespace-pre-wrap break-all text-emerald-600 dark:text-emerald-400 ${clipped ? "cursor-pointer" : ""}`}
+      onClick={clipped ? () => setExpanded(true) : undefined}
+    >
+      "{clipped ? text.slice(0, STRING_PREVIEW_CHARS) : text}"
+      {clipped && <span className="text-muted-foreground"> ...{text.length - STRING_PREVIEW_CHARS} more</span>}
+    </span>
+  );
+}
+
+const JsonNode = memo(function JsonNode({
+  name,
+  value,
+  depth,
+  defaultExpandDepth,
+}: {
+  name?: string;
+  value: unknown;
+  depth: number;
+  defaultExpandDepth: number;
+}) {
+  const [open, setOpen] = useState(depth < defaultExpandDepth);
+  const label = name !== undefined && <span className="text-foreground/70">{name}: </span>;
+
+  if (typeof value !== "object" || value === null) {
+    return (
+      <div className="ps-3.5">
+        {label}
+        <Primitive value={value} />
+      </div>
+    );
+  }
+
+  const isArray = Array.isArray(value);
+  const children = isArray ? value.map((v, i) => [String(i), v] as const) : Object.entries(value);
+  const summary = isArray ? `[${children.length}]` : `{${children.length}}`;
+
+  return (
+    <div>
+      <button
+        type="button"
+        className="flex items-center gap-0.5 text-start hover:text-foreground"
+        onClick={() => setOpen((o) => !o)}
+      >
+        <ChevronRight className={`h-3 w-3 shrink-0 text-muted-foreground transition-transform ${open ? "rotate-90" : ""}`} />
+        {label}
+        <span className="text-muted-foreground">{summary}</span>
+      </button>
+      {open && (
+        <div className="ms-1.5 border-s border-foreground/[0.06] ps-1.5">
+          {children.map(([key, child]) => (
+            <JsonNode key={key} name={key} value={child} depth={depth + 1} defaultExpandDepth={defaultExpandDepth} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
+/** Collapsible view of a parsed JSON value. */
+export const JsonTree = memo(function JsonTree({ value, defaultExpandDepth = 2 }: JsonTreeProps) {
+  return (
+    <div className="font-mono text-[11px] leading-relaxed">
+      <JsonNode value={value} depth={0} defaultExpandDepth={defaultExpandDepth} />
+    </div>
+  );
+});
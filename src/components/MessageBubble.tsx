@@ -1,5 +1,5 @@
 import { memo, useMemo, createContext, useContext, type ReactNode } from "react";
-import { AlertCircle, Clock, File, Folder, Info, RotateCcw, Undo2 } from "lucide-react";
+import { AlertCircle, Clock, CornerDownRight, File, Folder, GitBranch, Info, RotateCcw, Undo2 } from "lucide-react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
@@ -13,6 +13,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { cn } from "@/lib/utils";
 import { guessLanguage } from "@/lib/languages";
+import { stripFileContext } from "@/lib/message-factory";
 import { useStreamingTextReveal } from "@/hooks/useStreamingTextReveal";
 import type { UIMessage } from "@/types";
 import { ThinkingBlock } from "./ThinkingBlock";
@@ -105,13 +106,6 @@ const SYNTAX_STYLE: React.CSSProperties = {
 /** Override oneDark's background on the inner <code> element */
 const CODE_TAG_PROPS = { style: { background: "transparent", textShadow: "none" } };
 
-/** Strip `<file path="...">...</file>` and `<folder path="...">...</folder>` context blocks from user messages */
-function stripFileContext(text: string): string {
-  let result = text.replace(/<file path="[^"]*">[\s\S]*?<\/file>\s*/g, "");
-  result = result.replace(/<folder path="[^"]*">[\s\S]*?<\/folder>\s*/g, "");
-  return result.trim();
-}
-
 /** Render @path references as styled inline badges */
 function renderWithMentions(text: string): ReactNode[] {
   // Match @path/to/file or @path/to/dir/
@@ -146,9 +140,11 @@ interface MessageBubbleProps {
   onRevert?: (checkpointId: string) => void;
   /** Called when user clicks "Revert files + chat" — restores files AND truncates conversation */
   onFullRevert?: (checkpointId: string) => void;
+  /** Called when user clicks "Fork from here" — branches a new session before this message */
+  onFork?: (messageId: string) => void;
 }
 
-export const MessageBubble = memo(function MessageBubble({ message, showThinking = true, isContinuation, onRevert, onFullRevert }: MessageBubbleProps) {
+export const MessageBubble = memo(function MessageBubble({ message, showThinking = true, isContinuation, onRevert, onFullRevert, onFork }: MessageBubbleProps) {
   // All hooks must be called before any early returns (Rules of Hooks)
   const isUser = message.role === "user";
   const time = useMemo(() => new Date(message.timestamp).toLocaleTimeString(), [message.timestamp]);
@@ -180,14 +176,17 @@ export const MessageBubble = memo(function MessageBubble({ message, showThinking
   if (isUser) {
     const checkpointId = message.checkpointId;
     const canRevert = !!checkpointId && (!!onRevert || !!onFullRevert);
+    // Steered input joined someone else's turn — there's no clean turn boundary to fork at
+    const canFork = !!onFork && !message.isQueued && !message.isSteer;
     return (
       <div className={cn("group/user flex justify-end px-4 py-1.5", message.isQueued && "opacity-60")}>
-        <div className={cn("relative max-w-[80%]", canRevert && "pb-5")}>
+        <div className={cn("relative max-w-[80%]", (canRevert || canFork) && "pb-5")}>
           <Tooltip>
             <TooltipTrigger asChild>
               <div className={cn(
                 "rounded-2xl rounded-tr-sm bg-foreground/[0.06] px-3.5 py-2 text-sm text-foreground wrap-break-word whitespace-pre-wrap",
                 message.isQueued && "border border-dashed border-foreground/10",
+                message.isSteer && "border border-amber-500/25",
               )}>
                 {message.images && message.images.length > 0 && (
                   <div className="mb-2 flex flex-wrap gap-2">
@@ -208,37 +207,54 @@ export const MessageBubble = memo(function MessageBubble({ message, showThinking
                     Queued
                   </div>
                 )}
+                {message.isSteer && (
+                  <div className="mt-1.5 flex items-center gap-1 text-[11px] text-amber-600/80 dark:text-amber-400/80">
+                    <CornerDownRight className="h-3 w-3" />
+                    Steered mid-turn
+                  </div>
+                )}
               </div>
             </TooltipTrigger>
             <TooltipContent side="left">
               <p className="text-xs">{time}</p>
             </TooltipContent>
           </Tooltip>
-          {/* Revert dropdown — visible on hover, offers file-only or full (files + chat) revert */}
-          {canRevert && (
-            <div className="pointer-events-none absolute end-0 -bottom-0.5 w-max opacity-0 transition-opacity group-hover/user:opacity-100">
-              <DropdownMenu>
-                <DropdownMenuTrigger asChild>
-                  <button className="pointer-events-auto flex items-center gap-1 whitespace-nowrap rounded px-1.5 py-0.5 text-[11px] text-foreground/30 transition-colors hover:text-foreground/60">
-                    <Undo2 className="h-3 w-3" />
-                    Revert to here
-                  </button>
-                </DropdownMenuTrigger>
-                <DropdownMenuContent align="end" className="w-48">
-                  {onRevert && (
-                    <DropdownMenuItem onClick={() => onRevert(checkpointId)}>
-                      <Undo2 className="h-3.5 w-3.5 me-2" />
-                      Revert files only
-                    </DropdownMenuItem>
-                  )}
-                  {onFullRevert && (
-                    <DropdownMenuItem onClick={() => onFullRevert(checkpointId)}>
-                      <RotateCcw className="h-3.5 w-3.5 me-2" />
-                      Revert files + chat
-                    </DropdownMenuItem>
-                  )}
-                </DropdownMenuContent>
-              </DropdownMenu>
+          {/* Hover actions — fork a new session here, or revert files / files + chat */}
+          {(canRevert || canFork) && (
+            <div className="pointer-events-none absolute end-0 -bottom-0.5 flex w-max items-center opacity-0 transition-opacity group-hover/user:opacity-100">
+              {canFork && (
+                <button
+                  onClick={() => onFork(message.id)}
+                  className="pointer-events-auto flex items-center gap-1 whitespace-nowrap rounded px-1.5 py-0.5 text-[11px] text-foreground/30 transition-colors hover:text-foreground/60"
+                >
+                  <GitBranch className="h-3 w-3" />
+                  Fork from here
+                </button>
+              )}
+              {canRevert && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <button className="pointer-events-auto flex items-center gap-1 whitespace-nowrap rounded px-1.5 py-0.5 text-[11px] text-foreground/30 transition-colors hover:text-foreground/60">
+                      <Undo2 className="h-3 w-3" />
+                      Revert to here
+                    </button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end" className="w-48">
+                    {onRevert && (
+                      <DropdownMenuItem onClick={() => onRevert(checkpointId)}>
+                        <Undo2 className="h-3.5 w-3.5 me-2" />
+                        Revert files only
+                      </DropdownMenuItem>
+                    )}
+                    {onFullRevert && (
+                      <DropdownMenuItem onClick={() => onFullRevert(checkpointId)}>
+                        <RotateCcw className="h-3.5 w-3.5 me-2" />
+                        Revert files + chat
+                      </DropdownMenuItem>
+                    )}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
             </div>
           )}
         </div>
@@ -289,10 +305,12 @@ export const MessageBubble = memo(function MessageBubble({ message, showThinking
   prev.message.isError === next.message.isError &&
   prev.message.checkpointId === next.message.checkpointId &&
   prev.message.isQueued === next.message.isQueued &&
+  prev.message.isSteer === next.message.isSteer &&
   prev.showThinking === next.showThinking &&
   prev.isContinuation === next.isContinuation &&
   prev.onRevert === next.onRevert &&
-  prev.onFullRevert === next.onFullRevert,
+  prev.onFullRevert === next.onFullRevert &&
+  prev.onFork === next.onFork,
 );
 
 /**
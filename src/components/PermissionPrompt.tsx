@@ -1,7 +1,9 @@
 import { useState } from "react";
-import { ShieldAlert, Check, X, Send, Play } from "lucide-react";
+import { ShieldAlert, Check, X, Send, Play, Sparkles, Pencil, FileDiff } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { DiffViewer } from "@/components/DiffViewer";
 import type { PermissionRequest, RespondPermissionFn } from "@/types";
+import type { CodexSkill } from "@/types/codex";
 
 const TOOL_LABELS: Record<string, string> = {
   Write: "Create a file",
@@ -256,6 +258,158 @@ function AskUserQuestionPrompt({ request, onRespond }: PermissionPromptProps) {
   );
 }
 
+// --- Skill: Codex asks before running a skill — show what it is and what it needs ---
+
+function SkillApprovalPrompt({ request, onRespond }: PermissionPromptProps) {
+  const skillName = String(request.toolInput.skillName ?? request.toolInput.skill ?? "");
+  const skill = request.toolInput.skillMetadata as CodexSkill | undefined;
+  const title = skill?.interface?.displayName ?? skillName;
+  const description = skill?.interface?.shortDescription ?? skill?.shortDescription ?? skill?.description;
+  const tools = skill?.dependencies?.tools ?? [];
+
+  return (
+    <div className="mx-auto w-full max-w-3xl px-4 pb-4">
+      <div className="pointer-events-auto rounded-2xl border border-border/60 bg-background/55 px-4 py-3 shadow-lg backdrop-blur-lg">
+        <div className="flex items-center gap-3">
+          <Sparkles className="h-5 w-5 shrink-0 text-foreground/60" />
+
+          <div className="min-w-0 flex-1">
+            <p className="text-sm font-medium text-foreground">Use skill: {title}</p>
+            {description && (
+              <p className="line-clamp-2 text-xs text-muted-foreground">{description}</p>
+            )}
+            {skill && (
+              <p className="truncate font-mono text-[11px] text-muted-foreground/70">
+                {skill.scope} · {skill.path}
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => onRespond("deny")}
+              className="h-8 gap-1.5 text-xs text-muted-foreground hover:text-foreground"
+            >
+              <X className="h-3.5 w-3.5" />
+              Decline
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => onRespond("allow")}
+              className="h-8 gap-1.5 text-xs"
+            >
+              <Check className="h-3.5 w-3.5" />
+              Approve
+            </Button>
+          </div>
+        </div>
+
+        {tools.length > 0 && (
+          <div className="mt-2 flex flex-wrap items-center gap-1.5 ps-8">
+            <span className="text-[11px] text-muted-foreground">Needs</span>
+            {tools.map((tool) => (
+              <span
+                key={`${tool.type}:${tool.value}`}
+                title={tool.description ?? tool.command ?? tool.url}
+                className="rounded bg-foreground/[0.06] px-1.5 py-px font-mono text-[11px] text-foreground/70"
+              >
+                {tool.type}: {tool.value}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// --- Write review: ACP file write held until the user accepts, edits or rejects it ---
+
+function WriteReviewPrompt({ request, onRespond }: PermissionPromptProps) {
+  const filePath = String(request.toolInput.file_path ?? "");
+  const proposed = String(request.toolInput.content ?? "");
+  const oldContent = typeof request.toolInput.old_content === "string" ? request.toolInput.old_content : null;
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(proposed);
+  const [reason, setReason] = useState("");
+  const edited = draft !== proposed;
+
+  const accept = () => onRespond("allow", edited ? { content: draft } : undefined);
+  const reject = () => onRespond("deny", reason.trim() ? { denyMessage: reason.trim() } : undefined);
+
+  return (
+    <div className="mx-auto w-full max-w-3xl px-4 pb-4">
+      <div className="pointer-events-auto rounded-2xl border border-border/60 bg-background/55 shadow-lg backdrop-blur-lg">
+        <div className="flex items-center gap-3 px-4 pt-3.5">
+          <FileDiff className="h-5 w-5 shrink-0 text-foreground/60" />
+          <div className="min-w-0 flex-1">
+            <p className="text-sm font-medium text-foreground">
+              {oldContent === null ? "Review new file" : "Review file write"}
+              {edited && <span className="ms-1.5 text-xs font-normal text-muted-foreground">(edited)</span>}
+            </p>
+            <p className="truncate font-mono text-xs text-muted-foreground">{filePath}</p>
+          </div>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => setEditing((v) => !v)}
+            className="h-8 gap-1.5 text-xs text-muted-foreground hover:text-foreground"
+          >
+            <Pencil className="h-3.5 w-3.5" />
+            {editing ? "Show Diff" : "Edit"}
+          </Button>
+        </div>
+
+        <div className="px-4 py-3">
+          {editing ? (
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              spellCheck={false}
+              className="h-72 w-full resize-y rounded-lg border border-border/50 bg-transparent px-3 py-2 font-mono text-xs text-foreground outline-none focus-visible:border-border"
+            />
+          ) : (
+            <DiffViewer oldString={oldContent ?? ""} newString={draft} filePath={filePath} />
+          )}
+        </div>
+
+        <div className="flex items-center gap-2 border-t border-border/40 px-3 py-2.5">
+          <input
+            type="text"
+            placeholder="Reason for rejecting (optional)..."
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") reject();
+              if (e.key === "Escape") setReason("");
+            }}
+            className="min-w-0 flex-1 rounded-md border border-border/40 bg-transparent px-2.5 py-1.5 text-sm text-foreground placeholder:text-muted-foreground/40 outline-none focus-visible:border-border"
+          />
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={reject}
+            className="h-8 gap-1.5 text-xs text-muted-foreground hover:text-foreground"
+          >
+            <X className="h-3.5 w-3.5" />
+            Reject
+          </Button>
+          <Button
+            size="sm"
+            onClick={accept}
+            className="h-8 gap-1.5 text-xs"
+          >
+            <Check className="h-3.5 w-3.5" />
+            {edited ? "Write Edited" : "Write"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // --- Default tool permission prompt ---
 
 export function PermissionPrompt({ request, onRespond, showAcceptForSession }: PermissionPromptProps) {
@@ -267,8 +421,20 @@ export function PermissionPrompt({ request, onRespond, showAcceptForSession }: P
     return <AskUserQuestionPrompt request={request} onRespond={onRespond} />;
   }
 
+  if (request.toolName === "Skill") {
+    return <SkillApprovalPrompt request={request} onRespond={onRespond} />;
+  }
+
+  if (request.toolInput.writeReview === true) {
+    return <WriteReviewPrompt key={request.requestId} request={request} onRespond={onRespond} />;
+  }
+
   const label = TOOL_LABELS[request.toolName] ?? `Use tool: ${request.toolName}`;
   const detail = formatToolDetail(request);
+  // Codex command prefix that can be added to the exec policy instead of approving once
+  const execPolicyAmendment = Array.isArray(request.toolInput.execPolicyAmendment)
+    ? (request.toolInput.execPolicyAmendment as string[])
+    : null;
 
   return (
     <div className="mx-auto w-full max-w-3xl px-4 pb-4">
@@ -306,6 +472,20 @@ export function PermissionPrompt({ request, onRespond, showAcceptForSession }: P
               Allow for Session
             </Button>
           )}
+          {execPolicyAmendment && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => onRespond("allow", { execPolicyAmendment })}
+              className="h-8 max-w-56 gap-1.5 text-xs"
+              title={`Add "${execPolicyAmendment.join(" ")}" to the Codex exec policy`}
+            >
+              <Check className="h-3.5 w-3.5 shrink-0" />
+              <span className="truncate">
+                Always Allow <span className="font-mono">{execPolicyAmendment.join(" ")}</span>
+              </span>
+            </Button>
+          )}
           <Button
             size="sm"
             onClick={() => onRespond("allow")}
@@ -0,0 +1,363 @@
+import { memo, useState, useMemo, useCallback, useRef, useEffect } from "react";
+import { ArrowLeftRight, ArrowUpRight, ArrowDownLeft, Circle, Square, Trash2, ClipboardCopy } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { CopyButton } from "./CopyButton";
+import { JsonTree } from "./JsonTree";
+import { useProtocolInspector } from "@/hooks/useProtocolInspector";
+import type { ProtocolDirection, ProtocolEntry, ProtocolMessageKind } from "@/types";
+
+// Rendering thousands of rows stalls the panel — older matches stay reachable via filters
+const MAX_VISIBLE_ROWS = 1000;
+
+const KIND_LABEL: Record<ProtocolMessageKind, string> = {
+  request: "REQ",
+  response: "RES",
+  notification: "NOTE",
+  event: "EVT",
+};
+
+const KIND_COLOR: Record<ProtocolMessageKind, string> = {
+  request: "text-blue-500",
+  response: "text-emerald-500",
+  notification: "text-muted-foreground",
+  event: "text-violet-500",
+};
+
+type DirectionFilter = "all" | ProtocolDirection;
+
+interface ProtocolInspectorPanelProps {
+  /** Live session to inspect — null while in a draft */
+  sessionId: string | null;
+}
+
+/**
+ * Comma-separated method terms: plain terms must match (any of them), `-term` excludes.
+ * Matching is a case-insensitive substring test, so `session/` or `-delta` work.
+ */
+function parseMethodFilter(filter: string): { include: string[]; exclude: string[] } {
+  const terms = filter.split(",").map((t) => t.trim().toLowerCase()).filter(Boolean);
+  return {
+    include: terms.filter((t) => !t.startsWith("-")),
+    exclude: terms.filter((t) => t.startsWith("-") && t.length > 1).map((t) => t.slice(1)),
+  };
+}
+
+function formatSize(chars: number): string {
+  return chars < 1024 ? `${chars}B` : `${(chars / 1024).toFixed(1)}K`;
+}
+
+const REDACTED = "[redacted]";
+/** Maps (or `{ name, value }` lists) whose values are all secrets: MCP env vars and HTTP headers */
+const SECRET_MAP_KEYS = new Set(["env", "headers", "http_headers", "env_http_headers"]);
+const SECRET_KEY = /^(authorization|api[-_]?key|(access|refresh|bearer)[-_]?token|token|client[-_]?secret|password)$/i;
+
+function redactMapValues(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => (item && typeof item === "object" && "value" in item ? { ...item, value: REDACTED } : item));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.keys(value).map((k) => [k, REDACTED]));
+  }
+  return value;
+}
+
+/** Copy of a protocol message with env values, headers and credential-looking fields blanked out. */
+function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactSecrets);
+  if (!value || typeof value !== "object") return value;
+  return Object.fromEntries(Object.entries(value).map(([key, v]) => {
+    if (SECRET_MAP_KEYS.has(key.toLowerCase())) return [key, redactMapValues(v)];
+    if (SECRET_KEY.test(key) && typeof v === "string") return [key, REDACTED];
+    return [key, redactSecrets(v)];
+  }));
+}
+
+/**
+ * Entries as a JSON array of `{ direction, message }` — ready to paste into a replay
+ * test, with secrets redacted. Truncated entries can't be parsed (so can't be
+ * redacted either) and keep only their method.
+ */
+function toFixture(entries: ProtocolEntry[]): string {
+  return JSON.stringify(
+    entries.map((e) => (e.truncated
+      ? { direction: e.direction, truncated: true, method: e.method, size: e.size }
+      : { direction: e.direction, message: redactSecrets(JSON.parse(e.json)) })),
+    null,
+    2,
+  );
+}
+
+// ── Entry row ──
+
+const EntryRow = memo(function EntryRow({
+  entry,
+  startedAt,
+  expanded,
+  onToggle,
+}: {
+  entry: ProtocolEntry;
+  startedAt: number;
+  expanded: boolean;
+  onToggle: (seq: number) => void;
+}) {
+  const parsed = useMemo(() => {
+    if (!expanded || entry.truncated) return undefined;
+    try {
+      return JSON.parse(entry.json) as unknown;
+    } catch {
+      return entry.json;
+    }
+  }, [expanded, entry.json, entry.truncated]);
+  const DirectionIcon = entry.direction === "out" ? ArrowUpRight : ArrowDownLeft;
+
+  return (
+    <div className="border-b border-foreground/[0.04]">
+      <button
+        type="button"
+        className="flex w-full items-center gap-1.5 px-3 py-1 text-start font-mono text-[11px] hover:bg-foreground/[0.03]"
+        onClick={() => onToggle(entry.seq)}
+      >
+        <span className="w-14 shrink-0 text-muted-foreground/60">
+          +{((entry.at - startedAt) / 1000).toFixed(3)}
+        </span>
+        <DirectionIcon
+          className={`h-3 w-3 shrink-0 ${entry.direction === "out" ? "text-amber-500" : "text-sky-500"}`}
+        />
+        <span className={`w-9 shrink-0 text-[10px] ${KIND_COLOR[entry.kind]}`}>{KIND_LABEL[entry.kind]}</span>
+        <span className={`min-w-0 flex-1 truncate ${entry.isError ? "text-destructive" : "text-foreground/80"}`}>
+          {entry.method ?? "—"}
+          {entry.id !== undefined && <span className="text-muted-foreground/50"> #{String(entry.id).slice(0, 8)}</span>}
+        </span>
+        {entry.durationMs !== undefined && (
+          <span className="shrink-0 text-muted-foreground">{entry.durationMs}ms</span>
+        )}
+        <span className="w-11 shrink-0 text-end text-muted-foreground/50">{formatSize(entry.size)}</span>
+      </button>
+
+      {expanded && (
+        <div className="relative bg-foreground/[0.02] px-3 py-2">
+          <div className="absolute end-2 top-1 flex items-center">
+            <CopyButton text={entry.json} className="h-6 w-6" />
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 text-muted-foreground hover:text-foreground"
+                  onClick={async () => {
+                    await navigator.clipboard.writeText(toFixture([entry]));
+                    toast.success("Copied as fixture");
+                  }}
+                >
+                  <ClipboardCopy className="h-3.5 w-3.5" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent side="left">
+                <p className="text-xs">Copy as fixture</p>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+          {entry.truncated ? (
+            <>
+              <p className="mb-1 text-[10px] text-amber-500">
+                Payload too large to keep ({formatSize(entry.size)}) — showing the first {formatSize(entry.json.length)}
+              </p>
+              <pre className="whitespace-pre-wrap break-all font-mono text-[11px] text-muted-foreground">{entry.json}</pre>
+            </>
+          ) : (
+            <JsonTree value={parsed} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
+
+// ── Panel ──
+
+export const ProtocolInspectorPanel = memo(function ProtocolInspectorPanel({ sessionId }: ProtocolInspectorPanelProps) {
+  const { recording, entries, dropped, setRecording, clear } = useProtocolInspector(sessionId);
+  const [methodFilter, setMethodFilter] = useState("");
+  const [direction, setDirection] = useState<DirectionFilter>("all");
+  const [hiddenKinds, setHiddenKinds] = useState<Set<ProtocolMessageKind>>(new Set());
+  const [expandedSeq, setExpandedSeq] = useState<number | null>(null);
+
+  const filtered = useMemo(() => {
+    const { include, exclude } = parseMethodFilter(methodFilter);
+    return entries.filter((e) => {
+      if (direction !== "all" && e.direction !== direction) return false;
+      if (hiddenKinds.has(e.kind)) return false;
+      const method = (e.method ?? "").toLowerCase();
+      if (include.length > 0 && !include.some((t) => method.includes(t))) return false;
+      return !exclude.some((t) => method.includes(t));
+    });
+  }, [entries, methodFilter, direction, hiddenKinds]);
+  const visible = filtered.length > MAX_VISIBLE_ROWS ? filtered.slice(-MAX_VISIBLE_ROWS) : filtered;
+  const startedAt = entries[0]?.at ?? 0;
+
+  const toggleKind = useCallback((kind: ProtocolMessageKind) => {
+    setHiddenKinds((prev) => {
+      const next = new Set(prev);
+      if (next.has(kind)) next.delete(kind);
+      else next.add(kind);
+      return next;
+    });
+  }, []);
+
+  const handleToggleEntry = useCallback((seq: number) => {
+    setExpandedSeq((prev) => (prev === seq ? null : seq));
+  }, []);
+
+  const handleCopyFixture = useCallback(async () => {
+    await navigator.clipboard.writeText(toFixture(filtered));
+    toast.success(`Copied ${filtered.length} messages as fixture`);
+  }, [filtered]);
+
+  // Follow new entries while the list is scrolled to the bottom
+  const listRef = useRef<HTMLDivElement>(null);
+  const atBottomRef = useRef(true);
+  useEffect(() => {
+    const el = listRef.current;
+    if (el && atBottomRef.current) el.scrollTop = el.scrollHeight;
+  }, [visible.length]);
+
+  if (!sessionId) {
+    return (
+      <div className="flex h-full items-center justify-center p-4">
+        <p className="text-center text-xs text-muted-foreground">
+          Start a session to record its protocol traffic
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 pt-3 pb-2">
+        <div className="flex items-center gap-1.5">
+          <ArrowLeftRight className="h-3.5 w-3.5 text-muted-foreground" />
+          <span className="text-xs font-medium text-muted-foreground">Protocol</span>
+          {entries.length > 0 && (
+            <Badge variant="outline" className="h-4 px-1 text-[10px]">
+              {entries.length}
+            </Badge>
+          )}
+          {dropped > 0 && (
+            <span className="text-[10px] text-muted-foreground/60">{dropped} evicted</span>
+          )}
+        </div>
+        <div className="flex items-center gap-0.5">
+          <Button
+            variant="ghost"
+            size="sm"
+            className={`h-6 gap-1 px-2 text-[11px] ${recording ? "text-destructive hover:text-destructive" : ""}`}
+            onClick={() => setRecording(!recording)}
+          >
+            {recording ? <Square className="h-2.5 w-2.5 fill-current" /> : <Circle className="h-2.5 w-2.5 fill-current text-destructive" />}
+            {recording ? "Stop" : "Record"}
+          </Button>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={handleCopyFixture}
+                disabled={filtered.length === 0}
+              >
+                <ClipboardCopy className="h-3 w-3" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent side="left">
+              <p className="text-xs">Copy filtered messages as fixture</p>
+            </TooltipContent>
+          </Tooltip>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-6 w-6" onClick={clear} disabled={entries.length === 0}>
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent side="left">
+              <p className="text-xs">Clear</p>
+            </TooltipContent>
+          </Tooltip>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="space-y-1.5 px-3 pb-2">
+        <Input
+          value={methodFilter}
+          onChange={(e) => setMethodFilter(e.target.value)}
+          placeholder="Filter methods, e.g. session/, -delta"
+          className="h-7 font-mono text-[11px]"
+        />
+        <div className="flex items-center gap-1">
+          {(["all", "out", "in"] as const).map((d) => (
+            <Button
+              key={d}
+              variant={direction === d ? "secondary" : "ghost"}
+              size="sm"
+              className="h-5 px-1.5 text-[10px]"
+              onClick={() => setDirection(d)}
+            >
+              {d === "all" ? "All" : d === "out" ? "Sent" : "Received"}
+            </Button>
+          ))}
+          <span className="mx-1 h-3 w-px bg-foreground/10" />
+          {(Object.keys(KIND_LABEL) as ProtocolMessageKind[]).map((kind) => (
+            <Button
+              key={kind}
+              variant="ghost"
+              size="sm"
+              className={`h-5 px-1.5 font-mono text-[10px] ${hiddenKinds.has(kind) ? "text-muted-foreground/40 line-through" : KIND_COLOR[kind]}`}
+              onClick={() => toggleKind(kind)}
+            >
+              {KIND_LABEL[kind]}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {/* Entries */}
+      <div
+        ref={listRef}
+        className="min-h-0 flex-1 overflow-y-auto border-t border-foreground/[0.06]"
+        onScroll={(e) => {
+          const el = e.currentTarget;
+          atBottomRef.current = el.scrollHeight - el.scrollTop - el.clientHeight < 24;
+        }}
+      >
+        {filtered.length > visible.length && (
+          <p className="px-3 py-1.5 text-[10px] text-muted-foreground/60">
+            Showing the latest {visible.length} of {filtered.length} matches
+          </p>
+        )}
+        {visible.map((entry) => (
+          <EntryRow
+            key={entry.seq}
+            entry={entry}
+            startedAt={startedAt}
+            expanded={expandedSeq === entry.seq}
+            onToggle={handleToggleEntry}
+          />
+        ))}
+        {entries.length === 0 && (
+          <div className="flex h-full items-center justify-center p-4">
+            <p className="text-center text-xs text-muted-foreground">
+              {recording
+                ? "Recording... messages appear as the session talks to its agent"
+                : "Press Record to capture this session's requests, responses and notifications"}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1,195 @@
+import { Fragment, type ReactNode } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { AlertCircle, BookOpen, Brain, FileDiff } from "lucide-react";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { TooltipProvider } from "@/components/ui/tooltip";
+import { getToolIcon } from "@/components/lib/tool-metadata";
+import { formatCompactSummary } from "@/components/lib/tool-formatting";
+import { extractTurnSummaries, type TurnSummary } from "@/lib/turn-changes";
+import {
+  exportMetadataRows,
+  fileChangeToPatch,
+  toolCallLabel,
+  type SessionExportContext,
+} from "@/lib/session-export";
+import type { PersistedSession, UIMessage } from "@/types";
+import { MessageBubble } from "./MessageBubble";
+import { ExpandedToolContent } from "./ToolCall";
+import { UnifiedPatchViewer } from "./UnifiedPatchViewer";
+
+const REMARK_PLUGINS = [remarkGfm];
+
+// Native <details> stands in for the app's Collapsibles — the export has no JS
+const SUMMARY_CLASS =
+  "flex w-full cursor-pointer list-none items-center gap-2 py-1 text-[13px] [&::-webkit-details-marker]:hidden";
+
+function ExportToolCall({ message }: { message: UIMessage }) {
+  const isEditLike = message.toolName === "Edit" || message.toolName === "Write";
+  const Icon = getToolIcon(message.toolName ?? "");
+
+  return (
+    <div className="flex justify-start px-4 py-0.5">
+      <details open={isEditLike} className="min-w-0 max-w-[85%]">
+        <summary className={SUMMARY_CLASS}>
+          {message.toolError ? (
+            <AlertCircle className="h-3.5 w-3.5 shrink-0 text-red-400/70" />
+          ) : (
+            <Icon className="h-3.5 w-3.5 shrink-0 text-foreground/35" />
+          )}
+          <span className={`shrink-0 whitespace-nowrap font-medium ${message.toolError ? "text-red-400/70" : "text-foreground/75"}`}>
+            {toolCallLabel(message)}
+          </span>
+          <span className="truncate text-foreground/40">{formatCompactSummary(message)}</span>
+        </summary>
+        <div className="mt-1 mb-2">
+          <ExpandedToolContent message={message} />
+        </div>
+      </details>
+    </div>
+  );
+}
+
+function ExportThinking({ thinking }: { thinking: string }) {
+  return (
+    <details className="px-4 py-0.5">
+      <summary className={`${SUMMARY_CLASS} text-muted-foreground`}>
+        <Brain className="h-3.5 w-3.5 shrink-0" />
+        Thinking
+      </summary>
+      <div className="ms-5 whitespace-pre-wrap border-s border-border/50 ps-3 text-xs text-muted-foreground">
+        {thinking}
+      </div>
+    </details>
+  );
+}
+
+function ExportSummary({ message }: { message: UIMessage }) {
+  return (
+    <details className="mx-4 my-2 rounded-lg border border-border/50 bg-muted/30 px-3 py-2">
+      <summary className={`${SUMMARY_CLASS} text-muted-foreground`}>
+        <BookOpen className="h-3.5 w-3.5 shrink-0" />
+        Context summary
+      </summary>
+      <div className="prose prose-sm dark:prose-invert mt-2 max-w-none">
+        <ReactMarkdown remarkPlugins={REMARK_PLUGINS}>{message.content}</ReactMarkdown>
+      </div>
+    </details>
+  );
+}
+
+function ExportTurnChanges({ summary }: { summary: TurnSummary }) {
+  return (
+    <details className="mx-4 my-2 rounded-lg border border-border/50 bg-muted/30 px-3 py-2 text-sm">
+      <summary className={`${SUMMARY_CLASS} text-muted-foreground`}>
+        <FileDiff className="h-4 w-4 shrink-0 text-muted-foreground/70" />
+        <span className="font-medium text-foreground/80">
+          {summary.fileCount} file{summary.fileCount !== 1 ? "s" : ""} changed
+        </span>
+      </summary>
+      <div className="mt-2 space-y-2">
+        {summary.changes.map((change, i) => (
+          <UnifiedPatchViewer key={`${change.messageId}-${i}`} diffText={fileChangeToPatch(change)} filePath={change.filePath} />
+        ))}
+      </div>
+    </details>
+  );
+}
+
+export function SessionExportDocument({
+  session,
+  ctx,
+}: {
+  session: PersistedSession;
+  ctx: SessionExportContext;
+}) {
+  const turnSummaryByEnd = new Map(
+    extractTurnSummaries(session.messages, false).map((s) => [s.endMessageIndex, s]),
+  );
+  let previousRole: UIMessage["role"] | null = null;
+
+  return (
+    <TooltipProvider>
+      <main className="mx-auto max-w-4xl py-8">
+        <header className="mx-4 mb-4 border-b border-border/50 pb-4">
+          <h1 className="text-lg font-semibold text-foreground">{session.title}</h1>
+          <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-4 gap-y-0.5 text-xs text-muted-foreground">
+            {exportMetadataRows(session, ctx).map(([label, value]) => (
+              <Fragment key={label}>
+                <dt className="font-medium">{label}</dt>
+                <dd>{value}</dd>
+              </Fragment>
+            ))}
+          </dl>
+        </header>
+        {session.messages.map((msg, index) => {
+          const turnSummary = turnSummaryByEnd.get(index);
+          const isContinuation = msg.role === "assistant" && previousRole !== null && previousRole !== "user";
+          if (msg.role !== "tool_result") previousRole = msg.role;
+
+          let body: ReactNode = null;
+          if (msg.role === "tool_call") {
+            body = <ExportToolCall message={msg} />;
+          } else if (msg.role === "summary") {
+            body = <ExportSummary message={msg} />;
+          } else if (msg.role !== "tool_result") {
+            body = (
+              <>
+                {msg.thinking && <ExportThinking thinking={msg.thinking} />}
+                <MessageBubble message={msg} showThinking={false} isContinuation={isContinuation} />
+              </>
+            );
+          }
+
+          return (
+            <Fragment key={msg.id}>
+              {body}
+              {turnSummary && <ExportTurnChanges summary={turnSummary} />}
+            </Fragment>
+          );
+        })}
+      </main>
+    </TooltipProvider>
+  );
+}
+
+/** Concatenate every same-origin stylesheet so the export renders like the app. */
+function collectAppStyles(): string {
+  const chunks: string[] = [];
+  for (const sheet of Array.from(document.styleSheets)) {
+    try {
+      chunks.push(Array.from(sheet.cssRules, (rule) => rule.cssText).join("\n"));
+    } catch {
+      // Cross-origin sheets can't be read — skip them
+    }
+  }
+  return chunks.join("\n");
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Render a session to a single self-contained HTML file using the same
+ * MessageBubble / ToolCall components as the chat view. Styles are inlined
+ * from the running app, images are already inline data URLs.
+ */
+export function renderSessionHtml(session: PersistedSession, ctx: SessionExportContext): string {
+  const body = renderToStaticMarkup(<SessionExportDocument session={session} ctx={ctx} />);
+  const rootClass = document.documentElement.className;
+  return `<!DOCTYPE html>
+<html lang="en" class="${escapeHtml(rootClass)}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(session.title)}</title>
+<style>${collectAppStyles().replace(/<\/style/gi, "<\\/style")}</style>
+<style>body { background: var(--background); overflow: auto; }</style>
+</head>
+<body class="bg-background text-foreground">
+${body}
+</body>
+</html>
+`;
+}
@@ -9,6 +9,8 @@ import {
   Info,
   Wrench,
   Palette,
+  Terminal,
+  Sparkles,
 } from "lucide-react";
 import type { LucideIcon } from "lucide-react";
 import { AgentSettings } from "@/components/settings/AgentSettings";
@@ -16,15 +18,17 @@ import { AppearanceSettings } from "@/components/settings/AppearanceSettings";
 import { GeneralSettings } from "@/components/settings/GeneralSettings";
 import { NotificationsSettings } from "@/components/settings/NotificationsSettings";
 import { McpSettings } from "@/components/settings/McpSettings";
+import { CodexSettings } from "@/components/settings/CodexSettings";
+import { CodexSkillsSettings } from "@/components/settings/CodexSkillsSettings";
 import { AdvancedSettings } from "@/components/settings/AdvancedSettings";
 import { PlaceholderSection } from "@/components/settings/PlaceholderSection";
 import { isMac } from "@/lib/utils";
-import type { InstalledAgent, ThemeOption } from "@/types";
+import type { ACPHealthCheckResult, AgentRegistrySource, InstalledAgent, RegistryAgent, ThemeOption } from "@/types";
 import type { NotificationSettings } from "@/types/ui";
 
 // ── Section definitions ──
 
-type SettingsSection = "general" | "appearance" | "notifications" | "agents" | "mcp" | "models" | "shortcuts" | "advanced" | "about";
+type SettingsSection = "general" | "appearance" | "notifications" | "agents" | "mcp" | "codex" | "skills" | "models" | "shortcuts" | "advanced" | "about";
 
 interface NavItem {
   id: SettingsSection;
@@ -38,6 +42,8 @@ const NAV_ITEMS: NavItem[] = [
   { id: "notifications", label: "Notifications", icon: Bell },
   { id: "agents", label: "ACP Agents", icon: Bot },
   { id: "mcp", label: "MCP Servers", icon: Plug },
+  { id: "codex", label: "Codex", icon: Terminal },
+  { id: "skills", label: "Codex Skills", icon: Sparkles },
   { id: "models", label: "Models", icon: Cpu },
   { id: "shortcuts", label: "Shortcuts", icon: Keyboard },
   { id: "advanced", label: "Advanced", icon: Wrench },
@@ -53,6 +59,8 @@ interface AppSettings {
   voiceDictation: "native" | "whisper";
   notifications: NotificationSettings;
   codexClientName: string;
+  codexFileSnapshots: boolean;
+  agentRegistries: AgentRegistrySource[];
 }
 
 // ── Props ──
@@ -62,6 +70,9 @@ interface SettingsViewProps {
   agents: InstalledAgent[];
   onSaveAgent: (agent: InstalledAgent) => Promise<{ ok?: boolean; error?: string }>;
   onDeleteAgent: (id: string) => Promise<{ ok?: boolean; error?: string }>;
+  onInstallBinaryAgent: (agent: RegistryAgent) => Promise<{ ok?: boolean; error?: string }>;
+  onRollbackAgent: (id: string) => Promise<{ ok?: boolean; agent?: InstalledAgent; error?: string }>;
+  onHealthCheckAgent: (id: string) => Promise<{ result?: ACPHealthCheckResult; error?: string }>;
   theme: ThemeOption;
   onThemeChange: (t: ThemeOption) => void;
   islandLayout: boolean;
@@ -69,6 +80,8 @@ interface SettingsViewProps {
   transparency: boolean;
   onTransparencyChange: (enabled: boolean) => void;
   glassSupported: boolean;
+  /** Active project — scopes project-level config (e.g. Codex's .codex/config.toml) */
+  projectPath?: string;
   sidebarOpen?: boolean;
 }
 
@@ -79,6 +92,9 @@ export const SettingsView = memo(function SettingsView({
   agents,
   onSaveAgent,
   onDeleteAgent,
+  onInstallBinaryAgent,
+  onRollbackAgent,
+  onHealthCheckAgent,
   theme,
   onThemeChange,
   islandLayout,
@@ -86,6 +102,7 @@ export const SettingsView = memo(function SettingsView({
   transparency,
   onTransparencyChange,
   glassSupported,
+  projectPath,
   sidebarOpen = false,
 }: SettingsViewProps) {
   const [activeSection, setActiveSection] = useState<SettingsSection>("general");
@@ -148,10 +165,17 @@ export const SettingsView = memo(function SettingsView({
             agents={agents}
             onSave={onSaveAgent}
             onDelete={onDeleteAgent}
+            onInstallBinary={onInstallBinaryAgent}
+            onRollback={onRollbackAgent}
+            onHealthCheck={onHealthCheckAgent}
           />
         );
       case "mcp":
         return <McpSettings />;
+      case "codex":
+        return <CodexSettings projectPath={projectPath} />;
+      case "skills":
+        return <CodexSkillsSettings projectPath={projectPath} />;
       case "models":
         return (
           <PlaceholderSection
@@ -186,7 +210,7 @@ export const SettingsView = memo(function SettingsView({
       default:
         return null;
     }
-  }, [activeSection, appSettings, updateAppSettings, agents, onSaveAgent, onDeleteAgent, theme, onThemeChange, islandLayout, onIslandLayoutChange, transparency, onTransparencyChange, glassSupported]);
+  }, [activeSection, appSettings, updateAppSettings, agents, onSaveAgent, onDeleteAgent, onInstallBinaryAgent, onRollbackAgent, onHealthCheckAgent, theme, onThemeChange, islandLayout, onIslandLayoutChange, transparency, onTransparencyChange, glassSupported, projectPath]);
 
   return (
     <div className="island flex flex-1 flex-col overflow-hidden rounded-lg bg-background">
@@ -1,15 +1,55 @@
-import { useState, useRef, useEffect, useCallback, memo } from "react";
-import { Search, MessageSquare, Hash, X } from "lucide-react";
-import type { SearchMessageResult, SearchSessionResult } from "@/types";
+import { useState, useRef, useEffect, useCallback, useMemo, memo } from "react";
+import { Search, MessageSquare, Hash, X, SlidersHorizontal, Wrench } from "lucide-react";
+import type { EngineId, Project, SearchFilters, SearchMessageResult, SearchSessionResult } from "@/types";
 
 interface SidebarSearchProps {
-  projectIds: string[];
+  projects: Project[];
   onNavigateToMessage: (sessionId: string, messageId: string) => void;
   onSelectSession: (sessionId: string) => void;
 }
 
+const PAGE_SIZE = 20;
+
+type DateRange = "any" | "day" | "week" | "month";
+
+const DATE_RANGE_MS: Record<Exclude<DateRange, "any">, number> = {
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+};
+
+const ROLE_LABELS: Partial<Record<SearchMessageResult["role"], string>> = {
+  user: "You",
+  assistant: "Assistant",
+  system: "System",
+  summary: "Summary",
+};
+
+const filterSelectClass =
+  "min-w-0 flex-1 rounded-md bg-sidebar-accent/50 px-1.5 py-1 text-[11px] text-sidebar-foreground outline-none";
+const filterInputClass =
+  "min-w-0 flex-1 rounded-md bg-sidebar-accent/50 px-1.5 py-1 text-[11px] text-sidebar-foreground placeholder:text-sidebar-foreground/30 outline-none";
+
+function renderHighlights(text: string, highlights: Array<[number, number]>) {
+  if (highlights.length === 0) return text;
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const [start, end] of highlights) {
+    if (start < cursor) continue; // overlapping ranges
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(
+      <mark key={start} className="bg-yellow-500/30 text-inherit rounded-sm px-0.5">
+        {text.slice(start, end)}
+      </mark>,
+    );
+    cursor = end;
+  }
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return <>{parts}</>;
+}
+
 export const SidebarSearch = memo(function SidebarSearch({
-  projectIds,
+  projects,
   onNavigateToMessage,
   onSelectSession,
 }: SidebarSearchProps) {
@@ -17,44 +57,100 @@ export const SidebarSearch = memo(function SidebarSearch({
   const [isOpen, setIsOpen] = useState(false);
   const [messageResults, setMessageResults] = useState<SearchMessageResult[]>([]);
   const [sessionResults, setSessionResults] = useState<SearchSessionResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [error, setError] = useState<string | null>(null);
   const [isSearching, setIsSearching] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const [engine, setEngine] = useState<EngineId | "">("");
+  const [projectId, setProjectId] = useState("");
+  const [dateRange, setDateRange] = useState<DateRange>("any");
+  const [toolName, setToolName] = useState("");
+  const [model, setModel] = useState("");
   const inputRef = useRef<HTMLInputElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const timerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+  // Monotonic id so slow responses for an older query never overwrite newer results
+  const requestIdRef = useRef(0);
+
+  const projectIds = useMemo(
+    () => (projectId && projects.some((p) => p.id === projectId) ? [projectId] : projects.map((p) => p.id)),
+    [projects, projectId],
+  );
+
+  const filters = useMemo<SearchFilters>(() => ({
+    ...(engine ? { engine } : {}),
+    ...(model.trim() ? { model: model.trim() } : {}),
+    ...(toolName.trim() ? { toolName: toolName.trim() } : {}),
+    ...(dateRange !== "any" ? { from: Date.now() - DATE_RANGE_MS[dateRange] } : {}),
+  }), [engine, model, toolName, dateRange]);
+
+  const activeFilterCount =
+    (engine ? 1 : 0) + (projectId ? 1 : 0) + (dateRange !== "any" ? 1 : 0) +
+    (toolName.trim() ? 1 : 0) + (model.trim() ? 1 : 0);
+
+  const clearResults = useCallback(() => {
+    setMessageResults([]);
+    setSessionResults([]);
+    setTotal(0);
+    setError(null);
+  }, []);
 
   const doSearch = useCallback(
     async (q: string) => {
       if (!q.trim() || projectIds.length === 0) {
-        setMessageResults([]);
-        setSessionResults([]);
+        clearResults();
         return;
       }
+      const requestId = ++requestIdRef.current;
       setIsSearching(true);
       try {
-        const results = await window.claude.sessions.search(projectIds, q.trim());
+        const results = await window.claude.sessions.search(projectIds, q, { filters, limit: PAGE_SIZE });
+        if (requestId !== requestIdRef.current) return;
         setMessageResults(results.messageResults);
         setSessionResults(results.sessionResults);
+        setTotal(results.total);
+        setError(results.error ?? null);
       } catch {
-        setMessageResults([]);
-        setSessionResults([]);
+        if (requestId === requestIdRef.current) clearResults();
       } finally {
-        setIsSearching(false);
+        if (requestId === requestIdRef.current) setIsSearching(false);
       }
     },
-    [projectIds],
+    [projectIds, filters, clearResults],
   );
 
-  // Debounced search
+  const loadMore = useCallback(async () => {
+    const requestId = requestIdRef.current;
+    setIsLoadingMore(true);
+    try {
+      const results = await window.claude.sessions.search(projectIds, query, {
+        filters,
+        offset: messageResults.length,
+        limit: PAGE_SIZE,
+      });
+      if (requestId !== requestIdRef.current) return;
+      setMessageResults((prev) => [...prev, ...results.messageResults]);
+      setTotal(results.total);
+      setError(results.error ?? null);
+    } catch (err) {
+      if (requestId === requestIdRef.current) setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [projectIds, query, filters, messageResults.length]);
+
+  // Debounced search — re-runs when the query or any filter changes
   useEffect(() => {
     clearTimeout(timerRef.current);
     if (!query.trim()) {
-      setMessageResults([]);
-      setSessionResults([]);
+      requestIdRef.current++;
+      clearResults();
       return;
     }
     timerRef.current = setTimeout(() => doSearch(query), 300);
     return () => clearTimeout(timerRef.current);
-  }, [query, doSearch]);
+  }, [query, doSearch, clearResults]);
 
   // Close on click outside
   useEffect(() => {
@@ -77,23 +173,7 @@ export const SidebarSearch = memo(function SidebarSearch({
   };
 
   const hasResults = messageResults.length > 0 || sessionResults.length > 0;
-  const showDropdown = isOpen && query.trim().length > 0;
-
-  const highlightMatch = (text: string, q: string) => {
-    const lowerText = text.toLowerCase();
-    const lowerQ = q.toLowerCase();
-    const idx = lowerText.indexOf(lowerQ);
-    if (idx === -1) return text;
-    return (
-      <>
-        {text.slice(0, idx)}
-        <mark className="bg-yellow-500/30 text-inherit rounded-sm px-0.5">
-          {text.slice(idx, idx + q.length)}
-        </mark>
-        {text.slice(idx + q.length)}
-      </>
-    );
-  };
+  const showDropdown = isOpen && (query.trim().length > 0 || showFilters);
 
   return (
     <div ref={containerRef} className="relative no-drag px-2 pb-1">
@@ -109,30 +189,77 @@ export const SidebarSearch = memo(function SidebarSearch({
           onFocus={() => setIsOpen(true)}
           onKeyDown={handleKeyDown}
           placeholder="Search chats..."
-          className="w-full rounded-lg bg-sidebar-accent/50 py-1.5 pe-7 ps-8 text-sm text-sidebar-foreground placeholder:text-sidebar-foreground/30 outline-none transition-colors focus:bg-sidebar-accent"
+          className="w-full rounded-lg bg-sidebar-accent/50 py-1.5 pe-12 ps-8 text-sm text-sidebar-foreground placeholder:text-sidebar-foreground/30 outline-none transition-colors focus:bg-sidebar-accent"
         />
-        {query && (
+        <div className="absolute end-2 top-1/2 flex -translate-y-1/2 items-center gap-1.5">
           <button
             onClick={() => {
-              setQuery("");
-              setIsOpen(false);
+              setShowFilters((prev) => !prev);
+              setIsOpen(true);
             }}
-            className="absolute end-2 top-1/2 -translate-y-1/2 text-sidebar-foreground/40 hover:text-sidebar-foreground"
+            title="Search filters"
+            className={`relative ${activeFilterCount > 0 || showFilters ? "text-sidebar-foreground" : "text-sidebar-foreground/40"} hover:text-sidebar-foreground`}
           >
-            <X className="h-3.5 w-3.5" />
+            <SlidersHorizontal className="h-3.5 w-3.5" />
+            {activeFilterCount > 0 && (
+              <span className="absolute -end-1 -top-1 h-1.5 w-1.5 rounded-full bg-primary" />
+            )}
           </button>
-        )}
+          {query && (
+            <button
+              onClick={() => {
+                setQuery("");
+                setIsOpen(false);
+              }}
+              className="text-sidebar-foreground/40 hover:text-sidebar-foreground"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          )}
+        </div>
       </div>
 
       {showDropdown && (
-        <div className="absolute inset-x-2 top-full z-50 mt-1 max-h-80 overflow-y-auto rounded-lg border border-sidebar-border bg-popover p-1 shadow-lg">
-          {isSearching && (
-            <p className="px-2 py-3 text-center text-xs text-muted-foreground">Searching...</p>
+        <div className="absolute inset-x-2 top-full z-50 mt-1 max-h-96 overflow-y-auto rounded-lg border border-sidebar-border bg-popover p-1 shadow-lg">
+          {showFilters && (
+            <div className="mb-1 flex flex-col gap-1 border-b border-sidebar-border/60 px-1 pb-1.5 pt-0.5">
+              <div className="flex gap-1">
+                <select value={engine} onChange={(e) => setEngine(e.target.value as EngineId | "")} className={filterSelectClass}>
+                  <option value="">All engines</option>
+                  <option value="claude">Claude</option>
+                  <option value="codex">Codex</option>
+                  <option value="acp">ACP</option>
+                </select>
+                <select value={dateRange} onChange={(e) => setDateRange(e.target.value as DateRange)} className={filterSelectClass}>
+                  <option value="any">Any time</option>
+                  <option value="day">Past day</option>
+                  <option value="week">Past week</option>
+                  <option value="month">Past month</option>
+                </select>
+              </div>
+              <select value={projectId} onChange={(e) => setProjectId(e.target.value)} className={filterSelectClass}>
+                <option value="">All projects</option>
+                {projects.map((p) => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+              <div className="flex gap-1">
+                <input value={toolName} onChange={(e) => setToolName(e.target.value)} placeholder="Tool (e.g. Bash)" className={filterInputClass} />
+                <input value={model} onChange={(e) => setModel(e.target.value)} placeholder="Model" className={filterInputClass} />
+              </div>
+              <p className="px-0.5 text-[10px] text-muted-foreground/60">
+                Use &quot;quotes&quot; for phrases or /pattern/ for regex
+              </p>
+            </div>
           )}
 
-          {!isSearching && !hasResults && (
+          {!query.trim() ? null : isSearching && !hasResults ? (
+            <p className="px-2 py-3 text-center text-xs text-muted-foreground">Searching...</p>
+          ) : error ? (
+            <p className="px-2 py-3 text-center text-xs text-destructive">{error}</p>
+          ) : !hasResults ? (
             <p className="px-2 py-3 text-center text-xs text-muted-foreground">No results found</p>
-          )}
+          ) : null}
 
           {/* Session results */}
           {sessionResults.length > 0 && (
@@ -151,9 +278,7 @@ export const SidebarSearch = memo(function SidebarSearch({
                   className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-start text-sm hover:bg-accent"
                 >
                   <Hash className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
-                  <span className="min-w-0 truncate">
-                    {highlightMatch(r.title, query)}
-                  </span>
+                  <span className="min-w-0 truncate">{r.title}</span>
                 </button>
               ))}
             </div>
@@ -163,7 +288,7 @@ export const SidebarSearch = memo(function SidebarSearch({
           {messageResults.length > 0 && (
             <div>
               <p className="px-2 py-1 text-[10px] font-medium uppercase tracking-wider text-muted-foreground/60">
-                Messages
+                Messages · {total}
               </p>
               {messageResults.map((r, i) => (
                 <button
@@ -176,14 +301,29 @@ export const SidebarSearch = memo(function SidebarSearch({
                   className="flex w-full flex-col gap-0.5 rounded-md px-2 py-1.5 text-start hover:bg-accent"
                 >
                   <span className="text-sm wrap-break-word line-clamp-2">
-                    {highlightMatch(r.snippet, query)}
+                    {renderHighlights(r.snippet, r.highlights)}
                   </span>
-                  <span className="text-[11px] text-muted-foreground truncate">
-                    <MessageSquare className="me-1 inline h-3 w-3" />
-                    {r.sessionTitle}
+                  <span className="flex min-w-0 items-center gap-1 text-[11px] text-muted-foreground">
+                    {r.toolName ? (
+                      <Wrench className="h-3 w-3 shrink-0" />
+                    ) : (
+                      <MessageSquare className="h-3 w-3 shrink-0" />
+                    )}
+                    <span className="shrink-0">{r.toolName ?? ROLE_LABELS[r.role] ?? r.role}</span>
+                    <span className="shrink-0">·</span>
+                    <span className="min-w-0 truncate">{r.sessionTitle}</span>
                   </span>
                 </button>
               ))}
+              {messageResults.length < total && (
+                <button
+                  onClick={() => void loadMore()}
+                  disabled={isLoadingMore}
+                  className="w-full rounded-md px-2 py-1.5 text-center text-xs text-muted-foreground hover:bg-accent disabled:opacity-50"
+                >
+                  {isLoadingMore ? "Loading..." : `Show more (${total - messageResults.length} remaining)`}
+                </button>
+              )}
             </div>
           )}
         </div>
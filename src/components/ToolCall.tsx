@@ -26,6 +26,7 @@ import { TaskTool } from "./tool-renderers/TaskTool";
 import { TodoWriteContent } from "./tool-renderers/TodoWriteContent";
 import { EnterPlanModeContent, ExitPlanModeContent } from "./tool-renderers/PlanContent";
 import { AskUserQuestionContent } from "./tool-renderers/AskUserQuestion";
+import { CodexReviewContent } from "./tool-renderers/CodexReviewContent";
 import { GenericContent } from "./tool-renderers/GenericContent";
 
 // ── Main entry ──
@@ -55,8 +56,9 @@ export const ToolCall = memo(function ToolCall({ message }: { message: UIMessage
 // ── Regular tool (Read, Write, Edit, Bash, Grep, Glob, etc.) ──
 
 function RegularTool({ message }: { message: UIMessage }) {
-  const isEditLike = message.toolName === "Edit" || message.toolName === "Write" || message.toolName === "ExitPlanMode" || message.toolName === "AskUserQuestion";
-  const [expanded, setExpanded] = useState(isEditLike);
+  const isEditLike = message.toolName === "Edit" || message.toolName === "Write" || message.toolName === "ExitPlanMode" || message.toolName === "AskUserQuestion" || message.toolName === "CodexReview";
+  // Commands running in an ACP client terminal start open so their output streams in view
+  const [expanded, setExpanded] = useState(isEditLike || !!message.toolInput?.terminalId);
   const hasResult = !!message.toolResult;
   const isRunning = !hasResult;
   const isError = !!message.toolError;
@@ -107,7 +109,7 @@ function RegularTool({ message }: { message: UIMessage }) {
 
 // ── Expanded content router ──
 
-function ExpandedToolContent({ message }: { message: UIMessage }) {
+export function ExpandedToolContent({ message }: { message: UIMessage }) {
   switch (message.toolName) {
     case "Bash":
       return <BashContent message={message} />;
@@ -132,6 +134,8 @@ function ExpandedToolContent({ message }: { message: UIMessage }) {
       return <WebFetchContent message={message} />;
     case "AskUserQuestion":
       return <AskUserQuestionContent message={message} />;
+    case "CodexReview":
+      return <CodexReviewContent message={message} />;
     default:
       // Check for specialized MCP tool renderers
       if (message.toolName && hasMcpRenderer(message.toolName)) {
@@ -1,5 +1,5 @@
 import { memo, useCallback, useMemo, useState } from "react";
-import { Terminal, Globe, GitBranch, FileText, ListTodo, Bot, Plug, SquareArrowOutUpRight, FileDiff } from "lucide-react";
+import { Terminal, Globe, GitBranch, FileText, ListTodo, Bot, Plug, SquareArrowOutUpRight, FileDiff, ArrowLeftRight } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { Separator } from "@/components/ui/separator";
 import {
@@ -9,7 +9,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 
-export type ToolId = "terminal" | "browser" | "git" | "files" | "tasks" | "agents" | "mcp" | "changes";
+export type ToolId = "terminal" | "browser" | "git" | "files" | "tasks" | "agents" | "mcp" | "changes" | "inspector";
 
 interface ToolDef {
   id: ToolId;
@@ -24,6 +24,7 @@ const PANEL_TOOLS_MAP: Record<string, ToolDef> = {
   files: { id: "files", label: "Open Files", icon: FileText },
   mcp: { id: "mcp", label: "MCP Servers", icon: Plug },
   changes: { id: "changes", label: "Changes", icon: FileDiff },
+  inspector: { id: "inspector", label: "Protocol Inspector", icon: ArrowLeftRight },
 };
 
 const CONTEXTUAL_TOOLS: ToolDef[] = [
@@ -1,7 +1,8 @@
 import { useEffect, useRef, useState } from "react";
-import { Terminal as TerminalIcon, Plus, ChevronDown } from "lucide-react";
+import { Terminal as TerminalIcon, Plus, ChevronDown, Bot } from "lucide-react";
 import { TabBar } from "@/components/TabBar";
 import type { TerminalTab } from "@/hooks/useSpaceTerminals";
+import type { AgentTerminalTab } from "@/hooks/useAgentTerminals";
 import type { ResolvedTheme } from "@/hooks/useTheme";
 
 // ── Terminal color themes ──
@@ -71,9 +72,14 @@ interface ToolsPanelProps {
   onSetActiveTab: (tabId: string | null) => void;
   onCreateTerminal: () => Promise<void>;
   onCloseTerminal: (tabId: string) => Promise<void>;
+  /** Terminals the active ACP session's agent created — shown read-only after the user's tabs */
+  agentTabs?: AgentTerminalTab[];
+  onCloseAgentTerminal?: (tabId: string) => void;
   resolvedTheme: ResolvedTheme;
 }
 
+type PanelTab = TerminalTab & { readOnly?: boolean; exited?: boolean };
+
 export function ToolsPanel({
   spaceId,
   tabs,
@@ -81,8 +87,12 @@ export function ToolsPanel({
   onSetActiveTab,
   onCreateTerminal,
   onCloseTerminal,
+  agentTabs = [],
+  onCloseAgentTerminal,
   resolvedTheme,
 }: ToolsPanelProps) {
+  const allTabs: PanelTab[] = [...tabs, ...agentTabs.map((tab) => ({ ...tab, readOnly: true }))];
+
   // Auto-create first terminal
   useEffect(() => {
     if (tabs.length === 0) {
@@ -94,14 +104,19 @@ export function ToolsPanel({
     <div className="flex h-full flex-col">
       {/* Header with tabs */}
       <TabBar
-        tabs={tabs}
+        tabs={allTabs}
         activeTabId={activeTabId}
         onSelectTab={(id) => onSetActiveTab(id)}
-        onCloseTab={onCloseTerminal}
+        onCloseTab={(id) => {
+          if (agentTabs.some((tab) => tab.id === id)) onCloseAgentTerminal?.(id);
+          else onCloseTerminal(id);
+        }}
         onNewTab={onCreateTerminal}
         headerIcon={TerminalIcon}
         headerLabel=""
-        renderTabIcon={() => <ChevronDown className="h-2.5 w-2.5 opacity-50" />}
+        renderTabIcon={(tab) => (tab.readOnly
+          ? <Bot className={`h-2.5 w-2.5 ${tab.exited ? "opacity-30" : "opacity-60"}`} />
+          : <ChevronDown className="h-2.5 w-2.5 opacity-50" />)}
       />
 
       {/* Separator */}
@@ -109,15 +124,20 @@ export function ToolsPanel({
 
       {/* Terminal content */}
       <div className="relative min-h-0 flex-1">
-        {tabs.map((tab) => (
+        {allTabs.map((tab) => (
           <div
             key={tab.id}
             className={`absolute inset-0 ${tab.id === activeTabId ? "visible" : "invisible"}`}
           >
-            <TerminalInstance terminalId={tab.terminalId} isVisible={tab.id === activeTabId} resolvedTheme={resolvedTheme} />
+            <TerminalInstance
+              terminalId={tab.terminalId}
+              isVisible={tab.id === activeTabId}
+              readOnly={tab.readOnly}
+              resolvedTheme={resolvedTheme}
+            />
           </div>
         ))}
-        {tabs.length === 0 && (
+        {allTabs.length === 0 && (
           <div className="flex h-full items-center justify-center">
             <button
               type="button"
@@ -137,10 +157,13 @@ export function ToolsPanel({
 function TerminalInstance({
   terminalId,
   isVisible,
+  readOnly,
   resolvedTheme,
 }: {
   terminalId: string;
   isVisible: boolean;
+  /** Agent terminal — no input, the agent's PTY size is left alone, buffered output is replayed */
+  readOnly?: boolean;
   resolvedTheme: ResolvedTheme;
 }) {
   const containerRef = useRef<HTMLDivElement>(null);
@@ -164,7 +187,8 @@ function TerminalInstance({
 
       const fitAddon = new FitAddon();
       const term = new Terminal({
-        cursorBlink: true,
+        cursorBlink: !readOnly,
+        disableStdin: readOnly,
         cursorStyle: "bar",
         fontSize: 12,
         fontFamily: "'SF Mono', 'Fira Code', 'Cascadia Code', 'JetBrains Mono', Menlo, monospace",
@@ -193,13 +217,26 @@ function TerminalInstance({
       fitAddonRef.current = fitAddon;
 
       // Wire up input → PTY
-      term.onData((data) => {
-        window.claude.terminal.write(terminalId, data);
-      });
+      if (!readOnly) {
+        term.onData((data) => {
+          window.claude.terminal.write(terminalId, data);
+        });
+      }
+
+      // Agent terminals may have produced output before this tab opened — replay it,
+      // skipping streamed chunks the snapshot already covers
+      let snapshotSeq = 0;
+      if (readOnly) {
+        const snapshot = await window.claude.terminal.agentSnapshot(terminalId);
+        if (disposed) return;
+        snapshotSeq = snapshot.seq ?? 0;
+        if (snapshot.output) term.write(snapshot.output);
+        if (snapshot.exited) term.write("\r\n\x1b[2m[process exited]\x1b[0m\r\n");
+      }
 
       // Wire up PTY → xterm
-      unsubData = window.claude.terminal.onData(({ terminalId: id, data }) => {
-        if (id === terminalId && !disposed) {
+      unsubData = window.claude.terminal.onData(({ terminalId: id, data, seq }) => {
+        if (id === terminalId && !disposed && (seq === undefined || seq > snapshotSeq)) {
           term.write(data);
         }
       });
@@ -212,7 +249,7 @@ function TerminalInstance({
 
       // Report initial size to PTY
       const dims = fitAddon.proposeDimensions();
-      if (dims) {
+      if (dims && !readOnly) {
         window.claude.terminal.resize(terminalId, dims.cols, dims.rows);
       }
 
@@ -227,7 +264,7 @@ function TerminalInstance({
       xtermRef.current = null;
       fitAddonRef.current = null;
     };
-  }, [terminalId]);
+  }, [terminalId, readOnly]);
 
   // Update terminal theme when resolvedTheme changes (live terminals)
   useEffect(() => {
@@ -243,7 +280,7 @@ function TerminalInstance({
       try {
         fitAddonRef.current?.fit();
         const dims = fitAddonRef.current?.proposeDimensions();
-        if (dims) {
+        if (dims && !readOnly) {
           window.claude.terminal.resize(terminalId, dims.cols, dims.rows);
         }
       } catch {
@@ -264,7 +301,7 @@ function TerminalInstance({
     observer.observe(container);
 
     return () => observer.disconnect();
-  }, [ready, isVisible, terminalId]);
+  }, [ready, isVisible, terminalId, readOnly]);
 
   return (
     <div
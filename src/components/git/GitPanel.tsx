@@ -21,6 +21,7 @@ import { RepoSection } from "./RepoSection";
 import { InlineSelector } from "./InlineSelector";
 import { formatWorktreeLabel } from "./git-panel-utils";
 import type { EngineId } from "@/types";
+import type { CodexReviewTarget } from "@/types/codex";
 
 interface GitPanelProps {
   cwd?: string;
@@ -32,6 +33,8 @@ interface GitPanelProps {
   activeEngine?: EngineId;
   /** Active session ID — used for ACP utility prompts */
   activeSessionId?: string | null;
+  /** Start a Codex review of the session's repo — only offered for the repo at `cwd` */
+  onReview?: (target: CodexReviewTarget) => void;
 }
 
 export const GitPanel = memo(function GitPanel({
@@ -42,6 +45,7 @@ export const GitPanel = memo(function GitPanel({
   onSelectWorktreePath,
   activeEngine,
   activeSessionId,
+  onReview,
 }: GitPanelProps) {
   const git = useGitStatus({ projectPath: cwd });
 
@@ -264,6 +268,7 @@ export const GitPanel = memo(function GitPanel({
               onToggleCollapsed={onToggleRepoCollapsed ? () => onToggleRepoCollapsed(rs.repo.path) : undefined}
               activeEngine={activeEngine}
               activeSessionId={activeSessionId}
+              onReview={rs.repo.path === cwd ? onReview : undefined}
             />
           </div>
         ))}
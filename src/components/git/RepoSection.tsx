@@ -17,9 +17,11 @@ import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip
 import { BranchPicker } from "./BranchPicker";
 import { CommitInput } from "./CommitInput";
 import { ChangesSection } from "./ChangesSection";
+import { ReviewMenu } from "./ReviewMenu";
 import { formatRelativeDate, type GitActions } from "./git-panel-utils";
 import type { RepoState } from "@/hooks/useGitStatus";
 import type { GitFileChange, GitFileGroup, EngineId } from "@/types";
+import type { CodexReviewTarget } from "@/types/codex";
 
 export interface RepoSectionProps {
   repoState: RepoState;
@@ -28,9 +30,10 @@ export interface RepoSectionProps {
   onToggleCollapsed?: () => void;
   activeEngine?: EngineId;
   activeSessionId?: string | null;
+  onReview?: (target: CodexReviewTarget) => void;
 }
 
-export function RepoSection({ repoState, git, collapsed: collapsedProp, onToggleCollapsed, activeEngine, activeSessionId }: RepoSectionProps) {
+export function RepoSection({ repoState, git, collapsed: collapsedProp, onToggleCollapsed, activeEngine, activeSessionId, onReview }: RepoSectionProps) {
   const { repo, status, branches, log } = repoState;
   const cwd = repo.path;
 
@@ -191,6 +194,7 @@ export function RepoSection({ repoState, git, collapsed: collapsedProp, onToggle
           </TooltipTrigger>
           <TooltipContent side="bottom"><p className="text-xs">Push</p></TooltipContent>
         </Tooltip>
+        {onReview && <ReviewMenu cwd={cwd} onReview={onReview} />}
         {(status?.ahead ?? 0) > 0 && (
           <span className="ms-1 text-[10px] text-emerald-400/50">{status?.ahead} to push</span>
         )}
@@ -0,0 +1,95 @@
+import { useCallback, useState } from "react";
+import { FileDiff, GitBranch as GitBranchIcon, GitCommitHorizontal, ScanSearch } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import type { GitBranch, GitLogEntry } from "@/types";
+import type { CodexReviewTarget } from "@/types/codex";
+
+const RECENT_COMMITS = 15;
+
+interface ReviewMenuProps {
+  /** Repository the review targets — branches and commits are loaded from it on open */
+  cwd: string;
+  onReview: (target: CodexReviewTarget) => void;
+  className?: string;
+}
+
+/** "Review" button offering Codex review targets: uncommitted changes, a base branch, or a commit. */
+export function ReviewMenu({ cwd, onReview, className }: ReviewMenuProps) {
+  const [branches, setBranches] = useState<GitBranch[]>([]);
+  const [commits, setCommits] = useState<GitLogEntry[]>([]);
+
+  const loadRefs = useCallback(async (open: boolean) => {
+    if (!open) return;
+    const [branchResult, logResult] = await Promise.all([
+      window.claude.git.branches(cwd),
+      window.claude.git.log(cwd, RECENT_COMMITS),
+    ]);
+    setBranches(Array.isArray(branchResult) ? branchResult.filter((b) => !b.isCurrent) : []);
+    setCommits(Array.isArray(logResult) ? logResult : []);
+  }, [cwd]);
+
+  return (
+    <DropdownMenu onOpenChange={loadRefs}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className={className ?? "h-6 w-6 text-foreground/30 hover:text-foreground/60"}
+            >
+              <ScanSearch className="h-3 w-3" />
+            </Button>
+          </DropdownMenuTrigger>
+        </TooltipTrigger>
+        <TooltipContent side="bottom"><p className="text-xs">Review with Codex</p></TooltipContent>
+      </Tooltip>
+      <DropdownMenuContent align="start" className="w-52">
+        <DropdownMenuItem onClick={() => onReview({ type: "uncommittedChanges" })}>
+          <FileDiff className="me-2 h-3.5 w-3.5" />
+          Uncommitted changes
+        </DropdownMenuItem>
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger disabled={branches.length === 0}>
+            <GitBranchIcon className="me-2 h-3.5 w-3.5" />
+            Against branch
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent className="w-56 max-h-80 overflow-y-auto">
+            {branches.map((b) => (
+              <DropdownMenuItem key={b.name} onClick={() => onReview({ type: "baseBranch", branch: b.name })}>
+                <span className="truncate">{b.name}</span>
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger disabled={commits.length === 0}>
+            <GitCommitHorizontal className="me-2 h-3.5 w-3.5" />
+            Commit
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent className="w-72 max-h-80 overflow-y-auto">
+            {commits.map((c) => (
+              <DropdownMenuItem
+                key={c.hash}
+                onClick={() => onReview({ type: "commit", sha: c.hash, title: c.subject })}
+              >
+                <span className="me-2 shrink-0 font-mono text-[10px] text-muted-foreground">{c.shortHash}</span>
+                <span className="truncate">{c.subject}</span>
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
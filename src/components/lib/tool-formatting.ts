@@ -25,6 +25,15 @@ export function formatCompactSummary(message: UIMessage): string {
     return "";
   }
 
+  // Codex review — finding count once done, otherwise what's being reviewed
+  if (toolName === "CodexReview") {
+    const findings = message.toolResult?.structuredContent?.findings;
+    if (Array.isArray(findings)) {
+      return findings.length === 0 ? "no issues found" : `${findings.length} finding${findings.length !== 1 ? "s" : ""}`;
+    }
+    return String(input.review ?? "");
+  }
+
   // MCP tools (mcp__Server__tool) or ACP tools (Tool: Server/tool) — delegate to specialized summaries
   if (toolName.startsWith("mcp__") || toolName.startsWith("Tool: ")) {
     const mcpSummary = getMcpCompactSummary(toolName, input);
@@ -1,5 +1,6 @@
 import { memo, useState, useCallback, useEffect } from "react";
 import { Server } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { SettingRow } from "@/components/settings/shared";
 import type { AppSettings } from "@/types/ui";
@@ -16,13 +17,23 @@ export const AdvancedSettings = memo(function AdvancedSettings({
   onUpdateAppSettings,
 }: AdvancedSettingsProps) {
   const [codexClientName, setCodexClientName] = useState("Harnss");
+  const [fileSnapshots, setFileSnapshots] = useState(true);
 
   useEffect(() => {
     if (appSettings) {
       setCodexClientName(appSettings.codexClientName || "Harnss");
+      setFileSnapshots(appSettings.codexFileSnapshots ?? true);
     }
   }, [appSettings]);
 
+  const handleToggleFileSnapshots = useCallback(
+    async (checked: boolean) => {
+      setFileSnapshots(checked); // optimistic
+      await onUpdateAppSettings({ codexFileSnapshots: checked });
+    },
+    [onUpdateAppSettings],
+  );
+
   const handleClientNameChange = useCallback(
     async (value: string) => {
       // Strip whitespace and limit length
@@ -72,6 +83,13 @@ export const AdvancedSettings = memo(function AdvancedSettings({
                 placeholder="Harnss"
               />
             </SettingRow>
+
+            <SettingRow
+              label="File snapshots"
+              description="Before each turn, save the git working tree so the turn's file changes can be reverted. Snapshots include untracked files that aren't gitignored (such as an un-ignored .env) and are stored in the repository's own object store under refs/harnss/snapshots. The newest 20 per chat are kept until the chat is deleted. Turning this off disables reverting Codex turns."
+            >
+              <Switch checked={fileSnapshots} onCheckedChange={handleToggleFileSnapshots} />
+            </SettingRow>
           </div>
         </div>
       </ScrollArea>
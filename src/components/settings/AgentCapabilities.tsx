@@ -0,0 +1,183 @@
+import { memo, useState, useCallback } from "react";
+import { Check, X, Loader2, Activity, AlertTriangle } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import type { ACPAgentCapabilities, ACPHealthCheckResult, InstalledAgent } from "@/types";
+
+interface AgentCapabilitiesProps {
+  agent: InstalledAgent;
+  onHealthCheck: (id: string) => Promise<{ result?: ACPHealthCheckResult; error?: string }>;
+}
+
+const STEP_LABELS: Record<ACPHealthCheckResult["steps"][number]["name"], string> = {
+  handshake: "Spawn + initialize",
+  session: "New session",
+  prompt: "Test prompt",
+};
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+// ── Capability matrix ──
+
+function Flag({ label, supported }: { label: string; supported: boolean }) {
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-[11px] ${
+        supported ? "bg-emerald-500/10 text-emerald-600 dark:text-emerald-400" : "bg-foreground/[0.04] text-muted-foreground/60"
+      }`}
+    >
+      {supported ? <Check className="h-2.5 w-2.5" /> : <X className="h-2.5 w-2.5" />}
+      {label}
+    </span>
+  );
+}
+
+function MatrixRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex items-start gap-3">
+      <span className="w-28 shrink-0 pt-0.5 text-[11px] text-muted-foreground">{label}</span>
+      <div className="flex min-w-0 flex-1 flex-wrap gap-1">{children}</div>
+    </div>
+  );
+}
+
+function CapabilityMatrix({ capabilities, signedInWith }: { capabilities: ACPAgentCapabilities; signedInWith?: string }) {
+  const info = capabilities.agentInfo;
+  return (
+    <div className="space-y-1.5">
+      <MatrixRow label="Protocol">
+        <span className="font-mono text-[11px] text-foreground/80">v{capabilities.protocolVersion}</span>
+        {info && (
+          <span className="font-mono text-[11px] text-muted-foreground">
+            · {info.title ?? info.name} {info.version}
+          </span>
+        )}
+      </MatrixRow>
+      <MatrixRow label="Sessions">
+        <Flag label="load" supported={capabilities.loadSession} />
+        <Flag label="list" supported={capabilities.session.list} />
+        <Flag label="fork" supported={capabilities.session.fork} />
+        <Flag label="resume" supported={capabilities.session.resume} />
+      </MatrixRow>
+      <MatrixRow label="Prompt content">
+        <Flag label="image" supported={capabilities.prompt.image} />
+        <Flag label="audio" supported={capabilities.prompt.audio} />
+        <Flag label="embedded context" supported={capabilities.prompt.embeddedContext} />
+      </MatrixRow>
+      <MatrixRow label="MCP transports">
+        {/* stdio is mandatory in ACP, so agents don't advertise it */}
+        <Flag label="stdio" supported />
+        <Flag label="http" supported={capabilities.mcp.http} />
+        <Flag label="sse" supported={capabilities.mcp.sse} />
+      </MatrixRow>
+      <MatrixRow label="Auth methods">
+        {capabilities.authMethods.length === 0 ? (
+          <span className="text-[11px] text-muted-foreground/60">None</span>
+        ) : (
+          capabilities.authMethods.map((method) => (
+            <span
+              key={method.id}
+              title={method.description}
+              className="inline-flex items-center gap-1 rounded bg-foreground/[0.04] px-1.5 py-0.5 text-[11px] text-foreground/80"
+            >
+              {method.id === signedInWith && <Check className="h-2.5 w-2.5 text-emerald-500" />}
+              {method.name}
+            </span>
+          ))
+        )}
+      </MatrixRow>
+      <p className="pt-1 text-[10px] text-muted-foreground/50">
+        Reported {new Date(capabilities.reportedAt).toLocaleString()}
+      </p>
+    </div>
+  );
+}
+
+// ── Health check result ──
+
+function HealthCheckReport({ result }: { result: ACPHealthCheckResult }) {
+  return (
+    <div className="space-y-1.5 rounded-md border border-foreground/[0.06] bg-foreground/[0.02] px-3 py-2">
+      {result.steps.map((step) => (
+        <div key={step.name} className="flex items-start gap-2 text-[11px]">
+          {step.ok ? (
+            <Check className="mt-0.5 h-3 w-3 shrink-0 text-emerald-500" />
+          ) : (
+            <X className="mt-0.5 h-3 w-3 shrink-0 text-destructive" />
+          )}
+          <span className="w-28 shrink-0 text-foreground/80">{STEP_LABELS[step.name]}</span>
+          <span className="w-12 shrink-0 font-mono text-muted-foreground">{formatDuration(step.durationMs)}</span>
+          {step.detail && (
+            <span className={`min-w-0 break-words ${step.ok ? "text-muted-foreground" : "text-destructive"}`}>
+              {step.detail}
+            </span>
+          )}
+        </div>
+      ))}
+      {result.reply && (
+        <p className="text-[11px] text-muted-foreground">
+          Reply: <span className="text-foreground/80">{result.reply}</span>
+        </p>
+      )}
+      {result.stderr && (
+        <div className="flex items-start gap-1.5 rounded bg-destructive/5 px-2 py-1.5">
+          <AlertTriangle className="mt-0.5 h-3 w-3 shrink-0 text-destructive/70" />
+          <pre className="min-w-0 whitespace-pre-wrap break-words font-mono text-[10px] text-destructive/80">
+            {result.stderr}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ── Component ──
+
+/** Capability matrix from the agent's last `initialize`, plus an on-demand health check. */
+export const AgentCapabilities = memo(function AgentCapabilities({ agent, onHealthCheck }: AgentCapabilitiesProps) {
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<ACPHealthCheckResult | null>(null);
+
+  const handleRun = useCallback(async () => {
+    setRunning(true);
+    setResult(null);
+    try {
+      const response = await onHealthCheck(agent.id);
+      if (response.error || !response.result) {
+        toast.error("Health check failed", { description: response.error ?? "No result" });
+        return;
+      }
+      setResult(response.result);
+    } finally {
+      setRunning(false);
+    }
+  }, [agent.id, onHealthCheck]);
+
+  return (
+    <div className="space-y-3 border-t border-foreground/[0.04] pt-3">
+      {agent.capabilities ? (
+        <CapabilityMatrix capabilities={agent.capabilities} signedInWith={agent.auth?.methodId} />
+      ) : (
+        <p className="text-[11px] text-muted-foreground/60">
+          No capabilities reported yet — start a session or run a health check.
+        </p>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={handleRun} disabled={running}>
+          {running ? <Loader2 className="h-3 w-3 animate-spin" /> : <Activity className="h-3 w-3" />}
+          {running ? "Checking..." : "Run Health Check"}
+        </Button>
+        {result && (
+          <span className={`text-[11px] ${result.ok ? "text-emerald-600 dark:text-emerald-400" : "text-destructive"}`}>
+            {result.ok ? "Healthy" : "Failed"}
+          </span>
+        )}
+      </div>
+
+      {result && <HealthCheckReport result={result} />}
+    </div>
+  );
+});
@@ -10,9 +10,12 @@ import {
   Shield,
   ClipboardPaste,
   Store,
+  Globe,
+  Activity,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
@@ -32,7 +35,9 @@ import {
 import { IconPicker } from "@/components/IconPicker";
 import { AgentIcon } from "@/components/AgentIcon";
 import { AgentStore } from "@/components/settings/AgentStore";
-import type { InstalledAgent } from "@/types";
+import { RegistrySources } from "@/components/settings/RegistrySources";
+import { AgentCapabilities } from "@/components/settings/AgentCapabilities";
+import type { ACPHealthCheckResult, InstalledAgent, RegistryAgent } from "@/types";
 
 // ── Types ──
 
@@ -40,6 +45,9 @@ interface AgentSettingsProps {
   agents: InstalledAgent[];
   onSave: (agent: InstalledAgent) => Promise<{ ok?: boolean; error?: string }>;
   onDelete: (id: string) => Promise<{ ok?: boolean; error?: string }>;
+  onInstallBinary: (agent: RegistryAgent) => Promise<{ ok?: boolean; error?: string }>;
+  onRollback: (id: string) => Promise<{ ok?: boolean; agent?: InstalledAgent; error?: string }>;
+  onHealthCheck: (id: string) => Promise<{ result?: ACPHealthCheckResult; error?: string }>;
 }
 
 interface FormState {
@@ -50,6 +58,7 @@ interface FormState {
   envPairs: Array<{ key: string; value: string }>;
   icon: string;
   iconType: "emoji" | "lucide";
+  reviewWrites: boolean;
 }
 
 interface FormErrors {
@@ -62,7 +71,7 @@ interface FormErrors {
 // ── Helpers ──
 
 function emptyForm(): FormState {
-  return { id: "", name: "", binary: "", args: "", envPairs: [], icon: "", iconType: "lucide" };
+  return { id: "", name: "", binary: "", args: "", envPairs: [], icon: "", iconType: "lucide", reviewWrites: false };
 }
 
 /** Try to parse a JSON agent definition (single object or first element of array). */
@@ -81,6 +90,7 @@ function tryParseAgentJson(text: string): FormState | null {
         : [],
       icon: String(obj.icon ?? ""),
       iconType: "lucide",
+      reviewWrites: obj.reviewWrites === true,
     };
   } catch {
     return null;
@@ -100,6 +110,7 @@ function agentToForm(agent: InstalledAgent): FormState {
       : [],
     icon: agent.icon ?? "",
     iconType: isEmoji ? "emoji" : "lucide",
+    reviewWrites: agent.reviewWrites === true,
   };
 }
 
@@ -109,74 +120,101 @@ const AgentCard = memo(function AgentCard({
   agent,
   onEdit,
   onDelete,
+  onHealthCheck,
 }: {
   agent: InstalledAgent;
   onEdit: () => void;
   onDelete: () => void;
+  onHealthCheck: AgentSettingsProps["onHealthCheck"];
 }) {
   const isBuiltIn = agent.builtIn === true;
+  const isAcp = agent.engine === "acp" && !isBuiltIn;
+  const [showCapabilities, setShowCapabilities] = useState(false);
 
   return (
     <div
-      className={`group flex items-start gap-3 rounded-lg border px-4 py-3 transition-colors ${
+      className={`group rounded-lg border px-4 py-3 transition-colors ${
         isBuiltIn
           ? "border-foreground/[0.04] bg-foreground/[0.02]"
           : "border-foreground/[0.06] hover:border-foreground/[0.1]"
       }`}
     >
-      {/* Icon */}
-      <div className="flex h-9 w-9 shrink-0 items-center justify-center rounded-md bg-muted/40 text-foreground/60">
-        <AgentIcon icon={agent.icon} />
-      </div>
+      <div className="flex items-start gap-3">
+        {/* Icon */}
+        <div className="flex h-9 w-9 shrink-0 items-center justify-center rounded-md bg-muted/40 text-foreground/60">
+          <AgentIcon icon={agent.icon} />
+        </div>
 
-      {/* Info */}
-      <div className="flex min-w-0 flex-1 flex-col gap-1">
-        <div className="flex items-center gap-2">
-          <span className="truncate text-sm font-medium text-foreground">
-            {agent.name}
-          </span>
-          {isBuiltIn && (
-            <Badge variant="secondary" className="gap-1 text-[10px]">
-              <Shield className="h-2.5 w-2.5" />
-              Built-in
-            </Badge>
+        {/* Info */}
+        <div className="flex min-w-0 flex-1 flex-col gap-1">
+          <div className="flex items-center gap-2">
+            <span className="truncate text-sm font-medium text-foreground">
+              {agent.name}
+            </span>
+            {isBuiltIn && (
+              <Badge variant="secondary" className="gap-1 text-[10px]">
+                <Shield className="h-2.5 w-2.5" />
+                Built-in
+              </Badge>
+            )}
+          </div>
+          <span className="font-mono text-xs text-muted-foreground">{agent.id}</span>
+          {agent.binary && (
+            <div className="mt-0.5 flex items-center gap-1 truncate">
+              <Terminal className="h-3 w-3 shrink-0 text-muted-foreground/50" />
+              <span className="truncate font-mono text-[11px] text-muted-foreground/70">
+                {agent.binary} {agent.args?.join(" ")}
+              </span>
+            </div>
           )}
         </div>
-        <span className="font-mono text-xs text-muted-foreground">{agent.id}</span>
-        {agent.binary && (
-          <div className="mt-0.5 flex items-center gap-1 truncate">
-            <Terminal className="h-3 w-3 shrink-0 text-muted-foreground/50" />
-            <span className="truncate font-mono text-[11px] text-muted-foreground/70">
-              {agent.binary} {agent.args?.join(" ")}
-            </span>
+
+        {/* Actions — hidden for built-in agents */}
+        {!isBuiltIn && (
+          <div className="flex shrink-0 items-center gap-1 opacity-0 transition-opacity group-hover:opacity-100">
+            {isAcp && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon-xs"
+                    className={showCapabilities ? "text-foreground" : ""}
+                    onClick={() => setShowCapabilities((v) => !v)}
+                  >
+                    <Activity className="h-3 w-3" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent side="top" className="text-xs">Capabilities & Health</TooltipContent>
+              </Tooltip>
+            )}
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button variant="ghost" size="icon-xs" onClick={onEdit}>
+                  <Pencil className="h-3 w-3" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent side="top" className="text-xs">Edit</TooltipContent>
+            </Tooltip>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon-xs"
+                  className="text-destructive hover:text-destructive"
+                  onClick={onDelete}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent side="top" className="text-xs">Delete</TooltipContent>
+            </Tooltip>
           </div>
         )}
       </div>
 
-      {/* Actions — hidden for built-in agents */}
-      {!isBuiltIn && (
-        <div className="flex shrink-0 items-center gap-1 opacity-0 transition-opacity group-hover:opacity-100">
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <Button variant="ghost" size="icon-xs" onClick={onEdit}>
-                <Pencil className="h-3 w-3" />
-              </Button>
-            </TooltipTrigger>
-            <TooltipContent side="top" className="text-xs">Edit</TooltipContent>
-          </Tooltip>
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <Button
-                variant="ghost"
-                size="icon-xs"
-                className="text-destructive hover:text-destructive"
-                onClick={onDelete}
-              >
-                <Trash2 className="h-3 w-3" />
-              </Button>
-            </TooltipTrigger>
-            <TooltipContent side="top" className="text-xs">Delete</TooltipContent>
-          </Tooltip>
+      {isAcp && showCapabilities && (
+        <div className="mt-3 pl-12">
+          <AgentCapabilities agent={agent} onHealthCheck={onHealthCheck} />
         </div>
       )}
     </div>
@@ -187,12 +225,15 @@ const AgentCard = memo(function AgentCard({
 
 function AgentForm({
   initial,
+  base,
   isEditing,
   existingIds,
   onSave,
   onCancel,
 }: {
   initial: FormState;
+  /** Agent being edited — fields the form doesn't show (registry and install tracking, caches) carry over */
+  base?: InstalledAgent;
   isEditing: boolean;
   existingIds: Set<string>;
   onSave: (agent: InstalledAgent) => Promise<{ ok?: boolean; error?: string }>;
@@ -236,6 +277,7 @@ function AgentForm({
     setSaving(true);
     try {
       const agent: InstalledAgent = {
+        ...base,
         id: form.id.trim(),
         name: form.name.trim(),
         engine: "acp",
@@ -250,6 +292,7 @@ function AgentForm({
               )
             : undefined,
         icon: form.icon.trim() || undefined,
+        reviewWrites: form.reviewWrites || undefined,
       };
 
       const result = await onSave(agent);
@@ -261,7 +304,7 @@ function AgentForm({
     } finally {
       setSaving(false);
     }
-  }, [form, validate, onSave, onCancel]);
+  }, [form, base, validate, onSave, onCancel]);
 
   const addEnvPair = useCallback(() => {
     setForm((prev) => ({
@@ -459,6 +502,22 @@ function AgentForm({
               }}
             />
           </div>
+
+          {/* File write review */}
+          <div className="flex items-start justify-between gap-6">
+            <div className="space-y-0.5">
+              <label className="text-[11px] font-medium uppercase tracking-wide text-muted-foreground">
+                Review Writes
+              </label>
+              <p className="text-[11px] text-muted-foreground/60">
+                Show a diff and ask before the agent writes a file
+              </p>
+            </div>
+            <Switch
+              checked={form.reviewWrites}
+              onCheckedChange={(checked) => updateField("reviewWrites", checked)}
+            />
+          </div>
         </div>
       </ScrollArea>
 
@@ -481,6 +540,9 @@ export const AgentSettings = memo(function AgentSettings({
   agents,
   onSave,
   onDelete,
+  onInstallBinary,
+  onRollback,
+  onHealthCheck,
 }: AgentSettingsProps) {
   const [editingAgent, setEditingAgent] = useState<InstalledAgent | null>(null);
   const [isCreating, setIsCreating] = useState(false);
@@ -512,6 +574,7 @@ export const AgentSettings = memo(function AgentSettings({
     return (
       <AgentForm
         initial={agentToForm(editingAgent)}
+        base={editingAgent}
         isEditing={true}
         existingIds={existingIds}
         onSave={onSave}
@@ -535,7 +598,7 @@ export const AgentSettings = memo(function AgentSettings({
           <div className="py-4">
             <h2 className="text-base font-semibold text-foreground">ACP Agents</h2>
             <p className="mt-0.5 text-xs text-muted-foreground">
-              Browse the agent store or manage your installed agents
+              Browse the agent store, manage your installed agents, or add registries
             </p>
           </div>
           <TabsList variant="line">
@@ -547,6 +610,10 @@ export const AgentSettings = memo(function AgentSettings({
               <Bot className="h-3.5 w-3.5" />
               My Agents
             </TabsTrigger>
+            <TabsTrigger value="sources" className="gap-1.5">
+              <Globe className="h-3.5 w-3.5" />
+              Sources
+            </TabsTrigger>
           </TabsList>
         </div>
 
@@ -556,6 +623,8 @@ export const AgentSettings = memo(function AgentSettings({
             installedAgents={agents}
             onInstall={onSave}
             onUninstall={onDelete}
+            onInstallBinary={onInstallBinary}
+            onRollback={onRollback}
           />
         </TabsContent>
 
@@ -579,6 +648,7 @@ export const AgentSettings = memo(function AgentSettings({
                     agent={agent}
                     onEdit={() => setEditingAgent(agent)}
                     onDelete={() => setDeleteConfirmId(agent.id)}
+                    onHealthCheck={onHealthCheck}
                   />
                 ))}
                 {agents.length === 0 && (
@@ -594,6 +664,11 @@ export const AgentSettings = memo(function AgentSettings({
             </ScrollArea>
           </div>
         </TabsContent>
+
+        {/* Registry sources tab */}
+        <TabsContent value="sources" className="min-h-0 flex-1">
+          <RegistrySources />
+        </TabsContent>
       </Tabs>
 
       {/* Delete confirmation dialog */}
@@ -6,9 +6,12 @@ import {
   ArrowUpRight,
   Download,
   AlertCircle,
+  AlertTriangle,
   Loader2,
   Trash2,
+  Undo2,
 } from "lucide-react";
+import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
@@ -24,9 +27,11 @@ import type { BinaryCheckResult } from "@/hooks/useAgentStore";
 import {
   registryAgentToDefinition,
   hasUpdate,
+  hasPublishedChecksum,
   isInstallable,
+  usesManagedInstall,
 } from "@/lib/agent-store-utils";
-import type { InstalledAgent, RegistryAgent } from "@/types";
+import type { InstalledAgent, RegistryAgent, RegistrySourceResult } from "@/types";
 
 // ── Types ──
 
@@ -34,6 +39,9 @@ interface AgentStoreProps {
   installedAgents: InstalledAgent[];
   onInstall: (agent: InstalledAgent) => Promise<{ ok?: boolean; error?: string }>;
   onUninstall: (id: string) => Promise<{ ok?: boolean; error?: string }>;
+  /** Download a binary-distribution agent into the managed agents dir (install and update) */
+  onInstallBinary: (agent: RegistryAgent) => Promise<{ ok?: boolean; error?: string }>;
+  onRollback: (id: string) => Promise<{ ok?: boolean; agent?: InstalledAgent; error?: string }>;
 }
 
 type CardStatus = "available" | "installed" | "update" | "manual";
@@ -45,16 +53,17 @@ function getCardStatus(
   registryAgent: RegistryAgent,
   installedMap: Map<string, InstalledAgent>,
   binaryPaths: Record<string, BinaryCheckResult>,
+  platformKey: string | null,
 ): CardStatus {
-  // Check installed first — covers both npx and manually-configured binary agents
+  // Check installed first — covers npx, managed and manually-configured binary agents
   const installed = installedMap.get(registryAgent.id);
   if (installed) {
-    if (isInstallable(registryAgent, binaryPaths) && hasUpdate(installed, registryAgent))
+    if (isInstallable(registryAgent, binaryPaths, platformKey) && hasUpdate(installed, registryAgent))
       return "update";
     return "installed";
   }
-  // Not installed — check if we can auto-install (npx or detected binary)
-  if (!isInstallable(registryAgent, binaryPaths)) return "manual";
+  // Not installed — check if we can auto-install (npx, detected binary or downloadable archive)
+  if (!isInstallable(registryAgent, binaryPaths, platformKey)) return "manual";
   return "available";
 }
 
@@ -65,6 +74,68 @@ function formatAuthors(authors: string[]): string {
     .join(", ");
 }
 
+function formatFetchedAt(fetchedAt?: number): string {
+  return fetchedAt ? new Date(fetchedAt).toLocaleString() : "an earlier session";
+}
+
+// ── Source problems (load failures, offline cache, schema errors) ──
+
+function SourceNotices({ sources, onRetry }: { sources: RegistrySourceResult[]; onRetry: () => void }) {
+  const problems = sources.filter((s) => s.error || s.validationErrors.length > 0);
+  if (problems.length === 0) return null;
+
+  return (
+    <div className="mx-5 mb-3 space-y-1.5">
+      {problems.map((source) => {
+        const failed = source.error && !source.stale;
+        return (
+          <div
+            key={source.sourceId}
+            className={`rounded-md border px-3 py-2 text-xs ${
+              failed
+                ? "border-destructive/30 bg-destructive/10 text-destructive"
+                : "border-amber-500/30 bg-amber-500/[0.06] text-foreground"
+            }`}
+          >
+            {source.error && (
+              <div className="flex items-center gap-2">
+                {failed
+                  ? <AlertCircle className="h-3.5 w-3.5 shrink-0" />
+                  : <AlertTriangle className="h-3.5 w-3.5 shrink-0 text-amber-500" />}
+                <span className="min-w-0 flex-1">
+                  {failed
+                    ? `Failed to load ${source.label}: ${source.error}`
+                    : `${source.label} is unreachable (${source.error}) — showing the list cached ${formatFetchedAt(source.fetchedAt)}`}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className={`h-6 px-2 text-xs ${failed ? "text-destructive hover:text-destructive" : ""}`}
+                  onClick={onRetry}
+                >
+                  Retry
+                </Button>
+              </div>
+            )}
+            {source.validationErrors.length > 0 && (
+              <details className={source.error ? "mt-1.5" : ""}>
+                <summary className="flex cursor-pointer items-center gap-2">
+                  <AlertTriangle className="h-3.5 w-3.5 shrink-0 text-amber-500" />
+                  {source.label}: skipped {source.validationErrors.length} invalid{" "}
+                  {source.validationErrors.length === 1 ? "entry" : "entries"}
+                </summary>
+                <ul className="mt-1.5 space-y-0.5 ps-5 font-mono text-[10px] text-muted-foreground">
+                  {source.validationErrors.map((e) => <li key={e}>{e}</li>)}
+                </ul>
+              </details>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 // ── Skeleton loader for initial fetch ──
 
 function StoreSkeleton() {
@@ -96,17 +167,32 @@ function StoreSkeleton() {
 
 const StoreAgentCard = memo(function StoreAgentCard({
   agent,
+  sourceLabel,
+  installed,
   status,
+  downloads,
+  unverified,
   isInstalling,
   onInstall,
   onUninstall,
+  onRollback,
 }: {
   agent: RegistryAgent;
+  /** Registry the agent was listed in — shown when the store merges several */
+  sourceLabel?: string;
+  installed?: InstalledAgent;
   status: CardStatus;
+  /** Install downloads the binary archive instead of adding a definition */
+  downloads: boolean;
+  /** The download has no published checksum to verify against */
+  unverified: boolean;
   isInstalling: boolean;
   onInstall: () => void;
   onUninstall: () => void;
+  onRollback: () => void;
 }) {
+  const rollbackVersion = installed?.previousInstall?.version;
+
   return (
     <div className="group relative flex flex-col rounded-lg border border-foreground/[0.06] bg-background p-4 transition-colors hover:border-foreground/[0.1]">
       {/* Header: icon + name + version */}
@@ -121,7 +207,11 @@ const StoreAgentCard = memo(function StoreAgentCard({
             </span>
           </div>
           <div className="mt-0.5 flex items-center gap-1.5 text-[11px] text-muted-foreground">
-            <span className="font-mono">v{agent.version}</span>
+            <span className="font-mono">
+              {installed?.installedVersion && installed.installedVersion !== agent.version
+                ? `v${installed.installedVersion} → v${agent.version}`
+                : `v${agent.version}`}
+            </span>
             <span className="text-foreground/20">·</span>
             <span className="truncate">{formatAuthors(agent.authors)}</span>
           </div>
@@ -139,6 +229,24 @@ const StoreAgentCard = memo(function StoreAgentCard({
           <Badge variant="outline" className="text-[10px] font-normal text-muted-foreground/70">
             {agent.license}
           </Badge>
+          {sourceLabel && (
+            <Badge variant="secondary" className="text-[10px] font-normal">
+              {sourceLabel}
+            </Badge>
+          )}
+          {unverified && (status === "available" || status === "update") && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Badge variant="outline" className="gap-1 border-amber-500/30 text-[10px] font-normal text-amber-600 dark:text-amber-400">
+                  <AlertTriangle className="h-2.5 w-2.5" />
+                  Unverified
+                </Badge>
+              </TooltipTrigger>
+              <TooltipContent side="top" className="max-w-56 text-xs">
+                The registry publishes no checksum for this download, so its contents can't be verified
+              </TooltipContent>
+            </Tooltip>
+          )}
           {agent.repository && (
             <Tooltip>
               <TooltipTrigger asChild>
@@ -172,10 +280,29 @@ const StoreAgentCard = memo(function StoreAgentCard({
             ) : (
               <Download className="h-3 w-3" />
             )}
-            {isInstalling ? "Adding..." : "Add"}
+            {downloads
+              ? (isInstalling ? "Installing..." : "Install")
+              : (isInstalling ? "Adding..." : "Add")}
           </Button>
         )}
 
+        {(status === "installed" || status === "update") && rollbackVersion && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon-xs"
+                className="ms-auto me-1 text-muted-foreground/60 opacity-0 transition-opacity hover:text-foreground group-hover:opacity-100"
+                onClick={onRollback}
+                disabled={isInstalling}
+              >
+                <Undo2 className="h-3 w-3" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent side="top" className="text-xs">Roll back to v{rollbackVersion}</TooltipContent>
+          </Tooltip>
+        )}
+
         {status === "installed" && (
           <div className="flex items-center gap-1">
             <Tooltip>
@@ -238,8 +365,12 @@ export const AgentStore = memo(function AgentStore({
   installedAgents,
   onInstall,
   onUninstall,
+  onInstallBinary,
+  onRollback,
 }: AgentStoreProps) {
-  const { registryAgents, isLoading, error, binaryPaths, refresh } = useAgentStore();
+  const { registryAgents, sources, isLoading, error, binaryPaths, platformKey, refresh } = useAgentStore();
+  // Source labels only help once more than one registry contributes agents
+  const showSources = sources.filter((s) => s.agents.length > 0).length > 1;
   const [search, setSearch] = useState("");
   const [installing, setInstalling] = useState<Set<string>>(new Set());
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -263,19 +394,26 @@ export const AgentStore = memo(function AgentStore({
       (a) =>
         a.name.toLowerCase().includes(q) ||
         a.description.toLowerCase().includes(q) ||
+        a.sourceLabel.toLowerCase().includes(q) ||
         a.authors.some((auth) => auth.toLowerCase().includes(q)),
     );
   }, [registryAgents, search]);
 
   const handleInstall = useCallback(
     async (registryAgent: RegistryAgent) => {
+      const managed = usesManagedInstall(registryAgent, installedMap.get(registryAgent.id), binaryPaths, platformKey);
       // Pass resolved binary info so binary-only agents get the system path
       const binaryInfo = binaryPaths[registryAgent.id] ?? undefined;
-      const def = registryAgentToDefinition(registryAgent, binaryInfo);
-      if (!def) return;
+      const def = managed ? null : registryAgentToDefinition(registryAgent, binaryInfo);
+      if (!managed && !def) return;
       setInstalling((prev) => new Set(prev).add(registryAgent.id));
       try {
-        await onInstall(def);
+        if (def) {
+          await onInstall(def);
+        } else {
+          const result = await onInstallBinary(registryAgent);
+          if (result.error) toast.error(`Failed to install ${registryAgent.name}`, { description: result.error });
+        }
       } finally {
         setInstalling((prev) => {
           const next = new Set(prev);
@@ -284,7 +422,19 @@ export const AgentStore = memo(function AgentStore({
         });
       }
     },
-    [onInstall, binaryPaths],
+    [onInstall, onInstallBinary, installedMap, binaryPaths, platformKey],
+  );
+
+  const handleRollback = useCallback(
+    async (registryAgent: RegistryAgent) => {
+      const result = await onRollback(registryAgent.id);
+      if (result.error) {
+        toast.error(`Failed to roll back ${registryAgent.name}`, { description: result.error });
+        return;
+      }
+      toast.success(`${registryAgent.name} rolled back to v${result.agent?.installedVersion}`);
+    },
+    [onRollback],
   );
 
   const handleUninstall = useCallback(
@@ -336,7 +486,7 @@ export const AgentStore = memo(function AgentStore({
       {error && (
         <div className="mx-5 mb-3 flex items-center gap-2 rounded-md border border-destructive/30 bg-destructive/10 px-3 py-2 text-xs text-destructive">
           <AlertCircle className="h-3.5 w-3.5 shrink-0" />
-          <span className="flex-1">Failed to load registry: {error}</span>
+          <span className="flex-1">Failed to load registries: {error}</span>
           <Button
             variant="ghost"
             size="sm"
@@ -348,6 +498,8 @@ export const AgentStore = memo(function AgentStore({
         </div>
       )}
 
+      {!isLoading && <SourceNotices sources={sources} onRetry={handleRefresh} />}
+
       {/* Content */}
       {isLoading ? (
         <StoreSkeleton />
@@ -355,15 +507,22 @@ export const AgentStore = memo(function AgentStore({
         <ScrollArea className="min-h-0 flex-1">
           <div className="grid grid-cols-2 gap-3 px-5 pb-5">
             {filtered.map((agent) => {
-              const status = getCardStatus(agent, installedMap, binaryPaths);
+              const installed = installedMap.get(agent.id);
+              const status = getCardStatus(agent, installedMap, binaryPaths, platformKey);
+              const downloads = usesManagedInstall(agent, installed, binaryPaths, platformKey);
               return (
                 <StoreAgentCard
                   key={agent.id}
                   agent={agent}
+                  sourceLabel={showSources ? agent.sourceLabel : undefined}
+                  installed={installed}
                   status={status}
+                  downloads={downloads}
+                  unverified={downloads && !hasPublishedChecksum(agent, platformKey)}
                   isInstalling={installing.has(agent.id)}
                   onInstall={() => handleInstall(agent)}
                   onUninstall={() => handleUninstall(agent.id)}
+                  onRollback={() => handleRollback(agent)}
                 />
               );
             })}
@@ -0,0 +1,452 @@
+import { memo, useState, useCallback, useEffect, useMemo } from "react";
+import { AlertTriangle, Cpu, FileText, Globe, Layers, Loader2, RefreshCw, Shield } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { SettingRow, selectClass } from "@/components/settings/shared";
+import {
+  findOrigin,
+  findTargetLayer,
+  formatLayerSource,
+  getLayerPath,
+  getProjectConfigPath,
+  isSameLayer,
+  type CodexConfigTarget,
+} from "@/lib/codex-config";
+import type { CodexConfigEdit, CodexConfigReadResponse, CodexConfigWarning } from "@/types/codex";
+import type { JsonValue } from "@/types/codex-protocol/serde_json/JsonValue";
+
+interface CodexSettingsProps {
+  /** Active project — resolves its `.codex/config.toml` layer and enables project writes */
+  projectPath?: string;
+}
+
+type ConfigState = CodexConfigReadResponse & { warnings: CodexConfigWarning[] };
+
+const inputClass =
+  "h-8 w-48 rounded-md border border-foreground/10 bg-background px-2.5 text-sm text-foreground outline-none transition-colors placeholder:text-muted-foreground hover:border-foreground/20 focus:border-foreground/30 focus:ring-1 focus:ring-foreground/20";
+
+const REASONING_EFFORTS = ["none", "minimal", "low", "medium", "high", "xhigh"];
+const REASONING_SUMMARIES = ["auto", "concise", "detailed", "none"];
+const VERBOSITIES = ["low", "medium", "high"];
+const APPROVAL_POLICIES = [
+  { value: "untrusted", label: "Untrusted only" },
+  { value: "on-request", label: "On request" },
+  { value: "on-failure", label: "On failure" },
+  { value: "never", label: "Never" },
+];
+const SANDBOX_MODES = [
+  { value: "read-only", label: "Read only" },
+  { value: "workspace-write", label: "Workspace write" },
+  { value: "danger-full-access", label: "Full access" },
+];
+const WEB_SEARCH_MODES = [
+  { value: "disabled", label: "Disabled" },
+  { value: "cached", label: "Cached" },
+  { value: "live", label: "Live" },
+];
+
+function getValue(config: Record<string, unknown>, keyPath: string): unknown {
+  let value: unknown = config;
+  for (const part of keyPath.split(".")) {
+    if (!value || typeof value !== "object") return null;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value ?? null;
+}
+
+/** Text field that commits on blur/Enter — empty clears the key from the target layer. */
+function ConfigTextInput({
+  value,
+  placeholder,
+  listId,
+  onCommit,
+}: {
+  value: string;
+  placeholder?: string;
+  listId?: string;
+  onCommit: (value: string) => void;
+}) {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+
+  const commit = (next: string) => {
+    if (next.trim() !== value) onCommit(next.trim());
+  };
+
+  return (
+    <input
+      type="text"
+      value={draft}
+      list={listId}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={(e) => commit(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commit(e.currentTarget.value);
+      }}
+      spellCheck={false}
+      className={inputClass}
+      placeholder={placeholder ?? "Default"}
+    />
+  );
+}
+
+function ConfigSelect({
+  value,
+  options,
+  onChange,
+}: {
+  value: string;
+  options: Array<{ value: string; label: string }>;
+  onChange: (value: string) => void;
+}) {
+  const known = value === "" || options.some((o) => o.value === value);
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={selectClass}>
+      <option value="">Default</option>
+      {!known && <option value={value}>{value}</option>}
+      {options.map((o) => (
+        <option key={o.value} value={o.value}>
+          {o.label}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function SectionHeader({ icon: Icon, title }: { icon: typeof Cpu; title: string }) {
+  return (
+    <div className="mb-1 flex items-center gap-2">
+      <Icon className="h-4 w-4 text-muted-foreground" />
+      <span className="text-[11px] font-medium uppercase tracking-wide text-muted-foreground">{title}</span>
+    </div>
+  );
+}
+
+// ── Component ──
+
+export const CodexSettings = memo(function CodexSettings({ projectPath }: CodexSettingsProps) {
+  const [state, setState] = useState<ConfigState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [target, setTarget] = useState<CodexConfigTarget>("user");
+  const [models, setModels] = useState<string[]>([]);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    const result = await window.claude.codex.configRead(projectPath);
+    setLoading(false);
+    if (result.error || !result.config) {
+      setError(result.error ?? "Codex returned no config");
+      return;
+    }
+    setError(null);
+    setState({
+      config: result.config,
+      origins: result.origins ?? {},
+      layers: result.layers ?? [],
+      warnings: result.warnings ?? [],
+    });
+  }, [projectPath]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    window.claude.codex.listModels().then((result) => setModels(result.models.map((m) => m.model)));
+  }, []);
+
+  // Project writes need a project — fall back to the user layer when it goes away
+  useEffect(() => {
+    if (!projectPath) setTarget("user");
+  }, [projectPath]);
+
+  const layers = state?.layers ?? [];
+  const targetLayer = useMemo(() => findTargetLayer(layers, target, projectPath), [layers, target, projectPath]);
+
+  const write = useCallback(
+    async (edits: CodexConfigEdit[]) => {
+      const result = await window.claude.codex.configWrite(edits, {
+        filePath: target === "project" && projectPath ? getProjectConfigPath(projectPath) : null,
+        expectedVersion: targetLayer?.version ?? null,
+      });
+      if (result.error) {
+        toast.error("Failed to save Codex setting", { description: result.error });
+      } else if (result.status === "okOverridden" && result.overriddenMetadata) {
+        toast.info("Saved, but another layer takes precedence", {
+          description: result.overriddenMetadata.message,
+        });
+      }
+      await load();
+    },
+    [target, projectPath, targetLayer, load],
+  );
+
+  const setKey = useCallback(
+    (keyPath: string, value: JsonValue) => write([{ keyPath, value, mergeStrategy: "replace" }]),
+    [write],
+  );
+
+  const config = (state?.config ?? {}) as Record<string, unknown>;
+  const str = (keyPath: string) => {
+    const value = getValue(config, keyPath);
+    return typeof value === "string" ? value : "";
+  };
+
+  const originBadge = (keyPath: string) => {
+    if (!state) return null;
+    const origin = findOrigin(state.origins, keyPath);
+    const writable = origin && targetLayer ? isSameLayer(origin.name, targetLayer.name) : false;
+    return (
+      <span
+        title={origin ? getLayerPath(origin.name) ?? undefined : "Built-in default"}
+        className={`rounded px-1.5 py-px text-[10px] font-normal ${
+          writable ? "bg-foreground/[0.08] text-foreground/70" : "bg-foreground/[0.04] text-muted-foreground"
+        }`}
+      >
+        {origin ? formatLayerSource(origin.name) : "Default"}
+      </span>
+    );
+  };
+
+  const approvalPolicy = getValue(config, "approval_policy");
+  const sandboxMode = str("sandbox_mode");
+  const networkAccess = getValue(config, "sandbox_workspace_write.network_access") === true;
+  const profiles = Object.keys((getValue(config, "profiles") as Record<string, unknown> | null) ?? {});
+
+  const handleNetworkAccess = useCallback(
+    (checked: boolean) => {
+      const edits: CodexConfigEdit[] = [
+        { keyPath: "sandbox_workspace_write.network_access", value: checked, mergeStrategy: "upsert" },
+      ];
+      // Network access only applies to the workspace-write sandbox
+      if (checked && sandboxMode !== "workspace-write") {
+        edits.push({ keyPath: "sandbox_mode", value: "workspace-write", mergeStrategy: "replace" });
+      }
+      write(edits);
+    },
+    [sandboxMode, write],
+  );
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4 border-b border-foreground/[0.06] px-6 py-4">
+        <div>
+          <h2 className="text-base font-semibold text-foreground">Codex</h2>
+          <p className="mt-0.5 text-xs text-muted-foreground">
+            Codex's own config.toml layers — each value shows the layer it comes from
+          </p>
+        </div>
+        <div className="flex shrink-0 items-center gap-2">
+          <div className="flex rounded-md border border-foreground/10 p-0.5 text-xs">
+            {(["user", "project"] as const).map((t) => (
+              <button
+                key={t}
+                disabled={t === "project" && !projectPath}
+                onClick={() => setTarget(t)}
+                className={`rounded px-2 py-0.5 transition-colors disabled:opacity-40 ${
+                  target === t ? "bg-foreground/[0.08] font-medium text-foreground" : "text-muted-foreground hover:text-foreground"
+                }`}
+              >
+                {t === "user" ? "User" : "Project"}
+              </button>
+            ))}
+          </div>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-7 w-7" onClick={load} disabled={loading}>
+                <RefreshCw className={`h-3.5 w-3.5 ${loading ? "animate-spin" : ""}`} />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent side="bottom"><p className="text-xs">Reload from disk</p></TooltipContent>
+          </Tooltip>
+        </div>
+      </div>
+
+      <ScrollArea className="min-h-0 flex-1">
+        {error ? (
+          <p className="px-6 py-8 text-center text-sm text-muted-foreground">{error}</p>
+        ) : !state ? (
+          <div className="flex items-center justify-center py-10">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="px-6 py-2">
+            <p className="pt-3 text-xs text-muted-foreground">
+              Changes are written to{" "}
+              <span className="font-mono text-foreground/70">
+                {target === "project" && projectPath
+                  ? getProjectConfigPath(projectPath)
+                  : (targetLayer && getLayerPath(targetLayer.name)) ?? "~/.codex/config.toml"}
+              </span>
+              {" "}and apply to new Codex sessions.
+            </p>
+
+            {/* ── Config warnings ── */}
+            {state.warnings.length > 0 && (
+              <div className="mt-3 space-y-2 rounded-md border border-amber-500/30 bg-amber-500/[0.06] px-3 py-2.5">
+                {state.warnings.map((w) => (
+                  <div key={`${w.path ?? ""}:${w.summary}`} className="flex gap-2 text-xs">
+                    <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0 text-amber-500" />
+                    <div className="min-w-0">
+                      <p className="font-medium text-foreground">{w.summary}</p>
+                      {w.details && <p className="mt-0.5 whitespace-pre-wrap text-muted-foreground">{w.details}</p>}
+                      {w.path && (
+                        <p className="mt-0.5 truncate font-mono text-[10px] text-muted-foreground">
+                          {w.path}
+                          {w.range ? `:${w.range.start.line}:${w.range.start.column}` : ""}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* ── Model section ── */}
+            <div className="py-3">
+              <SectionHeader icon={Cpu} title="Model" />
+              <datalist id="codex-config-models">
+                {models.map((m) => <option key={m} value={m} />)}
+              </datalist>
+              <SettingRow label="Model" description="Default model for new threads." badge={originBadge("model")}>
+                <ConfigTextInput value={str("model")} listId="codex-config-models" onCommit={(v) => setKey("model", v || null)} />
+              </SettingRow>
+              <SettingRow label="Review model" description="Model used by code reviews." badge={originBadge("review_model")}>
+                <ConfigTextInput value={str("review_model")} listId="codex-config-models" onCommit={(v) => setKey("review_model", v || null)} />
+              </SettingRow>
+              <SettingRow label="Model provider" description="Key from [model_providers], e.g. openai or a custom endpoint." badge={originBadge("model_provider")}>
+                <ConfigTextInput value={str("model_provider")} placeholder="openai" onCommit={(v) => setKey("model_provider", v || null)} />
+              </SettingRow>
+              <SettingRow label="Reasoning effort" badge={originBadge("model_reasoning_effort")}>
+                <ConfigSelect
+                  value={str("model_reasoning_effort")}
+                  options={REASONING_EFFORTS.map((v) => ({ value: v, label: v }))}
+                  onChange={(v) => setKey("model_reasoning_effort", v || null)}
+                />
+              </SettingRow>
+              <SettingRow label="Reasoning summary" badge={originBadge("model_reasoning_summary")}>
+                <ConfigSelect
+                  value={str("model_reasoning_summary")}
+                  options={REASONING_SUMMARIES.map((v) => ({ value: v, label: v }))}
+                  onChange={(v) => setKey("model_reasoning_summary", v || null)}
+                />
+              </SettingRow>
+              <SettingRow label="Verbosity" badge={originBadge("model_verbosity")}>
+                <ConfigSelect
+                  value={str("model_verbosity")}
+                  options={VERBOSITIES.map((v) => ({ value: v, label: v }))}
+                  onChange={(v) => setKey("model_verbosity", v || null)}
+                />
+              </SettingRow>
+            </div>
+
+            {/* ── Permissions section ── */}
+            <div className="border-t border-foreground/[0.04] py-3">
+              <SectionHeader icon={Shield} title="Permissions" />
+              <SettingRow
+                label="Approval policy"
+                description="When Codex asks before running commands. Harnss's permission mode still overrides this per session."
+                badge={originBadge("approval_policy")}
+              >
+                {typeof approvalPolicy === "object" && approvalPolicy !== null ? (
+                  <span className="text-xs text-muted-foreground">Custom (edit config.toml)</span>
+                ) : (
+                  <ConfigSelect
+                    value={typeof approvalPolicy === "string" ? approvalPolicy : ""}
+                    options={APPROVAL_POLICIES}
+                    onChange={(v) => setKey("approval_policy", v || null)}
+                  />
+                )}
+              </SettingRow>
+              <SettingRow label="Sandbox" description="What commands Codex runs are allowed to touch." badge={originBadge("sandbox_mode")}>
+                <ConfigSelect value={sandboxMode} options={SANDBOX_MODES} onChange={(v) => setKey("sandbox_mode", v || null)} />
+              </SettingRow>
+              <SettingRow
+                label="Network access"
+                description="Allow outbound network in the workspace-write sandbox."
+                badge={originBadge("sandbox_workspace_write.network_access")}
+              >
+                <Switch checked={networkAccess} onCheckedChange={handleNetworkAccess} />
+              </SettingRow>
+            </div>
+
+            {/* ── Tools section ── */}
+            <div className="border-t border-foreground/[0.04] py-3">
+              <SectionHeader icon={Globe} title="Tools" />
+              <SettingRow label="Web search" badge={originBadge("web_search")}>
+                <ConfigSelect value={str("web_search")} options={WEB_SEARCH_MODES} onChange={(v) => setKey("web_search", v || null)} />
+              </SettingRow>
+              <SettingRow
+                label="Active profile"
+                description="Named [profiles.*] table applied on top of these settings."
+                badge={originBadge("profile")}
+              >
+                <ConfigSelect
+                  value={str("profile")}
+                  options={profiles.map((p) => ({ value: p, label: p }))}
+                  onChange={(v) => setKey("profile", v || null)}
+                />
+              </SettingRow>
+            </div>
+
+            {/* ── Instructions section ── */}
+            <div className="border-t border-foreground/[0.04] py-3">
+              <SectionHeader icon={FileText} title="Instructions" />
+              <div className="py-3">
+                <p className="flex items-center gap-2 text-sm font-medium text-foreground">
+                  Developer instructions
+                  {originBadge("developer_instructions")}
+                </p>
+                <p className="mt-0.5 text-xs text-muted-foreground">Extra instructions sent with every turn.</p>
+              </div>
+              <textarea
+                key={`${target}:${str("developer_instructions")}`}
+                defaultValue={str("developer_instructions")}
+                onBlur={(e) => {
+                  const next = e.target.value.trim();
+                  if (next !== str("developer_instructions")) setKey("developer_instructions", next || null);
+                }}
+                rows={4}
+                spellCheck={false}
+                placeholder="None"
+                className="w-full resize-y rounded-md border border-foreground/10 bg-background px-2.5 py-2 font-mono text-xs text-foreground outline-none transition-colors placeholder:text-muted-foreground hover:border-foreground/20 focus:border-foreground/30 focus:ring-1 focus:ring-foreground/20"
+              />
+            </div>
+
+            {/* ── Layers section ── */}
+            <div className="border-t border-foreground/[0.04] py-3">
+              <SectionHeader icon={Layers} title="Layers" />
+              <p className="mb-2 text-xs text-muted-foreground">Highest precedence first.</p>
+              <div className="space-y-1">
+                {layers.map((layer) => {
+                  const path = getLayerPath(layer.name);
+                  const isTarget = targetLayer ? isSameLayer(layer.name, targetLayer.name) : false;
+                  return (
+                    <div
+                      key={`${layer.name.type}:${path ?? ""}`}
+                      className="flex items-center gap-2 rounded-md px-2 py-1.5 text-xs hover:bg-foreground/[0.03]"
+                    >
+                      <span className="w-16 shrink-0 font-medium text-foreground">{formatLayerSource(layer.name)}</span>
+                      <span className="min-w-0 flex-1 truncate font-mono text-[10px] text-muted-foreground">{path ?? "—"}</span>
+                      {layer.disabledReason && (
+                        <span className="shrink-0 text-[10px] text-amber-500" title={layer.disabledReason}>
+                          Disabled
+                        </span>
+                      )}
+                      {isTarget && <span className="shrink-0 text-[10px] text-muted-foreground">editing</span>}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+});
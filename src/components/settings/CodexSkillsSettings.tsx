@@ -0,0 +1,245 @@
+import { memo, useState, useCallback, useEffect } from "react";
+import { AlertTriangle, Cloud, Download, Loader2, RefreshCw, Sparkles } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import type { CodexRemoteSkill, CodexSkill, CodexSkillScope, CodexSkillsListEntry } from "@/types/codex";
+
+interface CodexSkillsSettingsProps {
+  /** Active project — its repo skills are listed alongside user and system ones */
+  projectPath?: string;
+}
+
+const SCOPE_ORDER: CodexSkillScope[] = ["repo", "user", "admin", "system"];
+const SCOPE_LABELS: Record<CodexSkillScope, string> = {
+  repo: "Project",
+  user: "User",
+  admin: "Admin",
+  system: "Built-in",
+};
+
+function SkillRow({
+  skill,
+  onToggle,
+}: {
+  skill: CodexSkill;
+  onToggle: (skill: CodexSkill, enabled: boolean) => void;
+}) {
+  const tools = skill.dependencies?.tools ?? [];
+  return (
+    <div className="flex items-start justify-between gap-6 py-3">
+      <div className="min-w-0 flex-1">
+        <p className="text-sm font-medium text-foreground">{skill.interface?.displayName ?? skill.name}</p>
+        <p className="mt-0.5 line-clamp-2 text-xs text-muted-foreground">
+          {skill.interface?.shortDescription ?? skill.shortDescription ?? skill.description}
+        </p>
+        {tools.length > 0 && (
+          <div className="mt-1.5 flex flex-wrap gap-1">
+            {tools.map((tool) => (
+              <span
+                key={`${tool.type}:${tool.value}`}
+                title={tool.description ?? tool.command ?? tool.url}
+                className="rounded bg-foreground/[0.06] px-1.5 py-px font-mono text-[10px] text-foreground/70"
+              >
+                {tool.type}: {tool.value}
+              </span>
+            ))}
+          </div>
+        )}
+        <p className="mt-1 truncate font-mono text-[10px] text-muted-foreground/60">{skill.path}</p>
+      </div>
+      <div className="shrink-0 pt-0.5">
+        <Switch checked={skill.enabled} onCheckedChange={(checked) => onToggle(skill, checked)} />
+      </div>
+    </div>
+  );
+}
+
+// ── Component ──
+
+export const CodexSkillsSettings = memo(function CodexSkillsSettings({ projectPath }: CodexSkillsSettingsProps) {
+  const [entries, setEntries] = useState<CodexSkillsListEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [remote, setRemote] = useState<CodexRemoteSkill[] | null>(null);
+  const [remoteLoading, setRemoteLoading] = useState(false);
+  const [installingId, setInstallingId] = useState<string | null>(null);
+
+  const load = useCallback(async (forceReload = false) => {
+    setLoading(true);
+    const result = await window.claude.codex.listSkills(projectPath ? [projectPath] : [], forceReload);
+    setLoading(false);
+    setError(result.error ?? null);
+    setEntries(result.entries);
+  }, [projectPath]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleToggle = useCallback(async (skill: CodexSkill, enabled: boolean) => {
+    const patch = (value: boolean) =>
+      setEntries((prev) => prev?.map((entry) => ({
+        ...entry,
+        skills: entry.skills.map((s) => (s.path === skill.path ? { ...s, enabled: value } : s)),
+      })) ?? null);
+
+    patch(enabled); // optimistic
+    const result = await window.claude.codex.setSkillEnabled(skill.path, enabled);
+    if (result.error) {
+      patch(!enabled);
+      toast.error(`Failed to ${enabled ? "enable" : "disable"} ${skill.name}`, { description: result.error });
+    } else if (result.effectiveEnabled !== undefined && result.effectiveEnabled !== enabled) {
+      patch(result.effectiveEnabled);
+      toast.info(`${skill.name} is ${result.effectiveEnabled ? "enabled" : "disabled"} by another config layer`);
+    }
+  }, []);
+
+  const loadRemote = useCallback(async () => {
+    setRemoteLoading(true);
+    const result = await window.claude.codex.listRemoteSkills();
+    setRemoteLoading(false);
+    if (result.error) {
+      toast.error("Failed to load remote skills", { description: result.error });
+      return;
+    }
+    setRemote(result.skills);
+  }, []);
+
+  const handleInstall = useCallback(async (skill: CodexRemoteSkill) => {
+    setInstallingId(skill.id);
+    const result = await window.claude.codex.installRemoteSkill(skill.id);
+    setInstallingId(null);
+    if (result.error) {
+      toast.error(`Failed to install ${skill.name}`, { description: result.error });
+      return;
+    }
+    toast.success(`Installed ${skill.name}`, { description: result.path });
+    await load(true);
+  }, [load]);
+
+  // The same user/system skill shows up under every cwd — list each path once
+  const skills = new Map<string, CodexSkill>();
+  for (const entry of entries ?? []) {
+    for (const skill of entry.skills) skills.set(skill.path, skill);
+  }
+  const groups = SCOPE_ORDER
+    .map((scope) => ({ scope, skills: [...skills.values()].filter((s) => s.scope === scope) }))
+    .filter((group) => group.skills.length > 0);
+  const installedNames = new Set([...skills.values()].map((s) => s.name));
+  const skillErrors = [...new Map((entries ?? []).flatMap((entry) => entry.errors).map((e) => [e.path, e])).values()];
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4 border-b border-foreground/[0.06] px-6 py-4">
+        <div>
+          <h2 className="text-base font-semibold text-foreground">Codex Skills</h2>
+          <p className="mt-0.5 text-xs text-muted-foreground">
+            Reusable instructions Codex can load on demand{projectPath ? " — including this project's repo skills" : ""}
+          </p>
+        </div>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => load(true)} disabled={loading}>
+              <RefreshCw className={`h-3.5 w-3.5 ${loading ? "animate-spin" : ""}`} />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent side="bottom"><p className="text-xs">Rescan skill folders</p></TooltipContent>
+        </Tooltip>
+      </div>
+
+      <ScrollArea className="min-h-0 flex-1">
+        <div className="px-6 py-2">
+          {error && <p className="py-3 text-xs text-destructive">{error}</p>}
+
+          {skillErrors.length > 0 && (
+            <div className="mt-3 space-y-1.5 rounded-md border border-amber-500/30 bg-amber-500/[0.06] px-3 py-2.5">
+              {skillErrors.map((e) => (
+                <div key={e.path} className="flex gap-2 text-xs">
+                  <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0 text-amber-500" />
+                  <div className="min-w-0">
+                    <p className="text-foreground">{e.message}</p>
+                    <p className="truncate font-mono text-[10px] text-muted-foreground">{e.path}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {!entries ? (
+            <div className="flex items-center justify-center py-10">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          ) : skills.size === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">No skills found</p>
+          ) : (
+            groups.map(({ scope, skills: scoped }, i) => (
+              <div key={scope} className={`py-3 ${i > 0 ? "border-t border-foreground/[0.04]" : ""}`}>
+                <div className="mb-1 flex items-center gap-2">
+                  <Sparkles className="h-4 w-4 text-muted-foreground" />
+                  <span className="text-[11px] font-medium uppercase tracking-wide text-muted-foreground">
+                    {SCOPE_LABELS[scope]}
+                  </span>
+                </div>
+                {scoped.map((skill) => (
+                  <SkillRow key={skill.path} skill={skill} onToggle={handleToggle} />
+                ))}
+              </div>
+            ))
+          )}
+
+          {/* ── Remote skills section ── */}
+          <div className="border-t border-foreground/[0.04] py-3">
+            <div className="mb-1 flex items-center gap-2">
+              <Cloud className="h-4 w-4 text-muted-foreground" />
+              <span className="text-[11px] font-medium uppercase tracking-wide text-muted-foreground">
+                Remote
+              </span>
+            </div>
+            {!remote ? (
+              <div className="flex items-center justify-between gap-6 py-3">
+                <p className="text-xs text-muted-foreground">
+                  Skills shared with your ChatGPT account. Installing copies them into your user skills folder.
+                </p>
+                <Button variant="outline" size="sm" className="h-7 shrink-0 text-xs" onClick={loadRemote} disabled={remoteLoading}>
+                  {remoteLoading && <Loader2 className="me-1.5 h-3 w-3 animate-spin" />}
+                  Browse
+                </Button>
+              </div>
+            ) : remote.length === 0 ? (
+              <p className="py-3 text-xs text-muted-foreground">No remote skills are shared with this account</p>
+            ) : (
+              remote.map((skill) => (
+                <div key={skill.id} className="flex items-center justify-between gap-6 py-3">
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium text-foreground">{skill.name}</p>
+                    <p className="mt-0.5 line-clamp-2 text-xs text-muted-foreground">{skill.description}</p>
+                  </div>
+                  {installedNames.has(skill.name) ? (
+                    <span className="shrink-0 text-xs text-muted-foreground">Installed</span>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 shrink-0 gap-1.5 text-xs"
+                      disabled={installingId !== null}
+                      onClick={() => handleInstall(skill)}
+                    >
+                      {installingId === skill.id
+                        ? <Loader2 className="h-3 w-3 animate-spin" />
+                        : <Download className="h-3 w-3" />}
+                      Install
+                    </Button>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </ScrollArea>
+    </div>
+  );
+});
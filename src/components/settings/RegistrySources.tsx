@@ -0,0 +1,153 @@
+import { memo, useState, useCallback, useEffect } from "react";
+import { Globe, FileJson, Plus, Trash2, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import type { AgentRegistrySource } from "@/types";
+
+/** The public ACP registry ships as the first source — it can be disabled but not removed */
+const PUBLIC_SOURCE_ID = "acp-public";
+
+function isRemote(location: string): boolean {
+  return /^https?:\/\//i.test(location);
+}
+
+/** Mirrors the main process: http(s) URL, file:// URL, or an absolute (or ~/) path. */
+function validateLocation(location: string): string | null {
+  if (!location) return "Location is required";
+  if (isRemote(location) || location.startsWith("file://")) return null;
+  if (location.startsWith("/") || location.startsWith("~/") || /^[A-Za-z]:[\\/]/.test(location)) return null;
+  return "Use an http(s) URL or an absolute path to a registry JSON file";
+}
+
+// ── Component ──
+
+export const RegistrySources = memo(function RegistrySources() {
+  const [sources, setSources] = useState<AgentRegistrySource[] | null>(null);
+  const [label, setLabel] = useState("");
+  const [location, setLocation] = useState("");
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useEffect(() => {
+    window.claude.settings.get().then((s) => setSources(s?.agentRegistries ?? []));
+  }, []);
+
+  const persist = useCallback(async (next: AgentRegistrySource[]) => {
+    const prev = sources;
+    setSources(next); // optimistic
+    const result = await window.claude.settings.set({ agentRegistries: next });
+    if (result.error) {
+      setSources(prev);
+      toast.error("Failed to save registry sources", { description: result.error });
+    }
+  }, [sources]);
+
+  const handleAdd = useCallback(() => {
+    if (!sources) return;
+    const trimmed = location.trim();
+    const problem = validateLocation(trimmed);
+    if (problem) {
+      setFormError(problem);
+      return;
+    }
+    if (sources.some((s) => s.location === trimmed)) {
+      setFormError("This source is already configured");
+      return;
+    }
+    persist([...sources, {
+      id: crypto.randomUUID(),
+      label: label.trim() || (isRemote(trimmed) ? new URL(trimmed).host : trimmed.split(/[\\/]/).pop() ?? trimmed),
+      location: trimmed,
+      enabled: true,
+    }]);
+    setLabel("");
+    setLocation("");
+    setFormError(null);
+  }, [sources, label, location, persist]);
+
+  return (
+    <div className="flex h-full flex-col">
+      <ScrollArea className="min-h-0 flex-1">
+        <div className="space-y-4 px-6 py-4">
+          <p className="text-xs text-muted-foreground">
+            The agent store merges every enabled registry. When two list the same agent id, the one higher up wins.
+            Each registry is cached so the store keeps working offline.
+          </p>
+
+          {!sources ? (
+            <div className="flex items-center justify-center py-10">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {sources.map((source) => {
+                const Icon = isRemote(source.location) ? Globe : FileJson;
+                return (
+                  <div
+                    key={source.id}
+                    className="group flex items-center gap-3 rounded-lg border border-foreground/[0.06] px-4 py-3"
+                  >
+                    <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate text-sm font-medium text-foreground">{source.label}</p>
+                      <p className="truncate font-mono text-[11px] text-muted-foreground">{source.location}</p>
+                    </div>
+                    {source.id !== PUBLIC_SOURCE_ID && (
+                      <Button
+                        variant="ghost"
+                        size="icon-xs"
+                        className="text-destructive/60 opacity-0 transition-opacity hover:text-destructive group-hover:opacity-100"
+                        onClick={() => persist(sources.filter((s) => s.id !== source.id))}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    )}
+                    <Switch
+                      checked={source.enabled}
+                      onCheckedChange={(enabled) =>
+                        persist(sources.map((s) => (s.id === source.id ? { ...s, enabled } : s)))}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Add source */}
+          <div className="space-y-1.5 border-t border-foreground/[0.04] pt-4">
+            <label className="text-[11px] font-medium uppercase tracking-wide text-muted-foreground">
+              Add Registry
+            </label>
+            <div className="flex items-center gap-2">
+              <Input
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="Label"
+                className="w-40"
+              />
+              <Input
+                value={location}
+                onChange={(e) => {
+                  setLocation(e.target.value);
+                  setFormError(null);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleAdd();
+                }}
+                placeholder="https://example.com/registry.json or /path/to/registry.json"
+                className={`flex-1 font-mono ${formError ? "border-destructive" : ""}`}
+              />
+              <Button size="sm" onClick={handleAdd} disabled={!sources}>
+                <Plus className="h-3.5 w-3.5" />
+                Add
+              </Button>
+            </div>
+            {formError && <p className="text-[11px] text-destructive">{formError}</p>}
+          </div>
+        </div>
+      </ScrollArea>
+    </div>
+  );
+});
@@ -8,16 +8,22 @@
 export function SettingRow({
   label,
   description,
+  badge,
   children,
 }: {
   label: string;
   description?: string;
+  /** Inline marker rendered after the label (e.g. where the value comes from) */
+  badge?: React.ReactNode;
   children: React.ReactNode;
 }) {
   return (
     <div className="flex items-center justify-between gap-6 py-3">
       <div className="min-w-0 flex-1">
-        <p className="text-sm font-medium text-foreground">{label}</p>
+        <p className="flex items-center gap-2 text-sm font-medium text-foreground">
+          {label}
+          {badge}
+        </p>
         {description && (
           <p className="mt-0.5 text-xs text-muted-foreground">{description}</p>
         )}
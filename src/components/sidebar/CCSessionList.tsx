@@ -3,7 +3,7 @@ import { Loader2 } from "lucide-react";
 import { DropdownMenuItem } from "@/components/ui/dropdown-menu";
 import type { CCSessionInfo } from "@/types";
 
-function formatRelativeDate(isoString: string): string {
+export function formatRelativeDate(isoString: string): string {
   const date = new Date(isoString);
   const now = Date.now();
   const diffMs = now - date.getTime();
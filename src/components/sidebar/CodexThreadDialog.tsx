@@ -0,0 +1,112 @@
+import { useState, useEffect } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { codexThreadToMessages } from "@/lib/codex-adapter";
+import type { UIMessage } from "@/types";
+import type { CodexThread } from "@/types/codex";
+
+const PREVIEW_TEXT_LIMIT = 400;
+
+function clip(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.length > PREVIEW_TEXT_LIMIT ? `${trimmed.slice(0, PREVIEW_TEXT_LIMIT)}...` : trimmed;
+}
+
+/** Read-only preview of a Codex thread's conversation before importing it. */
+export function CodexThreadDialog({
+  thread,
+  onImport,
+  onClose,
+}: {
+  thread: CodexThread | null;
+  onImport: (threadId: string) => void;
+  onClose: () => void;
+}) {
+  const [messages, setMessages] = useState<UIMessage[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const threadId = thread?.id;
+
+  useEffect(() => {
+    if (!threadId) return;
+    let cancelled = false;
+    setMessages(null);
+    setError(null);
+    window.claude.codex.readThread(threadId).then((result) => {
+      if (cancelled) return;
+      if (result.thread) setMessages(codexThreadToMessages(result.thread));
+      else setError(result.error ?? "Codex thread not found");
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [threadId]);
+
+  // Only the conversation itself — tool calls would drown out the gist
+  const turns = messages?.filter((m) => (m.role === "user" || m.role === "assistant") && m.content.trim()) ?? [];
+  const toolCount = messages?.filter((m) => m.role === "tool_call").length ?? 0;
+
+  return (
+    <Dialog open={!!thread} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="flex max-h-[80vh] flex-col sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="line-clamp-1 text-sm">
+            {thread?.name || thread?.preview || "Codex thread"}
+          </DialogTitle>
+          <DialogDescription className="text-xs">
+            {thread && new Date(thread.updatedAt * 1000).toLocaleString()}
+            {thread?.gitInfo?.branch ? ` · ${thread.gitInfo.branch}` : ""}
+            {messages ? ` · ${turns.length} messages, ${toolCount} tool calls` : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="min-h-0 flex-1 space-y-3 overflow-y-auto pe-1">
+          {error ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">{error}</p>
+          ) : !messages ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          ) : turns.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">This thread has no messages</p>
+          ) : (
+            turns.map((m) => (
+              <div
+                key={m.id}
+                className={m.role === "user"
+                  ? "ms-auto max-w-[85%] rounded-xl bg-foreground/[0.06] px-3 py-2 text-[13px] whitespace-pre-wrap wrap-break-word"
+                  : "max-w-[95%] text-[13px] text-foreground/80 whitespace-pre-wrap wrap-break-word"}
+              >
+                {clip(m.content)}
+              </div>
+            ))
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            className="h-7 text-xs"
+            disabled={!messages}
+            onClick={() => {
+              if (threadId) onImport(threadId);
+              onClose();
+            }}
+          >
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
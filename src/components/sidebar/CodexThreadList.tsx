@@ -0,0 +1,104 @@
+import { useState, useEffect } from "react";
+import { Archive, ArchiveRestore, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { DropdownMenuItem, DropdownMenuSeparator } from "@/components/ui/dropdown-menu";
+import type { CodexThread } from "@/types/codex";
+import { formatRelativeDate } from "./CCSessionList";
+
+export function CodexThreadList({
+  projectPath,
+  onSelect,
+}: {
+  projectPath: string;
+  onSelect: (thread: CodexThread) => void;
+}) {
+  const [showArchived, setShowArchived] = useState(false);
+  const [threads, setThreads] = useState<CodexThread[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    window.claude.codex
+      .listThreads(projectPath, { archived: showArchived })
+      .then((result) => {
+        if (cancelled) return;
+        setThreads(result.threads);
+        setError(result.error ?? null);
+        setLoading(false);
+      })
+      .catch(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectPath, showArchived]);
+
+  const toggleArchived = async (thread: CodexThread) => {
+    const result = await window.claude.codex.archiveThread(thread.id, !showArchived);
+    if (result.error) {
+      toast.error(showArchived ? "Unarchive failed" : "Archive failed", { description: result.error });
+      return;
+    }
+    setThreads((prev) => prev.filter((t) => t.id !== thread.id));
+  };
+
+  const ArchiveIcon = showArchived ? ArchiveRestore : Archive;
+
+  return (
+    <>
+      <DropdownMenuItem
+        // Keep the menu open — this only switches which threads are listed
+        onSelect={(e) => {
+          e.preventDefault();
+          setShowArchived((prev) => !prev);
+        }}
+        className="text-xs text-muted-foreground"
+      >
+        <ArchiveIcon className="me-2 h-3.5 w-3.5" />
+        {showArchived ? "Show active threads" : "Show archived threads"}
+      </DropdownMenuItem>
+      <DropdownMenuSeparator />
+
+      {loading ? (
+        <div className="flex items-center justify-center py-4">
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : threads.length === 0 ? (
+        <p className="px-3 py-2 text-xs text-muted-foreground">
+          {error ?? (showArchived ? "No archived Codex threads" : "No Codex threads found")}
+        </p>
+      ) : (
+        threads.map((t) => (
+          <DropdownMenuItem
+            key={t.id}
+            onClick={() => onSelect(t)}
+            className="group/thread flex items-start gap-2 py-2"
+          >
+            <div className="flex min-w-0 flex-1 flex-col gap-0.5">
+              <span className="line-clamp-1 text-sm">{t.name || t.preview || "Untitled thread"}</span>
+              <span className="text-xs text-muted-foreground">
+                {formatRelativeDate(new Date(t.updatedAt * 1000).toISOString())}
+                {t.gitInfo?.branch ? ` · ${t.gitInfo.branch}` : ""}
+              </span>
+            </div>
+            <button
+              type="button"
+              title={showArchived ? "Unarchive" : "Archive"}
+              onClick={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                toggleArchived(t);
+              }}
+              className="shrink-0 rounded p-0.5 text-muted-foreground/60 opacity-0 transition-opacity hover:text-foreground group-hover/thread:opacity-100"
+            >
+              <ArchiveIcon className="h-3.5 w-3.5" />
+            </button>
+          </DropdownMenuItem>
+        ))
+      )}
+    </>
+  );
+}
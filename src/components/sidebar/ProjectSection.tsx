@@ -9,6 +9,8 @@ import {
   ChevronDown,
   History,
   ArrowRightLeft,
+  FileInput,
+  Terminal,
 } from "lucide-react";
 import { resolveLucideIcon } from "@/lib/icon-utils";
 import { Button } from "@/components/ui/button";
@@ -22,9 +24,13 @@ import {
   DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import type { SessionExportFormat } from "@/lib/session-export";
 import type { ChatSession, Project, Space } from "@/types";
+import type { CodexThread } from "@/types/codex";
 import { SessionItem } from "./SessionItem";
 import { CCSessionList } from "./CCSessionList";
+import { CodexThreadList } from "./CodexThreadList";
+import { CodexThreadDialog } from "./CodexThreadDialog";
 
 interface SessionGroup {
   label: string;
@@ -78,9 +84,12 @@ export function ProjectSection({
   onSelectSession,
   onDeleteSession,
   onRenameSession,
+  onExportSession,
   onDeleteProject,
   onRenameProject,
   onImportCCSession,
+  onImportCodexThread,
+  onImportBundle,
   otherSpaces,
   onMoveToSpace,
   onReorderProject,
@@ -94,9 +103,12 @@ export function ProjectSection({
   onSelectSession: (id: string) => void;
   onDeleteSession: (id: string) => void;
   onRenameSession: (id: string, title: string) => void;
+  onExportSession: (id: string, format: SessionExportFormat) => void;
   onDeleteProject: () => void;
   onRenameProject: (name: string) => void;
   onImportCCSession: (ccSessionId: string) => void;
+  onImportCodexThread: (threadId: string) => void;
+  onImportBundle: () => void;
   otherSpaces: Space[];
   onMoveToSpace: (spaceId: string) => void;
   onReorderProject: (targetProjectId: string) => void;
@@ -106,6 +118,7 @@ export function ProjectSection({
   const [isEditing, setIsEditing] = useState(false);
   const [editName, setEditName] = useState(project.name);
   const [isDragOver, setIsDragOver] = useState(false);
+  const [previewThread, setPreviewThread] = useState<CodexThread | null>(null);
   // Pagination: show N chats initially, load 20 more on each click
   const [visibleCount, setVisibleCount] = useState(defaultChatLimit);
 
@@ -127,6 +140,8 @@ export function ProjectSection({
   const remainingCount = sortedSessions.length - visibleCount;
 
   const groups = useMemo(() => groupSessionsByDate(visibleSessions), [visibleSessions]);
+  // Live titles for fork lineage — parents may have been renamed since the fork
+  const titlesById = useMemo(() => new Map(sessions.map((s) => [s.id, s.title])), [sessions]);
 
   const handleRename = () => {
     const trimmed = editName.trim();
@@ -238,6 +253,22 @@ export function ProjectSection({
                 />
               </DropdownMenuSubContent>
             </DropdownMenuSub>
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>
+                <Terminal className="me-2 h-3.5 w-3.5" />
+                Codex Threads
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent className="w-72 max-h-80 overflow-y-auto">
+                <CodexThreadList
+                  projectPath={project.path}
+                  onSelect={setPreviewThread}
+                />
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+            <DropdownMenuItem onClick={onImportBundle}>
+              <FileInput className="me-2 h-3.5 w-3.5" />
+              Import session bundle...
+            </DropdownMenuItem>
             {otherSpaces.length > 0 && (
               <DropdownMenuSub>
                 <DropdownMenuSubTrigger>
@@ -276,6 +307,12 @@ export function ProjectSection({
         </DropdownMenu>
       </div>
 
+      <CodexThreadDialog
+        thread={previewThread}
+        onImport={onImportCodexThread}
+        onClose={() => setPreviewThread(null)}
+      />
+
       {/* Nested chats */}
       {expanded && (
         <div className="ms-5 overflow-hidden">
@@ -293,6 +330,8 @@ export function ProjectSection({
                   onSelect={() => onSelectSession(session.id)}
                   onDelete={() => onDeleteSession(session.id)}
                   onRename={(title) => onRenameSession(session.id, title)}
+                  onExport={(format) => onExportSession(session.id, format)}
+                  forkParentTitle={session.forkedFrom && titlesById.get(session.forkedFrom.sessionId)}
                 />
               ))}
             </div>
@@ -1,12 +1,16 @@
 import { useState } from "react";
-import { Pencil, MessageSquare, Trash2, MoreHorizontal, Loader2 } from "lucide-react";
+import { Pencil, MessageSquare, Trash2, MoreHorizontal, Loader2, Download, GitBranch } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import type { SessionExportFormat } from "@/lib/session-export";
 import type { ChatSession } from "@/types";
 
 export function SessionItem({
@@ -16,6 +20,8 @@ export function SessionItem({
   onSelect,
   onDelete,
   onRename,
+  onExport,
+  forkParentTitle,
 }: {
   islandLayout: boolean;
   session: ChatSession;
@@ -23,6 +29,9 @@ export function SessionItem({
   onSelect: () => void;
   onDelete: () => void;
   onRename: (title: string) => void;
+  onExport: (format: SessionExportFormat) => void;
+  /** Current title of the session this one was forked from (falls back to the title at fork time). */
+  forkParentTitle?: string;
 }) {
   const [isEditing, setIsEditing] = useState(false);
   const [editTitle, setEditTitle] = useState(session.title);
@@ -71,11 +80,20 @@ export function SessionItem({
           </span>
         ) : session.isProcessing ? (
           <Loader2 className="h-3 w-3 shrink-0 animate-spin text-sidebar-foreground/60" />
+        ) : session.forkedFrom ? (
+          <GitBranch className="h-3 w-3 shrink-0 text-sidebar-foreground/50" />
         ) : (
           <MessageSquare className="h-3 w-3 shrink-0 text-sidebar-foreground/50" />
         )}
         {session.titleGenerating ? (
           <span className="text-sidebar-foreground/60 italic">Generating title...</span>
+        ) : session.forkedFrom ? (
+          <span className="flex min-w-0 flex-col">
+            <span className="truncate">{session.title}</span>
+            <span className="truncate text-[11px] text-sidebar-foreground/40">
+              Forked from {forkParentTitle ?? session.forkedFrom.title}
+            </span>
+          </span>
         ) : (
           <span className="min-w-0 truncate">{session.title}</span>
         )}
@@ -109,6 +127,17 @@ export function SessionItem({
               <Pencil className="me-2 h-3.5 w-3.5" />
               Rename
             </DropdownMenuItem>
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>
+                <Download className="me-2 h-3.5 w-3.5" />
+                Export
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent className="w-40">
+                <DropdownMenuItem onClick={() => onExport("markdown")}>Markdown</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onExport("html")}>HTML</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onExport("bundle")}>Session bundle (JSON)</DropdownMenuItem>
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
             <DropdownMenuItem
               className="text-destructive focus:text-destructive"
               onClick={onDelete}
@@ -0,0 +1,32 @@
+import { useEffect, useRef } from "react";
+import { useAgentTerminalOutput } from "@/hooks/useAgentTerminals";
+
+// CSI/OSC escape sequences and carriage returns — the card shows plain text, ToolsPanel has the real terminal
+const ANSI_PATTERN = /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-_]|\r/g;
+
+/**
+ * Live output of the ACP client terminal a tool call runs in.
+ * Renders `fallback` (the tool result) once the terminal is gone.
+ */
+export function AgentTerminalOutput({ terminalId, fallback }: { terminalId: string; fallback: React.ReactNode }) {
+  const { output, exited, available } = useAgentTerminalOutput(terminalId);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const text = output.replace(ANSI_PATTERN, "");
+
+  // Follow the tail while the command is running
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el && !exited) el.scrollTop = el.scrollHeight;
+  }, [text, exited]);
+
+  if (!available || (!text && exited)) return <>{fallback}</>;
+
+  return (
+    <div
+      ref={scrollRef}
+      className="max-h-48 overflow-auto rounded-md bg-foreground/[0.03] px-3 py-2 font-mono text-[11px] text-foreground/50 whitespace-pre-wrap wrap-break-word"
+    >
+      {text || <span className="text-foreground/30">Waiting for output...</span>}
+    </div>
+  );
+}
@@ -5,10 +5,12 @@ import type { UIMessage } from "@/types";
 import { INLINE_HIGHLIGHT_STYLE, INLINE_CODE_TAG_STYLE } from "@/lib/languages";
 import { useResolvedThemeClass } from "@/hooks/useResolvedThemeClass";
 import { formatBashResult } from "@/components/lib/tool-formatting";
+import { AgentTerminalOutput } from "./AgentTerminalOutput";
 
 export function BashContent({ message }: { message: UIMessage }) {
   const command = message.toolInput?.command;
   const result = message.toolResult;
+  const terminalId = typeof message.toolInput?.terminalId === "string" ? message.toolInput.terminalId : undefined;
   const resolvedTheme = useResolvedThemeClass();
   const syntaxStyle = resolvedTheme === "dark" ? oneDark : oneLight;
 
@@ -29,11 +31,19 @@ export function BashContent({ message }: { message: UIMessage }) {
           </SyntaxHighlighter>
         </div>
       )}
-      {result && (
-        <div className="max-h-48 overflow-auto rounded-md bg-foreground/[0.03] px-3 py-2 font-mono text-[11px] text-foreground/50 whitespace-pre-wrap wrap-break-word">
-          {formatBashResult(result)}
-        </div>
+      {terminalId ? (
+        <AgentTerminalOutput terminalId={terminalId} fallback={result && <BashResult result={result} />} />
+      ) : (
+        result && <BashResult result={result} />
       )}
     </div>
   );
 }
+
+function BashResult({ result }: { result: NonNullable<UIMessage["toolResult"]> }) {
+  return (
+    <div className="max-h-48 overflow-auto rounded-md bg-foreground/[0.03] px-3 py-2 font-mono text-[11px] text-foreground/50 whitespace-pre-wrap wrap-break-word">
+      {formatBashResult(result)}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { useEffect, useState } from "react";
+import { FileCode, Loader2 } from "lucide-react";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { UIMessage } from "@/types";
+import type { CodexReviewFinding, CodexReviewOutput, CodexReviewTarget } from "@/types/codex";
+import { extractResultText } from "@/components/lib/tool-formatting";
+import { reviewTargetDiffBase } from "@/lib/codex-adapter";
+import { DiffViewer } from "../DiffViewer";
+
+const REMARK_PLUGINS = [remarkGfm];
+
+const PRIORITY_CLASS = [
+  "bg-red-500/15 text-red-600 dark:text-red-400",
+  "bg-orange-500/15 text-orange-600 dark:text-orange-400",
+  "bg-amber-500/15 text-amber-600 dark:text-amber-400",
+  "bg-foreground/[0.06] text-foreground/50",
+];
+
+/** Keep the last few path segments — absolute paths are too long for a card. */
+function shortPath(filePath: string): string {
+  const parts = filePath.split("/");
+  return parts.length > 3 ? `…/${parts.slice(-3).join("/")}` : filePath;
+}
+
+function lineLabel({ start, end }: { start: number; end: number }): string {
+  return end > start ? `${start}-${end}` : String(start);
+}
+
+// ── Finding → diff dialog ──
+
+function FindingDiffDialog({
+  finding,
+  target,
+  onClose,
+}: {
+  finding: CodexReviewFinding | null;
+  target: CodexReviewTarget | undefined;
+  onClose: () => void;
+}) {
+  const [diff, setDiff] = useState<{ text?: string; error?: string } | null>(null);
+  const filePath = finding?.code_location.absolute_file_path ?? "";
+  const range = finding?.code_location.line_range;
+
+  useEffect(() => {
+    if (!filePath) return;
+    let cancelled = false;
+    setDiff(null);
+    const dir = filePath.slice(0, filePath.lastIndexOf("/")) || "/";
+    window.claude.git
+      .diffFile(dir, filePath, false, reviewTargetDiffBase(target))
+      .then((result) => {
+        if (!cancelled) setDiff({ text: result.diff, error: result.error });
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setDiff({ error: err instanceof Error ? err.message : String(err) });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [filePath, target]);
+
+  return (
+    <Dialog open={!!finding} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="flex h-[80vh] flex-col sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="text-sm">{finding?.title}</DialogTitle>
+          <DialogDescription className="font-mono text-xs">
+            {filePath}{range ? `:${lineLabel(range)}` : ""}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="min-h-0 flex-1">
+          {!diff ? (
+            <div className="flex h-full items-center justify-center">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground/50" />
+            </div>
+          ) : diff.text ? (
+            <DiffViewer
+              oldString=""
+              newString=""
+              filePath={filePath}
+              unifiedDiff={diff.text}
+              focusRange={range}
+              fillHeight
+            />
+          ) : (
+            <div className="flex h-full items-center justify-center text-sm text-muted-foreground/60">
+              {diff.error ?? "No changes to this file in the reviewed code"}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ── Review card ──
+
+function FindingRow({ finding, onOpen }: { finding: CodexReviewFinding; onOpen: () => void }) {
+  const { absolute_file_path: filePath, line_range: range } = finding.code_location;
+  // Codex usually prefixes titles with "[P1]" itself — only add a badge when it doesn't
+  const hasPriorityTag = /^\[P\d\]/.test(finding.title);
+
+  return (
+    <li className="space-y-1 px-3 py-2.5">
+      <div className="flex items-start gap-2">
+        {!hasPriorityTag && (
+          <span className={`mt-px shrink-0 rounded px-1 text-[10px] font-semibold ${PRIORITY_CLASS[finding.priority] ?? PRIORITY_CLASS[3]}`}>
+            P{finding.priority}
+          </span>
+        )}
+        <span className="text-[12.5px] font-medium text-foreground/85">{finding.title}</span>
+      </div>
+      <button
+        type="button"
+        onClick={onOpen}
+        className="flex items-center gap-1 font-mono text-[11px] text-sky-600 hover:underline dark:text-sky-400 cursor-pointer"
+        title={`${filePath}:${lineLabel(range)}`}
+      >
+        <FileCode className="h-3 w-3 shrink-0" />
+        {shortPath(filePath)}:{lineLabel(range)}
+      </button>
+      <div className="prose prose-sm dark:prose-invert max-w-none text-[12px] text-foreground/70">
+        <ReactMarkdown remarkPlugins={REMARK_PLUGINS}>{finding.body}</ReactMarkdown>
+      </div>
+    </li>
+  );
+}
+
+export function CodexReviewContent({ message }: { message: UIMessage }) {
+  const [openFinding, setOpenFinding] = useState<CodexReviewFinding | null>(null);
+  const output = message.toolResult?.structuredContent as CodexReviewOutput | undefined;
+  const target = message.toolInput?.target as CodexReviewTarget | undefined;
+  const text = message.toolResult ? extractResultText(message.toolResult) : "";
+
+  if (!output) {
+    return (
+      <div className="rounded-lg border border-border/50 px-4 py-3 prose prose-sm dark:prose-invert max-w-none text-[12.5px] text-foreground/80">
+        <ReactMarkdown remarkPlugins={REMARK_PLUGINS}>{text || "Review in progress..."}</ReactMarkdown>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border border-border/50 overflow-hidden">
+      <div className="space-y-1 px-3 py-2.5 bg-foreground/[0.03] border-b border-border/40">
+        <p className="text-[12px] font-medium text-foreground/80 first-letter:uppercase">{output.overall_correctness}</p>
+        {output.overall_explanation && (
+          <p className="text-[12px] text-foreground/60">{output.overall_explanation}</p>
+        )}
+      </div>
+      {output.findings.length === 0 ? (
+        <p className="px-3 py-2.5 text-[12px] text-foreground/50">No issues found.</p>
+      ) : (
+        <ul className="divide-y divide-border/40">
+          {output.findings.map((finding, i) => (
+            <FindingRow key={i} finding={finding} onOpen={() => setOpenFinding(finding)} />
+          ))}
+        </ul>
+      )}
+      <FindingDiffDialog finding={openFinding} target={target} onClose={() => setOpenFinding(null)} />
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
-import type { ChatSession, UIMessage, SessionInfo, PermissionRequest, ImageAttachment, McpServerStatus, ModelInfo, AcpPermissionBehavior, EngineId, Project } from "../../types";
+import type { ChatSession, UIMessage, SessionInfo, ACPPromptContext, PermissionRequest, ImageAttachment, McpServerStatus, ModelInfo, AcpPermissionBehavior, EngineId, Project } from "../../types";
 import type { ACPConfigOption, ACPPermissionEvent } from "../../types/acp";
 import type { BackgroundSessionStore } from "../../lib/background-session-store";
 import { permissionModeToCodexPolicy } from "../../lib/codex-adapter";
 import type { CollaborationMode } from "../../types/codex-protocol/CollaborationMode";
+import type { CodexSandboxSettings } from "../../types/codex";
 
 export const DRAFT_ID = "__draft__";
 export const DEFAULT_PERMISSION_MODE = "default";
@@ -12,10 +13,14 @@ export interface StartOptions {
   permissionMode?: string;
   planMode?: boolean;
   thinkingEnabled?: boolean;
+  /** Codex sandbox override — unset/null follows Codex's config */
+  codexSandbox?: CodexSandboxSettings | null;
   engine?: EngineId;
   agentId?: string;
   /** Cached config options from previous sessions — shown before session starts */
   cachedConfigOptions?: ACPConfigOption[];
+  /** Recap of an imported session, prepended to the first prompt of the new engine session */
+  seedContext?: string;
 }
 
 export interface CodexModelSummary {
@@ -38,6 +43,8 @@ export interface QueuedMessage {
   text: string;
   images?: ImageAttachment[];
   displayText?: string;
+  /** @-mentions of the message, for ACP prompts */
+  context?: ACPPromptContext;
   /** ID of the UIMessage already shown in chat with isQueued: true */
   messageId: string;
 }
@@ -310,6 +310,8 @@ export function useDraftMaterialization({
           cwd: getProjectCwd(project),
           ...(draftModel ? { model: draftModel } : {}),
           ...(approvalPolicy ? { approvalPolicy } : {}),
+          ...(options.codexSandbox ? { sandbox: options.codexSandbox } : {}),
+          mcpServers,
         });
 
         if (result.error || !result.sessionId) {
@@ -463,7 +465,7 @@ export function useDraftMaterialization({
       setTimeout(() => { claude.refreshMcpStatus(); }, 500);
 
       // Fire-and-forget AI title generation — routes through ACP if that's the active engine
-      generateSessionTitle(sessionId, text, getProjectCwd(project), draftEngine);
+      generateSessionTitle(sessionId, displayText ?? text, getProjectCwd(project), draftEngine);
 
       materializingRef.current = false;
       return sessionId;
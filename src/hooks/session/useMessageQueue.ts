@@ -1,5 +1,5 @@
 import { useCallback, useEffect } from "react";
-import type { ImageAttachment } from "../../types";
+import type { ACPPromptContext, ImageAttachment } from "../../types";
 import type { CollaborationMode } from "../../types/codex-protocol/CollaborationMode";
 import { imageAttachmentsToCodexInputs } from "../../lib/codex-adapter";
 import { buildSdkContent } from "../../lib/protocol";
@@ -25,9 +25,9 @@ export function useMessageQueue({ refs, setters, engines }: UseMessageQueueParam
   } = refs;
 
   /** Add a message to the queue and show it in chat immediately with isQueued styling */
-  const enqueueMessage = useCallback((text: string, images?: ImageAttachment[], displayText?: string) => {
+  const enqueueMessage = useCallback((text: string, images?: ImageAttachment[], displayText?: string, context?: ACPPromptContext) => {
     const msgId = `user-queued-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
-    messageQueueRef.current.push({ text, images, displayText, messageId: msgId });
+    messageQueueRef.current.push({ text, images, displayText, context, messageId: msgId });
     setQueuedCount(messageQueueRef.current.length);
     engine.setMessages((prev) => [
       ...prev,
@@ -94,7 +94,7 @@ export function useMessageQueue({ refs, setters, engines }: UseMessageQueueParam
 
     if (sessionEngine === "acp") {
       acp.setIsProcessing(true);
-      window.claude.acp.prompt(activeId, next.text, next.images).then((result) => {
+      window.claude.acp.prompt(activeId, next.text, next.images, next.context).then((result) => {
         if (result?.error) handleSendError();
       }).catch(handleSendError);
     } else if (sessionEngine === "codex") {
@@ -1,16 +1,19 @@
 import { useCallback, useEffect } from "react";
 import { toast } from "sonner";
-import type { UIMessage, ChatSession, ImageAttachment, McpServerConfig, Project } from "../../types";
+import type { UIMessage, ChatSession, ImageAttachment, ACPPromptContext, McpServerConfig, Project, SessionForkInfo } from "../../types";
 import type { ACPConfigOption } from "../../types/acp";
 import type { CollaborationMode } from "../../types/codex-protocol/CollaborationMode";
-import { imageAttachmentsToCodexInputs } from "../../lib/codex-adapter";
+import type { CodexReviewTarget, CodexSandboxSettings } from "../../types/codex";
+import { codexThreadToMessages, imageAttachmentsToCodexInputs } from "../../lib/codex-adapter";
 import { buildSdkContent } from "../../lib/protocol";
 import { toMcpStatusState } from "../../lib/mcp-utils";
 import { bgAgentStore } from "../../lib/background-agent-store";
+import { buildForkSeed } from "../../lib/session-export";
 import {
   DRAFT_ID,
   DEFAULT_PERMISSION_MODE,
   getEffectiveClaudePermissionMode,
+  getCodexApprovalPolicy,
   buildCodexCollabMode,
 } from "./types";
 import type { SharedSessionRefs, SharedSessionSetters, EngineHooks, StartOptions } from "./types";
@@ -35,10 +38,10 @@ interface UseSessionLifecycleParams {
   materializeDraft: (text: string, images?: ImageAttachment[], displayText?: string) => Promise<string>;
   // From revival
   reviveSession: (text: string, images?: ImageAttachment[], displayText?: string) => Promise<void>;
-  reviveAcpSession: (text: string, images?: ImageAttachment[], displayText?: string) => Promise<void>;
+  reviveAcpSession: (text: string, images?: ImageAttachment[], displayText?: string, context?: ACPPromptContext) => Promise<void>;
   reviveCodexSession: (text: string, images?: ImageAttachment[]) => Promise<void>;
   // From message queue
-  enqueueMessage: (text: string, images?: ImageAttachment[], displayText?: string) => void;
+  enqueueMessage: (text: string, images?: ImageAttachment[], displayText?: string, context?: ACPPromptContext) => void;
   clearQueue: () => void;
   // Codex effort helpers
   resetCodexEffortToModelDefault: (effort: string | undefined) => void;
@@ -122,6 +125,7 @@ export function useSessionLifecycle({
         isActive: false,
         engine: s.engine,
         codexThreadId: s.codexThreadId,
+        forkedFrom: s.forkedFrom,
       }));
       setSessions(all);
     }).catch(() => { /* IPC failure — leave sessions empty */ });
@@ -214,8 +218,8 @@ export function useSessionLifecycle({
         // ACP: no eager session — probe servers ourselves for preliminary status
         probeMcpServers(projectId);
       } else {
-        // Codex: no eager start; prefetch model list for the picker.
-        setDraftMcpStatuses([]);
+        // Codex: no eager start — probe servers for preliminary status and prefetch the model list
+        probeMcpServers(projectId);
         prefetchCodexModels(options?.model);
       }
     },
@@ -292,6 +296,9 @@ export function useSessionLifecycle({
               ...(data.agentId ? { agentId: data.agentId } : {}),
               ...(data.agentSessionId ? { agentSessionId: data.agentSessionId } : {}),
               ...(data.codexThreadId ? { codexThreadId: data.codexThreadId } : {}),
+              ...(data.importedFrom ? { importedFrom: data.importedFrom } : {}),
+              ...(data.readOnly ? { readOnly: true } : {}),
+              ...(data.forkedFrom ? { forkedFrom: data.forkedFrom } : {}),
             } : {}),
           })),
         );
@@ -321,6 +328,12 @@ export function useSessionLifecycle({
       bgAgentStore.clearSession(id);
       // Dismiss any permission toast for this session
       toast.dismiss(`permission-${id}`);
+      if (session.engine === "codex") {
+        const threadId = session.codexThreadId
+          ?? (await window.claude.sessions.load(session.projectId, id).catch(() => null))?.codexThreadId;
+        const project = findProject(session.projectId);
+        if (threadId && project) void window.claude.codex.dropSnapshots(getProjectCwd(project), threadId);
+      }
       await window.claude.sessions.delete(session.projectId, id);
       if (activeSessionIdRef.current === id) {
         clearQueue();
@@ -332,7 +345,7 @@ export function useSessionLifecycle({
       }
       setSessions((prev) => prev.filter((s) => s.id !== id));
     },
-    [clearQueue],
+    [clearQueue, findProject, getProjectCwd],
   );
 
   const renameSession = useCallback((id: string, title: string) => {
@@ -415,6 +428,107 @@ export function useSessionLifecycle({
     [findProject, saveCurrentSession, seedBackgroundStore, switchSession],
   );
 
+  /**
+   * Import a Codex CLI thread as a Harnss session. The transcript is rebuilt
+   * from `thread/read`; the session stays dead until the next send, which
+   * resumes the same thread through the usual revival path.
+   */
+  const importCodexThread = useCallback(
+    async (projectId: string, threadId: string) => {
+      const project = findProject(projectId);
+      if (!project) return;
+
+      // Already imported (or started here) — just switch to it
+      const existing = sessionsRef.current.find((s) => s.codexThreadId === threadId);
+      if (existing) {
+        await switchSession(existing.id);
+        return;
+      }
+
+      const result = await window.claude.codex.readThread(threadId);
+      if (result.error || !result.thread) {
+        toast.error("Import failed", { description: result.error ?? "Codex thread not found" });
+        return;
+      }
+
+      await saveCurrentSession();
+      seedBackgroundStore();
+
+      const { thread } = result;
+      const messages = codexThreadToMessages(thread);
+      const titleText = thread.name || thread.preview || "Imported Codex thread";
+      const newSession: ChatSession = {
+        id: crypto.randomUUID(),
+        projectId: project.id,
+        title: titleText.length > 60 ? titleText.slice(0, 57) + "..." : titleText,
+        createdAt: thread.createdAt * 1000,
+        lastMessageAt: thread.updatedAt * 1000,
+        totalCost: 0,
+        isActive: true,
+        engine: "codex",
+        codexThreadId: thread.id,
+      };
+
+      await window.claude.sessions.save({
+        id: newSession.id,
+        projectId: project.id,
+        title: newSession.title,
+        createdAt: newSession.createdAt,
+        messages,
+        totalCost: 0,
+        engine: "codex",
+        codexThreadId: thread.id,
+      });
+
+      setSessions((prev) => [
+        newSession,
+        ...prev.filter((s) => s.id !== DRAFT_ID).map((s) => ({ ...s, isActive: false })),
+      ]);
+      setInitialMessages(messages);
+      setInitialMeta(null);
+      setActiveSessionId(newSession.id);
+      setDraftProjectId(null);
+    },
+    [findProject, saveCurrentSession, seedBackgroundStore, switchSession],
+  );
+
+  /** Import a session bundle into a project and open it. Returns false on failure or cancel. */
+  const importSessionBundle = useCallback(
+    async (projectId: string): Promise<boolean> => {
+      const project = findProject(projectId);
+      if (!project) return false;
+
+      const result = await window.claude.sessions.importBundle(project.id, getProjectCwd(project));
+      if (result.cancelled) return false;
+      if (result.error || !result.session) {
+        toast.error("Import failed", { description: result.error });
+        return false;
+      }
+
+      await saveCurrentSession();
+      seedBackgroundStore();
+
+      const { messages, ...imported } = result.session;
+      const newSession: ChatSession = {
+        ...imported,
+        lastMessageAt: imported.lastMessageAt ?? imported.createdAt,
+        isActive: true,
+      };
+      setSessions((prev) => [
+        newSession,
+        ...prev.filter((s) => s.id !== DRAFT_ID).map((s) => ({ ...s, isActive: false })),
+      ]);
+      setInitialMessages(messages);
+      setInitialMeta(null);
+      setInitialPermission(null);
+      setInitialRawAcpPermission(null);
+      setActiveSessionId(newSession.id);
+      setDraftProjectId(null);
+      return true;
+    },
+    [findProject, saveCurrentSession, seedBackgroundStore],
+  );
+
   const setDraftAgent = useCallback((draftEngine: string, agentId: string, cachedConfigOptions?: ACPConfigOption[], model?: string) => {
     if (draftEngine !== "claude" && preStartedSessionIdRef.current) {
       // Switching away from Claude draft should immediately close the eager Claude session.
@@ -593,6 +707,23 @@ export function useSessionLifecycle({
     // startOptions is already updated above, so the next send() will pick it up.
   }, [engine.setPermissionMode]);
 
+  /** Resolves false when the live session refused the change and kept its previous sandbox. */
+  const setActiveCodexSandbox = useCallback(async (codexSandbox: CodexSandboxSettings | null): Promise<boolean> => {
+    const id = activeSessionIdRef.current;
+    const previous = startOptionsRef.current.codexSandbox;
+    setStartOptions((prev) => ({ ...prev, codexSandbox }));
+    if (!id || !liveSessionIdsRef.current.has(id)) return true;
+
+    const sessionEngine = sessionsRef.current.find((s) => s.id === id)?.engine ?? "claude";
+    if (sessionEngine !== "codex") return true;
+    // Sent as the turn-level sandbox policy from the next turn on
+    const result = await window.claude.codex.setSandbox(id, codexSandbox);
+    if (!result.error) return true;
+    setStartOptions((prev) => ({ ...prev, codexSandbox: previous }));
+    toast.error("Failed to change sandbox", { description: result.error });
+    return false;
+  }, []);
+
   const setActiveThinking = useCallback((thinkingEnabled: boolean) => {
     const id = activeSessionIdRef.current;
     if (!id) return;
@@ -686,6 +817,76 @@ export function useSessionLifecycle({
     setActiveSessionId(newId);
   }, [findProject]);
 
+  // Update MCP servers for the active Codex session. Codex only reads MCP config at
+  // thread start, so the app-server is restarted and the same thread resumed.
+  const restartCodexSession = useCallback(async (servers: McpServerConfig[]) => {
+    const currentId = activeSessionIdRef.current;
+    if (!currentId || currentId === DRAFT_ID) return;
+    // Dead sessions pick up the new servers when they're revived on the next send
+    if (!liveSessionIdsRef.current.has(currentId)) return;
+
+    const session = sessionsRef.current.find(s => s.id === currentId);
+    const project = session ? findProject(session.projectId) : null;
+    if (!session || !project || !session.codexThreadId) return;
+    if (isProcessingRef.current) {
+      toast.error("Can't update MCP servers", { description: "Wait for the current turn to finish." });
+      return;
+    }
+
+    setAcpMcpStatuses(servers.map(s => ({ name: s.name, status: "pending" as const })));
+    const currentMessages = messagesRef.current;
+    const currentCost = totalCostRef.current;
+
+    await window.claude.codex.stop(currentId);
+    liveSessionIdsRef.current.delete(currentId);
+    backgroundStoreRef.current.delete(currentId);
+
+    const result = await window.claude.codex.resume({
+      cwd: getProjectCwd(project),
+      threadId: session.codexThreadId,
+      model: session.model,
+      approvalPolicy: getCodexApprovalPolicy(startOptionsRef.current),
+      sandbox: startOptionsRef.current.codexSandbox ?? undefined,
+      mcpServers: servers,
+    });
+    if (result.error || !result.sessionId) {
+      // Session ID hasn't changed, so append the error directly (no reset effect)
+      codex.setMessages(prev => [...prev, {
+        id: `system-error-${Date.now()}`,
+        role: "system" as const,
+        content: result.error || "Failed to restart Codex session",
+        isError: true,
+        timestamp: Date.now(),
+      }]);
+      setAcpMcpStatuses([]);
+      return;
+    }
+
+    const newId = result.sessionId;
+    liveSessionIdsRef.current.add(newId);
+    setSessions(prev => prev.map(s =>
+      s.id === currentId ? { ...s, id: newId, codexThreadId: result.threadId ?? s.codexThreadId } : s
+    ));
+    setInitialMessages(currentMessages);
+    setInitialMeta({ isProcessing: false, isConnected: true, sessionInfo: null, totalCost: currentCost });
+    setActiveSessionId(newId);
+  }, [findProject]);
+
+  // Run a Codex code review as a turn on the active thread.
+  const startCodexReview = useCallback(async (target: CodexReviewTarget) => {
+    const currentId = activeSessionIdRef.current;
+    if (!currentId || currentId === DRAFT_ID) return;
+    if (!liveSessionIdsRef.current.has(currentId)) {
+      toast.error("Review unavailable", { description: "Send a message to reconnect this Codex session first." });
+      return;
+    }
+    if (isProcessingRef.current) {
+      toast.error("Review unavailable", { description: "Wait for the current turn to finish." });
+      return;
+    }
+    await codex.startReview(target);
+  }, [codex.startReview]);
+
   // Full revert: rewind files + fork a new SDK session truncated to the checkpoint.
   const fullRevertSession = useCallback(async (checkpointId: string) => {
     const currentId = activeSessionIdRef.current;
@@ -789,13 +990,203 @@ export function useSessionLifecycle({
     }
   }, [findProject, claude.flushNow, claude.resetStreaming, claude.setMessages]);
 
+  /**
+   * Codex full revert: roll the thread back to before the message, then restore
+   * the working-tree snapshot taken when it was sent. The session keeps its id —
+   * rollback edits the thread in place, unlike Claude's fork-and-replace.
+   */
+  const fullRevertCodexSession = useCallback(async (checkpointId: string) => {
+    const currentId = activeSessionIdRef.current;
+    if (!currentId || currentId === DRAFT_ID) return;
+
+    const currentMessages = messagesRef.current;
+    const checkpointIdx = currentMessages.findIndex(
+      (m) => m.role === "user" && m.checkpointId === checkpointId,
+    );
+    if (checkpointIdx < 0) return;
+    // Steered input joined an existing turn, so it doesn't count as one
+    const numTurns = currentMessages.slice(checkpointIdx).filter((m) => m.role === "user" && !m.isQueued && !m.isSteer).length;
+
+    const rollbackResult = await window.claude.codex.rollback(currentId, numTurns);
+    if (rollbackResult.error) {
+      codex.setMessages((prev) => [...prev, {
+        id: `system-revert-err-${Date.now()}`,
+        role: "system" as const,
+        content: `Full revert failed: ${rollbackResult.error}`,
+        isError: true,
+        timestamp: Date.now(),
+      }]);
+      return;
+    }
+
+    const revertResult = await window.claude.codex.revertFiles(currentId, checkpointId);
+    const systemMsg: UIMessage = revertResult.error
+      ? {
+          id: `system-revert-err-${Date.now()}`,
+          role: "system" as const,
+          content: `Chat history truncated, but file revert failed: ${revertResult.error}`,
+          isError: true,
+          timestamp: Date.now(),
+        }
+      : {
+          id: `system-revert-${Date.now()}`,
+          role: "system" as const,
+          content: "Session reverted: files restored and chat history truncated.",
+          timestamp: Date.now(),
+        };
+    clearQueue();
+    codex.setMessages([...currentMessages.slice(0, checkpointIdx), systemMsg]);
+  }, [clearQueue, codex.setMessages]);
+
+  /**
+   * Branch the active session into a new one that keeps everything before the
+   * given user message. Claude forks the SDK session at the last assistant reply
+   * and Codex forks the thread then rolls it back; ACP agents can't branch, so
+   * they get a fresh agent session plus a recap sent with the first prompt.
+   */
+  const forkSession = useCallback(async (messageId: string) => {
+    const sourceId = activeSessionIdRef.current;
+    if (!sourceId || sourceId === DRAFT_ID) return;
+    const source = sessionsRef.current.find((s) => s.id === sourceId);
+    if (!source) return;
+    const project = findProject(source.projectId);
+    if (!project) return;
+
+    const currentMessages = messagesRef.current.filter((m) => !m.isQueued);
+    const forkIdx = currentMessages.findIndex((m) => m.id === messageId && m.role === "user");
+    if (forkIdx < 0) return;
+    const prefix = currentMessages.slice(0, forkIdx);
+    const sourceEngine = source.engine ?? "claude";
+    const cwd = getProjectCwd(project);
+    const mcpServers = await window.claude.mcp.list(source.projectId);
+
+    let newId: string | undefined;
+    let error: string | undefined;
+    let contextSeed: string | undefined;
+    let engineFields: Partial<ChatSession> = {};
+    let acpResult: Awaited<ReturnType<typeof window.claude.acp.reviveSession>> | undefined;
+
+    if (sourceEngine === "codex") {
+      const threadId = source.codexThreadId
+        ?? (await window.claude.sessions.load(source.projectId, sourceId))?.codexThreadId;
+      if (!threadId) {
+        error = "This Codex session has no thread to fork.";
+      } else {
+        // Every non-steer user message is one Codex turn — drop the fork point and all turns after it
+        const dropTurns = currentMessages.slice(forkIdx).filter((m) => m.role === "user" && !m.isSteer).length;
+        const result = await window.claude.codex.fork({
+          cwd,
+          threadId,
+          dropTurns,
+          model: source.model,
+          approvalPolicy: getCodexApprovalPolicy(startOptionsRef.current),
+          sandbox: startOptionsRef.current.codexSandbox ?? undefined,
+          mcpServers,
+        });
+        newId = result.sessionId;
+        error = result.error;
+        engineFields = { codexThreadId: result.threadId };
+      }
+    } else if (sourceEngine === "acp") {
+      if (!source.agentId) {
+        error = "This agent session has no agent to fork with.";
+      } else {
+        // session/load would restore the whole conversation, not the prefix — start fresh
+        acpResult = await window.claude.acp.reviveSession({ agentId: source.agentId, cwd, mcpServers });
+        newId = acpResult.sessionId;
+        error = acpResult.error;
+        engineFields = { agentId: source.agentId, agentSessionId: acpResult.agentSessionId };
+        if (prefix.length > 0) contextSeed = buildForkSeed(source.title, prefix);
+      }
+    } else {
+      // Resume at the last assistant reply before the fork point, when the SDK told us its id
+      const resumeAt = prefix.findLast((m) => m.role === "assistant" && m.sdkMessageId)?.sdkMessageId;
+      const result = await window.claude.start({
+        cwd,
+        model: source.model,
+        permissionMode: getEffectiveClaudePermissionMode(startOptionsRef.current),
+        thinkingEnabled: startOptionsRef.current.thinkingEnabled,
+        ...(resumeAt
+          ? { resume: source.agentSessionId ?? sourceId, forkSession: true, resumeSessionAt: resumeAt }
+          : {}),
+        mcpServers,
+      });
+      newId = result.sessionId;
+      error = result.error;
+      // Sessions saved before reply ids were tracked fall back to a recap
+      if (!resumeAt && prefix.length > 0) contextSeed = buildForkSeed(source.title, prefix);
+    }
+
+    if (error || !newId) {
+      toast.error("Fork failed", { description: error ?? "The engine did not start a new session." });
+      return;
+    }
+
+    clearQueue();
+    await saveCurrentSession();
+    seedBackgroundStore();
+    liveSessionIdsRef.current.add(newId);
+    acpAgentIdRef.current = sourceEngine === "acp" ? source.agentId ?? null : null;
+    acpAgentSessionIdRef.current = acpResult?.agentSessionId ?? null;
+
+    const now = Date.now();
+    const forkedFrom: SessionForkInfo = {
+      sessionId: sourceId,
+      messageId,
+      title: source.title,
+      forkedAt: now,
+      ...(contextSeed ? { contextSeed } : {}),
+    };
+    const newSession: ChatSession = {
+      id: newId,
+      projectId: source.projectId,
+      title: `${source.title} (fork)`,
+      createdAt: now,
+      lastMessageAt: now,
+      model: source.model,
+      totalCost: 0,
+      isActive: true,
+      engine: sourceEngine,
+      ...engineFields,
+      forkedFrom,
+    };
+    setSessions((prev) => [
+      newSession,
+      ...prev.filter((s) => s.id !== DRAFT_ID).map((s) => ({ ...s, isActive: false })),
+    ]);
+    setAcpMcpStatuses((acpResult?.mcpStatuses ?? []).map((s) => ({
+      name: s.name,
+      status: toMcpStatusState(s.status),
+    })));
+    setInitialMessages(prefix);
+    setInitialMeta({ isProcessing: false, isConnected: true, sessionInfo: null, totalCost: 0 });
+    setInitialConfigOptions(acpResult?.configOptions ?? []);
+    setInitialPermission(null);
+    setInitialRawAcpPermission(null);
+    setActiveSessionId(newId);
+    setDraftProjectId(null);
+
+    // Persist right away — auto-save skips sessions without messages (fork from the first prompt)
+    const { isActive: _isActive, lastMessageAt: _lastMessageAt, ...persisted } = newSession;
+    await window.claude.sessions.save({ ...persisted, messages: prefix });
+  }, [findProject, clearQueue, saveCurrentSession, seedBackgroundStore]);
+
   // The main send function
   const send = useCallback(
-    async (text: string, images?: ImageAttachment[], displayText?: string) => {
+    async (text: string, images?: ImageAttachment[], displayText?: string, context?: ACPPromptContext) => {
       const activeId = activeSessionIdRef.current;
       if (activeId === DRAFT_ID) {
         const draftEngine = startOptionsRef.current.engine ?? "claude";
 
+        // Continuing an imported session: the recap rides along with the first prompt only
+        const seedContext = startOptionsRef.current.seedContext;
+        if (seedContext) {
+          displayText = displayText ?? text;
+          text = `${seedContext}\n\n${text}`;
+          if (context) context = { ...context, text: `${seedContext}\n\n${context.text}` };
+          setStartOptions((prev) => ({ ...prev, seedContext: undefined }));
+        }
+
         if (draftEngine === "acp") {
           // Show user message + spinner immediately, before the potentially slow materializeDraft
           const userMsg: UIMessage = {
@@ -818,7 +1209,7 @@ export function useSessionLifecycle({
 
           // Session is live — send the prompt (user message already in UI)
           await new Promise((resolve) => setTimeout(resolve, 50));
-          const promptResult = await window.claude.acp.prompt(sessionId, text, images);
+          const promptResult = await window.claude.acp.prompt(sessionId, text, images, context);
           if (promptResult?.error) {
             acp.setMessages((prev) => [
               ...prev,
@@ -895,7 +1286,7 @@ export function useSessionLifecycle({
         }
 
         // Claude SDK path
-        const sessionId = await materializeDraft(text);
+        const sessionId = await materializeDraft(text, images, displayText);
         if (!sessionId) return;
         await new Promise((resolve) => setTimeout(resolve, 50));
 
@@ -937,21 +1328,32 @@ export function useSessionLifecycle({
 
       // Queue check: if engine is processing, enqueue instead of sending directly
       if (isProcessingRef.current && liveSessionIdsRef.current.has(activeId)) {
-        enqueueMessage(text, images, displayText);
+        enqueueMessage(text, images, displayText, context);
         return;
       }
 
+      // Forked session whose engine couldn't branch: the recap rides along with the first prompt only
+      const forkedFrom = sessionsRef.current.find((s) => s.id === activeId)?.forkedFrom;
+      if (forkedFrom?.contextSeed) {
+        displayText = displayText ?? text;
+        text = `${forkedFrom.contextSeed}\n\n${text}`;
+        if (context) context = { ...context, text: `${forkedFrom.contextSeed}\n\n${context.text}` };
+        setSessions((prev) => prev.map((s) =>
+          s.id === activeId ? { ...s, forkedFrom: { ...forkedFrom, contextSeed: undefined } } : s,
+        ));
+      }
+
       // Check engine of the active session
       const activeSessionEngine = sessionsRef.current.find(s => s.id === activeId)?.engine ?? "claude";
 
       if (activeSessionEngine === "acp") {
         // ACP sessions: send through ACP hook if live
         if (liveSessionIdsRef.current.has(activeId)) {
-          await acp.send(text, images, displayText);
+          await acp.send(text, images, displayText, context);
           return;
         }
         // ACP session dead (app restarted) — attempt revival via session/load
-        await reviveAcpSession(text, images, displayText);
+        await reviveAcpSession(text, images, displayText, context);
         return;
       }
 
@@ -1012,6 +1414,33 @@ export function useSessionLifecycle({
     ],
   );
 
+  /**
+   * Inject guidance into the running turn. Codex uses `turn/steer`, Claude streams
+   * the message into the live SDK query. ACP has no equivalent, so it queues —
+   * as does any steer that lands after the turn already ended.
+   */
+  const steer = useCallback(
+    async (text: string, images?: ImageAttachment[], displayText?: string, context?: ACPPromptContext) => {
+      const activeId = activeSessionIdRef.current;
+      if (!activeId || activeId === DRAFT_ID || !isProcessingRef.current || !liveSessionIdsRef.current.has(activeId)) {
+        await send(text, images, displayText, context);
+        return;
+      }
+
+      const activeSessionEngine = sessionsRef.current.find((s) => s.id === activeId)?.engine ?? "claude";
+      const steered = activeSessionEngine === "codex"
+        ? await codex.steer(text, images, displayText)
+        : activeSessionEngine === "claude"
+          ? await claude.steer(text, images, displayText)
+          : false;
+      if (steered) return;
+      // The turn may have finished while the steer was in flight — send normally then
+      if (isProcessingRef.current) enqueueMessage(text, images, displayText, context);
+      else await send(text, images, displayText, context);
+    },
+    [send, codex.steer, claude.steer, enqueueMessage],
+  );
+
   return {
     createSession,
     switchSession,
@@ -1019,13 +1448,21 @@ export function useSessionLifecycle({
     renameSession,
     deselectSession,
     importCCSession,
+    importCodexThread,
+    importSessionBundle,
     setDraftAgent,
     setActiveModel,
     setActivePermissionMode,
     setActivePlanMode,
+    setActiveCodexSandbox,
     setActiveThinking,
     restartAcpSession,
+    restartCodexSession,
     fullRevertSession,
+    fullRevertCodexSession,
+    forkSession,
+    startCodexReview,
     send,
+    steer,
   };
 }
@@ -3,7 +3,7 @@ import { toast } from "sonner";
 import type { UIMessage, PersistedSession, ClaudeEvent, SystemInitEvent, EngineId } from "../../types";
 import { toMcpStatusState } from "../../lib/mcp-utils";
 import type { ACPSessionEvent, ACPPermissionEvent, ACPTurnCompleteEvent } from "../../types/acp";
-import { normalizeToolInput as acpNormalizeToolInput, pickAutoResponseOption } from "../../lib/acp-adapter";
+import { pickAutoResponseOption, toPermissionRequest } from "../../lib/acp-adapter";
 import { DRAFT_ID } from "./types";
 import type { SharedSessionRefs, SharedSessionSetters, EngineHooks } from "./types";
 
@@ -120,6 +120,8 @@ export function useSessionPersistence({
             totalCost: bgState.totalCost,
             engine: session.engine,
             ...(session.engine === "codex" && session.codexThreadId ? { codexThreadId: session.codexThreadId } : {}),
+            ...(session.importedFrom ? { importedFrom: session.importedFrom } : {}),
+            ...(session.forkedFrom ? { forkedFrom: session.forkedFrom } : {}),
           });
         }
       }
@@ -187,22 +189,13 @@ export function useSessionPersistence({
       if (!sid || sid === activeSessionIdRef.current) return;
 
       // Auto-respond for background ACP sessions when behavior is configured
-      const autoOptionId = pickAutoResponseOption(data.options, acpPermissionBehaviorRef.current);
+      const autoOptionId = data.writeReview ? null : pickAutoResponseOption(data.options, acpPermissionBehaviorRef.current);
       if (autoOptionId) {
         window.claude.acp.respondPermission(sid, data.requestId, autoOptionId);
         return;
       }
 
-      backgroundStoreRef.current.setPermission(
-        sid,
-        {
-          requestId: data.requestId,
-          toolName: data.toolCall.title,
-          toolInput: acpNormalizeToolInput(data.toolCall.rawInput, data.toolCall.kind),
-          toolUseId: data.toolCall.toolCallId,
-        },
-        data,
-      );
+      backgroundStoreRef.current.setPermission(sid, toPermissionRequest(data), data);
     });
 
     // Route turn-complete for non-active ACP sessions to the background store
@@ -279,6 +272,9 @@ export function useSessionPersistence({
         ...(session.agentId ? { agentId: session.agentId } : {}),
         ...(session.agentSessionId ? { agentSessionId: session.agentSessionId } : {}),
         ...(session.engine === "codex" && session.codexThreadId ? { codexThreadId: session.codexThreadId } : {}),
+        ...(session.importedFrom ? { importedFrom: session.importedFrom } : {}),
+        ...(session.readOnly ? { readOnly: true } : {}),
+        ...(session.forkedFrom ? { forkedFrom: session.forkedFrom } : {}),
       };
       void persistSessionWithCodexFallback(data);
     }, 2000);
@@ -378,6 +374,9 @@ export function useSessionPersistence({
       ...(session.agentId ? { agentId: session.agentId } : {}),
       ...(session.agentSessionId ? { agentSessionId: session.agentSessionId } : {}),
       ...(session.engine === "codex" && session.codexThreadId ? { codexThreadId: session.codexThreadId } : {}),
+      ...(session.importedFrom ? { importedFrom: session.importedFrom } : {}),
+      ...(session.readOnly ? { readOnly: true } : {}),
+      ...(session.forkedFrom ? { forkedFrom: session.forkedFrom } : {}),
     };
     await persistSessionWithCodexFallback(data);
   }, [persistSessionWithCodexFallback]);
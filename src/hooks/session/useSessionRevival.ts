@@ -1,5 +1,5 @@
 import { useCallback } from "react";
-import type { ImageAttachment, Project } from "../../types";
+import type { ACPPromptContext, ImageAttachment, Project } from "../../types";
 import type { CollaborationMode } from "../../types/codex-protocol/CollaborationMode";
 import { toMcpStatusState } from "../../lib/mcp-utils";
 import { imageAttachmentsToCodexInputs } from "../../lib/codex-adapter";
@@ -49,7 +49,7 @@ export function useSessionRevival({
   } = refs;
 
   const reviveAcpSession = useCallback(
-    async (text: string, images?: ImageAttachment[], displayText?: string) => {
+    async (text: string, images?: ImageAttachment[], displayText?: string, context?: ACPPromptContext) => {
       const oldId = activeSessionIdRef.current;
       if (!oldId || oldId === DRAFT_ID) return;
       const session = sessionsRef.current.find((s) => s.id === oldId);
@@ -114,7 +114,7 @@ export function useSessionRevival({
         ...(displayText ? { displayContent: displayText } : {}),
       }]);
       acp.setIsProcessing(true);
-      const promptResult = await window.claude.acp.prompt(newId, text, images);
+      const promptResult = await window.claude.acp.prompt(newId, text, images, context);
       if (promptResult?.error) {
         acp.setMessages((prev) => [...prev, {
           id: `system-acp-error-${Date.now()}`,
@@ -158,11 +158,14 @@ export function useSessionRevival({
         return;
       }
 
+      const mcpServers = await window.claude.mcp.list(session.projectId);
       const result = await window.claude.codex.resume({
         cwd: getProjectCwd(project),
         threadId: codexThreadId,
         model: session.model,
         approvalPolicy: getCodexApprovalPolicy(startOptionsRef.current),
+        sandbox: startOptionsRef.current.codexSandbox ?? undefined,
+        mcpServers,
       });
 
       if (result.error || !result.sessionId) {
@@ -246,7 +249,10 @@ export function useSessionRevival({
         ...(session.model ? { model: session.model } : {}),
         permissionMode: getEffectiveClaudePermissionMode(startOptionsRef.current),
         thinkingEnabled: startOptionsRef.current.thinkingEnabled,
-        resume: oldId, // Resume the SDK session to restore conversation context
+        // Resume the SDK session to restore conversation context. Imported sessions
+        // point at the exporter's SDK session instead — fork it so the original stays untouched.
+        resume: session.agentSessionId ?? oldId,
+        ...(session.agentSessionId ? { forkSession: true } : {}),
       };
 
       let result;
@@ -281,14 +287,15 @@ export function useSessionRevival({
       const newSessionId = result.sessionId;
 
       if (newSessionId !== oldId) {
-        // SDK returned a different ID (shouldn't happen with resume, but handle it)
+        // SDK returned a different ID (forked import, or an unexpected resume result).
+        // From here on the session is its own SDK session — drop the fork source.
         liveSessionIdsRef.current.delete(oldId);
         liveSessionIdsRef.current.add(newSessionId);
 
         setSessions((prev) =>
           prev.map((s) =>
             s.id === oldId
-              ? { ...s, id: newSessionId, isActive: true }
+              ? { ...s, id: newSessionId, isActive: true, agentSessionId: undefined }
               : { ...s, isActive: false },
           ),
         );
@@ -298,6 +305,7 @@ export function useSessionRevival({
           await window.claude.sessions.save({
             ...oldData,
             id: newSessionId,
+            agentSessionId: undefined,
             messages: messagesRef.current,
             model: session.model ?? oldData.model,
           });
@@ -1,7 +1,7 @@
 import { useCallback, useEffect, useRef, useState } from "react";
-import type { ImageAttachment, AcpPermissionBehavior, AppPermissionBehavior, SessionMeta } from "@/types";
-import type { ACPSessionEvent, ACPPermissionEvent, ACPTurnCompleteEvent, ACPConfigOption } from "@/types/acp";
-import { ACPStreamingBuffer, normalizeToolInput, normalizeToolResult, deriveToolName, pickAutoResponseOption } from "@/lib/acp-adapter";
+import type { ImageAttachment, ACPPromptContext, AcpPermissionBehavior, AppPermissionBehavior, SessionMeta, SlashCommand } from "@/types";
+import type { ACPSessionEvent, ACPPermissionEvent, ACPTurnCompleteEvent, ACPConfigOption, ACPAvailableCommand, ACPSessionModeState } from "@/types/acp";
+import { ACPStreamingBuffer, normalizeToolInput, normalizeToolResult, deriveToolName, findTerminalId, pickAutoResponseOption, toPermissionRequest } from "@/lib/acp-adapter";
 import { useEngineBase } from "./useEngineBase";
 
 interface UseACPOptions {
@@ -22,6 +22,15 @@ function acpLog(label: string, data: unknown): void {
   window.claude.acp.log(label, data);
 }
 
+function toSlashCommands(commands: ACPAvailableCommand[]): SlashCommand[] {
+  return commands.map((c) => ({
+    name: c.name,
+    description: c.description || undefined,
+    argumentHint: c.input?.hint || undefined,
+    source: "acp",
+  }));
+}
+
 function nextAcpId(prefix: string): string {
   return `${prefix}-${crypto.randomUUID()}`;
 }
@@ -42,6 +51,8 @@ export function useACP({ sessionId, initialMessages, initialConfigOptions, initi
   } = base;
 
   const [configOptions, setConfigOptions] = useState<ACPConfigOption[]>(initialConfigOptions ?? []);
+  const [availableCommands, setAvailableCommands] = useState<SlashCommand[]>([]);
+  const [modes, setModes] = useState<ACPSessionModeState | null>(null);
 
   // Sync initialConfigOptions prop → state (useState ignores prop changes after mount)
   useEffect(() => {
@@ -60,6 +71,8 @@ export function useACP({ sessionId, initialMessages, initialConfigOptions, initi
   useEffect(() => {
     acpPermissionRef.current = initialRawAcpPermission ?? null;
     setConfigOptions(initialConfigOptions ?? []);
+    setAvailableCommands([]);
+    setModes(null);
     buffer.current.reset();
     cancelPendingFlush();
   }, [sessionId]); // eslint-disable-line react-hooks/exhaustive-deps
@@ -179,6 +192,7 @@ export function useACP({ sessionId, initialMessages, initialConfigOptions, initi
       // If the tool arrived completed, set toolResult immediately so it doesn't show as running.
       const isAlreadyDone = tc.status === "completed" || tc.status === "failed";
       const initialResult = isAlreadyDone ? normalizeToolResult(tc.rawOutput, tc.content) : undefined;
+      const terminalId = findTerminalId(tc.content);
       setMessages(prev => {
         if (prev.some(m => m.id === msgId)) return prev;
         return [...prev, {
@@ -186,7 +200,10 @@ export function useACP({ sessionId, initialMessages, initialConfigOptions, initi
           role: "tool_call" as const,
           content: "",
           toolName,
-          toolInput: normalizeToolInput(tc.rawInput, tc.kind, tc.locations),
+          toolInput: {
+            ...normalizeToolInput(tc.rawInput, tc.kind, tc.locations),
+            ...(terminalId ? { terminalId } : {}),
+          },
           ...(initialResult ? { toolResult: initialResult } : {}),
           ...(tc.status === "failed" ? { toolError: true } : {}),
           timestamp: Date.now(),
@@ -196,6 +213,7 @@ export function useACP({ sessionId, initialMessages, initialConfigOptions, initi
       const tcu = update as Extract<typeof update, { sessionUpdate: "tool_call_update" }>;
       const msgId = `tool-${tcu.toolCallId}`;
       const result = normalizeToolResult(tcu.rawOutput, tcu.content);
+      const terminalId = findTerminalId(tcu.content);
       acpLog("TOOL_RESULT", {
         toolCallId: tcu.toolCallId?.slice(0, 12),
         status: tcu.status,
@@ -206,6 +224,9 @@ export function useACP({ sessionId, initialMessages, initialConfigOptions, initi
         if (m.id !== msgId) return m;
         return {
           ...m,
+          ...(terminalId && m.toolInput?.terminalId !== terminalId
+            ? { toolInput: { ...m.toolInput, terminalId } }
+            : {}),
           toolResult: result ?? m.toolResult,
           toolError: tcu.status === "failed",
         };
@@ -214,6 +235,10 @@ export function useACP({ sessionId, initialMessages, initialConfigOptions, initi
       const cou = update as { sessionUpdate: "config_option_update"; configOptions: ACPConfigOption[] };
       acpLog("CONFIG_UPDATE", { optionCount: cou.configOptions?.length });
       setConfigOptions(cou.configOptions);
+    } else if (kind === "available_commands_update") {
+      const ac = update as Extract<typeof update, { sessionUpdate: "available_commands_update" }>;
+      acpLog("COMMANDS_UPDATE", { count: ac.availableCommands?.length });
+      setAvailableCommands(toSlashCommands(ac.availableCommands ?? []));
     } else if (kind === "usage_update") {
       const uu = update as Extract<typeof update, { sessionUpdate: "usage_update" }>;
       if (uu.size != null || uu.used != null) {
@@ -235,6 +260,7 @@ export function useACP({ sessionId, initialMessages, initialConfigOptions, initi
     } else if (kind === "current_mode_update") {
       const cm = update as Extract<typeof update, { sessionUpdate: "current_mode_update" }>;
       acpLog("MODE_UPDATE", { modeId: cm.currentModeId });
+      setModes(prev => (prev ? { ...prev, currentModeId: cm.currentModeId } : prev));
     } else if (kind === "plan") {
       const p = update as Extract<typeof update, { sessionUpdate: "plan" }>;
       acpLog("PLAN", { entryCount: p.entries?.length });
@@ -254,6 +280,12 @@ export function useACP({ sessionId, initialMessages, initialConfigOptions, initi
         setConfigOptions(result.configOptions as ACPConfigOption[]);
       }
     }).catch(() => { /* session may have been stopped */ });
+    window.claude.acp.getModes(sessionId).then(result => {
+      if (result?.modes) setModes(result.modes);
+    }).catch(() => { /* session may have been stopped */ });
+    window.claude.acp.getAvailableCommands(sessionId).then(result => {
+      if (result?.commands?.length) setAvailableCommands(toSlashCommands(result.commands));
+    }).catch(() => { /* session may have been stopped */ });
 
     const unsubEvent = window.claude.acp.onEvent(handleSessionUpdate);
 
@@ -269,8 +301,9 @@ export function useACP({ sessionId, initialMessages, initialConfigOptions, initi
         behavior,
       });
 
-      // Auto-respond if behavior is configured and a matching allow option exists
-      const autoOptionId = pickAutoResponseOption(data.options, behavior);
+      // Auto-respond if behavior is configured and a matching allow option exists.
+      // Held writes always wait for the user — reviewing them is the point.
+      const autoOptionId = data.writeReview ? null : pickAutoResponseOption(data.options, behavior);
       if (autoOptionId) {
         acpLog("PERMISSION_AUTO_RESPOND", {
           session: sessionIdRef.current?.slice(0, 8),
@@ -285,12 +318,7 @@ export function useACP({ sessionId, initialMessages, initialConfigOptions, initi
 
       // Fall through to manual prompt
       acpPermissionRef.current = data;
-      setPendingPermission({
-        requestId: data.requestId,
-        toolName: data.toolCall.title,
-        toolInput: normalizeToolInput(data.toolCall.rawInput, data.toolCall.kind),
-        toolUseId: data.toolCall.toolCallId,
-      });
+      setPendingPermission(toPermissionRequest(data));
     });
 
     const unsubTurnComplete = window.claude.acp.onTurnComplete((data: ACPTurnCompleteEvent) => {
@@ -328,7 +356,7 @@ export function useACP({ sessionId, initialMessages, initialConfigOptions, initi
     };
   }, [sessionId, handleSessionUpdate, finalizeStreamingMessage, closePendingTools]);
 
-  const send = useCallback(async (text: string, images?: ImageAttachment[], displayText?: string) => {
+  const send = useCallback(async (text: string, images?: ImageAttachment[], displayText?: string, context?: ACPPromptContext) => {
     if (!sessionId) return;
     acpLog("SEND", { session: sessionId.slice(0, 8), textLen: text.length, images: images?.length ?? 0 });
     setMessages(prev => [...prev, {
@@ -341,7 +369,7 @@ export function useACP({ sessionId, initialMessages, initialConfigOptions, initi
     }]);
     setIsProcessing(true);
     try {
-      const result = await window.claude.acp.prompt(sessionId, text, images);
+      const result = await window.claude.acp.prompt(sessionId, text, images, context);
       if (result?.error) {
         acpLog("SEND_ERROR", { session: sessionId.slice(0, 8), error: result.error });
         pushSystemError(`ACP prompt error: ${result.error}`);
@@ -403,7 +431,7 @@ export function useACP({ sessionId, initialMessages, initialConfigOptions, initi
 
   const respondPermission = useCallback(async (
     behavior: AppPermissionBehavior,
-    _updatedInput?: Record<string, unknown>,
+    updatedInput?: Record<string, unknown>,
     _newPermissionMode?: string,
   ) => {
     if (!sessionId || !pendingPermission || !acpPermissionRef.current) return;
@@ -420,8 +448,16 @@ export function useACP({ sessionId, initialMessages, initialConfigOptions, initi
       optionId,
     });
 
+    // Write reviews carry the user's edited content or rejection reason back to the agent
+    const review = acpData.writeReview
+      ? {
+          content: behavior === "allow" && typeof updatedInput?.content === "string" ? updatedInput.content : undefined,
+          message: behavior === "deny" && typeof updatedInput?.denyMessage === "string" ? updatedInput.denyMessage : undefined,
+        }
+      : undefined;
+
     if (optionId) {
-      await window.claude.acp.respondPermission(sessionId, acpData.requestId, optionId);
+      await window.claude.acp.respondPermission(sessionId, acpData.requestId, optionId, review);
     }
     setPendingPermission(null);
     acpPermissionRef.current = null;
@@ -436,6 +472,18 @@ export function useACP({ sessionId, initialMessages, initialConfigOptions, initi
     }
   }, [sessionId]);
 
+  const setMode = useCallback(async (modeId: string): Promise<{ error?: string }> => {
+    if (!sessionId) return {};
+    acpLog("MODE_SET", { session: sessionId.slice(0, 8), modeId });
+    const previous = modes?.currentModeId;
+    setModes(prev => (prev ? { ...prev, currentModeId: modeId } : prev));
+    const result = await window.claude.acp.setMode(sessionId, modeId);
+    if (result.error && previous) {
+      setModes(prev => (prev ? { ...prev, currentModeId: previous } : prev));
+    }
+    return result;
+  }, [sessionId, modes?.currentModeId]);
+
   const compact = useCallback(async () => { /* no-op for ACP */ }, []);
   const setPermissionMode = useCallback(async (_mode: string) => { /* no-op for ACP */ }, []);
 
@@ -450,5 +498,7 @@ export function useACP({ sessionId, initialMessages, initialConfigOptions, initi
     pendingPermission, respondPermission,
     setPermissionMode,
     configOptions, setConfigOptions, setConfig,
+    modes, setMode,
+    availableCommands,
   };
 }
@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from "react";
+import type { ACPAuthRequestEvent } from "@/types";
+
+/**
+ * Sign-in requests from ACP agents that answered `auth_required`. The agent's
+ * session start waits in the main process until the request is authenticated
+ * or cancelled. Requests are shown one at a time, oldest first.
+ */
+export function useAcpAuth() {
+  const [requests, setRequests] = useState<ACPAuthRequestEvent[]>([]);
+
+  const removeRequest = useCallback((requestId: string) => {
+    setRequests((prev) => prev.filter((r) => r.requestId !== requestId));
+  }, []);
+
+  useEffect(() => {
+    const unsubRequired = window.claude.acp.onAuthRequired((data) => {
+      setRequests((prev) => [...prev, data]);
+    });
+    const unsubDismissed = window.claude.acp.onAuthDismissed(({ requestId }) => removeRequest(requestId));
+    return () => {
+      unsubRequired();
+      unsubDismissed();
+    };
+  }, [removeRequest]);
+
+  const authenticate = useCallback(async (requestId: string, methodId: string) => {
+    const result = await window.claude.acp.authenticate(requestId, methodId);
+    if (result.ok) removeRequest(requestId);
+    return result;
+  }, [removeRequest]);
+
+  const cancel = useCallback(async (requestId: string) => {
+    removeRequest(requestId);
+    await window.claude.acp.cancelAuth(requestId);
+  }, [removeRequest]);
+
+  return { request: requests[0] ?? null, authenticate, cancel };
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from "react";
-import type { InstalledAgent } from "@/types";
+import type { InstalledAgent, RegistryAgent } from "@/types";
 
 export function useAgentRegistry() {
   const [agents, setAgents] = useState<InstalledAgent[]>([]);
@@ -23,5 +23,24 @@ export function useAgentRegistry() {
     return result;
   }, [refresh]);
 
-  return { agents, refresh, saveAgent, deleteAgent };
+  const installBinaryAgent = useCallback(async (agent: RegistryAgent) => {
+    const result = await window.claude.agents.installBinary(agent);
+    if (result.ok) await refresh();
+    return result;
+  }, [refresh]);
+
+  const rollbackAgent = useCallback(async (id: string) => {
+    const result = await window.claude.agents.rollback(id);
+    if (result.ok) await refresh();
+    return result;
+  }, [refresh]);
+
+  // The check re-runs `initialize`, which refreshes the agent's stored capabilities
+  const runHealthCheck = useCallback(async (id: string) => {
+    const result = await window.claude.acp.healthCheck(id);
+    await refresh();
+    return result;
+  }, [refresh]);
+
+  return { agents, refresh, saveAgent, deleteAgent, installBinaryAgent, rollbackAgent, runHealthCheck };
 }
@@ -1,31 +1,38 @@
 import { useState, useEffect, useCallback, useRef } from "react";
-import type { RegistryAgent, RegistryData } from "@/types";
-
-const REGISTRY_URL =
-  "https://cdn.agentclientprotocol.com/registry/v1/latest/registry.json";
-const CACHE_KEY = "harnss-agent-store-cache";
-const CACHE_TTL_MS = 15 * 60 * 1000; // 15 minutes
-
-interface CacheEntry {
-  data: RegistryData;
-  timestamp: number;
-}
+import type { RegistryAgent, RegistrySourceResult, SourcedRegistryAgent } from "@/types";
 
 export interface BinaryCheckResult {
   path: string;
   args?: string[];
 }
 
+/** Merge sources in priority order — an agent id listed by several sources keeps the first. */
+function mergeSources(sources: RegistrySourceResult[]): SourcedRegistryAgent[] {
+  const seen = new Set<string>();
+  const merged: SourcedRegistryAgent[] = [];
+  for (const source of sources) {
+    for (const agent of source.agents) {
+      if (seen.has(agent.id)) continue;
+      seen.add(agent.id);
+      merged.push({ ...agent, sourceId: source.sourceId, sourceLabel: source.label });
+    }
+  }
+  return merged;
+}
+
 /**
- * Fetches the ACP agent registry from the CDN.
- * Uses sessionStorage cache (15 min TTL) to avoid re-fetching on every settings open.
- * After registry loads, checks which binary-only agents are installed on the system PATH.
+ * Loads the agent store from every enabled registry source (Settings → ACP Agents → Sources).
+ * The main process caches each source for 15 min and on disk for offline use.
+ * After registry loads, checks which binary-only agents are installed on the system PATH
+ * (those are added as-is; the rest can be downloaded into the managed agents dir).
  */
 export function useAgentStore() {
-  const [registryAgents, setRegistryAgents] = useState<RegistryAgent[]>([]);
+  const [registryAgents, setRegistryAgents] = useState<SourcedRegistryAgent[]>([]);
+  const [sources, setSources] = useState<RegistrySourceResult[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [binaryPaths, setBinaryPaths] = useState<Record<string, BinaryCheckResult>>({});
+  const [platformKey, setPlatformKey] = useState<string | null>(null);
 
   // Track latest agents for the binary check effect to avoid stale closures
   const latestAgentsRef = useRef<RegistryAgent[]>([]);
@@ -57,41 +64,14 @@ export function useAgentStore() {
   }, []);
 
   const fetchRegistry = useCallback(async (force?: boolean) => {
-    // Check sessionStorage cache first (skip if force refresh)
-    if (!force) {
-      try {
-        const cached = sessionStorage.getItem(CACHE_KEY);
-        if (cached) {
-          const entry: CacheEntry = JSON.parse(cached);
-          if (Date.now() - entry.timestamp < CACHE_TTL_MS) {
-            setRegistryAgents(entry.data.agents);
-            setIsLoading(false);
-            return;
-          }
-        }
-      } catch {
-        /* ignore cache parse errors */
-      }
-    }
-
     setIsLoading(true);
     setError(null);
     try {
-      const res = await fetch(REGISTRY_URL);
-      if (!res.ok) throw new Error(`HTTP ${res.status}`);
-      const data: RegistryData = await res.json();
-      setRegistryAgents(data.agents);
-      // Persist to sessionStorage for cache
-      try {
-        sessionStorage.setItem(
-          CACHE_KEY,
-          JSON.stringify({ data, timestamp: Date.now() } satisfies CacheEntry),
-        );
-      } catch {
-        /* sessionStorage might be full or disabled */
-      }
+      const result = await window.claude.agents.fetchRegistries(force);
+      setSources(result.sources);
+      setRegistryAgents(mergeSources(result.sources));
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to fetch registry");
+      setError(err instanceof Error ? err.message : "Failed to load registries");
     } finally {
       setIsLoading(false);
     }
@@ -101,6 +81,10 @@ export function useAgentStore() {
     fetchRegistry();
   }, [fetchRegistry]);
 
+  useEffect(() => {
+    window.claude.agents.platformKey().then(setPlatformKey).catch(() => setPlatformKey(null));
+  }, []);
+
   // Run binary checks in the background after registry loads
   useEffect(() => {
     if (registryAgents.length > 0) {
@@ -110,10 +94,14 @@ export function useAgentStore() {
 
   return {
     registryAgents,
+    /** Per-source load results — errors, schema problems and offline-cache status */
+    sources,
     isLoading,
     error,
     /** Map of agent id → resolved binary path + args for agents found on the system. */
     binaryPaths,
+    /** Registry platform key for this machine — selects which binary archive can be downloaded */
+    platformKey,
     /** Re-fetch registry, bypassing cache */
     refresh: useCallback(() => fetchRegistry(true), [fetchRegistry]),
   };
@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useState } from "react";
+import type { TerminalTab } from "@/hooks/useSpaceTerminals";
+
+// Same tail the main process keeps when the agent sets no outputByteLimit
+const MAX_OUTPUT_CHARS = 1024 * 1024;
+
+/** Keep the last MAX_OUTPUT_CHARS, without starting on half a surrogate pair. */
+function capOutput(output: string): string {
+  if (output.length <= MAX_OUTPUT_CHARS) return output;
+  let start = output.length - MAX_OUTPUT_CHARS;
+  const code = output.charCodeAt(start);
+  if (code >= 0xdc00 && code <= 0xdfff) start++;
+  return output.slice(start);
+}
+
+/** A terminal an ACP agent created — read-only in ToolsPanel, owned by one session. */
+export interface AgentTerminalTab extends TerminalTab {
+  sessionId: string;
+  cwd: string;
+  exited: boolean;
+}
+
+/**
+ * Tracks terminals created by ACP agents (`terminal/create`) across all sessions.
+ * Tabs disappear when the user closes them or the owning session goes away.
+ */
+export function useAgentTerminals() {
+  const [tabs, setTabs] = useState<AgentTerminalTab[]>([]);
+
+  useEffect(() => {
+    const unsubCreated = window.claude.acp.onTerminal(({ _sessionId, terminalId, command, cwd }) => {
+      setTabs((prev) => [
+        ...prev,
+        { id: terminalId, terminalId, label: command, sessionId: _sessionId, cwd, exited: false },
+      ]);
+    });
+    const unsubExit = window.claude.terminal.onExit(({ terminalId }) => {
+      setTabs((prev) => (prev.some((t) => t.terminalId === terminalId)
+        ? prev.map((t) => (t.terminalId === terminalId ? { ...t, exited: true } : t))
+        : prev));
+    });
+    const unsubDisposed = window.claude.acp.onTerminalsDisposed(({ _sessionId }) => {
+      setTabs((prev) => (prev.some((t) => t.sessionId === _sessionId)
+        ? prev.filter((t) => t.sessionId !== _sessionId)
+        : prev));
+    });
+    return () => {
+      unsubCreated();
+      unsubExit();
+      unsubDisposed();
+    };
+  }, []);
+
+  const getSessionTabs = useCallback(
+    (sessionId: string | null | undefined) => (sessionId ? tabs.filter((t) => t.sessionId === sessionId) : []),
+    [tabs],
+  );
+
+  const closeTab = useCallback((tabId: string) => {
+    setTabs((prev) => prev.filter((t) => t.id !== tabId));
+  }, []);
+
+  return { getSessionTabs, closeTab };
+}
+
+/**
+ * Live output of an agent terminal: the buffered snapshot, then streamed chunks.
+ * `available` is false once the terminal is gone (session stopped, app restarted).
+ */
+export function useAgentTerminalOutput(terminalId: string | undefined) {
+  const [output, setOutput] = useState("");
+  const [exited, setExited] = useState(false);
+  const [available, setAvailable] = useState(true);
+
+  useEffect(() => {
+    if (!terminalId) return;
+    let disposed = false;
+    // Chunks that arrive before the snapshot are held until we know which ones it covers
+    let snapshotSeq: number | null = null;
+    const pending: Array<{ data: string; seq?: number }> = [];
+
+    const unsubData = window.claude.terminal.onData(({ terminalId: id, data, seq }) => {
+      if (id !== terminalId || disposed) return;
+      if (snapshotSeq === null) {
+        pending.push({ data, seq });
+        return;
+      }
+      if (seq !== undefined && seq <= snapshotSeq) return;
+      setOutput((prev) => capOutput(prev + data));
+    });
+    const unsubExit = window.claude.terminal.onExit(({ terminalId: id }) => {
+      if (id === terminalId && !disposed) setExited(true);
+    });
+
+    window.claude.terminal.agentSnapshot(terminalId).then((snapshot) => {
+      if (disposed) return;
+      if (snapshot.error) {
+        setAvailable(false);
+        return;
+      }
+      snapshotSeq = snapshot.seq ?? 0;
+      const newer = pending.filter((c) => c.seq === undefined || c.seq > snapshotSeq!).map((c) => c.data);
+      setOutput(capOutput((snapshot.output ?? "") + newer.join("")));
+      if (snapshot.exited) setExited(true);
+    });
+
+    return () => {
+      disposed = true;
+      unsubData();
+      unsubExit();
+    };
+  }, [terminalId]);
+
+  return { output, exited, available };
+}
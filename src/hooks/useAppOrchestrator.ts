@@ -6,13 +6,24 @@ import { useSpaceManager } from "@/hooks/useSpaceManager";
 import { useSettings } from "@/hooks/useSettings";
 import { useTheme } from "@/hooks/useTheme";
 import { useSpaceTerminals } from "@/hooks/useSpaceTerminals";
+import { useAgentTerminals } from "@/hooks/useAgentTerminals";
+import { useAcpAuth } from "@/hooks/useAcpAuth";
 import { useBackgroundAgents } from "@/hooks/useBackgroundAgents";
 import { useAgentRegistry } from "@/hooks/useAgentRegistry";
 import { useNotifications } from "@/hooks/useNotifications";
+import { toast } from "sonner";
 import { resolveModelValue } from "@/lib/model-utils";
+import {
+  buildContinuationSeed,
+  exportFileName,
+  sessionToBundle,
+  sessionToMarkdown,
+  type SessionExportFormat,
+} from "@/lib/session-export";
 import type { ToolId } from "@/components/ToolPicker";
-import type { TodoItem, ImageAttachment, Space, SpaceColor, InstalledAgent, AcpPermissionBehavior, EngineId } from "@/types";
+import type { TodoItem, ImageAttachment, ACPPromptContext, Space, SpaceColor, InstalledAgent, AcpPermissionBehavior, EngineId, PersistedSession } from "@/types";
 import type { NotificationSettings } from "@/types/ui";
+import type { CodexSandboxSettings } from "@/types/codex";
 
 export function useAppOrchestrator() {
   const sidebar = useSidebar();
@@ -35,7 +46,7 @@ export function useAppOrchestrator() {
   const resolvedTheme = useTheme(settings.theme);
   const showThinking = settingsEngine === "claude" ? settings.thinking : true;
   const activeProjectPath = settings.gitCwd ?? activeProject?.path;
-  const { agents, refresh: refreshAgents, saveAgent, deleteAgent } = useAgentRegistry();
+  const { agents, refresh: refreshAgents, saveAgent, deleteAgent, installBinaryAgent, rollbackAgent, runHealthCheck } = useAgentRegistry();
 
   const handleAgentChange = useCallback((agent: InstalledAgent | null) => {
     setSelectedAgent(agent);
@@ -57,6 +68,7 @@ export function useAppOrchestrator() {
         permissionMode: settings.permissionMode,
         planMode: settings.planMode,
         thinkingEnabled: settings.thinking,
+        codexSandbox: settings.codexSandbox,
         engine: wantedEngine,
         agentId: agent?.id ?? "claude-code",
         cachedConfigOptions: agent?.cachedConfigOptions,
@@ -69,7 +81,7 @@ export function useAppOrchestrator() {
         wantedModel || undefined,
       );
     }
-  }, [manager.setDraftAgent, manager.isDraft, manager.activeSession, manager.createSession, settings.getModelForEngine, settings.permissionMode, settings.planMode, settings.thinking]);
+  }, [manager.setDraftAgent, manager.isDraft, manager.activeSession, manager.createSession, settings.getModelForEngine, settings.permissionMode, settings.planMode, settings.thinking, settings.codexSandbox]);
 
   // Engine is locked once a session is active (not draft) — null means free to switch
   const lockedEngine = !manager.isDraft && manager.activeSession?.engine
@@ -92,6 +104,31 @@ export function useAppOrchestrator() {
       .then(() => refreshAgents());
   }, [manager.acpConfigOptions, manager.activeSession, refreshAgents]);
 
+  // Same for session modes — the cached currentModeId is the mode the agent's next session starts in
+  const activeAcpAgentId = manager.activeSession?.engine === "acp" ? manager.activeSession.agentId : undefined;
+  useEffect(() => {
+    if (!activeAcpAgentId || !manager.acpModes) return;
+    window.claude.agents.updateCachedModes(activeAcpAgentId, manager.acpModes)
+      .then(() => refreshAgents());
+  }, [manager.acpModes, activeAcpAgentId, refreshAgents]);
+
+  // Drafts have no session to ask — show the modes the agent reported last time
+  const draftAgentModes = manager.isDraft && selectedAgent?.engine === "acp"
+    ? agents.find((a) => a.id === selectedAgent.id)?.cachedModes ?? null
+    : null;
+  const acpModes = manager.acpModes ?? draftAgentModes;
+
+  const handleACPModeChange = useCallback(async (modeId: string) => {
+    if (manager.isDraft) {
+      if (!selectedAgent || !draftAgentModes) return;
+      await window.claude.agents.updateCachedModes(selectedAgent.id, { ...draftAgentModes, currentModeId: modeId });
+      refreshAgents();
+      return;
+    }
+    const result = await manager.setACPMode(modeId);
+    if (result.error) toast.error("Failed to change mode", { description: result.error });
+  }, [manager.isDraft, manager.setACPMode, selectedAgent, draftAgentModes, refreshAgents]);
+
   const [showSettings, setShowSettings] = useState(false);
 
   // ── Glass/transparency support detection ──
@@ -140,6 +177,8 @@ export function useAppOrchestrator() {
   // Focus turn index for the Changes panel (set by inline turn summary "View changes" click)
   const [changesPanelFocusTurn, setChangesPanelFocusTurn] = useState<number | undefined>();
   const spaceTerminals = useSpaceTerminals();
+  const agentTerminals = useAgentTerminals();
+  const acpAuth = useAcpAuth();
 
   const hasProjects = projectManager.projects.length > 0;
 
@@ -169,7 +208,7 @@ export function useAppOrchestrator() {
   const handleToolReorder = useCallback(
     (fromId: ToolId, toId: ToolId) => {
       const count = settings.toolOrder.filter(
-        (id) => settings.activeTools.has(id) && ["terminal", "git", "browser", "files", "mcp", "changes"].includes(id),
+        (id) => settings.activeTools.has(id) && ["terminal", "git", "browser", "files", "mcp", "changes", "inspector"].includes(id),
       ).length;
       settings.setToolOrder((prev) => {
         const next = [...prev];
@@ -199,16 +238,17 @@ export function useAppOrchestrator() {
         permissionMode: settings.permissionMode,
         planMode: settings.planMode,
         thinkingEnabled: settings.thinking,
+        codexSandbox: settings.codexSandbox,
         engine: wantedEngine,
         agentId: agent?.id ?? "claude-code",
         cachedConfigOptions: agent?.cachedConfigOptions,
       });
     },
-    [manager.createSession, settings.getModelForEngine, settings.permissionMode, settings.planMode, settings.thinking, selectedAgent],
+    [manager.createSession, settings.getModelForEngine, settings.permissionMode, settings.planMode, settings.thinking, settings.codexSandbox, selectedAgent],
   );
 
   const handleSend = useCallback(
-    async (text: string, images?: ImageAttachment[], displayText?: string) => {
+    async (text: string, images?: ImageAttachment[], displayText?: string, context?: ACPPromptContext) => {
       // If the selected agent/engine differs from the current session, start a new session first
       const currentEngine = manager.activeSession?.engine ?? "claude";
       const wantedEngine = selectedAgent?.engine ?? "claude";
@@ -226,14 +266,15 @@ export function useAppOrchestrator() {
           permissionMode: settings.permissionMode,
           planMode: settings.planMode,
           thinkingEnabled: settings.thinking,
+          codexSandbox: settings.codexSandbox,
           engine: wantedEngine,
           agentId: selectedAgent?.id ?? "claude-code",
           cachedConfigOptions: selectedAgent?.cachedConfigOptions,
         });
       }
-      await manager.send(text, images, displayText);
+      await manager.send(text, images, displayText, context);
     },
-    [manager.send, manager.isDraft, manager.activeSession, manager.createSession, selectedAgent, settings.getModelForEngine, settings.permissionMode, settings.planMode, settings.thinking],
+    [manager.send, manager.isDraft, manager.activeSession, manager.createSession, selectedAgent, settings.getModelForEngine, settings.permissionMode, settings.planMode, settings.thinking, settings.codexSandbox],
   );
 
   const handleModelChange = useCallback(
@@ -260,6 +301,30 @@ export function useAppOrchestrator() {
     [settings, manager.setActivePlanMode],
   );
 
+  const handleCodexSandboxChange = useCallback(
+    (sandbox: CodexSandboxSettings | null) => {
+      const previous = settings.codexSandbox;
+      settings.setCodexSandbox(sandbox);
+      // The thread keeps its previous policy when the change is refused — keep the picker showing it
+      manager.setActiveCodexSandbox(sandbox).then((ok) => {
+        if (!ok) settings.setCodexSandbox(previous);
+      });
+    },
+    [settings, manager.setActiveCodexSandbox],
+  );
+
+  // Codex built-ins picked from the slash command palette run as app-server requests, not prompt text
+  const handleBuiltinCommand = useCallback(
+    (name: string, args: string) => {
+      if (name === "compact") {
+        manager.compact();
+      } else if (name === "review") {
+        manager.startReview?.(args ? { type: "custom", instructions: args } : { type: "uncommittedChanges" });
+      }
+    },
+    [manager.compact, manager.startReview],
+  );
+
   const handleThinkingChange = useCallback(
     (enabled: boolean) => {
       settings.setThinking(enabled);
@@ -294,6 +359,13 @@ export function useAppOrchestrator() {
     [manager.importCCSession],
   );
 
+  const handleImportCodexThread = useCallback(
+    async (projectId: string, threadId: string) => {
+      await manager.importCodexThread(projectId, threadId);
+    },
+    [manager.importCodexThread],
+  );
+
   const handleNavigateToMessage = useCallback(
     (sessionId: string, messageId: string) => {
       manager.switchSession(sessionId);
@@ -302,6 +374,82 @@ export function useAppOrchestrator() {
     [manager.switchSession],
   );
 
+  const handleImportBundle = useCallback(
+    async (projectId: string) => {
+      if (await manager.importSessionBundle(projectId)) setShowSettings(false);
+    },
+    [manager.importSessionBundle],
+  );
+
+  // Read-only imports can't resume their engine session — start a fresh one
+  // with the same engine/agent whose first prompt carries a recap of the import.
+  const handleContinueImportedSession = useCallback(async () => {
+    const session = manager.activeSession;
+    if (!session) return;
+    const engine = session.engine ?? "claude";
+    const agent = agents.find((a) => a.id === session.agentId)
+      ?? (engine === "acp" ? undefined : agents.find((a) => a.engine === engine));
+    if (engine === "acp" && !agent) {
+      toast.error("Agent not installed", { description: `Install "${session.agentId}" to continue this session.` });
+      return;
+    }
+
+    const seedContext = buildContinuationSeed({ ...session, messages: manager.messages });
+    setSelectedAgent(engine === "claude" ? null : agent ?? null);
+    await manager.createSession(session.projectId, {
+      model: session.model || settings.getModelForEngine(engine) || undefined,
+      permissionMode: settings.permissionMode,
+      planMode: settings.planMode,
+      thinkingEnabled: settings.thinking,
+      codexSandbox: settings.codexSandbox,
+      engine,
+      agentId: agent?.id ?? "claude-code",
+      cachedConfigOptions: agent?.cachedConfigOptions,
+      seedContext,
+    });
+    toast.info("Continuing imported session", {
+      description: "A summary of it will be sent with your first message.",
+    });
+  }, [manager.activeSession, manager.messages, manager.createSession, agents, settings.getModelForEngine, settings.permissionMode, settings.planMode, settings.thinking, settings.codexSandbox]);
+
+  const handleExportSession = useCallback(
+    async (sessionId: string, format: SessionExportFormat) => {
+      const meta = manager.sessions.find((s) => s.id === sessionId);
+      if (!meta) return;
+      // The active session may have unsaved messages — export what's on screen
+      const session: PersistedSession | null = sessionId === manager.activeSessionId
+        ? { ...meta, messages: manager.messages, totalCost: manager.totalCost }
+        : await window.claude.sessions.load(meta.projectId, sessionId);
+      if (!session) {
+        toast.error("Export failed", { description: "Session could not be loaded" });
+        return;
+      }
+
+      const ctx = {
+        appVersion: await window.claude.updater.currentVersion(),
+        project: projectManager.projects.find((p) => p.id === meta.projectId),
+      };
+      let content: string;
+      if (format === "markdown") {
+        content = sessionToMarkdown(session, ctx);
+      } else if (format === "html") {
+        // Pulls in react-dom/server — only load it when someone actually exports HTML
+        const { renderSessionHtml } = await import("@/components/SessionExportDocument");
+        content = renderSessionHtml(session, ctx);
+      } else {
+        content = JSON.stringify(sessionToBundle(session, ctx), null, 2);
+      }
+
+      const result = await window.claude.sessions.export(format, exportFileName(session.title, format), content);
+      if (result.error) {
+        toast.error("Export failed", { description: result.error });
+      } else if (result.filePath) {
+        toast.success("Session exported", { description: result.filePath });
+      }
+    },
+    [manager.sessions, manager.activeSessionId, manager.messages, manager.totalCost, projectManager.projects],
+  );
+
   // Opens the Changes panel and focuses on a specific turn (from inline summary click)
   const handleViewTurnChanges = useCallback(
     (turnIndex: number) => {
@@ -575,7 +723,7 @@ export function useAppOrchestrator() {
 
   // Panel visibility flags
   const hasRightPanel = ((hasTodos && settings.activeTools.has("tasks")) || (hasAgents && settings.activeTools.has("agents"))) && !!manager.activeSessionId;
-  const hasToolsColumn = (settings.activeTools.has("terminal") || settings.activeTools.has("browser") || settings.activeTools.has("git") || settings.activeTools.has("files") || settings.activeTools.has("mcp") || settings.activeTools.has("changes")) && !!manager.activeSessionId;
+  const hasToolsColumn = (settings.activeTools.has("terminal") || settings.activeTools.has("browser") || settings.activeTools.has("git") || settings.activeTools.has("files") || settings.activeTools.has("mcp") || settings.activeTools.has("changes") || settings.activeTools.has("inspector")) && !!manager.activeSessionId;
 
   // ── Dynamic Electron minimum window width ──
   const isIsland = settings.islandLayout;
@@ -602,6 +750,7 @@ export function useAppOrchestrator() {
   }, [hasToolsColumn]);
 
   const activeSpaceTerminals = spaceTerminals.getSpaceState(spaceManager.activeSpaceId);
+  const activeAgentTerminals = agentTerminals.getSessionTabs(manager.activeSessionId);
 
   return {
     // Core managers
@@ -617,9 +766,14 @@ export function useAppOrchestrator() {
     selectedAgent,
     saveAgent,
     deleteAgent,
+    installBinaryAgent,
+    rollbackAgent,
+    runHealthCheck,
     handleAgentChange,
     lockedEngine,
     lockedAgentId,
+    acpModes,
+    handleACPModeChange,
 
     // Derived state
     activeProjectId,
@@ -657,6 +811,11 @@ export function useAppOrchestrator() {
     // Terminals
     spaceTerminals,
     activeSpaceTerminals,
+    agentTerminals,
+    activeAgentTerminals,
+
+    // ACP sign-in requests
+    acpAuth,
 
     // Callbacks
     handleToggleTool,
@@ -666,12 +825,18 @@ export function useAppOrchestrator() {
     handleModelChange,
     handlePermissionModeChange,
     handlePlanModeChange,
+    handleCodexSandboxChange,
+    handleBuiltinCommand,
     handleThinkingChange,
     handleStop,
     handleSelectSession,
     handleCreateProject,
     handleImportCCSession,
+    handleImportCodexThread,
     handleNavigateToMessage,
+    handleExportSession,
+    handleImportBundle,
+    handleContinueImportedSession,
     handleViewTurnChanges,
     handleCreateSpace,
     handleEditSpace,
@@ -12,6 +12,7 @@ import type {
   SubagentToolStep,
   ImageAttachment,
   ModelInfo,
+  SlashCommand,
   McpServerStatus,
   McpServerConfig,
   PermissionBehavior,
@@ -67,6 +68,7 @@ export function useClaude({ sessionId, initialMessages, initialMeta, initialPerm
 
   const [mcpServerStatuses, setMcpServerStatuses] = useState<McpServerStatus[]>([]);
   const [supportedModels, setSupportedModels] = useState<ModelInfo[]>([]);
+  const [slashCommands, setSlashCommands] = useState<SlashCommand[]>([]);
 
   const buffer = useRef(new StreamingBuffer());
   const parentToolMap = useRef<ParentToolMap>(new Map());
@@ -75,6 +77,7 @@ export function useClaude({ sessionId, initialMessages, initialMeta, initialPerm
   useEffect(() => {
     buffer.current.reset();
     parentToolMap.current.clear();
+    setSlashCommands([]);
 
     // If restoring a mid-stream session, seed the buffer with existing content
     // so that new deltas are appended rather than replacing old content.
@@ -272,6 +275,25 @@ export function useClaude({ sessionId, initialMessages, initialMeta, initialPerm
               }).catch(() => { /* session may have been stopped */ });
             }
           }
+          // Init only carries command names — show those, then fill in descriptions and argument hints
+          if (init.slash_commands?.length) {
+            setSlashCommands(init.slash_commands.map((name) => ({ name, source: "claude" })));
+          }
+          {
+            const commandsSid = sessionIdRef.current;
+            if (commandsSid) {
+              window.claude.supportedCommands(commandsSid).then((result) => {
+                if (result.commands?.length) {
+                  setSlashCommands(result.commands.map((c) => ({
+                    name: c.name,
+                    description: c.description || undefined,
+                    argumentHint: c.argumentHint || undefined,
+                    source: "claude",
+                  })));
+                }
+              }).catch(() => { /* session may have been stopped */ });
+            }
+          }
 
           setIsConnected(true);
           setIsProcessing(true);
@@ -411,6 +433,7 @@ export function useClaude({ sessionId, initialMessages, initialMeta, initialPerm
                 ...target,
                 content: textContent || target.content,
                 thinking: thinkingContent || target.thinking || undefined,
+                ...(textContent ? { sdkMessageId: event.uuid } : {}),
                 // When the text snapshot arrives, streaming is effectively complete —
                 // clear isStreaming so markdown renders immediately instead of
                 // depending solely on message_delta (which can race with resetStreaming).
@@ -430,6 +453,7 @@ export function useClaude({ sessionId, initialMessages, initialMeta, initialPerm
                   id: `assistant-${event.uuid}`,
                   role: "assistant",
                   content: textContent,
+                  ...(textContent ? { sdkMessageId: event.uuid } : {}),
                   thinking: thinkingContent || undefined,
                   ...(thinkingContent ? { thinkingComplete: true } : {}),
                   isStreaming: false,
@@ -717,6 +741,36 @@ export function useClaude({ sessionId, initialMessages, initialMeta, initialPerm
     [],
   );
 
+  /**
+   * Push a message into the running turn. The SDK input is a stream, so the CLI
+   * picks it up between tool calls instead of waiting for the turn to finish.
+   */
+  const steer = useCallback(
+    async (text: string, images?: ImageAttachment[], displayText?: string): Promise<boolean> => {
+      if (!sessionIdRef.current) return false;
+      const content = buildSdkContent(text, images);
+      const result = await window.claude.send(sessionIdRef.current, {
+        type: "user",
+        message: { role: "user", content },
+      });
+      if (result?.error) return false;
+      setMessages((prev) => [
+        ...prev,
+        {
+          id: nextId("user"),
+          role: "user",
+          content: text,
+          timestamp: Date.now(),
+          isSteer: true,
+          ...(images?.length ? { images } : {}),
+          ...(displayText ? { displayContent: displayText } : {}),
+        },
+      ]);
+      return true;
+    },
+    [],
+  );
+
   const stop = useCallback(async () => {
     if (!sessionIdRef.current) return;
     await window.claude.stop(sessionIdRef.current, "user");
@@ -915,6 +969,7 @@ export function useClaude({ sessionId, initialMessages, initialMeta, initialPerm
     isCompacting,
     send,
     sendRaw,
+    steer,
     stop,
     interrupt,
     compact,
@@ -928,6 +983,7 @@ export function useClaude({ sessionId, initialMessages, initialMeta, initialPerm
     reconnectMcpServer,
     restartWithMcpServers,
     supportedModels,
+    slashCommands,
     revertFiles,
     flushNow,
     resetStreaming,
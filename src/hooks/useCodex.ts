@@ -8,7 +8,14 @@
 
 import { useState, useCallback, useEffect, useRef } from "react";
 import type { TodoItem, PermissionBehavior, ModelInfo, ImageAttachment, SessionMeta } from "@/types";
-import type { CodexSessionEvent, CodexServerRequest, CodexExitEvent } from "@/types/codex";
+import type {
+  CodexSessionEvent,
+  CodexServerRequest,
+  CodexExitEvent,
+  CodexReviewOutput,
+  CodexReviewTarget,
+  CodexRateLimitSnapshot,
+} from "@/types/codex";
 import type { CodexTokenUsageNotification } from "@/types/codex";
 import type { CollaborationMode } from "@/types/codex-protocol/CollaborationMode";
 import type { ItemStartedNotification } from "@/types/codex-protocol/v2/ItemStartedNotification";
@@ -25,7 +32,9 @@ import {
   codexItemToToolName,
   codexItemToToolInput,
   codexItemToToolResult,
+  codexReviewToToolResult,
   codexPlanToTodos,
+  describeReviewTarget,
   imageAttachmentsToCodexInputs,
 } from "@/lib/codex-adapter";
 import { useEngineBase } from "./useEngineBase";
@@ -77,6 +86,8 @@ export function useCodex({ sessionId, sessionModel, initialMessages, initialMeta
   const [codexModels, setCodexModels] = useState<ModelInfo[]>([]);
   /** Reasoning effort for the current Codex session — sent on the next turn/start */
   const [codexEffort, setCodexEffort] = useState<string>("medium");
+  /** Account usage windows + credits — account-wide, so deliberately kept across session switches */
+  const [rateLimits, setRateLimits] = useState<CodexRateLimitSnapshot | null>(null);
 
   // Refs for rAF streaming flush (avoid React 19 batching issues)
   const bufferRef = useRef(new CodexStreamingBuffer());
@@ -94,11 +105,27 @@ export function useCodex({ sessionId, sessionModel, initialMessages, initialMeta
   const planTextRef = useRef("");
   // Per-turn counter for unique plan card message IDs
   const planTurnCounterRef = useRef(0);
+  // Target of the review being started — stored on the review card for its diff links
+  const reviewTargetRef = useRef<CodexReviewTarget | null>(null);
+  // Structured findings from codex:review_output, attached when the review item completes
+  const reviewOutputRef = useRef<CodexReviewOutput | null>(null);
 
   useEffect(() => {
     sessionModelRef.current = sessionModel;
   }, [sessionModel]);
 
+  // Usage is only pushed when it changes — read the current numbers when a session opens
+  useEffect(() => {
+    if (!sessionId) return;
+    let cancelled = false;
+    window.claude.codex.rateLimits(sessionId).then((result) => {
+      if (!cancelled && result.rateLimits) setRateLimits(result.rateLimits);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
   // Engine-specific reset — runs after base reset via the same sessionId dependency
   useEffect(() => {
     setTodoItems([]);
@@ -270,10 +297,25 @@ export function useCodex({ sessionId, sessionModel, initialMessages, initialMeta
         handleTokenUsage(event.params);
         break;
 
+      case "account/rateLimits/updated":
+        setRateLimits(event.params.rateLimits);
+        break;
+
       case "turn/plan/updated":
         handlePlanUpdate(event.params);
         break;
 
+      case "turn/diff/updated": {
+        // Net diff of the whole turn so far — the Changes panel reads it off the turn's user message
+        const { diff } = event.params;
+        setMessages((prev) => {
+          const userIdx = prev.findLastIndex((m) => m.role === "user" && !m.isQueued && !m.isSteer);
+          if (userIdx < 0 || prev[userIdx].turnDiff === diff) return prev;
+          return prev.map((m, i) => (i === userIdx ? { ...m, turnDiff: diff } : m));
+        });
+        break;
+      }
+
       case "item/plan/delta":
         handlePlanDelta(event.params);
         break;
@@ -296,6 +338,31 @@ export function useCodex({ sessionId, sessionModel, initialMessages, initialMeta
         // Auth required — UI will handle this
         break;
 
+      case "codex:checkpoint": {
+        // Snapshot taken right before the turn — belongs to the message that started it
+        const { checkpointId } = event.params;
+        setMessages((prev) => {
+          const userIdx = prev.findLastIndex((m) => m.role === "user" && !m.isQueued && !m.isSteer);
+          if (userIdx < 0 || prev[userIdx].checkpointId) return prev;
+          return prev.map((m, i) => (i === userIdx ? { ...m, checkpointId } : m));
+        });
+        break;
+      }
+
+      case "codex:review_output": {
+        const { reviewOutput } = event.params;
+        reviewOutputRef.current = reviewOutput;
+        // Normally arrives before exitedReviewMode; if not, patch the finished card
+        setMessages((prev) => {
+          const idx = prev.findLastIndex((m) => m.toolName === "CodexReview");
+          const card = idx >= 0 ? prev[idx] : undefined;
+          if (!card?.toolResult || card.toolResult.structuredContent) return prev;
+          reviewOutputRef.current = null;
+          return prev.map((m, i) => (i === idx ? { ...m, toolResult: { ...card.toolResult, structuredContent: reviewOutput } } : m));
+        });
+        break;
+      }
+
       case "error": {
         const errorText = event.params.error.message || "Unknown error";
         setMessages((prev) => [
@@ -340,7 +407,10 @@ export function useCodex({ sessionId, sessionModel, initialMessages, initialMeta
           role: "tool_call",
           content: "",
           toolName,
-          toolInput: codexItemToToolInput(item),
+          toolInput: {
+            ...codexItemToToolInput(item),
+            ...(item.type === "enteredReviewMode" && reviewTargetRef.current ? { target: reviewTargetRef.current } : {}),
+          },
           timestamp: Date.now(),
         },
       ]);
@@ -466,6 +536,31 @@ export function useCodex({ sessionId, sessionModel, initialMessages, initialMeta
       return;
     }
 
+    // Review finished — complete the card opened by enteredReviewMode
+    if (item.type === "exitedReviewMode") {
+      finalizeStreamingAssistant();
+      const toolResult = codexReviewToToolResult(item.review, reviewOutputRef.current);
+      reviewOutputRef.current = null;
+      reviewTargetRef.current = null;
+      setMessages((prev) => {
+        const idx = prev.findLastIndex((m) => m.toolName === "CodexReview" && !m.toolResult);
+        if (idx >= 0) return prev.map((m, i) => (i === idx ? { ...m, toolResult } : m));
+        return [
+          ...prev,
+          {
+            id: `codex-tool-${item.id}`,
+            role: "tool_call" as const,
+            content: "",
+            toolName: "CodexReview",
+            toolInput: {},
+            toolResult,
+            timestamp: Date.now(),
+          },
+        ];
+      });
+      return;
+    }
+
     // Finalize tool_call messages — deterministic fallback works even if
     // itemMapRef was cleared after a session switch
     const msgId = itemMapRef.current.get(item.id) ?? `codex-tool-${item.id}`;
@@ -721,12 +816,34 @@ export function useCodex({ sessionId, sessionModel, initialMessages, initialMeta
       return;
     }
 
+    if (data.method === "skill/requestApproval") {
+      setPendingPermission({
+        requestId: String(data.rpcId),
+        toolName: "Skill",
+        toolInput: {
+          skillName: data.skillName,
+          ...(data.skill ? { skillMetadata: data.skill } : {}),
+        },
+        toolUseId: data.itemId,
+      });
+      return;
+    }
+
     const isCommand = data.method === "item/commandExecution/requestApproval";
     setPendingPermission({
       requestId: String(data.rpcId),
       toolName: isCommand ? "Bash" : "Edit",
-      toolInput: isCommand ? {} : {},
+      toolInput: isCommand
+        ? {
+          ...(data.command ? { command: data.command } : {}),
+          ...(data.cwd ? { cwd: data.cwd } : {}),
+          ...(data.proposedExecpolicyAmendment?.length
+            ? { execPolicyAmendment: data.proposedExecpolicyAmendment }
+            : {}),
+        }
+        : {},
       toolUseId: data.itemId,
+      ...(data.reason ? { decisionReason: data.reason } : {}),
     });
   }, []);
 
@@ -812,6 +929,70 @@ export function useCodex({ sessionId, sessionModel, initialMessages, initialMeta
     [sessionId, sendRaw],
   );
 
+  /**
+   * Add input to the running turn via `turn/steer`. Returns false when there's
+   * no turn to steer (e.g. it just finished) so the caller can queue instead.
+   */
+  const steer = useCallback(
+    async (text: string, images?: ImageAttachment[], displayText?: string): Promise<boolean> => {
+      if (!sessionId) return false;
+      const result = await window.claude.codex
+        .steer(sessionId, text, imageAttachmentsToCodexInputs(images))
+        .catch(() => ({ error: "Steer failed" }));
+      if (result.error) return false;
+      setMessages((prev) => [
+        ...prev,
+        {
+          id: nextId("user"),
+          role: "user",
+          content: text,
+          timestamp: Date.now(),
+          isSteer: true,
+          ...(images?.length ? { images } : {}),
+          ...(displayText ? { displayContent: displayText } : {}),
+        },
+      ]);
+      return true;
+    },
+    [sessionId],
+  );
+
+  /** Run a Codex code review as an inline turn on this thread. */
+  const startReview = useCallback(
+    async (target: CodexReviewTarget): Promise<boolean> => {
+      if (!sessionId) return false;
+      reviewTargetRef.current = target;
+      setMessages((prev) => [
+        ...prev,
+        {
+          id: nextId("user"),
+          role: "user",
+          content: describeReviewTarget(target),
+          timestamp: Date.now(),
+        },
+      ]);
+      setIsProcessing(true);
+      const result = await window.claude.codex.review(sessionId, target);
+      if (result.error) {
+        reviewTargetRef.current = null;
+        setIsProcessing(false);
+        setMessages((prev) => [
+          ...prev,
+          {
+            id: nextId("err"),
+            role: "system",
+            content: `Unable to start review: ${result.error}`,
+            timestamp: Date.now(),
+            isError: true,
+          },
+        ]);
+        return false;
+      }
+      return true;
+    },
+    [sessionId],
+  );
+
   const stop = useCallback(async () => {
     if (!sessionId) return;
     await window.claude.codex.stop(sessionId);
@@ -903,7 +1084,9 @@ export function useCodex({ sessionId, sessionModel, initialMessages, initialMeta
           ? {
             method: pendingPermission.toolName === "AskUserQuestion"
               ? "item/tool/requestUserInput"
-              : "item/commandExecution/requestApproval",
+              : pendingPermission.toolName === "Skill"
+                ? "skill/requestApproval"
+                : "item/commandExecution/requestApproval",
             rpcId: pendingPermission.requestId,
             itemId: pendingPermission.toolUseId,
           }
@@ -939,6 +1122,25 @@ export function useCodex({ sessionId, sessionModel, initialMessages, initialMeta
         return;
       }
 
+      if (activeRequest.method === "skill/requestApproval") {
+        const decision = behavior === "deny" ? "decline" : "approve";
+        await window.claude.codex.respondApproval(sessionId, activeRequest.rpcId, decision);
+        setPendingPermission(null);
+        serverRequestRef.current = null;
+        return;
+      }
+
+      // "Always allow" on a command — Codex adds the prefix to its exec policy
+      const execPolicyAmendment = _updatedInput?.execPolicyAmendment;
+      if (behavior === "allow" && Array.isArray(execPolicyAmendment)) {
+        await window.claude.codex.respondApproval(sessionId, activeRequest.rpcId, {
+          acceptWithExecpolicyAmendment: { execpolicy_amendment: execPolicyAmendment as string[] },
+        });
+        setPendingPermission(null);
+        serverRequestRef.current = null;
+        return;
+      }
+
       const decision = behavior === "allow" ? "accept" : behavior === "allowForSession" ? "accept" : "decline";
       const acceptSettings = behavior === "allowForSession" ? { forSession: true } : undefined;
       await window.claude.codex.respondApproval(sessionId, activeRequest.rpcId, decision, acceptSettings);
@@ -952,6 +1154,25 @@ export function useCodex({ sessionId, sessionModel, initialMessages, initialMeta
     // Codex doesn't support live permission mode changes — applied on next turn
   }, []);
 
+  const revertFiles = useCallback(async (checkpointId: string) => {
+    if (!sessionIdRef.current) return { error: "No session" };
+    const result = await window.claude.codex.revertFiles(sessionIdRef.current, checkpointId);
+    const fileCount = (result.restored?.length ?? 0) + (result.removed?.length ?? 0);
+    setMessages((prev) => [
+      ...prev,
+      {
+        id: nextId("system-revert"),
+        role: "system" as const,
+        content: result.error
+          ? `File revert failed: ${result.error}`
+          : `Files reverted to checkpoint successfully (${fileCount} file${fileCount !== 1 ? "s" : ""} changed).`,
+        isError: !!result.error,
+        timestamp: Date.now(),
+      },
+    ]);
+    return result;
+  }, []);
+
   return {
     messages, setMessages,
     isProcessing, setIsProcessing,
@@ -960,9 +1181,12 @@ export function useCodex({ sessionId, sessionModel, initialMessages, initialMeta
     totalCost, setTotalCost,
     contextUsage,
     isCompacting,
-    send, sendRaw, stop, interrupt, compact,
+    send, sendRaw, steer, stop, interrupt, compact,
+    rateLimits,
+    startReview,
     pendingPermission, respondPermission,
     setPermissionMode,
+    revertFiles,
     todoItems,
     codexModels, setCodexModels,
     codexEffort, setCodexEffort,
@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useState } from "react";
+import type { ProtocolEntry } from "@/types";
+
+// Same bounds as the main-process recorder (protocol-recorder.ts)
+const MAX_ENTRIES = 5000;
+const MAX_BYTES = 16 * 1024 * 1024;
+
+interface EntryLog {
+  entries: ProtocolEntry[];
+  /** Characters of JSON held in `entries` */
+  bytes: number;
+  /** Entries evicted to stay within MAX_ENTRIES / MAX_BYTES */
+  dropped: number;
+}
+
+const EMPTY_LOG: EntryLog = { entries: [], bytes: 0, dropped: 0 };
+
+/** Append entries, evicting the oldest past MAX_ENTRIES or MAX_BYTES. */
+function appendEntries(log: EntryLog, added: ProtocolEntry[]): EntryLog {
+  const entries = [...log.entries, ...added];
+  let bytes = added.reduce((sum, e) => sum + e.json.length, log.bytes);
+  let overflow = 0;
+  while (entries.length - overflow > MAX_ENTRIES || bytes > MAX_BYTES) {
+    bytes -= entries[overflow].json.length;
+    overflow++;
+  }
+  return { entries: overflow ? entries.slice(overflow) : entries, bytes, dropped: log.dropped + overflow };
+}
+
+/**
+ * Protocol recording for one session. Entries live in the main process (bounded
+ * there); this mirrors them and appends live batches while recording.
+ */
+export function useProtocolInspector(sessionId: string | null) {
+  const [recording, setRecordingState] = useState(false);
+  const [log, setLog] = useState<EntryLog>(EMPTY_LOG);
+
+  useEffect(() => {
+    setRecordingState(false);
+    setLog(EMPTY_LOG);
+    if (!sessionId) return;
+
+    let cancelled = false;
+    window.claude.inspector.get(sessionId).then((state) => {
+      if (cancelled) return;
+      setRecordingState(state.recording);
+      // Keep live entries that arrived while the snapshot was in flight
+      const lastSeq = state.entries.at(-1)?.seq ?? 0;
+      setLog((prev) => appendEntries(
+        appendEntries({ ...EMPTY_LOG, dropped: state.dropped }, state.entries),
+        prev.entries.filter((e) => e.seq > lastSeq),
+      ));
+    });
+    const unsubscribe = window.claude.inspector.onEntries((batch) => {
+      const own = batch.filter((e) => e.sessionId === sessionId);
+      if (own.length === 0) return;
+      setLog((prev) => appendEntries(prev, own));
+    });
+    const unsubscribeEnded = window.claude.inspector.onEnded((data) => {
+      if (data.sessionId === sessionId) setRecordingState(false);
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      unsubscribeEnded();
+    };
+  }, [sessionId]);
+
+  const setRecording = useCallback(async (enabled: boolean) => {
+    if (!sessionId) return;
+    await window.claude.inspector.setRecording(sessionId, enabled);
+    setRecordingState(enabled);
+  }, [sessionId]);
+
+  const clear = useCallback(async () => {
+    if (!sessionId) return;
+    await window.claude.inspector.clear(sessionId);
+    setLog(EMPTY_LOG);
+  }, [sessionId]);
+
+  return { recording, entries: log.entries, dropped: log.dropped, setRecording, clear };
+}
@@ -1,7 +1,8 @@
-import { useState, useCallback, useRef } from "react";
-import type { ChatSession, UIMessage, PermissionRequest, McpServerStatus, McpServerConfig, ModelInfo, AcpPermissionBehavior, EngineId, Project } from "../types";
+import { useState, useCallback, useEffect, useRef } from "react";
+import type { ChatSession, UIMessage, PermissionRequest, McpServerStatus, McpServerConfig, ModelInfo, AcpPermissionBehavior, EngineId, Project, SlashCommand } from "../types";
 import type { ACPConfigOption, ACPPermissionEvent } from "../types/acp";
 import { toMcpStatusState } from "../lib/mcp-utils";
+import { CODEX_BUILTIN_COMMANDS, fromClaudeCommandFile, fromCodexPrompt } from "../lib/slash-commands";
 import { useClaude } from "./useClaude";
 import { useACP } from "./useACP";
 import { useCodex } from "./useCodex";
@@ -38,6 +39,7 @@ export function useSessionManager(projects: Project[], acpPermissionBehavior: Ac
   const [draftMcpStatuses, setDraftMcpStatuses] = useState<McpServerStatus[]>([]);
   const [cachedModels, setCachedModels] = useState<ModelInfo[]>([]);
   const [codexRawModels, setCodexRawModels] = useState<CodexModelSummary[]>([]);
+  const [fileCommands, setFileCommands] = useState<SlashCommand[]>([]);
   const [queuedCount, setQueuedCount] = useState(0);
 
   // ── Determine active engine ──
@@ -230,14 +232,22 @@ export function useSessionManager(projects: Project[], acpPermissionBehavior: Ac
     renameSession,
     deselectSession,
     importCCSession,
+    importCodexThread,
+    importSessionBundle,
     setDraftAgent,
     setActiveModel,
     setActivePermissionMode,
     setActivePlanMode,
+    setActiveCodexSandbox,
     setActiveThinking,
     restartAcpSession,
+    restartCodexSession,
     fullRevertSession,
+    fullRevertCodexSession,
+    forkSession,
+    startCodexReview,
     send,
+    steer,
   } = useSessionLifecycle({
     refs,
     setters,
@@ -262,9 +272,43 @@ export function useSessionManager(projects: Project[], acpPermissionBehavior: Ac
     resetCodexEffortToModelDefault,
   });
 
+  // Codex reports MCP status only on request — fetch it whenever a live Codex session becomes active
+  const refreshCodexMcpStatus = useCallback(async (sessionId: string) => {
+    const result = await window.claude.codex.mcpStatus(sessionId);
+    if (activeSessionIdRef.current === sessionId) setAcpMcpStatuses(result.servers);
+  }, []);
+
+  useEffect(() => {
+    if (!codexSessionId) return;
+    if (liveSessionIdsRef.current.has(codexSessionId)) {
+      refreshCodexMcpStatus(codexSessionId);
+    } else {
+      // Not running — nothing has been loaded; don't keep showing the previous session's servers
+      setAcpMcpStatuses([]);
+    }
+  }, [codexSessionId, refreshCodexMcpStatus]);
+
   // ── Derived state ──
   const isDraft = activeSessionId === DRAFT_ID;
   const activeSession = sessions.find((s) => s.id === activeSessionId) ?? null;
+  const activeProjectPath = projects.find((p) => p.id === (isDraft ? draftProjectId : activeSession?.projectId))?.path;
+
+  // File-backed slash commands: Codex custom prompts, and Claude's .claude/commands
+  // until a live session reports its full list (built-ins, plugins, skills)
+  useEffect(() => {
+    if (isACP) {
+      setFileCommands([]);
+      return;
+    }
+    let cancelled = false;
+    const load = isCodex
+      ? window.claude.codex.listPrompts().then((result) => result.prompts.map(fromCodexPrompt))
+      : window.claude.localCommands(activeProjectPath).then((result) => result.commands.map(fromClaudeCommandFile));
+    load.then((commands) => {
+      if (!cancelled) setFileCommands(commands);
+    }).catch(() => { /* keep whatever was listed before */ });
+    return () => { cancelled = true; };
+  }, [isACP, isCodex, activeProjectPath]);
 
   // ── Return (identical interface to original) ──
   return {
@@ -279,9 +323,12 @@ export function useSessionManager(projects: Project[], acpPermissionBehavior: Ac
     deleteSession,
     renameSession,
     importCCSession,
+    importCodexThread,
+    importSessionBundle,
     setActiveModel,
     setActivePermissionMode,
     setActivePlanMode,
+    setActiveCodexSandbox,
     setActiveThinking,
     setDraftAgent,
     messages: engine.messages,
@@ -290,6 +337,9 @@ export function useSessionManager(projects: Project[], acpPermissionBehavior: Ac
     sessionInfo: engine.sessionInfo,
     totalCost: engine.totalCost,
     send,
+    steer,
+    // ACP agents can't take input mid-turn — steering there falls back to the queue
+    canSteer: !isACP && !isDraft,
     queuedCount,
     stop: engine.stop,
     interrupt: async () => {
@@ -308,17 +358,22 @@ export function useSessionManager(projects: Project[], acpPermissionBehavior: Ac
     pendingPermission: engine.pendingPermission,
     respondPermission: engine.respondPermission,
     contextUsage: engine.contextUsage,
+    codexRateLimits: isCodex ? codex.rateLimits : null,
     isCompacting: "isCompacting" in engine ? !!engine.isCompacting : false,
     compact: engine.compact,
     acpConfigOptions: acp.configOptions,
     setACPConfig: acp.setConfig,
+    acpModes: acp.modes,
+    setACPMode: acp.setMode,
     mcpServerStatuses: isACP || isCodex
       ? (acpMcpStatuses.length > 0 ? acpMcpStatuses : draftMcpStatuses)
       : (claude.mcpServerStatuses.length > 0 ? claude.mcpServerStatuses : draftMcpStatuses),
     mcpStatusPreliminary: isDraft && draftMcpStatuses.length > 0 && (
       isACP || isCodex ? acpMcpStatuses.length === 0 : claude.mcpServerStatuses.length === 0
     ),
-    refreshMcpStatus: isACP || isCodex
+    refreshMcpStatus: isCodex && codexSessionId && liveSessionIdsRef.current.has(codexSessionId)
+      ? (() => refreshCodexMcpStatus(codexSessionId))
+      : isACP || isCodex
       ? (() => Promise.resolve())
       : (preStartedSessionId && isDraft)
         ? (async () => {
@@ -331,22 +386,20 @@ export function useSessionManager(projects: Project[], acpPermissionBehavior: Ac
             }
           })
         : claude.refreshMcpStatus,
-    reconnectMcpServer: isACP
+    reconnectMcpServer: isACP || isCodex
       ? isDraft
         ? async (_name: string) => {
-            // ACP draft: re-probe to pick up auth changes
+            // ACP/Codex draft: re-probe to pick up auth changes
             if (draftProjectIdRef.current) await probeMcpServers(draftProjectIdRef.current);
           }
         : async (_name: string) => {
-            // ACP live: restart session so fresh auth tokens are applied
+            // ACP/Codex live: restart session so fresh auth tokens are applied
             const currentId = activeSessionIdRef.current;
             const session = sessionsRef.current.find(s => s.id === currentId);
             if (!session) return;
             const servers = await window.claude.mcp.list(session.projectId);
-            await restartAcpSession(servers);
+            await (isCodex ? restartCodexSession(servers) : restartAcpSession(servers));
           }
-      : isCodex
-        ? async (_name: string) => { /* Codex MCP reconnect: not yet implemented */ }
       : (preStartedSessionId && isDraft)
         ? (async (name: string) => {
             const result = await window.claude.mcpReconnect(preStartedSessionId, name);
@@ -367,20 +420,23 @@ export function useSessionManager(projects: Project[], acpPermissionBehavior: Ac
       : isACP
         ? []
         : claude.supportedModels.length > 0 ? claude.supportedModels : cachedModels,
-    restartWithMcpServers: isACP
+    slashCommands: isACP
+      ? acp.availableCommands
+      : isCodex
+        ? (isDraft ? fileCommands : [...CODEX_BUILTIN_COMMANDS, ...fileCommands])
+        : claude.slashCommands.length > 0 ? claude.slashCommands : fileCommands,
+    restartWithMcpServers: isACP || isCodex
       ? isDraft
         ? async (servers: McpServerConfig[]) => {
-            // ACP draft: reprobe with new server list
+            // ACP/Codex draft: reprobe with new server list
             if (draftProjectIdRef.current) {
               await probeMcpServers(draftProjectIdRef.current, servers);
             }
           }
         : async (servers: McpServerConfig[]) => {
-            // ACP live: stop + restart session with updated MCP servers
-            await restartAcpSession(servers);
+            // ACP/Codex live: stop + restart session with updated MCP servers
+            await (isCodex ? restartCodexSession(servers) : restartAcpSession(servers));
           }
-      : isCodex
-        ? async (_servers: McpServerConfig[]) => { /* Codex MCP restart: not yet implemented */ }
       : (preStartedSessionId && isDraft)
         ? async (_servers: McpServerConfig[]) => {
             // Claude eager draft: stop old eager session and start fresh
@@ -394,9 +450,12 @@ export function useSessionManager(projects: Project[], acpPermissionBehavior: Ac
             }
           }
         : claude.restartWithMcpServers,
-    // File revert: only supported by Claude SDK engine
-    revertFiles: activeEngine === "claude" ? claude.revertFiles : undefined,
-    fullRevert: activeEngine === "claude" ? fullRevertSession : undefined,
+    // File revert: Claude SDK checkpoints, or Codex working-tree snapshots + thread/rollback (ACP has neither)
+    revertFiles: activeEngine === "claude" ? claude.revertFiles : activeEngine === "codex" ? codex.revertFiles : undefined,
+    fullRevert: activeEngine === "claude" ? fullRevertSession : activeEngine === "codex" ? fullRevertCodexSession : undefined,
+    forkSession,
+    // Codex review mode (review/start) — only Codex has a reviewer
+    startReview: isCodex && !isDraft ? startCodexReview : undefined,
     // Codex reasoning effort
     codexEffort: codex.codexEffort,
     setCodexEffort: setCodexEffortFromUser,
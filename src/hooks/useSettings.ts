@@ -1,6 +1,7 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import type { ToolId } from "@/components/ToolPicker";
 import type { AcpPermissionBehavior, EngineId, ThemeOption } from "@/types";
+import type { CodexSandboxSettings } from "@/types/codex";
 
 // ── Helpers ──
 
@@ -67,7 +68,7 @@ const DEFAULT_ENGINE_MODELS: Record<EngineId, string> = {
   codex: "",
 };
 
-const DEFAULT_TOOL_ORDER: ToolId[] = ["terminal", "git", "browser", "files", "mcp", "changes"];
+const DEFAULT_TOOL_ORDER: ToolId[] = ["terminal", "git", "browser", "files", "mcp", "changes", "inspector"];
 
 // ── Hook ──
 
@@ -95,6 +96,9 @@ export interface Settings {
   setModelForEngine: (engine: EngineId, model: string) => void;
   gitCwd: string | null;
   setGitCwd: (path: string | null) => void;
+  /** Codex sandbox for new sessions in this project — null follows Codex's own config */
+  codexSandbox: CodexSandboxSettings | null;
+  setCodexSandbox: (sandbox: CodexSandboxSettings | null) => void;
   activeTools: Set<ToolId>;
   setActiveTools: (updater: Set<ToolId> | ((prev: Set<ToolId>) => Set<ToolId>)) => void;
   rightPanelWidth: number;
@@ -320,6 +324,19 @@ export function useSettings(projectId: string | null, engine: EngineId = "claude
     [pid],
   );
 
+  const [codexSandbox, setCodexSandboxRaw] = useState<CodexSandboxSettings | null>(() =>
+    readJson<CodexSandboxSettings | null>(`harnss-${pid}-codex-sandbox`, null),
+  );
+  const setCodexSandbox = useCallback(
+    (sandbox: CodexSandboxSettings | null) => {
+      setCodexSandboxRaw(sandbox);
+      const key = `harnss-${pid}-codex-sandbox`;
+      if (sandbox) localStorage.setItem(key, JSON.stringify(sandbox));
+      else localStorage.removeItem(key);
+    },
+    [pid],
+  );
+
   const [activeTools, setActiveToolsRaw] = useState<Set<ToolId>>(() => {
     const arr = readJson<ToolId[]>(`harnss-${pid}-active-tools`, []);
     return new Set(arr);
@@ -452,6 +469,7 @@ export function useSettings(projectId: string | null, engine: EngineId = "claude
   useEffect(() => {
     setModelsByEngineRaw(readEngineModels(pid));
     setGitCwdRaw(localStorage.getItem(`harnss-${pid}-git-cwd`));
+    setCodexSandboxRaw(readJson<CodexSandboxSettings | null>(`harnss-${pid}-codex-sandbox`, null));
 
     const tools = readJson<ToolId[]>(`harnss-${pid}-active-tools`, []);
     setActiveToolsRaw(new Set(tools));
@@ -496,6 +514,8 @@ export function useSettings(projectId: string | null, engine: EngineId = "claude
     setModelForEngine,
     gitCwd,
     setGitCwd,
+    codexSandbox,
+    setCodexSandbox,
     activeTools,
     setActiveTools,
     rightPanelWidth,
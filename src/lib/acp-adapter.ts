@@ -1,3 +1,6 @@
+import type { PermissionRequest } from "@/types";
+import type { ACPPermissionEvent } from "@/types/acp";
+
 export { SimpleStreamingBuffer as ACPStreamingBuffer } from "./streaming-buffer";
 
 /**
@@ -169,6 +172,13 @@ export function normalizeToolResult(rawOutput: unknown, content?: unknown[]): Re
   return Object.keys(result).length > 0 ? result : undefined;
 }
 
+/** Id of the client terminal embedded in a tool call's content (`{ type: "terminal", terminalId }`). */
+export function findTerminalId(content?: unknown[]): string | undefined {
+  const item = content?.find((c) => typeof c === "object" && c !== null && (c as Record<string, unknown>).type === "terminal");
+  const terminalId = (item as { terminalId?: unknown } | undefined)?.terminalId;
+  return typeof terminalId === "string" ? terminalId : undefined;
+}
+
 function isDiffContent(item: unknown): item is { type: "diff"; path: string; oldText: string; newText: string } {
   return typeof item === "object" && item !== null && (item as Record<string, unknown>).type === "diff";
 }
@@ -198,6 +208,32 @@ export function pickAutoResponseOption(
   return null;
 }
 
+/**
+ * Turn an ACP permission event into the PermissionPrompt request. Held file writes
+ * become a `Write` with `writeReview` set, carrying both sides of the diff.
+ */
+export function toPermissionRequest(data: ACPPermissionEvent): PermissionRequest {
+  if (data.writeReview) {
+    return {
+      requestId: data.requestId,
+      toolName: "Write",
+      toolInput: {
+        file_path: data.writeReview.filePath,
+        content: data.writeReview.newContent,
+        old_content: data.writeReview.oldContent,
+        writeReview: true,
+      },
+      toolUseId: data.toolCall.toolCallId,
+    };
+  }
+  return {
+    requestId: data.requestId,
+    toolName: data.toolCall.title,
+    toolInput: normalizeToolInput(data.toolCall.rawInput, data.toolCall.kind),
+    toolUseId: data.toolCall.toolCallId,
+  };
+}
+
 export function deriveToolName(
   title: string,
   kind?: string,
@@ -58,14 +58,42 @@ export function hasUpdate(
 }
 
 /**
- * Check whether a registry agent can be one-click installed — either via npx
- * or because the binary was detected on the system PATH.
+ * Check whether a registry agent can be one-click installed — via npx, because
+ * the binary was detected on the system PATH, or by downloading its archive for
+ * this platform.
  */
 export function isInstallable(
   agent: RegistryAgent,
   binaryPaths?: Record<string, BinaryCheckResult>,
+  platformKey?: string | null,
 ): boolean {
   if (agent.distribution.npx != null) return true;
   if (binaryPaths && binaryPaths[agent.id]) return true;
-  return false;
+  return isDownloadable(agent, platformKey);
+}
+
+/** Whether the registry publishes a binary archive for this platform. */
+export function isDownloadable(agent: RegistryAgent, platformKey?: string | null): boolean {
+  return !!platformKey && !!agent.distribution.binary?.[platformKey];
+}
+
+/** Whether the registry publishes a sha256 for this platform's archive — without one only the download itself is checked. */
+export function hasPublishedChecksum(agent: RegistryAgent, platformKey: string | null): boolean {
+  return !!platformKey && !!agent.distribution.binary?.[platformKey]?.sha256;
+}
+
+/**
+ * Whether installing/updating should download into the managed agents dir rather
+ * than add a definition. Agents already managed stay managed; otherwise npx and
+ * binaries found on PATH win.
+ */
+export function usesManagedInstall(
+  agent: RegistryAgent,
+  installed: InstalledAgent | undefined,
+  binaryPaths: Record<string, BinaryCheckResult>,
+  platformKey: string | null,
+): boolean {
+  if (!isDownloadable(agent, platformKey)) return false;
+  if (installed?.installedVersion) return true;
+  return agent.distribution.npx == null && !binaryPaths[agent.id];
 }
@@ -4,6 +4,7 @@ import {
   normalizeToolInput as acpNormalizeToolInput,
   normalizeToolResult as acpNormalizeToolResult,
   deriveToolName,
+  findTerminalId,
 } from "./acp-adapter";
 
 // ── Shared ACP streaming helpers (also used by Codex handler) ──
@@ -91,12 +92,16 @@ export function handleACPEvent(state: InternalState, event: ACPSessionEvent): vo
         // Handle pre-completed tools (tool arrives with status already set)
         const isAlreadyDone = update.status === "completed" || update.status === "failed";
         const initialResult = isAlreadyDone ? acpNormalizeToolResult(update.rawOutput, update.content) : undefined;
+        const terminalId = findTerminalId(update.content);
         state.messages.push({
           id: msgId,
           role: "tool_call",
           content: "",
           toolName: deriveToolName(update.title, update.kind, update.rawInput),
-          toolInput: acpNormalizeToolInput(update.rawInput, update.kind, update.locations),
+          toolInput: {
+            ...acpNormalizeToolInput(update.rawInput, update.kind, update.locations),
+            ...(terminalId ? { terminalId } : {}),
+          },
           ...(initialResult ? { toolResult: initialResult } : {}),
           ...(update.status === "failed" ? { toolError: true } : {}),
           timestamp: Date.now(),
@@ -110,6 +115,8 @@ export function handleACPEvent(state: InternalState, event: ACPSessionEvent): vo
       if (msg) {
         const result = acpNormalizeToolResult(update.rawOutput, update.content);
         if (result) msg.toolResult = result;
+        const terminalId = findTerminalId(update.content);
+        if (terminalId) msg.toolInput = { ...msg.toolInput, terminalId };
         if (update.status === "failed") msg.toolError = true;
       }
       break;
@@ -211,6 +211,7 @@ export function handleClaudeEvent(
 
       if (target) {
         target.content = textContent || target.content;
+        if (textContent) target.sdkMessageId = evt.uuid;
         if (thinkingContent) {
           target.thinking = thinkingContent;
           target.thinkingComplete = true;
@@ -223,6 +224,7 @@ export function handleClaudeEvent(
           id: `assistant-${evt.uuid}`,
           role: "assistant",
           content: textContent,
+          ...(textContent ? { sdkMessageId: evt.uuid } : {}),
           thinking: thinkingContent || undefined,
           ...(thinkingContent ? { thinkingComplete: true } : {}),
           isStreaming: false,
@@ -1,7 +1,13 @@
 import type { CodexSessionEvent } from "../types/codex";
-import type { CodexThreadItem } from "../types/codex";
+import type { CodexReviewOutput, CodexThreadItem } from "../types/codex";
 import type { InternalState } from "./background-session-store";
-import { codexItemToToolName, codexItemToToolInput, codexItemToToolResult, codexPlanToTodos } from "./codex-adapter";
+import {
+  codexItemToToolName,
+  codexItemToToolInput,
+  codexItemToToolResult,
+  codexReviewToToolResult,
+  codexPlanToTodos,
+} from "./codex-adapter";
 import { ensureACPStreamingMsg, finalizeACPStreamingMsg } from "./background-acp-handler";
 import type { PermissionRequest } from "../types";
 
@@ -26,6 +32,29 @@ export function handleCodexEvent(
   const { method, params } = event;
 
   switch (method) {
+    case "codex:checkpoint": {
+      const userMsg = state.messages.findLast((m) => m.role === "user" && !m.isQueued);
+      if (userMsg && !userMsg.checkpointId) {
+        userMsg.checkpointId = (params as { checkpointId: string }).checkpointId;
+      }
+      break;
+    }
+
+    case "turn/diff/updated": {
+      const userMsg = state.messages.findLast((m) => m.role === "user" && !m.isQueued && !m.isSteer);
+      if (userMsg) userMsg.turnDiff = event.params.diff;
+      break;
+    }
+
+    case "codex:review_output": {
+      // Arrives just before exitedReviewMode, which keeps the findings when it completes the card
+      const card = state.messages.findLast((m) => m.toolName === "CodexReview");
+      if (card) {
+        card.toolResult = { ...(card.toolResult ?? { type: "review" }), structuredContent: event.params.reviewOutput };
+      }
+      break;
+    }
+
     case "turn/started":
       state.isProcessing = true;
       state.codexPlanText = "";
@@ -112,6 +141,13 @@ export function handleCodexEvent(
           state.pendingPermission = permission;
           return { permissionRequest: permission };
         }
+      } else if (item.type === "exitedReviewMode") {
+        finalizeACPStreamingMsg(state);
+        const card = state.messages.findLast((m) => m.toolName === "CodexReview");
+        if (card) {
+          const output = card.toolResult?.structuredContent as CodexReviewOutput | undefined;
+          card.toolResult = codexReviewToToolResult(item.review, output ?? null);
+        }
       } else {
         // Generic tool completion — deterministic fallback for cross-session mapping
         const msgId = state.parentToolMap.get(item.id) ?? `codex-tool-${item.id}`;
@@ -5,8 +5,8 @@
  * Each item type maps to a UIMessage role + toolName for the existing ToolCall UI.
  */
 
-import type { TodoItem, ImageAttachment, ToolUseResult } from "@/types";
-import type { CodexThreadItem } from "@/types/codex";
+import type { TodoItem, ImageAttachment, ToolUseResult, UIMessage } from "@/types";
+import type { CodexReviewOutput, CodexReviewTarget, CodexThread, CodexThreadItem } from "@/types/codex";
 import type { FileUpdateChange } from "@/types/codex-protocol/v2/FileUpdateChange";
 import type { PatchChangeKind } from "@/types/codex-protocol/v2/PatchChangeKind";
 import type { TurnPlanStep } from "@/types/codex-protocol/v2/TurnPlanStep";
@@ -32,6 +32,8 @@ export function codexItemToToolName(item: CodexThreadItem): string | null {
       return "WebSearch";
     case "imageView":
       return "Read"; // reuse Read renderer for image display
+    case "enteredReviewMode":
+      return "CodexReview"; // finalized by the matching exitedReviewMode item
     default:
       return null;
   }
@@ -96,6 +98,8 @@ export function codexItemToToolInput(item: CodexThreadItem): Record<string, unkn
       return { query: item.query ?? "" };
     case "imageView":
       return { file_path: item.path ?? "" };
+    case "enteredReviewMode":
+      return { review: item.review };
     default:
       return {};
   }
@@ -187,6 +191,139 @@ export function codexItemToToolResult(item: CodexThreadItem): ToolUseResult | un
   }
 }
 
+// ── Review mode ──
+
+/** Text of the user message that starts a review turn. */
+export function describeReviewTarget(target: CodexReviewTarget): string {
+  switch (target.type) {
+    case "uncommittedChanges":
+      return "Review uncommitted changes";
+    case "baseBranch":
+      return `Review changes against ${target.branch}`;
+    case "commit":
+      return `Review commit ${target.sha.slice(0, 7)}${target.title ? `: ${target.title}` : ""}`;
+    case "custom":
+      return target.instructions;
+  }
+}
+
+/** Revision passed to `git.diffFile` to show the code a review target covered. */
+export function reviewTargetDiffBase(target: CodexReviewTarget | undefined): string {
+  switch (target?.type) {
+    case "baseBranch":
+      return `${target.branch}...HEAD`;
+    case "commit":
+      return `${target.sha}^!`;
+    default:
+      return "HEAD";
+  }
+}
+
+/**
+ * Tool result for a finished review. `review` is the rendered text from the
+ * exitedReviewMode item; structured findings are attached when Codex sent them.
+ */
+export function codexReviewToToolResult(review: string, output: CodexReviewOutput | null): ToolUseResult {
+  return {
+    type: "review",
+    content: review,
+    ...(output ? { structuredContent: output } : {}),
+  };
+}
+
+// ── Thread history ──
+
+const DATA_URL_RE = /^data:(image\/(?:png|jpeg|gif|webp));base64,(.*)$/;
+
+/**
+ * Rebuild a chat transcript from a `thread/read` response (turns included).
+ * Turns carry no timestamps, so they're spread evenly between the thread's
+ * creation and last update — approximate, but the last turn lands on the
+ * real "last active" time the sidebar sorts by.
+ */
+export function codexThreadToMessages(thread: CodexThread): UIMessage[] {
+  const messages: UIMessage[] = [];
+  const startMs = thread.createdAt * 1000;
+  const spanMs = Math.max(0, thread.updatedAt - thread.createdAt) * 1000;
+  const lastTurn = Math.max(1, thread.turns.length - 1);
+  let turnTime = startMs;
+  // Reasoning arrives as its own item — hold it for the next agent message
+  let pendingThinking = "";
+
+  const push = (message: Omit<UIMessage, "timestamp">) => {
+    messages.push({ ...message, timestamp: turnTime });
+  };
+
+  for (const [turnIndex, turn] of thread.turns.entries()) {
+    turnTime = Math.round(startMs + (spanMs * turnIndex) / lastTurn);
+    for (const item of turn.items) {
+      switch (item.type) {
+        case "userMessage": {
+          const text = item.content
+            .map((input) => (input.type === "text" ? input.text : input.type === "mention" || input.type === "skill" ? `@${input.path}` : ""))
+            .filter(Boolean)
+            .join("\n");
+          const images: ImageAttachment[] = [];
+          for (const input of item.content) {
+            const match = input.type === "image" ? DATA_URL_RE.exec(input.url) : null;
+            if (match) images.push({ id: `${item.id}-${images.length}`, mediaType: match[1] as ImageAttachment["mediaType"], data: match[2] });
+          }
+          push({ id: `codex-user-${item.id}`, role: "user", content: text, ...(images.length ? { images } : {}) });
+          break;
+        }
+        case "reasoning":
+          pendingThinking = [pendingThinking, ...item.summary].filter(Boolean).join("\n\n");
+          break;
+        case "agentMessage":
+          push({
+            id: `codex-msg-${item.id}`,
+            role: "assistant",
+            content: item.text,
+            ...(pendingThinking ? { thinking: pendingThinking, thinkingComplete: true } : {}),
+          });
+          pendingThinking = "";
+          break;
+        case "plan":
+          push({
+            id: `codex-plan-${item.id}`,
+            role: "tool_call",
+            content: "",
+            toolName: "ExitPlanMode",
+            toolInput: { plan: item.text },
+            toolResult: { type: "plan" },
+          });
+          break;
+        case "exitedReviewMode": {
+          const card = messages.findLast((m) => m.toolName === "CodexReview" && m.toolResult?.type !== "review");
+          if (card) card.toolResult = codexReviewToToolResult(item.review, null);
+          break;
+        }
+        case "contextCompaction":
+          push({ id: `codex-compact-${item.id}`, role: "summary", content: "Context compacted" });
+          break;
+        default: {
+          const toolName = codexItemToToolName(item);
+          if (!toolName) break;
+          const isError =
+            ((item.type === "commandExecution" || item.type === "fileChange") && (item.status === "failed" || item.status === "declined")) ||
+            (item.type === "mcpToolCall" && item.status === "failed");
+          push({
+            id: `codex-tool-${item.id}`,
+            role: "tool_call",
+            content: "",
+            toolName,
+            toolInput: codexItemToToolInput(item),
+            // History items are all finished — an empty result still marks the card done
+            toolResult: codexItemToToolResult(item) ?? {},
+            ...(isError ? { toolError: true } : {}),
+          });
+        }
+      }
+    }
+  }
+  return messages;
+}
+
 // ── Approval policy mapping ──
 
 /**
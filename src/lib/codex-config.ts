@@ -0,0 +1,82 @@
+/**
+ * Codex config helpers — layer labels and origin lookup for the settings page
+ * backed by `config/read` / `config/value/write` / `config/batchWrite`.
+ */
+
+import type { CodexConfigLayer, CodexConfigLayerMetadata, CodexConfigLayerSource } from "@/types/codex";
+
+/** Layers Harnss writes to — everything else (system, MDM, managed) is read-only. */
+export type CodexConfigTarget = "user" | "project";
+
+export function formatLayerSource(source: CodexConfigLayerSource): string {
+  switch (source.type) {
+    case "mdm":
+    case "legacyManagedConfigTomlFromMdm":
+      return "MDM";
+    case "legacyManagedConfigTomlFromFile":
+      return "Managed";
+    case "system":
+      return "System";
+    case "user":
+      return "User";
+    case "project":
+      return "Project";
+    case "sessionFlags":
+      return "Session";
+  }
+}
+
+/** File or folder a layer was loaded from, when it has one. */
+export function getLayerPath(source: CodexConfigLayerSource): string | null {
+  switch (source.type) {
+    case "system":
+    case "user":
+    case "legacyManagedConfigTomlFromFile":
+      return source.file;
+    case "project":
+      return source.dotCodexFolder;
+    case "mdm":
+      return `${source.domain}:${source.key}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Layer that set `keyPath`. Origins are reported per leaf key, so a table like
+ * `sandbox_workspace_write` is resolved through its first overridden child.
+ */
+export function findOrigin(
+  origins: { [key: string]: CodexConfigLayerMetadata | undefined },
+  keyPath: string,
+): CodexConfigLayerMetadata | null {
+  const exact = origins[keyPath];
+  if (exact) return exact;
+  for (let parent = keyPath; parent.includes("."); ) {
+    parent = parent.slice(0, parent.lastIndexOf("."));
+    const inherited = origins[parent];
+    if (inherited) return inherited;
+  }
+  const childKey = Object.keys(origins).find((key) => key.startsWith(`${keyPath}.`));
+  return childKey ? origins[childKey] ?? null : null;
+}
+
+export function getProjectConfigPath(cwd: string): string {
+  return `${cwd.replace(/[\\/]+$/, "")}/.codex/config.toml`;
+}
+
+/** The existing layer a write to `target` lands in, if Codex loaded one. */
+export function findTargetLayer(
+  layers: CodexConfigLayer[],
+  target: CodexConfigTarget,
+  cwd: string | undefined,
+): CodexConfigLayer | null {
+  if (target === "user") return layers.find((l) => l.name.type === "user") ?? null;
+  if (!cwd) return null;
+  const folder = getProjectConfigPath(cwd).replace(/\/config\.toml$/, "");
+  return layers.find((l) => l.name.type === "project" && l.name.dotCodexFolder === folder) ?? null;
+}
+
+export function isSameLayer(a: CodexConfigLayerSource, b: CodexConfigLayerSource): boolean {
+  return a.type === b.type && getLayerPath(a) === getLayerPath(b);
+}
@@ -0,0 +1,71 @@
+/**
+ * Codex account usage helpers — labels and warnings for the rate-limit
+ * windows and credits reported by `account/rateLimits/*`.
+ */
+
+import type { CodexRateLimitSnapshot, CodexRateLimitWindow } from "@/types/codex";
+
+/** Usage (percent of a window) at which sends get a warning first. */
+export const USAGE_WARNING_PERCENT = 90;
+
+export interface UsageWindow {
+  label: string;
+  window: CodexRateLimitWindow;
+}
+
+/** "5h", "Weekly", "30d"... from a window length in minutes. */
+export function formatWindowLabel(mins: number | null, fallback: string): string {
+  if (!mins) return fallback;
+  if (mins === 10_080) return "Weekly";
+  if (mins % 1440 === 0) return `${mins / 1440}d`;
+  if (mins % 60 === 0) return `${mins / 60}h`;
+  return `${mins}m`;
+}
+
+/** Short local time for a unix-seconds reset timestamp; includes the date when it's not today. */
+export function formatResetTime(resetsAt: number | null): string | null {
+  if (!resetsAt) return null;
+  const date = new Date(resetsAt * 1000);
+  const time = date.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+  return date.toDateString() === new Date().toDateString()
+    ? time
+    : `${date.toLocaleDateString([], { month: "short", day: "numeric" })} ${time}`;
+}
+
+export function getUsageWindows(snapshot: CodexRateLimitSnapshot | null | undefined): UsageWindow[] {
+  if (!snapshot) return [];
+  const windows: UsageWindow[] = [];
+  if (snapshot.primary) {
+    windows.push({ label: formatWindowLabel(snapshot.primary.windowDurationMins, "Primary"), window: snapshot.primary });
+  }
+  if (snapshot.secondary) {
+    windows.push({ label: formatWindowLabel(snapshot.secondary.windowDurationMins, "Secondary"), window: snapshot.secondary });
+  }
+  return windows;
+}
+
+/**
+ * Warning to show before sending, or null when usage is fine. The key changes
+ * with each window period so a dismissed warning comes back after a reset.
+ */
+export function getUsageWarning(
+  snapshot: CodexRateLimitSnapshot | null | undefined,
+): { key: string; message: string } | null {
+  if (!snapshot) return null;
+
+  const credits = snapshot.credits;
+  if (credits && !credits.unlimited && !credits.hasCredits) {
+    return { key: `credits:${credits.balance ?? ""}`, message: "Your Codex credits are used up." };
+  }
+
+  const worst = getUsageWindows(snapshot)
+    .filter(({ window }) => window.usedPercent >= USAGE_WARNING_PERCENT)
+    .sort((a, b) => b.window.usedPercent - a.window.usedPercent)[0];
+  if (!worst) return null;
+
+  const reset = formatResetTime(worst.window.resetsAt);
+  return {
+    key: `${snapshot.limitId ?? ""}:${worst.label}:${worst.window.resetsAt ?? ""}`,
+    message: `Codex ${worst.label} limit is ${Math.round(worst.window.usedPercent)}% used${reset ? ` — resets ${reset}` : ""}.`,
+  };
+}
@@ -31,6 +31,13 @@ export function createUserMessage(
   };
 }
 
+/** Strip `<file path="...">...</file>` and `<folder path="...">...</folder>` context blocks from user messages */
+export function stripFileContext(text: string): string {
+  let result = text.replace(/<file path="[^"]*">[\s\S]*?<\/file>\s*/g, "");
+  result = result.replace(/<folder path="[^"]*">[\s\S]*?<\/folder>\s*/g, "");
+  return result.trim();
+}
+
 /** Convert SDK result error subtypes to user-friendly messages. */
 export function formatResultError(subtype: string, detail: string): string {
   switch (subtype) {
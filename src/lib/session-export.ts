@@ -0,0 +1,282 @@
+import { createTwoFilesPatch } from "diff";
+import type { PersistedSession, Project, SessionBundle, UIMessage } from "@/types";
+import { extractTurnSummaries, type FileChange } from "@/lib/turn-changes";
+import { stripFileContext } from "@/lib/message-factory";
+import { formatCompactSummary, extractResultText } from "@/components/lib/tool-formatting";
+import { getToolLabel } from "@/components/lib/tool-metadata";
+
+export type SessionExportFormat = "markdown" | "html" | "bundle";
+
+/** Extra context that isn't part of the persisted session itself. */
+export interface SessionExportContext {
+  appVersion: string;
+  project?: Project;
+}
+
+const FILE_EXTENSIONS: Record<SessionExportFormat, string> = {
+  markdown: "md",
+  html: "html",
+  bundle: "harnss.json",
+};
+
+/** Filesystem-friendly default file name derived from the session title. */
+export function exportFileName(title: string, format: SessionExportFormat): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${slug || "session"}.${FILE_EXTENSIONS[format]}`;
+}
+
+// ── Shared helpers ──
+
+/**
+ * Render a FileChange as a git-style unified patch. Prefers the engine's own
+ * diff when one was recorded, otherwise reconstructs it from the edit strings.
+ */
+export function fileChangeToPatch(change: FileChange): string {
+  if (change.unifiedDiff) return change.unifiedDiff;
+  const isCreate = change.changeType === "created" && change.content !== undefined;
+  const patch = createTwoFilesPatch(
+    isCreate ? "/dev/null" : change.filePath,
+    change.filePath,
+    isCreate ? "" : (change.oldString ?? ""),
+    isCreate ? change.content! : (change.newString ?? ""),
+  );
+  // Drop the "Index:" / "====" preamble jsdiff adds — start at the "---" header
+  return patch.slice(Math.max(0, patch.indexOf("--- ")));
+}
+
+/** Human label for a tool call header, mirroring the collapsed ToolCall row. */
+export function toolCallLabel(message: UIMessage): string {
+  const toolName = message.toolName ?? "";
+  if (message.toolError) return `Failed to ${getToolLabel(toolName, "failure")}`;
+  return getToolLabel(toolName, message.toolResult ? "past" : "active") ?? (toolName || "Tool");
+}
+
+export function userDisplayText(message: UIMessage): string {
+  return message.displayContent ?? stripFileContext(message.content);
+}
+
+function countImages(messages: UIMessage[]): number {
+  return messages.reduce((n, m) => n + (m.images?.length ?? 0), 0);
+}
+
+function formatDate(ts: number): string {
+  return new Date(ts).toLocaleString();
+}
+
+/** Metadata rows shown at the top of Markdown and HTML exports. */
+export function exportMetadataRows(
+  session: PersistedSession,
+  ctx: SessionExportContext,
+): Array<[string, string]> {
+  const rows: Array<[string, string]> = [];
+  if (ctx.project) rows.push(["Project", ctx.project.name]);
+  rows.push(["Engine", session.engine ?? "claude"]);
+  if (session.model) rows.push(["Model", session.model]);
+  if (session.totalCost > 0) rows.push(["Cost", `$${session.totalCost.toFixed(4)}`]);
+  rows.push(["Created", formatDate(session.createdAt)]);
+  rows.push(["Exported", `${formatDate(Date.now())} · Harnss ${ctx.appVersion}`]);
+  return rows;
+}
+
+// ── Markdown ──
+
+/** Pick a backtick fence longer than any run inside the content. */
+function fence(text: string, lang = ""): string {
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const ticks = "`".repeat(longest + 1);
+  return `${ticks}${lang}\n${text.replace(/\n$/, "")}\n${ticks}`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function details(summary: string, body: string): string {
+  return `<details>\n<summary>${escapeHtml(summary)}</summary>\n\n${body}\n\n</details>`;
+}
+
+function toolCallToMarkdown(message: UIMessage): string {
+  const compact = formatCompactSummary(message);
+  const summary = compact ? `${toolCallLabel(message)} — ${compact}` : toolCallLabel(message);
+  const parts: string[] = [];
+
+  if (message.toolInput && Object.keys(message.toolInput).length > 0) {
+    parts.push("**Input**", fence(JSON.stringify(message.toolInput, null, 2), "json"));
+  }
+  if (message.subagentSteps?.length) {
+    const steps = message.subagentSteps.map((step) => {
+      const status = step.toolError ? " (failed)" : "";
+      return `- \`${step.toolName}\`${status}`;
+    });
+    parts.push("**Steps**", steps.join("\n"));
+  }
+  const result = extractResultText(message.toolResult) || message.toolResult?.stderr || "";
+  if (result) {
+    parts.push(message.toolError ? "**Error**" : "**Result**", fence(result));
+  }
+
+  return details(summary, parts.join("\n\n") || "_No output_");
+}
+
+function changesToMarkdown(changes: FileChange[]): string {
+  const blocks = changes.map((change) =>
+    details(`${change.filePath} (${change.changeType})`, fence(fileChangeToPatch(change), "diff")),
+  );
+  return `### Changes\n\n${blocks.join("\n\n")}`;
+}
+
+/**
+ * Render a session as a Markdown transcript. Tool calls become collapsible
+ * `<details>` blocks and each turn's file edits are appended as diffs.
+ */
+export function sessionToMarkdown(session: PersistedSession, ctx: SessionExportContext): string {
+  const out: string[] = [`# ${session.title}`];
+  out.push(exportMetadataRows(session, ctx).map(([k, v]) => `- **${k}:** ${v}`).join("\n"));
+
+  const turnSummaryByEnd = new Map(
+    extractTurnSummaries(session.messages, false).map((s) => [s.endMessageIndex, s]),
+  );
+  // Only print an "Assistant" heading once per reply, not before every chunk
+  let inAssistantReply = false;
+
+  session.messages.forEach((msg, index) => {
+    switch (msg.role) {
+      case "user": {
+        inAssistantReply = false;
+        out.push(`## User\n\n_${formatDate(msg.timestamp)}_`);
+        const text = userDisplayText(msg);
+        if (text) out.push(text);
+        for (const img of msg.images ?? []) {
+          out.push(`_[Image: ${img.fileName ?? img.mediaType}]_`);
+        }
+        break;
+      }
+      case "assistant":
+      case "tool_call":
+        if (!inAssistantReply) {
+          out.push("## Assistant");
+          inAssistantReply = true;
+        }
+        if (msg.role === "tool_call") {
+          out.push(toolCallToMarkdown(msg));
+        } else {
+          if (msg.thinking) out.push(details("Thinking", msg.thinking));
+          if (msg.content) out.push(msg.content);
+        }
+        break;
+      case "summary":
+        out.push(details("Context summary", msg.content || "_Empty summary_"));
+        break;
+      case "system":
+        out.push(`> ${msg.isError ? "**Error:** " : ""}${msg.content.replace(/\n/g, "\n> ")}`);
+        break;
+      case "tool_result":
+        break;
+    }
+
+    const turnSummary = turnSummaryByEnd.get(index);
+    if (turnSummary) out.push(changesToMarkdown(turnSummary.changes));
+  });
+
+  return `${out.join("\n\n")}\n`;
+}
+
+// ── Bundle ──
+
+/** Build the versioned JSON bundle — a lossless copy suitable for re-import. */
+export function sessionToBundle(session: PersistedSession, ctx: SessionExportContext): SessionBundle {
+  const lastMessageAt = session.messages.length > 0
+    ? session.messages[session.messages.length - 1].timestamp
+    : undefined;
+  return {
+    format: "harnss-session",
+    version: 1,
+    exportedAt: Date.now(),
+    source: {
+      appVersion: ctx.appVersion,
+      projectName: ctx.project?.name,
+      projectPath: ctx.project?.path,
+    },
+    session: {
+      id: session.id,
+      title: session.title,
+      createdAt: session.createdAt,
+      lastMessageAt,
+      model: session.model,
+      totalCost: session.totalCost,
+      engine: session.engine,
+      agentSessionId: session.agentSessionId,
+      agentId: session.agentId,
+      codexThreadId: session.codexThreadId,
+      imageCount: countImages(session.messages),
+    },
+    // Streaming/queue flags are transient UI state — never persist them
+    messages: session.messages
+      .filter((m) => !m.isQueued)
+      .map(({ isStreaming: _streaming, ...rest }) => rest),
+  };
+}
+
+// ── Continuation seed ──
+
+const SEED_REQUEST_LIMIT = 600;
+const SEED_REPLY_LIMIT = 3000;
+const SEED_MAX_REQUESTS = 20;
+
+function clip(text: string, limit: number): string {
+  const trimmed = text.trim();
+  return trimmed.length > limit ? `${trimmed.slice(0, limit)}…` : trimmed;
+}
+
+/** Recap sections shared by the import and fork seeds. */
+function recapSections(messages: UIMessage[]): string[] {
+  const requests = messages
+    .filter((m) => m.role === "user")
+    .map((m) => clip(userDisplayText(m), SEED_REQUEST_LIMIT))
+    .filter(Boolean);
+  const shownRequests = requests.slice(-SEED_MAX_REQUESTS);
+  const files = [...new Set(extractTurnSummaries(messages, false).flatMap((t) => t.changes.map((c) => c.filePath)))];
+  const lastSummary = [...messages].reverse().find((m) => m.role === "summary" && m.content.trim());
+  const lastReply = [...messages].reverse().find((m) => m.role === "assistant" && m.content.trim());
+
+  const parts: string[] = [];
+  if (lastSummary) parts.push(`## Earlier summary\n${clip(lastSummary.content, SEED_REPLY_LIMIT)}`);
+  if (shownRequests.length > 0) {
+    const skipped = requests.length - shownRequests.length;
+    parts.push(
+      `## User requests${skipped > 0 ? ` (last ${shownRequests.length} of ${requests.length})` : ""}\n`
+        + shownRequests.map((r, i) => `${i + 1}. ${r}`).join("\n"),
+    );
+  }
+  if (files.length > 0) parts.push(`## Files changed\n${files.map((f) => `- ${f}`).join("\n")}`);
+  if (lastReply) parts.push(`## Last assistant reply\n${clip(lastReply.content, SEED_REPLY_LIMIT)}`);
+  return parts;
+}
+
+/**
+ * Condensed recap of an imported session, sent ahead of the first prompt when
+ * the user continues it in a fresh engine session (the original can't resume).
+ */
+export function buildContinuationSeed(session: PersistedSession): string {
+  const parts = [
+    `This conversation continues "${session.title}", imported from another session${session.model ? ` (${session.model})` : ""}. The original agent session is not available, so here is a recap of it.`,
+    ...recapSections(session.messages),
+  ];
+  return `<imported-session-context>\n${parts.join("\n\n")}\n</imported-session-context>`;
+}
+
+/**
+ * Recap of the messages a fork keeps, for engines that can't branch their own
+ * history. Sent ahead of the first prompt in the forked session.
+ */
+export function buildForkSeed(parentTitle: string, messages: UIMessage[]): string {
+  const parts = [
+    `This conversation is a fork of "${parentTitle}". The agent session could not be branched directly, so here is a recap of the conversation up to the fork point.`,
+    ...recapSections(messages),
+  ];
+  return `<forked-session-context>\n${parts.join("\n\n")}\n</forked-session-context>`;
+}
@@ -0,0 +1,80 @@
+/**
+ * Slash command helpers for the InputBar palette — parsing `/name args` input
+ * and turning each engine's command list into `SlashCommand` entries.
+ *
+ * Claude and ACP agents take commands as plain `/name args` prompt text. Codex
+ * custom prompts are expanded here before sending, and its built-ins map to
+ * app actions (compact, review) because app-server has no slash command input.
+ */
+
+import type { FileSlashCommand, SlashCommand } from "@/types";
+
+/** Codex built-ins Harnss can run on a live thread. */
+export const CODEX_BUILTIN_COMMANDS: SlashCommand[] = [
+  { name: "compact", description: "Summarize the conversation to free up context", source: "codex-builtin" },
+  {
+    name: "review",
+    description: "Review uncommitted changes, or follow custom review instructions",
+    argumentHint: "[instructions]",
+    source: "codex-builtin",
+  },
+];
+
+export function fromClaudeCommandFile(command: FileSlashCommand): SlashCommand {
+  return {
+    name: command.name,
+    description: command.description ? `${command.description} (${command.scope})` : `(${command.scope})`,
+    argumentHint: command.argumentHint,
+    source: "claude",
+  };
+}
+
+/** Codex lists custom prompts under the `prompts:` namespace. */
+export function fromCodexPrompt(prompt: FileSlashCommand): SlashCommand {
+  return {
+    name: `prompts:${prompt.name}`,
+    description: prompt.description,
+    argumentHint: prompt.argumentHint,
+    source: "codex-prompt",
+    template: prompt.content,
+  };
+}
+
+/** Split `/name rest of args` — null when the text isn't a slash command. */
+export function parseSlashInput(text: string): { name: string; args: string } | null {
+  const match = text.match(/^\/(\S+)(?:\s+([\s\S]*))?$/);
+  if (!match) return null;
+  return { name: match[1], args: (match[2] ?? "").trim() };
+}
+
+/** Whitespace-separated arguments; double or single quotes keep spaces together. */
+function splitArgs(args: string): string[] {
+  const out: string[] = [];
+  for (const match of args.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g)) {
+    out.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return out;
+}
+
+/**
+ * Fill a Codex custom prompt the way the Codex CLI does: `$1`…`$9` take positional
+ * arguments, `$ARGUMENTS` takes all of them, `$NAME` takes a `NAME=value` argument,
+ * and `$$` is a literal dollar sign. Unknown named placeholders are left as-is.
+ */
+export function expandCodexPrompt(template: string, args: string): string {
+  const tokens = splitArgs(args);
+  const named = new Map<string, string>();
+  const positional: string[] = [];
+  for (const token of tokens) {
+    const pair = token.match(/^([A-Z][A-Z0-9_]*)=([\s\S]*)$/);
+    if (pair) named.set(pair[1], pair[2]);
+    else positional.push(token);
+  }
+
+  return template.replace(/\$(\$|ARGUMENTS|[1-9]|[A-Z][A-Z0-9_]*)/g, (placeholder, key: string) => {
+    if (key === "$") return "$";
+    if (key === "ARGUMENTS") return positional.join(" ");
+    if (/^[1-9]$/.test(key)) return positional[Number(key) - 1] ?? "";
+    return named.get(key) ?? placeholder;
+  }).trim();
+}
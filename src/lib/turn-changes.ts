@@ -1,5 +1,5 @@
 import type { UIMessage } from "@/types";
-import { parseUnifiedDiffFromUnknown } from "@/lib/unified-diff";
+import { parseUnifiedDiff, parseUnifiedDiffFromUnknown } from "@/lib/unified-diff";
 
 // ── Types ──
 
@@ -133,6 +133,100 @@ function extractChange(msg: UIMessage): FileChange | null {
   }
 }
 
+/**
+ * Extract every file of a Codex `fileChange` item. Its structuredPatch holds one
+ * entry per file with a `kind` (add/delete/update), unlike Claude's hunk list.
+ */
+function extractPatchChanges(msg: UIMessage): FileChange[] | null {
+  const patches = Array.isArray(msg.toolResult?.structuredPatch)
+    ? (msg.toolResult.structuredPatch as Array<Record<string, unknown>>)
+    : [];
+  if (patches.length === 0 || !patches.every((entry) => typeof entry.kind === "string")) return null;
+
+  const results: FileChange[] = [];
+  for (const entry of patches) {
+    const filePath = typeof entry.filePath === "string" ? entry.filePath : "";
+    if (!filePath) continue;
+    const diff = typeof entry.diff === "string" ? entry.diff : undefined;
+    const newString = typeof entry.newString === "string" ? entry.newString : undefined;
+    if (entry.kind === "add") {
+      results.push({
+        filePath,
+        fileName: basename(filePath),
+        changeType: "created",
+        toolName: "Write",
+        content: newString ?? diff ?? "",
+        messageId: msg.id,
+        timestamp: msg.timestamp,
+      });
+      continue;
+    }
+    results.push({
+      filePath,
+      fileName: basename(filePath),
+      changeType: "modified",
+      toolName: "Edit",
+      unifiedDiff: diff,
+      oldString: typeof entry.oldString === "string" ? entry.oldString : "",
+      newString: newString ?? "",
+      messageId: msg.id,
+      timestamp: msg.timestamp,
+    });
+  }
+  return results;
+}
+
+/** Strip the `a/` / `b/` prefix git puts on diff header paths. */
+function stripDiffPrefix(path: string): string {
+  return path.replace(/^[ab]\//, "");
+}
+
+/**
+ * Split a Codex aggregated turn diff (`turn/diff/updated`) into one change per file.
+ * The diff reports paths relative to the repo, so they're matched back to the
+ * absolute paths of the turn's fileChange items where possible.
+ */
+function extractTurnDiffChanges(
+  turnDiff: string,
+  itemChanges: FileChange[],
+  userMsg: UIMessage,
+): FileChange[] {
+  const blocks = turnDiff.replace(/\r\n/g, "\n").split(/^(?=diff --git )/m).filter((b) => b.trim());
+  const results: FileChange[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split("\n");
+    const oldPath = lines.find((l) => l.startsWith("--- "))?.slice(4).trim();
+    const newPath = lines.find((l) => l.startsWith("+++ "))?.slice(4).trim();
+    const headerPath = lines[0].match(/^diff --git a\/(.+) b\/(.+)$/)?.[2];
+    const rawPath = newPath && newPath !== "/dev/null"
+      ? stripDiffPrefix(newPath)
+      : oldPath && oldPath !== "/dev/null"
+        ? stripDiffPrefix(oldPath)
+        : headerPath;
+    if (!rawPath) continue;
+
+    // Last item in the turn that touched this file — keeps panel selection and navigation working
+    const item = itemChanges.findLast((c) => c.filePath === rawPath || c.filePath.endsWith(`/${rawPath}`));
+    const filePath = item?.filePath ?? rawPath;
+    const created = oldPath === "/dev/null" || lines.some((l) => l.startsWith("new file mode"));
+    const parsed = parseUnifiedDiff(block);
+
+    results.push({
+      filePath,
+      fileName: basename(filePath),
+      changeType: created ? "created" : "modified",
+      toolName: "Edit",
+      unifiedDiff: block,
+      oldString: parsed?.oldString ?? "",
+      newString: parsed?.newString ?? "",
+      messageId: item?.messageId ?? userMsg.id,
+      timestamp: item?.timestamp ?? userMsg.timestamp,
+    });
+  }
+  return results;
+}
+
 /** Extract file changes from subagent steps (nested tool calls in Task tool). */
 function extractSubagentChanges(msg: UIMessage): FileChange[] {
   if (!msg.subagentSteps?.length) return [];
@@ -239,11 +333,17 @@ function computeStats(changes: FileChange[]) {
   return { fileCount: files.size, modifiedCount: modified, createdCount: created };
 }
 
+/** Steered and still-queued user messages belong to the turn around them, not a new one. */
+function startsTurn(msg: UIMessage): boolean {
+  return msg.role === "user" && !msg.isSteer && !msg.isQueued;
+}
+
 // ── Public API ──
 
 /**
  * Extract per-turn file change summaries from the message array.
- * Skips the current in-progress turn (when isProcessing is true).
+ * Skips the current in-progress turn (when isProcessing is true), unless Codex
+ * has already reported a turn diff for it — that one updates live.
  * Only returns turns that have at least one file change.
  */
 export function extractTurnSummaries(
@@ -257,10 +357,10 @@ export function extractTurnSummaries(
 
   for (let i = 0; i < messages.length; i++) {
     const msg = messages[i];
-    if (msg.role === "user") {
+    if (startsTurn(msg)) {
       // Close previous turn (if any)
       if (turnStartIdx >= 0) {
-        const changes = collectChangesInRange(messages, turnStartIdx, i);
+        const changes = collectTurnChanges(messages, turnStartIdx, i);
         if (changes.length > 0) {
           summaries.push({
             turnIndex,
@@ -277,9 +377,9 @@ export function extractTurnSummaries(
     }
   }
 
-  // Close the last turn — but only if we're not mid-turn
-  if (turnStartIdx >= 0 && !isProcessing) {
-    const changes = collectChangesInRange(messages, turnStartIdx, messages.length);
+  // Close the last turn — but only if we're not mid-turn (or Codex streams its diff)
+  if (turnStartIdx >= 0 && (!isProcessing || messages[turnStartIdx].turnDiff !== undefined)) {
+    const changes = collectTurnChanges(messages, turnStartIdx, messages.length);
     if (changes.length > 0) {
       summaries.push({
         turnIndex,
@@ -304,6 +404,11 @@ function collectChangesInRange(
   for (let i = start; i < end; i++) {
     const msg = messages[i];
     if (msg.role === "tool_call") {
+      const patchChanges = extractPatchChanges(msg);
+      if (patchChanges) {
+        changes.push(...patchChanges);
+        continue;
+      }
       const change = extractChange(msg);
       if (change) changes.push(change);
       // Also check subagent steps (Task tool with nested file changes)
@@ -313,9 +418,32 @@ function collectChangesInRange(
   return changes;
 }
 
+/**
+ * File changes of the turn starting at `start`. A Codex turn diff, when present,
+ * replaces the per-item changes — it's the net result of the whole turn.
+ */
+function collectTurnChanges(
+  messages: UIMessage[],
+  start: number,
+  end: number,
+): FileChange[] {
+  const itemChanges = collectChangesInRange(messages, start, end);
+  const userMsg = messages[start];
+  if (userMsg?.role !== "user" || userMsg.turnDiff === undefined) return itemChanges;
+  return extractTurnDiffChanges(userMsg.turnDiff, itemChanges, userMsg);
+}
+
 /** Flat list of all file changes across all turns. */
 export function extractAllFileChanges(messages: UIMessage[]): FileChange[] {
-  return collectChangesInRange(messages, 0, messages.length);
+  const changes: FileChange[] = [];
+  let start = 0;
+  for (let i = 1; i <= messages.length; i++) {
+    if (i === messages.length || startsTurn(messages[i])) {
+      changes.push(...collectTurnChanges(messages, start, i));
+      start = i;
+    }
+  }
+  return changes;
 }
 
 /** Group changes by file path for cumulative view. */
@@ -27,12 +27,16 @@ export type {
   Space,
   SearchMessageResult,
   SearchSessionResult,
+  SearchFilters,
+  SearchResults,
   TodoItem,
   SubagentToolStep,
   UIMessage,
   SessionInfo,
   Project,
   SessionBase,
+  SessionImportInfo,
+  SessionForkInfo,
   ChatSession,
   PersistedSession,
   PermissionRequest,
@@ -46,6 +50,8 @@ export type {
   AppSettings,
   InstalledAgent,
   ModelInfo,
+  SlashCommand,
+  FileSlashCommand,
   GitFileStatus,
   GitFileGroup,
   GitFileChange,
@@ -65,9 +71,20 @@ export type {
   ACPSessionUpdate,
   ACPPermissionEvent,
   ACPTurnCompleteEvent,
+  ACPTerminalEvent,
   ACPConfigOption,
+  ACPAvailableCommand,
+  ACPSessionMode,
+  ACPSessionModeState,
   ACPConfigSelectOption,
   ACPConfigSelectGroup,
+  ACPAgentCapabilities,
+  ACPAuthMethod,
+  ACPAuthRequestEvent,
+  ACPPromptMention,
+  ACPPromptContext,
+  ACPHealthCheckStep,
+  ACPHealthCheckResult,
 } from "./acp";
 
 export type { EngineId, EngineHookState, AppPermissionBehavior, AppPermissionBehavior as PermissionBehavior, RespondPermissionFn, SessionMeta } from "./engine";
@@ -76,6 +93,7 @@ export type {
   CodexSessionEvent,
   CodexApprovalRequest,
   CodexServerRequest,
+  CodexSkillApprovalRequest,
   CodexExitEvent,
 } from "./codex";
 
@@ -85,4 +103,20 @@ export type {
   RegistryDistribution,
   RegistryNpxDistribution,
   RegistryBinaryTarget,
+  AgentRegistrySource,
+  RegistrySourceResult,
+  SourcedRegistryAgent,
 } from "./registry";
+
+export type {
+  ProtocolDirection,
+  ProtocolMessageKind,
+  ProtocolEntry,
+  ProtocolRecordingState,
+} from "./protocol-inspector";
+
+export type {
+  SessionBundle,
+  SessionBundleSource,
+  SessionBundleMeta,
+} from "./session-bundle";
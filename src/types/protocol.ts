@@ -11,6 +11,8 @@ export interface SystemInitEvent {
   claude_code_version: string;
   agents: string[];
   mcp_servers?: Array<{ name: string; status: string }>;
+  /** Names of the slash commands this session accepts (built-in, custom, plugin, skills) */
+  slash_commands?: string[];
 }
 
 export interface AuthStatusEvent {
@@ -0,0 +1,2 @@
+// Re-export from shared types for backward compatibility
+export * from "../../shared/types/session-bundle";
@@ -1,6 +1,7 @@
 import type { ToolUseResult } from "./protocol";
-import type { ACPConfigOption } from "./acp";
+import type { ACPAgentCapabilities, ACPConfigOption, ACPSessionModeState } from "./acp";
 import type { EngineId } from "./engine";
+import type { AgentRegistrySource } from "./registry";
 
 export type PreferredEditor = "auto" | "cursor" | "code" | "zed";
 export type VoiceDictationMode = "native" | "whisper";
@@ -36,6 +37,10 @@ export interface AppSettings {
   notifications: NotificationSettings;
   /** Custom client name sent to Codex servers during handshake (default: "Harnss") */
   codexClientName: string;
+  /** Snapshot the git working tree before each Codex turn so it can be reverted (default: true) */
+  codexFileSnapshots: boolean;
+  /** Where the agent store loads registries from, in priority order */
+  agentRegistries: AgentRegistrySource[];
 }
 
 export interface SpaceColor {
@@ -60,8 +65,32 @@ export interface SearchMessageResult {
   projectId: string;
   sessionTitle: string;
   messageId: string;
-  snippet: string;           // ~80 chars around match
+  role: UIMessage["role"];
+  toolName?: string;
+  snippet: string;           // ~140 chars around the first match
+  /** [start, end) ranges in `snippet` to highlight */
+  highlights: Array<[number, number]>;
   timestamp: number;
+  score: number;
+}
+
+export interface SearchFilters {
+  engine?: EngineId;
+  /** Case-insensitive substring of the session model */
+  model?: string;
+  /** Exact tool name (matches tool calls only) */
+  toolName?: string;
+  /** Inclusive message timestamp bounds (ms) */
+  from?: number;
+  to?: number;
+}
+
+export interface SearchResults {
+  messageResults: SearchMessageResult[];
+  sessionResults: SearchSessionResult[];
+  /** Total message hits across all pages */
+  total: number;
+  error?: string;
 }
 
 export interface SearchSessionResult {
@@ -116,10 +145,19 @@ export interface UIMessage {
   compactPreTokens?: number;
   /** When true, system message is rendered with error styling (red text, alert icon) */
   isError?: boolean;
-  /** SDK checkpoint UUID — when present, files can be reverted to the state before this message */
+  /**
+   * Engine checkpoint — when present, files can be reverted to the state before this message.
+   * Claude: SDK message UUID. Codex: git tree id of the working-tree snapshot taken before the turn.
+   */
   checkpointId?: string;
+  /** Codex: latest aggregated unified diff (`turn/diff/updated`) of the turn this user message started */
+  turnDiff?: string;
+  /** SDK message UUID of a Claude assistant reply — a resume point when forking after this message */
+  sdkMessageId?: string;
   /** When true, this user message is waiting in the queue — not yet sent to the agent */
   isQueued?: boolean;
+  /** When true, this user message was added to an already-running turn instead of starting a new one */
+  isSteer?: boolean;
 }
 
 export interface SessionInfo {
@@ -152,6 +190,37 @@ export interface SessionBase {
   agentSessionId?: string;
   agentId?: string;
   codexThreadId?: string;
+  /** Set when the session was created from an imported bundle. */
+  importedFrom?: SessionImportInfo;
+  /** Imported session whose engine session can't be resumed — view only until continued in a fresh session. */
+  readOnly?: boolean;
+  /** Set when the session was forked from a message in another session. */
+  forkedFrom?: SessionForkInfo;
+}
+
+/** Provenance of a session imported from a bundle. */
+export interface SessionImportInfo {
+  /** Session id in the exporting app — ids are regenerated on import. */
+  sessionId: string;
+  exportedAt: number;
+  appVersion?: string;
+  projectName?: string;
+  importedAt: number;
+}
+
+/** Lineage of a session created with "Fork from here". */
+export interface SessionForkInfo {
+  sessionId: string;
+  /** The user message the fork branched before — it is not part of the fork. */
+  messageId: string;
+  /** Parent title at fork time, so lineage still reads well if the parent is renamed or deleted. */
+  title: string;
+  forkedAt: number;
+  /**
+   * Recap of the parent conversation for engines that couldn't branch natively.
+   * Sent ahead of the first prompt, then cleared.
+   */
+  contextSeed?: string;
 }
 
 export interface ChatSession extends SessionBase {
@@ -242,10 +311,22 @@ export interface InstalledAgent {
   registryId?: string;
   /** Version from the registry at install time */
   registryVersion?: string;
+  /** Version of the binary Harnss downloaded into its managed agents dir — unset for npx and PATH agents */
+  installedVersion?: string;
+  /** The managed install replaced by the last update, kept on disk for rollback */
+  previousInstall?: { version: string; binary: string; args?: string[] };
   /** Description from the registry, shown in agent cards */
   description?: string;
   /** Cached config options from the last ACP session — shown before session starts */
   cachedConfigOptions?: ACPConfigOption[];
+  /** Session modes from the last ACP session — `currentModeId` is the mode new sessions start in */
+  cachedModes?: ACPSessionModeState;
+  /** Hold `fs/write_text_file` requests for user review instead of writing straight to disk */
+  reviewWrites?: boolean;
+  /** What the agent reported in its last `initialize` handshake */
+  capabilities?: ACPAgentCapabilities;
+  /** Last successful ACP `authenticate` — reused automatically when the agent asks for auth again */
+  auth?: { methodId: string; authenticatedAt: number };
 }
 
 // ── Model types ──
@@ -256,6 +337,29 @@ export interface ModelInfo {
   description: string;
 }
 
+// ── Slash command types ──
+
+/** A `/` command offered by the active agent — listed in the InputBar command palette. */
+export interface SlashCommand {
+  name: string;
+  description?: string;
+  argumentHint?: string;
+  /** Decides how a picked command is sent: as `/name args` text, as an expanded prompt, or as an app action */
+  source: "claude" | "acp" | "codex-prompt" | "codex-builtin";
+  /** Codex custom prompt body — `$ARGUMENTS`, `$1`… and `$NAME` are filled in before sending */
+  template?: string;
+}
+
+/** A markdown-backed command file (`.claude/commands`, `~/.codex/prompts`) read by the main process. */
+export interface FileSlashCommand {
+  name: string;
+  description?: string;
+  argumentHint?: string;
+  content: string;
+  scope: "project" | "user";
+  path: string;
+}
+
 // ── MCP types ──
 
 export type McpTransport = "stdio" | "sse" | "http";
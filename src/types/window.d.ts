@@ -1,14 +1,21 @@
 import type { ClaudeEvent } from "./protocol";
 import type {
   CCSessionInfo, PersistedSession, Project, UIMessage, Space,
-  SearchMessageResult, SearchSessionResult,
+  SearchFilters, SearchResults,
   GitRepoInfo, GitStatus, GitBranch, GitLogEntry,
-  InstalledAgent, ModelInfo, McpServerConfig, McpServerStatus,
-  AppSettings,
+  InstalledAgent, ModelInfo, McpServerConfig, McpServerStatus, FileSlashCommand,
+  AppSettings, SessionForkInfo,
 } from "./ui";
-import type { ACPSessionEvent, ACPPermissionEvent, ACPTurnCompleteEvent, ACPConfigOption } from "./acp";
+import type { ACPSessionEvent, ACPPermissionEvent, ACPTurnCompleteEvent, ACPTerminalEvent, ACPConfigOption, ACPAvailableCommand, ACPSessionModeState, ACPHealthCheckResult, ACPAuthRequestEvent, ACPPromptContext } from "./acp";
 import type { EngineId, AppPermissionBehavior } from "./engine";
-import type { CodexSessionEvent, CodexServerRequest, CodexExitEvent } from "./codex";
+import type { RegistryAgent, RegistrySourceResult } from "./registry";
+import type { ProtocolEntry, ProtocolRecordingState } from "./protocol-inspector";
+import type {
+  CodexSessionEvent, CodexServerRequest, CodexExitEvent, CodexReviewTarget, CodexThread, CodexRateLimitSnapshot,
+  CodexConfigReadResponse, CodexConfigEdit, CodexConfigWriteResponse, CodexConfigWarning,
+  CodexSkillsListEntry, CodexRemoteSkill, CodexSkillsRemoteReadParams,
+  CodexSandboxSettings, CodexCommandApprovalDecision,
+} from "./codex";
 import type { Model as CodexModel } from "./codex-protocol/v2/Model";
 import type { CollaborationMode } from "./codex-protocol/CollaborationMode";
 
@@ -23,6 +30,7 @@ interface SessionListItem {
   totalCost: number;
   engine?: EngineId;
   codexThreadId?: string;
+  forkedFrom?: SessionForkInfo;
 }
 
 type CodexImageInput = { type: "image"; url: string } | { type: "localImage"; path: string };
@@ -51,6 +59,12 @@ declare global {
       stop: (sessionId: string, reason?: string) => Promise<{ ok: boolean }>;
       interrupt: (sessionId: string) => Promise<{ ok?: boolean; error?: string }>;
       supportedModels: (sessionId: string) => Promise<{ models: ModelInfo[]; error?: string }>;
+      supportedCommands: (sessionId: string) => Promise<{
+        commands: Array<{ name: string; description: string; argumentHint: string }>;
+        error?: string;
+      }>;
+      /** Custom commands from `<cwd>/.claude/commands` and `~/.claude/commands` */
+      localCommands: (cwd?: string) => Promise<{ commands: FileSlashCommand[]; error?: string }>;
       modelsCacheGet: () => Promise<{ models: ModelInfo[]; updatedAt?: number; error?: string }>;
       modelsCacheRevalidate: (options?: { cwd?: string }) => Promise<{ models: ModelInfo[]; updatedAt?: number; error?: string }>;
       mcpStatus: (sessionId: string) => Promise<{ servers: McpServerStatus[]; error?: string }>;
@@ -114,10 +128,23 @@ declare global {
         load: (projectId: string, sessionId: string) => Promise<PersistedSession | null>;
         list: (projectId: string) => Promise<SessionListItem[]>;
         delete: (projectId: string, sessionId: string) => Promise<{ ok?: boolean; error?: string }>;
-        search: (projectIds: string[], query: string) => Promise<{
-          messageResults: SearchMessageResult[];
-          sessionResults: SearchSessionResult[];
-        }>;
+        /** Ranked full-text search. Supports plain words, "phrases" and /regex/ queries. */
+        search: (
+          projectIds: string[],
+          query: string,
+          options?: { filters?: SearchFilters; offset?: number; limit?: number },
+        ) => Promise<SearchResults>;
+        /** Show a save dialog and write an already-rendered export to disk. */
+        export: (
+          format: "markdown" | "html" | "bundle",
+          defaultName: string,
+          content: string,
+        ) => Promise<{ ok?: boolean; filePath?: string; cancelled?: boolean; error?: string }>;
+        /** Pick a session bundle and import it into a project under fresh ids. */
+        importBundle: (
+          projectId: string,
+          cwd: string,
+        ) => Promise<{ ok?: boolean; session?: PersistedSession & { lastMessageAt?: number }; cancelled?: boolean; error?: string }>;
       };
       spaces: {
         list: () => Promise<Space[]>;
@@ -162,7 +189,8 @@ declare global {
         push: (cwd: string) => Promise<{ ok?: boolean; output?: string; error?: string }>;
         pull: (cwd: string) => Promise<{ ok?: boolean; output?: string; error?: string }>;
         fetch: (cwd: string) => Promise<{ ok?: boolean; output?: string; error?: string }>;
-        diffFile: (cwd: string, file: string, staged: boolean) => Promise<{ diff?: string; error?: string }>;
+        /** `base` diffs against a revision (e.g. "HEAD", "main...HEAD", "<sha>^!") instead of the index. */
+        diffFile: (cwd: string, file: string, staged: boolean, base?: string) => Promise<{ diff?: string; error?: string }>;
         log: (cwd: string, count?: number) => Promise<GitLogEntry[] | { error: string }>;
         generateCommitMessage: (
           cwd: string,
@@ -176,7 +204,10 @@ declare global {
         resize: (terminalId: string, cols: number, rows: number) => Promise<{ ok?: boolean; error?: string }>;
         destroy: (terminalId: string) => Promise<{ ok?: boolean }>;
         destroySpace: (spaceId: string) => Promise<{ ok?: boolean }>;
-        onData: (callback: (data: { terminalId: string; data: string }) => void) => () => void;
+        /** Buffered output of an ACP agent terminal — `seq` is the last data chunk it includes */
+        agentSnapshot: (terminalId: string) => Promise<{ output?: string; seq?: number; exited?: boolean; error?: string }>;
+        /** `seq` is set on agent terminal output only */
+        onData: (callback: (data: { terminalId: string; data: string; seq?: number }) => void) => () => void;
         onExit: (callback: (data: { terminalId: string; exitCode: number }) => void) => () => void;
       };
       acp: {
@@ -186,27 +217,47 @@ declare global {
           agentSessionId?: string;
           agentName?: string;
           configOptions?: ACPConfigOption[];
+          modes?: ACPSessionModeState | null;
           mcpStatuses?: Array<{ name: string; status: string }>;
           error?: string;
           cancelled?: boolean;
         }>;
-        prompt: (sessionId: string, text: string, images?: unknown[]) => Promise<{ ok?: boolean; error?: string }>;
+        /** `context` carries the message's @-mentions separately from the inlined `text` */
+        prompt: (sessionId: string, text: string, images?: unknown[], context?: ACPPromptContext) => Promise<{ ok?: boolean; error?: string }>;
         stop: (sessionId: string) => Promise<{ ok?: boolean; error?: string }>;
         reloadSession: (sessionId: string, mcpServers?: McpServerConfig[]) => Promise<{ ok?: boolean; supportsLoad?: boolean; error?: string }>;
-        reviveSession: (options: { agentId: string; cwd: string; agentSessionId?: string; mcpServers?: McpServerConfig[] }) => Promise<{ sessionId?: string; agentSessionId?: string; usedLoad?: boolean; configOptions?: ACPConfigOption[]; mcpStatuses?: Array<{ name: string; status: string }>; error?: string }>;
+        reviveSession: (options: { agentId: string; cwd: string; agentSessionId?: string; mcpServers?: McpServerConfig[] }) => Promise<{ sessionId?: string; agentSessionId?: string; usedLoad?: boolean; configOptions?: ACPConfigOption[]; modes?: ACPSessionModeState | null; mcpStatuses?: Array<{ name: string; status: string }>; error?: string }>;
         cancel: (sessionId: string) => Promise<{ ok?: boolean; error?: string }>;
         abortPendingStart: () => Promise<{ ok?: boolean }>;
-        respondPermission: (sessionId: string, requestId: string, optionId: string) => Promise<{ ok?: boolean; error?: string }>;
+        respondPermission: (
+          sessionId: string,
+          requestId: string,
+          optionId: string,
+          review?: { content?: string; message?: string },
+        ) => Promise<{ ok?: boolean; error?: string }>;
         setConfig: (sessionId: string, configId: string, value: string) => Promise<{ configOptions?: ACPConfigOption[]; error?: string }>;
         getConfigOptions: (sessionId: string) => Promise<{ configOptions?: ACPConfigOption[] }>;
+        getAvailableCommands: (sessionId: string) => Promise<{ commands: ACPAvailableCommand[] }>;
+        getModes: (sessionId: string) => Promise<{ modes: ACPSessionModeState | null }>;
+        setMode: (sessionId: string, modeId: string) => Promise<{ ok?: boolean; error?: string }>;
+        /** Spawn the agent, open a throwaway session and send a trivial prompt — timings per step */
+        healthCheck: (agentId: string) => Promise<{ result?: ACPHealthCheckResult; error?: string }>;
+        /** Sign in with one of the methods from an `onAuthRequired` request — on success the waiting start continues */
+        authenticate: (requestId: string, methodId: string) => Promise<{ ok?: boolean; error?: string }>;
+        cancelAuth: (requestId: string) => Promise<{ ok?: boolean }>;
+        onAuthRequired: (callback: (data: ACPAuthRequestEvent) => void) => () => void;
+        /** The agent exited while its sign-in request was open */
+        onAuthDismissed: (callback: (data: { requestId: string }) => void) => () => void;
         onEvent: (callback: (data: ACPSessionEvent) => void) => () => void;
         onPermissionRequest: (callback: (data: ACPPermissionEvent) => void) => () => void;
         onTurnComplete: (callback: (data: ACPTurnCompleteEvent) => void) => () => void;
         onExit: (callback: (data: { _sessionId: string; code: number | null; error?: string }) => void) => () => void;
+        onTerminal: (callback: (data: ACPTerminalEvent) => void) => () => void;
+        onTerminalsDisposed: (callback: (data: { _sessionId: string }) => void) => () => void;
       };
       codex: {
         log: (label: string, data: unknown) => void;
-        start: (options: { cwd: string; model?: string; approvalPolicy?: string; personality?: string; collaborationMode?: CollaborationMode }) =>
+        start: (options: { cwd: string; model?: string; approvalPolicy?: string; sandbox?: CodexSandboxSettings; personality?: string; collaborationMode?: CollaborationMode; mcpServers?: McpServerConfig[] }) =>
           Promise<{
             sessionId?: string;
             threadId?: string;
@@ -218,9 +269,17 @@ declare global {
           }>;
         send: (sessionId: string, text: string, images?: CodexImageInput[], effort?: string, collaborationMode?: CollaborationMode) =>
           Promise<{ turnId?: string; error?: string }>;
+        /** Append input to the running turn (`turn/steer`) — errors when no turn is active */
+        steer: (sessionId: string, text: string, images?: CodexImageInput[]) =>
+          Promise<{ turnId?: string; error?: string }>;
         stop: (sessionId: string) => Promise<void>;
         interrupt: (sessionId: string) => Promise<{ error?: string }>;
-        respondApproval: (sessionId: string, rpcId: string | number, decision: string, acceptSettings?: unknown) =>
+        respondApproval: (
+          sessionId: string,
+          rpcId: string | number,
+          decision: string | CodexCommandApprovalDecision,
+          acceptSettings?: unknown,
+        ) =>
           Promise<void>;
         respondUserInput: (
           sessionId: string,
@@ -235,11 +294,48 @@ declare global {
         ) => Promise<void>;
         compact: (sessionId: string) => Promise<{ error?: string }>;
         listModels: () => Promise<{ models: CodexModel[]; error?: string }>;
+        /** Custom prompts from `$CODEX_HOME/prompts` */
+        listPrompts: () => Promise<{ prompts: FileSlashCommand[]; error?: string }>;
+        /** Threads recorded for `cwd`, most recently updated first (turns not included) */
+        listThreads: (cwd: string, options?: { archived?: boolean; cursor?: string | null }) =>
+          Promise<{ threads: CodexThread[]; nextCursor: string | null; error?: string }>;
+        readThread: (threadId: string) => Promise<{ thread?: CodexThread; error?: string }>;
+        archiveThread: (threadId: string, archived: boolean) => Promise<{ ok?: boolean; error?: string }>;
+        /** Effective config as seen from `cwd`, with per-key origins, every layer, and startup warnings */
+        configRead: (cwd?: string) =>
+          Promise<Partial<CodexConfigReadResponse> & { warnings?: CodexConfigWarning[]; error?: string }>;
+        /** Writes to the user config.toml, or to `filePath` (e.g. a project's .codex/config.toml) */
+        configWrite: (
+          edits: CodexConfigEdit[],
+          options?: { filePath?: string | null; expectedVersion?: string | null },
+        ) => Promise<Partial<CodexConfigWriteResponse> & { ok?: boolean; error?: string }>;
+        /** Skills per cwd — repo skills for each project plus user/system/admin ones */
+        listSkills: (cwds: string[], forceReload?: boolean) =>
+          Promise<{ entries: CodexSkillsListEntry[]; error?: string }>;
+        setSkillEnabled: (path: string, enabled: boolean) =>
+          Promise<{ ok?: boolean; effectiveEnabled?: boolean; error?: string }>;
+        listRemoteSkills: (scope?: CodexSkillsRemoteReadParams["hazelnutScope"]) =>
+          Promise<{ skills: CodexRemoteSkill[]; error?: string }>;
+        installRemoteSkill: (id: string) => Promise<{ ok?: boolean; path?: string; error?: string }>;
         authStatus: () => Promise<{ account: unknown; requiresOpenaiAuth: boolean }>;
         login: (sessionId: string, type: "apiKey" | "chatgpt", apiKey?: string) => Promise<unknown>;
-        resume: (options: { cwd: string; threadId: string; model?: string; approvalPolicy?: string }) =>
+        resume: (options: { cwd: string; threadId: string; model?: string; approvalPolicy?: string; sandbox?: CodexSandboxSettings; mcpServers?: McpServerConfig[] }) =>
           Promise<{ sessionId?: string; threadId?: string; error?: string }>;
+        fork: (options: { cwd: string; threadId: string; dropTurns: number; model?: string; approvalPolicy?: string; sandbox?: CodexSandboxSettings; mcpServers?: McpServerConfig[] }) =>
+          Promise<{ sessionId?: string; threadId?: string; error?: string }>;
+        review: (sessionId: string, target: CodexReviewTarget) => Promise<{ turnId?: string; error?: string }>;
+        rollback: (sessionId: string, numTurns: number) => Promise<{ ok?: boolean; error?: string }>;
+        revertFiles: (sessionId: string, checkpointId: string) =>
+          Promise<{ ok?: boolean; restored?: string[]; removed?: string[]; error?: string }>;
+        /** Delete the thread's snapshot ref once its session is gone */
+        dropSnapshots: (cwd: string, threadId: string) => Promise<{ ok?: boolean; error?: string }>;
+        mcpStatus: (sessionId: string) => Promise<{ servers: McpServerStatus[]; error?: string }>;
+        /** Account usage — read through the session's app-server when it's live, else the last snapshot seen */
+        rateLimits: (sessionId?: string) => Promise<{ rateLimits?: CodexRateLimitSnapshot; error?: string }>;
         setModel: (sessionId: string, model: string) => Promise<{ error?: string }>;
+        /** Sandbox for the session's next turns — `null` stops overriding Codex config */
+        setSandbox: (sessionId: string, sandbox: CodexSandboxSettings | null) => Promise<{ error?: string }>;
+        pickWritableRoot: () => Promise<{ paths?: string[]; cancelled?: boolean; error?: string }>;
         version: () => Promise<{ version?: string; error?: string }>;
         onEvent: (callback: (data: CodexSessionEvent) => void) => () => void;
         onApprovalRequest: (callback: (data: CodexServerRequest) => void) => () => void;
@@ -258,10 +354,29 @@ declare global {
         save: (agent: InstalledAgent) => Promise<{ ok?: boolean; error?: string }>;
         delete: (id: string) => Promise<{ ok?: boolean; error?: string }>;
         updateCachedConfig: (agentId: string, configOptions: ACPConfigOption[]) => Promise<{ ok?: boolean }>;
+        updateCachedModes: (agentId: string, modes: ACPSessionModeState) => Promise<{ ok?: boolean }>;
         /** Batch-check if binary-only agents are installed on the system PATH. */
         checkBinaries: (
           agents: Array<{ id: string; binary: Record<string, { cmd: string; args?: string[] }> }>,
         ) => Promise<Record<string, { path: string; args?: string[] } | null>>;
+        /** Registry platform key for this machine (e.g. "darwin-aarch64"), null if unsupported. */
+        platformKey: () => Promise<string | null>;
+        /** Load every enabled registry source; failed sources fall back to their offline cache. */
+        fetchRegistries: (force?: boolean) => Promise<{ sources: RegistrySourceResult[] }>;
+        /** Download, verify and extract a binary-distribution agent into the managed agents dir. */
+        installBinary: (agent: RegistryAgent) => Promise<{ ok?: boolean; agent?: InstalledAgent; error?: string }>;
+        /** Switch a managed agent back to the version installed before its last update. */
+        rollback: (id: string) => Promise<{ ok?: boolean; agent?: InstalledAgent; error?: string }>;
+      };
+      /** Opt-in per-session recording of agent protocol traffic */
+      inspector: {
+        setRecording: (sessionId: string, enabled: boolean) => Promise<{ ok?: boolean }>;
+        get: (sessionId: string) => Promise<ProtocolRecordingState>;
+        clear: (sessionId: string) => Promise<{ ok?: boolean }>;
+        /** New entries from every recording session, batched */
+        onEntries: (callback: (entries: ProtocolEntry[]) => void) => () => void;
+        /** A recording stopped because its session's engine stopped or exited */
+        onEnded: (callback: (data: { sessionId: string }) => void) => () => void;
       };
       settings: {
         get: () => Promise<AppSettings>;